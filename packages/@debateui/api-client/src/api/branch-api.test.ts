@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import * as TE from 'fp-ts/TaskEither';
 import * as E from 'fp-ts/Either';
 import { createBranchApi, type BranchApiClient } from './branch-api';
-import type { HttpClient } from './debate-api';
+import type { HttpClient } from '../client/http-client';
 import type { BranchInfo, TurnResponse, ApiError } from '@debateui/core';
 import { networkError, notFoundError, serverError } from '@debateui/core';
 
@@ -62,7 +62,8 @@ describe('BranchApiClient', () => {
       }
 
       expect(mockHttpClient.get).toHaveBeenCalledWith(
-        `/api/debates/${debateId}/branches`
+        `/api/debates/${debateId}/branches`,
+        {}
       );
     });
 
@@ -105,6 +106,29 @@ describe('BranchApiClient', () => {
         expect(result.left._tag).toBe('NotFoundError');
       }
     });
+
+    it('should reject a malformed branch list with a validation error', async () => {
+      vi.mocked(mockHttpClient.get).mockReturnValue(
+        TE.right([mockBranchInfo, { ...mockBranchInfo, depth: 'deep' }])
+      );
+
+      const result = await branchApi.listBranches('debate-123')();
+
+      expect(E.isLeft(result)).toBe(true);
+      if (E.isLeft(result) && result.left._tag === 'ValidationError') {
+        expect(result.left.errors.issues[0]?.path).toEqual([1, 'depth']);
+      } else {
+        expect.fail('expected a ValidationError');
+      }
+    });
+
+    it('should reject a branch list that is not an array', async () => {
+      vi.mocked(mockHttpClient.get).mockReturnValue(TE.right({ branches: [mockBranchInfo] }));
+
+      const result = await branchApi.listBranches('debate-123')();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('ValidationError');
+    });
   });
 
   describe('getBranch', () => {
@@ -124,7 +148,8 @@ describe('BranchApiClient', () => {
       }
 
       expect(mockHttpClient.get).toHaveBeenCalledWith(
-        `/api/debates/${debateId}/branches/${branchId}`
+        `/api/debates/${debateId}/branches/${branchId}`,
+        {}
       );
     });
 
@@ -142,6 +167,15 @@ describe('BranchApiClient', () => {
         expect(result.left._tag).toBe('NotFoundError');
       }
     });
+
+    it('should reject a malformed branch with a validation error', async () => {
+      const { branchId: _, ...withoutId } = mockBranchInfo;
+      vi.mocked(mockHttpClient.get).mockReturnValue(TE.right(withoutId));
+
+      const result = await branchApi.getBranch('debate-123', 'branch-456')();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('ValidationError');
+    });
   });
 
   describe('createFork', () => {
@@ -171,7 +205,8 @@ describe('BranchApiClient', () => {
           content: options.content,
           forkMode: options.forkMode,
           name: options.name,
-        }
+        },
+        { idempotencyKey: expect.any(String) }
       );
     });
 
@@ -199,7 +234,8 @@ describe('BranchApiClient', () => {
         {
           content: options.content,
           forkMode: options.forkMode,
-        }
+        },
+        { idempotencyKey: expect.any(String) }
       );
     });
 
@@ -240,6 +276,19 @@ describe('BranchApiClient', () => {
         expect(result.left._tag).toBe('NotFoundError');
       }
     });
+
+    it('should reject a malformed fork response with a validation error', async () => {
+      vi.mocked(mockHttpClient.post).mockReturnValue(
+        TE.right({ ...mockBranchInfo, forkMode: 'sideways' })
+      );
+
+      const result = await branchApi.createFork('debate-123', 'turn-789', {
+        content: 'What if...',
+        forkMode: 'explore',
+      })();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('ValidationError');
+    });
   });
 
   describe('getBranchTurns', () => {
@@ -260,7 +309,20 @@ describe('BranchApiClient', () => {
       }
 
       expect(mockHttpClient.get).toHaveBeenCalledWith(
-        `/api/debates/${debateId}/branches/${branchId}/turns`
+        `/api/debates/${debateId}/branches/${branchId}/turns`,
+        {}
+      );
+    });
+
+    it('should pass the abort signal to the request', async () => {
+      const controller = new AbortController();
+      vi.mocked(mockHttpClient.get).mockReturnValue(TE.right([]));
+
+      await branchApi.getBranchTurns('debate-123', 'branch-456', { signal: controller.signal })();
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith(
+        '/api/debates/debate-123/branches/branch-456/turns',
+        { signal: controller.signal }
       );
     });
 
@@ -292,6 +354,21 @@ describe('BranchApiClient', () => {
         expect(result.left._tag).toBe('NotFoundError');
       }
     });
+
+    it('should reject malformed turns with a validation error', async () => {
+      vi.mocked(mockHttpClient.get).mockReturnValue(
+        TE.right([{ ...mockTurnResponse, content: undefined }])
+      );
+
+      const result = await branchApi.getBranchTurns('debate-123', 'branch-456')();
+
+      expect(E.isLeft(result)).toBe(true);
+      if (E.isLeft(result) && result.left._tag === 'ValidationError') {
+        expect(result.left.errors.issues[0]?.path).toEqual([0, 'content']);
+      } else {
+        expect.fail('expected a ValidationError');
+      }
+    });
   });
 
   describe('deleteBranch', () => {
@@ -311,7 +388,8 @@ describe('BranchApiClient', () => {
       }
 
       expect(mockHttpClient.delete).toHaveBeenCalledWith(
-        `/api/debates/${debateId}/branches/${branchId}`
+        `/api/debates/${debateId}/branches/${branchId}`,
+        {}
       );
     });
 
@@ -366,7 +444,9 @@ describe('BranchApiClient', () => {
       }
 
       expect(mockHttpClient.post).toHaveBeenCalledWith(
-        `/api/debates/${debateId}/branches/${branchId}/merge`
+        `/api/debates/${debateId}/branches/${branchId}/merge`,
+        undefined,
+        {}
       );
     });
 
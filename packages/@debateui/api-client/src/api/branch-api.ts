@@ -1,17 +1,24 @@
 import * as TE from 'fp-ts/TaskEither';
+import { pipe } from 'fp-ts/function';
 import type { ApiError, BranchInfo, TurnResponse, ForkMode } from '@debateui/core';
-import type { HttpClient } from './debate-api';
+import { parseBranchInfo, parseTurnResponse } from '@debateui/core';
+import { v4 as uuidv4 } from 'uuid';
+import type { HttpClient } from '../client/http-client';
+import { withSignal, type CallOptions } from './debate-api';
+import { decode, arrayOf } from './decode';
 
 /**
  * Options for creating a fork
  */
-export interface CreateForkOptions {
+export interface CreateForkOptions extends CallOptions {
   /** Content for the fork's first turn */
   readonly content: string;
   /** Fork mode: 'save' persists the branch, 'explore' is temporary */
   readonly forkMode: ForkMode;
   /** Optional name for the branch */
   readonly name?: string;
+  /** Idempotency key to reuse when retrying the same fork */
+  readonly idempotencyKey?: string;
 }
 
 /**
@@ -21,20 +28,31 @@ export interface BranchApiClient {
   /**
    * List all branches for a debate
    * @param debateId - The debate ID
+   * @param options - Abort signal for the request
    * @returns TaskEither with list of branch information
    */
-  readonly listBranches: (debateId: string) => TE.TaskEither<ApiError, readonly BranchInfo[]>;
+  readonly listBranches: (
+    debateId: string,
+    options?: CallOptions
+  ) => TE.TaskEither<ApiError, readonly BranchInfo[]>;
 
   /**
    * Get a specific branch
    * @param debateId - The debate ID
    * @param branchId - The branch ID
+   * @param options - Abort signal for the request
    * @returns TaskEither with branch information
    */
-  readonly getBranch: (debateId: string, branchId: string) => TE.TaskEither<ApiError, BranchInfo>;
+  readonly getBranch: (
+    debateId: string,
+    branchId: string,
+    options?: CallOptions
+  ) => TE.TaskEither<ApiError, BranchInfo>;
 
   /**
-   * Create a fork from a specific turn
+   * Create a fork from a specific turn.
+   * The returned task carries one idempotency key, so running it again
+   * after a timeout cannot create a second branch.
    * @param debateId - The debate ID
    * @param turnId - The turn ID to fork from
    * @param options - Fork creation options
@@ -50,28 +68,40 @@ export interface BranchApiClient {
    * Get turns in a specific branch
    * @param debateId - The debate ID
    * @param branchId - The branch ID
+   * @param options - Abort signal for the request
    * @returns TaskEither with list of turns
    */
   readonly getBranchTurns: (
     debateId: string,
-    branchId: string
+    branchId: string,
+    options?: CallOptions
   ) => TE.TaskEither<ApiError, readonly TurnResponse[]>;
 
   /**
    * Delete a branch (only 'explore' mode branches)
    * @param debateId - The debate ID
    * @param branchId - The branch ID
+   * @param options - Abort signal for the request
    * @returns TaskEither with void on success
    */
-  readonly deleteBranch: (debateId: string, branchId: string) => TE.TaskEither<ApiError, void>;
+  readonly deleteBranch: (
+    debateId: string,
+    branchId: string,
+    options?: CallOptions
+  ) => TE.TaskEither<ApiError, void>;
 
   /**
    * Merge a branch back (only 'save' mode branches)
    * @param debateId - The debate ID
    * @param branchId - The branch ID
+   * @param options - Abort signal for the request
    * @returns TaskEither with void on success
    */
-  readonly mergeBranch: (debateId: string, branchId: string) => TE.TaskEither<ApiError, void>;
+  readonly mergeBranch: (
+    debateId: string,
+    branchId: string,
+    options?: CallOptions
+  ) => TE.TaskEither<ApiError, void>;
 }
 
 /**
@@ -81,15 +111,20 @@ export interface BranchApiClient {
  */
 export const createBranchApi = (httpClient: HttpClient): BranchApiClient => {
   return {
-    listBranches: (debateId: string) => {
-      return httpClient.get<readonly BranchInfo[]>(
-        `/api/debates/${debateId}/branches`
+    listBranches: (debateId: string, options?: CallOptions) => {
+      return pipe(
+        httpClient.get<unknown>(`/api/debates/${debateId}/branches`, withSignal(options)),
+        TE.chainW(decode(arrayOf(parseBranchInfo)))
       );
     },
 
-    getBranch: (debateId: string, branchId: string) => {
-      return httpClient.get<BranchInfo>(
-        `/api/debates/${debateId}/branches/${branchId}`
+    getBranch: (debateId: string, branchId: string, options?: CallOptions) => {
+      return pipe(
+        httpClient.get<unknown>(
+          `/api/debates/${debateId}/branches/${branchId}`,
+          withSignal(options)
+        ),
+        TE.chainW(decode(parseBranchInfo))
       );
     },
 
@@ -104,27 +139,38 @@ export const createBranchApi = (httpClient: HttpClient): BranchApiClient => {
         body['name'] = options.name;
       }
 
-      return httpClient.post<BranchInfo>(
-        `/api/debates/${debateId}/turns/${turnId}/fork`,
-        body
+      return pipe(
+        httpClient.post<unknown>(
+          `/api/debates/${debateId}/turns/${turnId}/fork`,
+          body,
+          { ...withSignal(options), idempotencyKey: options.idempotencyKey ?? uuidv4() }
+        ),
+        TE.chainW(decode(parseBranchInfo))
       );
     },
 
-    getBranchTurns: (debateId: string, branchId: string) => {
-      return httpClient.get<readonly TurnResponse[]>(
-        `/api/debates/${debateId}/branches/${branchId}/turns`
+    getBranchTurns: (debateId: string, branchId: string, options?: CallOptions) => {
+      return pipe(
+        httpClient.get<unknown>(
+          `/api/debates/${debateId}/branches/${branchId}/turns`,
+          withSignal(options)
+        ),
+        TE.chainW(decode(arrayOf(parseTurnResponse)))
       );
     },
 
-    deleteBranch: (debateId: string, branchId: string) => {
+    deleteBranch: (debateId: string, branchId: string, options?: CallOptions) => {
       return httpClient.delete<void>(
-        `/api/debates/${debateId}/branches/${branchId}`
+        `/api/debates/${debateId}/branches/${branchId}`,
+        withSignal(options)
       );
     },
 
-    mergeBranch: (debateId: string, branchId: string) => {
+    mergeBranch: (debateId: string, branchId: string, options?: CallOptions) => {
       return httpClient.post<void>(
-        `/api/debates/${debateId}/branches/${branchId}/merge`
+        `/api/debates/${debateId}/branches/${branchId}/merge`,
+        undefined,
+        withSignal(options)
       );
     },
   };
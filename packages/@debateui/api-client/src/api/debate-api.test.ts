@@ -1,28 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import * as TE from 'fp-ts/TaskEither';
-import {
-  createDebateApi,
-  type DebateApiClient,
-} from './debate-api';
+import { createDebateApi, type DebateApiClient } from './debate-api';
+import type { HttpClient } from '../client/http-client';
 import type {
   DebateConfig,
+  DebateListResponse,
   DebateResponse,
   TurnResponse,
-  ApiError,
 } from '@debateui/core';
 import { validationError, notFoundError, serverError } from '@debateui/core';
 import { z } from 'zod';
 
-/**
- * Mock HttpClient interface for testing
- */
-interface HttpClient {
-  get<T>(url: string): TE.TaskEither<ApiError, T>;
-  post<T>(url: string, body?: unknown): TE.TaskEither<ApiError, T>;
-  put<T>(url: string, body?: unknown): TE.TaskEither<ApiError, T>;
-  delete<T>(url: string): TE.TaskEither<ApiError, T>;
-}
-
 describe('DebateApiClient', () => {
   let mockHttpClient: HttpClient;
   let debateApi: DebateApiClient;
@@ -54,7 +42,37 @@ describe('DebateApiClient', () => {
       const result = await debateApi.createDebate(validConfig)();
 
       expect(result).toEqual({ _tag: 'Right', right: expectedResponse });
-      expect(mockHttpClient.post).toHaveBeenCalledWith('/api/debates', validConfig);
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/api/debates', validConfig, { idempotencyKey: expect.any(String) });
+    });
+
+    it('should use a new idempotency key for each debate', () => {
+      vi.mocked(mockHttpClient.post).mockReturnValue(TE.right({ debateId: 'd1' }));
+
+      debateApi.createDebate(validConfig);
+      debateApi.createDebate(validConfig);
+
+      const keys = vi.mocked(mockHttpClient.post).mock.calls.map((call) => call[2]?.idempotencyKey);
+      expect(keys[0]).not.toBe(keys[1]);
+    });
+
+    it('should reuse a given idempotency key', () => {
+      vi.mocked(mockHttpClient.post).mockReturnValue(TE.right({ debateId: 'd1' }));
+
+      debateApi.createDebate(validConfig, { idempotencyKey: 'launch-1' });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/api/debates', validConfig, { idempotencyKey: 'launch-1' });
+    });
+
+    it('should pass the abort signal along with the idempotency key', async () => {
+      const controller = new AbortController();
+      vi.mocked(mockHttpClient.post).mockReturnValue(TE.right({}));
+
+      await debateApi.createDebate(validConfig, { idempotencyKey: 'launch-1', signal: controller.signal })();
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/api/debates', validConfig, {
+        signal: controller.signal,
+        idempotencyKey: 'launch-1',
+      });
     });
 
     it('should return validation error for invalid config', async () => {
@@ -94,6 +112,7 @@ describe('DebateApiClient', () => {
       const expectedResponse: DebateResponse = {
         debateId,
         status: 'running',
+        participants: ['claude', 'gpt-4'],
         question: 'What is the meaning of life?',
         currentRound: 2,
         totalRounds: 3,
@@ -106,7 +125,18 @@ describe('DebateApiClient', () => {
       const result = await debateApi.getDebate(debateId)();
 
       expect(result).toEqual({ _tag: 'Right', right: expectedResponse });
-      expect(mockHttpClient.get).toHaveBeenCalledWith(`/api/debates/${debateId}`);
+      expect(mockHttpClient.get).toHaveBeenCalledWith(`/api/debates/${debateId}`, {});
+    });
+
+    it('should pass the abort signal to the request', async () => {
+      const controller = new AbortController();
+      vi.mocked(mockHttpClient.get).mockReturnValue(TE.right({}));
+
+      await debateApi.getDebate(debateId, { signal: controller.signal })();
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith(`/api/debates/${debateId}`, {
+        signal: controller.signal,
+      });
     });
 
     it('should return not found error for non-existent debate', async () => {
@@ -137,6 +167,87 @@ describe('DebateApiClient', () => {
     });
   });
 
+  describe('listDebates', () => {
+    const page: DebateListResponse = {
+      debates: [
+        {
+          debateId: '123e4567-e89b-12d3-a456-426614174000',
+          status: 'completed',
+          question: 'What is the meaning of life?',
+          participants: ['claude-3.5-sonnet', 'gpt-4'],
+          currentRound: 3,
+          totalRounds: 3,
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T01:00:00Z',
+        },
+      ],
+      nextCursor: 'cursor-2',
+    };
+
+    it('should fetch the first page without a query', async () => {
+      vi.mocked(mockHttpClient.get).mockReturnValue(TE.right(page));
+
+      const result = await debateApi.listDebates()();
+
+      expect(result).toEqual({ _tag: 'Right', right: page });
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/debates', {});
+    });
+
+    it('should send filters, sorting and cursor as query parameters', async () => {
+      vi.mocked(mockHttpClient.get).mockReturnValue(TE.right(page));
+
+      await debateApi.listDebates({
+        status: ['running', 'paused'],
+        participants: ['gpt-4'],
+        question: 'meaning of life',
+        createdAfter: '2024-01-01T00:00:00Z',
+        sortBy: 'updatedAt',
+        sortOrder: 'asc',
+        cursor: 'cursor-2',
+        limit: 10,
+      })();
+
+      const [url] = vi.mocked(mockHttpClient.get).mock.calls[0] ?? [];
+      const params = new URL(url ?? '', 'http://localhost').searchParams;
+      expect(params.getAll('status')).toEqual(['running', 'paused']);
+      expect(params.getAll('participants')).toEqual(['gpt-4']);
+      expect(Object.fromEntries([...params].filter(([name]) => name !== 'status'))).toEqual({
+        participants: 'gpt-4',
+        question: 'meaning of life',
+        createdAfter: '2024-01-01T00:00:00Z',
+        sortBy: 'updatedAt',
+        sortOrder: 'asc',
+        cursor: 'cursor-2',
+        limit: '10',
+      });
+    });
+
+    it('should leave out an empty question', async () => {
+      vi.mocked(mockHttpClient.get).mockReturnValue(TE.right(page));
+
+      await debateApi.listDebates({ question: '', status: [] })();
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/debates', {});
+    });
+
+    it('should pass the abort signal to the request', async () => {
+      const controller = new AbortController();
+      vi.mocked(mockHttpClient.get).mockReturnValue(TE.right(page));
+
+      await debateApi.listDebates({}, { signal: controller.signal })();
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/debates', { signal: controller.signal });
+    });
+
+    it('should reject a malformed page', async () => {
+      vi.mocked(mockHttpClient.get).mockReturnValue(TE.right({ debates: [{ debateId: 'nope' }] }));
+
+      const result = await debateApi.listDebates()();
+
+      expect(result).toMatchObject({ _tag: 'Left', left: { _tag: 'ValidationError' } });
+    });
+  });
+
   describe('startDebate', () => {
     const debateId = '123e4567-e89b-12d3-a456-426614174000';
 
@@ -146,7 +257,7 @@ describe('DebateApiClient', () => {
       const result = await debateApi.startDebate(debateId)();
 
       expect(result).toEqual({ _tag: 'Right', right: undefined });
-      expect(mockHttpClient.post).toHaveBeenCalledWith(`/api/debates/${debateId}/start`);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(`/api/debates/${debateId}/start`, undefined, {});
     });
 
     it('should return not found error for non-existent debate', async () => {
@@ -177,7 +288,7 @@ describe('DebateApiClient', () => {
       const result = await debateApi.pauseDebate(debateId)();
 
       expect(result).toEqual({ _tag: 'Right', right: undefined });
-      expect(mockHttpClient.post).toHaveBeenCalledWith(`/api/debates/${debateId}/pause`);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(`/api/debates/${debateId}/pause`, undefined, {});
     });
 
     it('should return not found error for non-existent debate', async () => {
@@ -199,7 +310,7 @@ describe('DebateApiClient', () => {
       const result = await debateApi.resumeDebate(debateId)();
 
       expect(result).toEqual({ _tag: 'Right', right: undefined });
-      expect(mockHttpClient.post).toHaveBeenCalledWith(`/api/debates/${debateId}/resume`);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(`/api/debates/${debateId}/resume`, undefined, {});
     });
 
     it('should return not found error for non-existent debate', async () => {
@@ -236,7 +347,7 @@ describe('DebateApiClient', () => {
       const result = await debateApi.getTurns(debateId)();
 
       expect(result).toEqual({ _tag: 'Right', right: expectedTurns });
-      expect(mockHttpClient.get).toHaveBeenCalledWith(`/api/debates/${debateId}/turns`);
+      expect(mockHttpClient.get).toHaveBeenCalledWith(`/api/debates/${debateId}/turns`, {});
     });
 
     it('should successfully fetch turns with branch ID', async () => {
@@ -246,7 +357,18 @@ describe('DebateApiClient', () => {
       const result = await debateApi.getTurns(debateId, branchId)();
 
       expect(result).toEqual({ _tag: 'Right', right: expectedTurns });
-      expect(mockHttpClient.get).toHaveBeenCalledWith(`/api/debates/${debateId}/turns?branchId=${branchId}`);
+      expect(mockHttpClient.get).toHaveBeenCalledWith(`/api/debates/${debateId}/turns?branchId=${branchId}`, {});
+    });
+
+    it('should encode the branch ID in the query', async () => {
+      vi.mocked(mockHttpClient.get).mockReturnValue(TE.right([]));
+
+      await debateApi.getTurns(debateId, 'main&limit=1')();
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith(
+        `/api/debates/${debateId}/turns?branchId=main%26limit%3D1`,
+        {}
+      );
     });
 
     it('should return not found error for non-existent debate', async () => {
@@ -299,7 +421,7 @@ describe('DebateApiClient', () => {
       const result = await debateApi.submitTurn(debateId, content)();
 
       expect(result).toEqual({ _tag: 'Right', right: expectedResponse });
-      expect(mockHttpClient.post).toHaveBeenCalledWith(`/api/debates/${debateId}/turns`, { content });
+      expect(mockHttpClient.post).toHaveBeenCalledWith(`/api/debates/${debateId}/turns`, { content }, { idempotencyKey: expect.any(String) });
     });
 
     it('should successfully submit a turn with branch ID', async () => {
@@ -319,7 +441,7 @@ describe('DebateApiClient', () => {
       const result = await debateApi.submitTurn(debateId, content, branchId)();
 
       expect(result).toEqual({ _tag: 'Right', right: expectedResponse });
-      expect(mockHttpClient.post).toHaveBeenCalledWith(`/api/debates/${debateId}/turns`, { content, branchId });
+      expect(mockHttpClient.post).toHaveBeenCalledWith(`/api/debates/${debateId}/turns`, { content, branchId }, { idempotencyKey: expect.any(String) });
     });
 
     it('should return not found error for non-existent debate', async () => {
@@ -376,6 +498,7 @@ describe('DebateApiClient', () => {
         debateId,
         status: 'running',
         question: config.question,
+        participants: config.participants,
         currentRound: 1,
         totalRounds: 2,
         turns: [],
@@ -2,84 +2,131 @@ import * as TE from 'fp-ts/TaskEither';
 import { pipe } from 'fp-ts/function';
 import type {
   DebateConfig,
+  DebateListQuery,
+  DebateListResponse,
   DebateResponse,
   TurnResponse,
   ApiError,
 } from '@debateui/core';
-import {
-  parseDebateResponse,
-  parseTurnResponse,
-  validationError,
-} from '@debateui/core';
+import { parseDebateListResponse, parseDebateResponse, parseTurnResponse } from '@debateui/core';
 import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import type { HttpClient, RequestOptions } from '../client/http-client';
+import { decode, fromSchema, arrayOf } from './decode';
 
 /**
- * HttpClient interface for dependency injection
- * Provides type-safe HTTP operations with fp-ts TaskEither
+ * Options accepted by every API call
  */
-export interface HttpClient {
-  get<T>(url: string): TE.TaskEither<ApiError, T>;
-  post<T>(url: string, body?: unknown): TE.TaskEither<ApiError, T>;
-  put<T>(url: string, body?: unknown): TE.TaskEither<ApiError, T>;
-  delete<T>(url: string): TE.TaskEither<ApiError, T>;
+export interface CallOptions {
+  /**
+   * Aborts the request, e.g. when the component that made it unmounts.
+   * The task then fails with a CancelledError.
+   */
+  readonly signal?: AbortSignal;
 }
 
+/**
+ * Options the API clients pass along with a request
+ */
+export interface ApiRequestOptions extends CallOptions {
+  /**
+   * Key identifying one logical operation, sent as `Idempotency-Key` so a
+   * retried POST cannot create a duplicate
+   */
+  readonly idempotencyKey?: string;
+}
+
+/**
+ * Request options carrying the abort signal of a call, if any
+ * @param options - Options of the API call
+ * @returns Options for the HTTP client
+ */
+export const withSignal = (options: CallOptions | undefined): RequestOptions =>
+  options?.signal ? { signal: options.signal } : {};
+
 /**
  * Debate API client interface
  * All methods return TaskEither for composable error handling
  */
 export interface DebateApiClient {
   /**
-   * Create a new debate with the given configuration
+   * Create a new debate with the given configuration.
+   * The returned task carries one idempotency key, so running it again
+   * after a timeout cannot create a second debate.
    * @param config - Debate configuration (question, participants, rounds, etc.)
+   * @param options - Idempotency key to reuse when retrying the same
+   *   operation, a new one is generated otherwise; abort signal
    * @returns TaskEither with debate ID on success, ApiError on failure
    */
-  createDebate(config: DebateConfig): TE.TaskEither<ApiError, { debateId: string }>;
+  createDebate(config: DebateConfig, options?: ApiRequestOptions): TE.TaskEither<ApiError, { debateId: string }>;
 
   /**
    * Get a debate by ID
    * @param debateId - UUID of the debate to retrieve
+   * @param options - Abort signal for the request
    * @returns TaskEither with DebateResponse on success, ApiError on failure
    */
-  getDebate(debateId: string): TE.TaskEither<ApiError, DebateResponse>;
+  getDebate(debateId: string, options?: CallOptions): TE.TaskEither<ApiError, DebateResponse>;
+
+  /**
+   * List past and running debates, one page at a time
+   * @param query - Filters, sort order and the cursor of the page to fetch;
+   *   newest first and the first page by default
+   * @param options - Abort signal for the request
+   * @returns TaskEither with a page of DebateSummary and the cursor of the
+   *   next page on success, ApiError on failure
+   */
+  listDebates(query?: DebateListQuery, options?: CallOptions): TE.TaskEither<ApiError, DebateListResponse>;
 
   /**
    * Start a debate (begin executing turns)
    * @param debateId - UUID of the debate to start
+   * @param options - Abort signal for the request
    * @returns TaskEither with void on success, ApiError on failure
    */
-  startDebate(debateId: string): TE.TaskEither<ApiError, void>;
+  startDebate(debateId: string, options?: CallOptions): TE.TaskEither<ApiError, void>;
 
   /**
    * Pause a running debate
    * @param debateId - UUID of the debate to pause
+   * @param options - Abort signal for the request
    * @returns TaskEither with void on success, ApiError on failure
    */
-  pauseDebate(debateId: string): TE.TaskEither<ApiError, void>;
+  pauseDebate(debateId: string, options?: CallOptions): TE.TaskEither<ApiError, void>;
 
   /**
    * Resume a paused debate
    * @param debateId - UUID of the debate to resume
+   * @param options - Abort signal for the request
    * @returns TaskEither with void on success, ApiError on failure
    */
-  resumeDebate(debateId: string): TE.TaskEither<ApiError, void>;
+  resumeDebate(debateId: string, options?: CallOptions): TE.TaskEither<ApiError, void>;
 
   /**
    * Get all turns for a debate, optionally filtered by branch
    * @param debateId - UUID of the debate
    * @param branchId - Optional UUID of specific branch to retrieve turns from
+   * @param options - Abort signal for the request
    * @returns TaskEither with array of TurnResponse on success, ApiError on failure
    */
-  getTurns(debateId: string, branchId?: string): TE.TaskEither<ApiError, TurnResponse[]>;
+  getTurns(debateId: string, branchId?: string, options?: CallOptions): TE.TaskEither<ApiError, TurnResponse[]>;
 
   /**
-   * Submit a human turn to a debate
+   * Submit a human turn to a debate.
+   * The returned task carries one idempotency key, like `createDebate`.
    * @param debateId - UUID of the debate
    * @param content - Text content of the turn
    * @param branchId - Optional UUID of branch to submit turn to
+   * @param options - Idempotency key to reuse when retrying the same turn;
+   *   abort signal
    * @returns TaskEither with TurnResponse on success, ApiError on failure
    */
-  submitTurn(debateId: string, content: string, branchId?: string): TE.TaskEither<ApiError, TurnResponse>;
+  submitTurn(
+    debateId: string,
+    content: string,
+    branchId?: string,
+    options?: ApiRequestOptions
+  ): TE.TaskEither<ApiError, TurnResponse>;
 }
 
 /**
@@ -90,9 +137,34 @@ const CreateDebateResponseSchema = z.object({
 }).strict();
 
 /**
- * Schema for array of turn responses
+ * Query string of a debate list query.
+ * List filters repeat their parameter, e.g. `status=running&status=paused`.
  */
-const TurnResponseArraySchema = z.array(z.unknown());
+const listQueryString = (query: DebateListQuery): string => {
+  const params = new URLSearchParams();
+  query.status?.forEach((status) => {
+    params.append('status', status);
+  });
+  query.participants?.forEach((participant) => {
+    params.append('participants', participant);
+  });
+  const single = {
+    question: query.question,
+    createdAfter: query.createdAfter,
+    createdBefore: query.createdBefore,
+    sortBy: query.sortBy,
+    sortOrder: query.sortOrder,
+    cursor: query.cursor,
+    limit: query.limit === undefined ? undefined : String(query.limit),
+  };
+  Object.entries(single).forEach(([name, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(name, value);
+    }
+  });
+  const queryString = params.toString();
+  return queryString === '' ? '' : `?${queryString}`;
+};
 
 /**
  * Factory function to create a DebateApiClient
@@ -116,95 +188,80 @@ const TurnResponseArraySchema = z.array(z.unknown());
  */
 export const createDebateApi = (httpClient: HttpClient): DebateApiClient => {
   return {
-    createDebate: (config: DebateConfig): TE.TaskEither<ApiError, { debateId: string }> => {
+    createDebate: (config: DebateConfig, options?: ApiRequestOptions): TE.TaskEither<ApiError, { debateId: string }> => {
+      return pipe(
+        httpClient.post<unknown>('/api/debates', config, {
+          ...withSignal(options),
+          idempotencyKey: options?.idempotencyKey ?? uuidv4(),
+        }),
+        TE.chainW(decode(fromSchema(CreateDebateResponseSchema)))
+      );
+    },
+
+    getDebate: (debateId: string, options?: CallOptions): TE.TaskEither<ApiError, DebateResponse> => {
       return pipe(
-        httpClient.post<unknown>('/api/debates', config),
-        TE.chainW((response) => {
-          const parseResult = CreateDebateResponseSchema.safeParse(response);
-          if (parseResult.success) {
-            return TE.right(parseResult.data);
-          }
-          return TE.left(validationError(parseResult.error));
-        })
+        httpClient.get<unknown>(`/api/debates/${debateId}`, withSignal(options)),
+        TE.chainW(decode(parseDebateResponse))
       );
     },
 
-    getDebate: (debateId: string): TE.TaskEither<ApiError, DebateResponse> => {
+    listDebates: (query: DebateListQuery = {}, options?: CallOptions): TE.TaskEither<ApiError, DebateListResponse> => {
       return pipe(
-        httpClient.get<unknown>(`/api/debates/${debateId}`),
-        TE.chainW((response) => {
-          const parseResult = parseDebateResponse(response);
-          if (parseResult._tag === 'Right') {
-            return TE.right(parseResult.right);
-          }
-          return TE.left(validationError(parseResult.left));
-        })
+        httpClient.get<unknown>(`/api/debates${listQueryString(query)}`, withSignal(options)),
+        TE.chainW(decode(parseDebateListResponse))
       );
     },
 
-    startDebate: (debateId: string): TE.TaskEither<ApiError, void> => {
+    startDebate: (debateId: string, options?: CallOptions): TE.TaskEither<ApiError, void> => {
       return pipe(
-        httpClient.post<void>(`/api/debates/${debateId}/start`),
+        httpClient.post<void>(`/api/debates/${debateId}/start`, undefined, withSignal(options)),
         TE.map(() => undefined)
       );
     },
 
-    pauseDebate: (debateId: string): TE.TaskEither<ApiError, void> => {
+    pauseDebate: (debateId: string, options?: CallOptions): TE.TaskEither<ApiError, void> => {
       return pipe(
-        httpClient.post<void>(`/api/debates/${debateId}/pause`),
+        httpClient.post<void>(`/api/debates/${debateId}/pause`, undefined, withSignal(options)),
         TE.map(() => undefined)
       );
     },
 
-    resumeDebate: (debateId: string): TE.TaskEither<ApiError, void> => {
+    resumeDebate: (debateId: string, options?: CallOptions): TE.TaskEither<ApiError, void> => {
       return pipe(
-        httpClient.post<void>(`/api/debates/${debateId}/resume`),
+        httpClient.post<void>(`/api/debates/${debateId}/resume`, undefined, withSignal(options)),
         TE.map(() => undefined)
       );
     },
 
-    getTurns: (debateId: string, branchId?: string): TE.TaskEither<ApiError, TurnResponse[]> => {
+    getTurns: (
+      debateId: string,
+      branchId?: string,
+      options?: CallOptions
+    ): TE.TaskEither<ApiError, TurnResponse[]> => {
       const url = branchId
-        ? `/api/debates/${debateId}/turns?branchId=${branchId}`
+        ? `/api/debates/${debateId}/turns?${new URLSearchParams({ branchId }).toString()}`
         : `/api/debates/${debateId}/turns`;
 
       return pipe(
-        httpClient.get<unknown>(url),
-        TE.chainW((response) => {
-          // First validate it's an array
-          const arrayParseResult = TurnResponseArraySchema.safeParse(response);
-          if (!arrayParseResult.success) {
-            return TE.left(validationError(arrayParseResult.error));
-          }
-
-          // Then parse each turn
-          const turns: TurnResponse[] = [];
-          for (const item of arrayParseResult.data) {
-            const turnParseResult = parseTurnResponse(item);
-            if (turnParseResult._tag === 'Right') {
-              turns.push(turnParseResult.right);
-            } else {
-              return TE.left(validationError(turnParseResult.left));
-            }
-          }
-
-          return TE.right(turns);
-        })
+        httpClient.get<unknown>(url, withSignal(options)),
+        TE.chainW(decode(arrayOf(parseTurnResponse)))
       );
     },
 
-    submitTurn: (debateId: string, content: string, branchId?: string): TE.TaskEither<ApiError, TurnResponse> => {
+    submitTurn: (
+      debateId: string,
+      content: string,
+      branchId?: string,
+      options?: ApiRequestOptions
+    ): TE.TaskEither<ApiError, TurnResponse> => {
       const body = branchId ? { content, branchId } : { content };
 
       return pipe(
-        httpClient.post<unknown>(`/api/debates/${debateId}/turns`, body),
-        TE.chainW((response) => {
-          const parseResult = parseTurnResponse(response);
-          if (parseResult._tag === 'Right') {
-            return TE.right(parseResult.right);
-          }
-          return TE.left(validationError(parseResult.left));
-        })
+        httpClient.post<unknown>(`/api/debates/${debateId}/turns`, body, {
+          ...withSignal(options),
+          idempotencyKey: options?.idempotencyKey ?? uuidv4(),
+        }),
+        TE.chainW(decode(parseTurnResponse))
       );
     },
   };
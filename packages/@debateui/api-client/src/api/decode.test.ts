@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import * as E from 'fp-ts/Either';
+import { z } from 'zod';
+import { arrayOf, decode, fromSchema } from './decode';
+
+const parseItem = fromSchema(z.object({ id: z.string() }));
+
+describe('decode', () => {
+  describe('fromSchema', () => {
+    it('yields the parsed payload', () => {
+      expect(parseItem({ id: 'a', extra: true })).toEqual(E.right({ id: 'a' }));
+    });
+
+    it('yields the zod error of a malformed payload', () => {
+      const result = parseItem({ id: 1 });
+
+      expect(E.isLeft(result) && result.left.issues[0]?.path).toEqual(['id']);
+    });
+  });
+
+  describe('arrayOf', () => {
+    it('parses every item', () => {
+      expect(arrayOf(parseItem)([{ id: 'a' }, { id: 'b' }])).toEqual(
+        E.right([{ id: 'a' }, { id: 'b' }])
+      );
+    });
+
+    it('reports issues of a malformed item under its index', () => {
+      const result = arrayOf(parseItem)([{ id: 'a' }, { id: 'b' }, {}]);
+
+      expect(E.isLeft(result) && result.left.issues.map((issue) => issue.path)).toEqual([[2, 'id']]);
+    });
+
+    it('rejects payloads that are not arrays', () => {
+      const result = arrayOf(parseItem)({ items: [] });
+
+      expect(E.isLeft(result) && result.left.issues[0]?.code).toBe('invalid_type');
+    });
+  });
+
+  describe('decode', () => {
+    it('passes a valid payload through', async () => {
+      expect(await decode(parseItem)({ id: 'a' })()).toEqual(E.right({ id: 'a' }));
+    });
+
+    it('fails a malformed payload with a ValidationError', async () => {
+      const result = await decode(parseItem)(null)();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('ValidationError');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import { z } from 'zod';
+import { validationError, type ApiError } from '@debateui/core';
+
+/**
+ * Parser for an unknown payload, like `parseBranchInfo` from core
+ */
+export type Parser<A> = (input: unknown) => E.Either<z.ZodError, A>;
+
+/**
+ * Turn a zod schema into a Parser
+ * @param schema - Schema the payload must match
+ * @returns Parser yielding the schema's output
+ */
+export const fromSchema =
+  <A>(schema: z.ZodType<A, z.ZodTypeDef, unknown>): Parser<A> =>
+  (input) => {
+    const result = schema.safeParse(input);
+    return result.success ? E.right(result.data) : E.left(result.error);
+  };
+
+/**
+ * Parser for an array whose items are parsed one by one.
+ * Issues of a malformed item are reported under its index, e.g.
+ * `[2, 'branchId']`.
+ *
+ * @param parse - Parser for a single item
+ * @returns Parser for an array of items
+ */
+export const arrayOf =
+  <A>(parse: Parser<A>): Parser<A[]> =>
+  (input) => {
+    const array = z.array(z.unknown()).safeParse(input);
+    if (!array.success) {
+      return E.left(array.error);
+    }
+
+    const items: A[] = [];
+    for (const [index, item] of array.data.entries()) {
+      const result = parse(item);
+      if (E.isLeft(result)) {
+        return E.left(
+          new z.ZodError(
+            result.left.issues.map((issue) => ({ ...issue, path: [index, ...issue.path] }))
+          )
+        );
+      }
+      items.push(result.right);
+    }
+    return E.right(items);
+  };
+
+/**
+ * Decode a response payload at the API boundary.
+ * Every endpoint that returns data goes through here, so a malformed payload
+ * fails the request with a ValidationError instead of reaching the UI.
+ *
+ * @param parse - Parser for the expected payload
+ * @returns Function for `TE.chainW` decoding the response
+ *
+ * @example
+ * ```typescript
+ * pipe(httpClient.get<unknown>(url), TE.chainW(decode(parseBranchInfo)));
+ * ```
+ */
+export const decode =
+  <A>(parse: Parser<A>) =>
+  (response: unknown): TE.TaskEither<ApiError, A> =>
+    pipe(parse(response), E.mapLeft(validationError), TE.fromEither);
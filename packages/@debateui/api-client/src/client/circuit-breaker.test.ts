@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as E from 'fp-ts/Either';
+import {
+  cancelledError,
+  networkError,
+  notFoundError,
+  serverError,
+  type ApiError,
+} from '@debateui/core';
+import { createCircuitBreaker, type CircuitState } from './circuit-breaker';
+import type { HttpHandler, HttpRequest, HttpResponse } from './middleware';
+
+const request: HttpRequest = {
+  method: 'get',
+  path: '/api/debates',
+  headers: {},
+  body: undefined,
+  options: {},
+};
+
+const ok: HttpResponse = { status: 200, headers: new Headers(), body: null };
+
+// A handler answering with the given outcome, which can be changed between requests
+const createBackend = (initial: E.Either<ApiError, HttpResponse>) => {
+  let outcome = initial;
+  const handler = vi.fn<HttpHandler>(() => () => Promise.resolve(outcome));
+  return {
+    handler,
+    answer: (next: E.Either<ApiError, HttpResponse>) => {
+      outcome = next;
+    },
+  };
+};
+
+describe('createCircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const policy = { failureThreshold: 3, windowMs: 1000, cooldownMs: 5000 };
+
+  it('opens after the threshold of failures within the window', async () => {
+    const breaker = createCircuitBreaker(policy);
+    const { handler } = createBackend(E.left(serverError(503, 'down')));
+    const send = breaker.middleware(handler);
+
+    await send(request)();
+    await send(request)();
+    expect(breaker.getState()).toBe('closed');
+
+    await send(request)();
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('forgets failures older than the window', async () => {
+    const breaker = createCircuitBreaker(policy);
+    const { handler } = createBackend(E.left(networkError('offline')));
+    const send = breaker.middleware(handler);
+
+    await send(request)();
+    await send(request)();
+    vi.advanceTimersByTime(1001);
+    await send(request)();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('does not count errors that prove the backend is up', async () => {
+    const breaker = createCircuitBreaker(policy);
+    const { handler } = createBackend(E.left(notFoundError('debate', 'd1')));
+    const send = breaker.middleware(handler);
+
+    for (let i = 0; i < 5; i++) {
+      await send(request)();
+    }
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('fails fast with ServiceUnavailableError while open', async () => {
+    const breaker = createCircuitBreaker(policy);
+    const { handler } = createBackend(E.left(serverError(500, 'down')));
+    const send = breaker.middleware(handler);
+    for (let i = 0; i < 3; i++) {
+      await send(request)();
+    }
+
+    vi.advanceTimersByTime(2000);
+    const result = await send(request)();
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(result).toEqual(
+      E.left({
+        _tag: 'ServiceUnavailableError',
+        message: 'The service is degraded; requests are paused',
+        retryAfterMs: 3000,
+      })
+    );
+  });
+
+  it('closes after a successful probe once the cooldown has passed', async () => {
+    const breaker = createCircuitBreaker(policy);
+    const backend = createBackend(E.left(serverError(500, 'down')));
+    const send = breaker.middleware(backend.handler);
+    for (let i = 0; i < 3; i++) {
+      await send(request)();
+    }
+
+    vi.advanceTimersByTime(5000);
+    backend.answer(E.right(ok));
+    const result = await send(request)();
+
+    expect(result).toEqual(E.right(ok));
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('reopens when the probe fails', async () => {
+    const breaker = createCircuitBreaker(policy);
+    const { handler } = createBackend(E.left(serverError(500, 'down')));
+    const send = breaker.middleware(handler);
+    for (let i = 0; i < 3; i++) {
+      await send(request)();
+    }
+
+    vi.advanceTimersByTime(5000);
+    await send(request)();
+
+    expect(breaker.getState()).toBe('open');
+    expect(E.isLeft(await send(request)())).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(4);
+  });
+
+  it('stays half-open and probes again when the probe is cancelled', async () => {
+    const breaker = createCircuitBreaker(policy);
+    const backend = createBackend(E.left(serverError(500, 'down')));
+    const send = breaker.middleware(backend.handler);
+    for (let i = 0; i < 3; i++) {
+      await send(request)();
+    }
+
+    vi.advanceTimersByTime(5000);
+    backend.answer(E.left(cancelledError()));
+    await send(request)();
+
+    expect(breaker.getState()).toBe('half-open');
+
+    backend.answer(E.left(serverError(500, 'down')));
+    await send(request)();
+
+    expect(breaker.getState()).toBe('open');
+    expect(backend.handler).toHaveBeenCalledTimes(5);
+  });
+
+  it('lets only one probe through at a time', async () => {
+    const breaker = createCircuitBreaker(policy);
+    const { handler } = createBackend(E.left(serverError(500, 'down')));
+    const send = breaker.middleware(handler);
+    for (let i = 0; i < 3; i++) {
+      await send(request)();
+    }
+    vi.advanceTimersByTime(5000);
+
+    let resolveProbe: (value: E.Either<ApiError, HttpResponse>) => void = () => undefined;
+    handler.mockImplementationOnce(() => () =>
+      new Promise((resolve) => {
+        resolveProbe = resolve;
+      })
+    );
+    const probe = send(request)();
+    const concurrent = await send(request)();
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(E.isLeft(concurrent) && concurrent.left._tag).toBe('ServiceUnavailableError');
+
+    resolveProbe(E.right(ok));
+    await probe;
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('notifies listeners of state changes until unsubscribed', async () => {
+    const breaker = createCircuitBreaker(policy);
+    const { handler } = createBackend(E.left(serverError(500, 'down')));
+    const send = breaker.middleware(handler);
+    const states: CircuitState[] = [];
+    const unsubscribe = breaker.onStateChange((state) => {
+      states.push(state);
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await send(request)();
+    }
+    breaker.reset();
+    unsubscribe();
+    for (let i = 0; i < 3; i++) {
+      await send(request)();
+    }
+
+    expect(states).toEqual(['open', 'closed']);
+    expect(breaker.getState()).toBe('open');
+  });
+});
@@ -0,0 +1,199 @@
+import * as E from 'fp-ts/Either';
+import { serviceUnavailableError, type ApiError } from '@debateui/core';
+import type { ApiErrorTag } from './retry';
+import type { Middleware } from './middleware';
+
+/**
+ * State of a circuit breaker.
+ * Closed lets requests through, open fails them without a request, and
+ * half-open lets a single probe through to test whether the backend is back.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * When a circuit breaker opens and for how long
+ */
+export interface CircuitBreakerPolicy {
+  /** Failures within the window that open the circuit */
+  failureThreshold: number;
+  /** Length of the failure window in milliseconds */
+  windowMs: number;
+  /** Time the circuit stays open before a probe is let through, in milliseconds */
+  cooldownMs: number;
+  /** Error tags counted as failures; anything else proves the backend is up */
+  tripOn: readonly ApiErrorTag[];
+}
+
+/**
+ * Default circuit breaker policy.
+ * Only server and network failures count: a 4xx means the backend answered.
+ */
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureThreshold: 5,
+  windowMs: 10000,
+  cooldownMs: 30000,
+  tripOn: ['NetworkError', 'ServerError'],
+};
+
+/**
+ * Listener for circuit state changes
+ */
+export type CircuitStateListener = (state: CircuitState) => void;
+
+/**
+ * Stops requests to a degraded backend.
+ * Share one breaker between all clients talking to the same backend.
+ */
+export interface CircuitBreaker {
+  /**
+   * Current state.
+   * An open circuit turns half-open with the first request after the
+   * cooldown, not when the cooldown ends.
+   */
+  getState: () => CircuitState;
+
+  /**
+   * Subscribe to state changes
+   * @returns Function that removes the listener
+   */
+  onStateChange: (listener: CircuitStateListener) => () => void;
+
+  /**
+   * Close the circuit and forget past failures
+   */
+  reset: () => void;
+
+  /**
+   * Middleware guarding requests with this breaker.
+   * While the circuit is open, requests fail with ServiceUnavailableError.
+   */
+  middleware: Middleware;
+}
+
+/**
+ * Creates a circuit breaker that opens after repeated failures within a
+ * window and probes the backend once the cooldown has passed.
+ *
+ * @param policy - Overrides for `DEFAULT_CIRCUIT_BREAKER_POLICY`
+ * @returns CircuitBreaker to pass to `createHttpClient`
+ *
+ * @example
+ * ```typescript
+ * const circuitBreaker = createCircuitBreaker({ failureThreshold: 3 });
+ * const httpClient = createHttpClient(baseUrl, { circuitBreaker });
+ *
+ * circuitBreaker.onStateChange((state) => showDegradedBanner(state !== 'closed'));
+ * ```
+ */
+export const createCircuitBreaker = (
+  policy: Partial<CircuitBreakerPolicy> = {}
+): CircuitBreaker => {
+  const resolved: CircuitBreakerPolicy = { ...DEFAULT_CIRCUIT_BREAKER_POLICY, ...policy };
+  let state: CircuitState = 'closed';
+  let failures: number[] = [];
+  let openedAt = 0;
+  let probing = false;
+  const listeners = new Set<CircuitStateListener>();
+
+  const transition = (next: CircuitState): void => {
+    if (next === state) {
+      return;
+    }
+    state = next;
+    listeners.forEach((listener) => {
+      listener(next);
+    });
+  };
+
+  const open = (now: number): void => {
+    openedAt = now;
+    failures = [];
+    transition('open');
+  };
+
+  const close = (): void => {
+    failures = [];
+    transition('closed');
+  };
+
+  /**
+   * Decide whether a request may go out: Right with whether it is the
+   * half-open probe, or Left with the error to fail it with
+   */
+  const admit = (now: number): E.Either<ApiError, boolean> => {
+    if (state === 'open') {
+      const remaining = openedAt + resolved.cooldownMs - now;
+      if (remaining > 0) {
+        return E.left(
+          serviceUnavailableError('The service is degraded; requests are paused', remaining)
+        );
+      }
+      transition('half-open');
+    }
+    if (state === 'half-open') {
+      if (probing) {
+        return E.left(
+          serviceUnavailableError('The service is degraded; waiting for a probe request', resolved.cooldownMs)
+        );
+      }
+      probing = true;
+      return E.right(true);
+    }
+    return E.right(false);
+  };
+
+  /**
+   * Record the outcome of a request that went out
+   */
+  const record = (result: E.Either<ApiError, unknown>, probe: boolean, now: number): void => {
+    const failed = E.isLeft(result) && resolved.tripOn.includes(result.left._tag);
+    if (probe) {
+      probing = false;
+      // A cancelled probe says nothing about the backend: the next request probes instead
+      if (E.isLeft(result) && result.left._tag === 'CancelledError') {
+        return;
+      }
+      if (failed) {
+        open(now);
+      } else {
+        close();
+      }
+      return;
+    }
+    // Late replies of requests sent before the circuit opened do not count
+    if (!failed || state !== 'closed') {
+      return;
+    }
+    failures = [...failures.filter((at) => at > now - resolved.windowMs), now];
+    if (failures.length >= resolved.failureThreshold) {
+      open(now);
+    }
+  };
+
+  const middleware: Middleware = (next) => (request) => async () => {
+    const admitted = admit(Date.now());
+    if (E.isLeft(admitted)) {
+      return admitted;
+    }
+    const result = await next(request)();
+    record(result, admitted.right, Date.now());
+    return result;
+  };
+
+  const onStateChange = (listener: CircuitStateListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    getState: () => state,
+    onStateChange,
+    reset: () => {
+      probing = false;
+      close();
+    },
+    middleware,
+  };
+};
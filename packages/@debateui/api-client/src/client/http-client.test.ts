@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { createHttpClient } from './http-client';
+import { createHttpClient, IDEMPOTENCY_CONFLICT } from './http-client';
+import { createTokenProvider } from './token-provider';
+import { createCircuitBreaker } from './circuit-breaker';
+import { onRequest, onResponse, onError, withHeaders, type Middleware } from './middleware';
+import { authError, conflictError, notFoundError, serverError } from '@debateui/core';
 import * as E from 'fp-ts/Either';
 import * as TE from 'fp-ts/TaskEither';
 import { pipe } from 'fp-ts/function';
@@ -103,7 +107,7 @@ describe('HttpClient', () => {
       const result = await client.get<TestResponse>('/test')();
 
       expect(mockKyInstance.get).toHaveBeenCalledWith(
-        '/test',
+        'test',
         expect.objectContaining({
           headers: expect.objectContaining({
             'X-Request-ID': expect.any(String),
@@ -128,7 +132,7 @@ describe('HttpClient', () => {
       })();
 
       expect(mockKyInstance.get).toHaveBeenCalledWith(
-        '/test',
+        'test',
         expect.objectContaining({
           searchParams: { filter: 'active', limit: '10' },
         })
@@ -148,7 +152,7 @@ describe('HttpClient', () => {
       const result = await client.post<TestResponse>('/test', mockRequest)();
 
       expect(mockKyInstance.post).toHaveBeenCalledWith(
-        '/test',
+        'test',
         expect.objectContaining({
           json: mockRequest,
           headers: expect.objectContaining({
@@ -172,7 +176,7 @@ describe('HttpClient', () => {
       const result = await client.post<TestResponse>('/test')();
 
       expect(mockKyInstance.post).toHaveBeenCalledWith(
-        '/test',
+        'test',
         expect.objectContaining({
           json: undefined,
         })
@@ -193,7 +197,7 @@ describe('HttpClient', () => {
       const result = await client.put<TestResponse>('/test/123', mockRequest)();
 
       expect(mockKyInstance.put).toHaveBeenCalledWith(
-        '/test/123',
+        'test/123',
         expect.objectContaining({
           json: mockRequest,
           headers: expect.objectContaining({
@@ -219,7 +223,7 @@ describe('HttpClient', () => {
       const result = await client.delete<{ success: boolean }>('/test/123')();
 
       expect(mockKyInstance.delete).toHaveBeenCalledWith(
-        '/test/123',
+        'test/123',
         expect.objectContaining({
           headers: expect.objectContaining({
             'X-Request-ID': expect.any(String),
@@ -233,6 +237,36 @@ describe('HttpClient', () => {
     });
   });
 
+  describe('Request paths and empty responses', () => {
+    it('should pass paths without a leading slash so ky can apply prefixUrl', async () => {
+      mockKyInstance.get.mockResolvedValue({
+        json: vi.fn().mockResolvedValue({}),
+      });
+
+      const client = createHttpClient('https://api.example.com');
+      await client.get('api/debates/123')();
+
+      expect(mockKyInstance.get).toHaveBeenCalledWith(
+        'api/debates/123',
+        expect.any(Object)
+      );
+    });
+
+    it('should return Right with undefined for 204 No Content', async () => {
+      const json = vi.fn().mockRejectedValue(new SyntaxError('Unexpected end of JSON input'));
+      mockKyInstance.post.mockResolvedValue({ status: 204, json });
+
+      const client = createHttpClient('https://api.example.com');
+      const result = await client.post<void>('/api/debates/123/start')();
+
+      expect(json).not.toHaveBeenCalled();
+      expect(E.isRight(result)).toBe(true);
+      if (E.isRight(result)) {
+        expect(result.right).toBeUndefined();
+      }
+    });
+  });
+
   describe('Error handling - Network errors', () => {
     it('should return Left with NetworkError on network failure', async () => {
       const networkError = new TypeError('Failed to fetch');
@@ -273,6 +307,75 @@ describe('HttpClient', () => {
     });
   });
 
+  describe('Cancellation', () => {
+    it('should return Left with CancelledError when the signal aborts', async () => {
+      const controller = new AbortController();
+      mockKyInstance.get.mockImplementation(() => {
+        controller.abort();
+        return Promise.reject(new DOMException('This operation was aborted', 'AbortError'));
+      });
+
+      const client = createHttpClient('https://api.example.com');
+      const result = await client.get<TestResponse>('/test', { signal: controller.signal })();
+
+      expect(mockKyInstance.get).toHaveBeenCalledWith(
+        'test',
+        expect.objectContaining({ signal: controller.signal })
+      );
+      expect(result).toEqual(E.left({ _tag: 'CancelledError', message: 'The request was cancelled' }));
+    });
+
+    it('should not treat a custom abort reason as a network failure', async () => {
+      const controller = new AbortController();
+      mockKyInstance.get.mockImplementation(() => {
+        controller.abort(new Error('branch switched'));
+        return Promise.reject(new Error('branch switched'));
+      });
+
+      const client = createHttpClient('https://api.example.com');
+      const result = await client.get<TestResponse>('/test', { signal: controller.signal })();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('CancelledError');
+    });
+
+    it('should still cancel through the client signal a call passing its own', async () => {
+      const clientController = new AbortController();
+      const callController = new AbortController();
+      mockKyInstance.get.mockImplementation(
+        (_path: string, options: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            const fail = () => {
+              reject(new DOMException('Aborted', 'AbortError'));
+            };
+            if (options.signal.aborted) fail();
+            options.signal.addEventListener('abort', fail);
+          })
+      );
+
+      const client = createHttpClient('https://api.example.com', { signal: clientController.signal });
+      const pending = client.get<TestResponse>('/test', { signal: callController.signal })();
+      clientController.abort();
+      const result = await pending;
+
+      expect(E.isLeft(result) && result.left._tag).toBe('CancelledError');
+      expect(callController.signal.aborted).toBe(false);
+    });
+
+    it('should not retry a cancelled request', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      mockKyInstance.get.mockRejectedValue(new DOMException('Aborted', 'AbortError'));
+
+      const client = createHttpClient('https://api.example.com', {
+        retryPolicy: { maxRetries: 3, initialDelay: 0 },
+      });
+      const result = await client.get<TestResponse>('/test', { signal: controller.signal })();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('CancelledError');
+      expect(mockKyInstance.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Error handling - 4xx errors', () => {
     it('should return Left with ValidationError on 400 Bad Request', async () => {
       const httpError: Partial<HTTPError> = {
@@ -295,11 +398,70 @@ describe('HttpClient', () => {
       if (E.isLeft(result)) {
         expect(result.left._tag).toBe('ValidationError');
         if ('errors' in result.left) {
-          expect(result.left.errors.issues[0]?.message).toContain('Invalid input');
+          expect(result.left.errors.issues).toEqual([
+            { code: 'custom', path: ['name'], message: 'Required' },
+          ]);
         }
       }
     });
 
+    it('should build field-level issues from problem+json', async () => {
+      const httpError: Partial<HTTPError> = {
+        name: 'HTTPError',
+        response: {
+          status: 400,
+          statusText: 'Bad Request',
+          json: vi.fn().mockResolvedValue({
+            type: 'https://debateui.dev/problems/invalid-config',
+            title: 'Invalid debate configuration',
+            status: 400,
+            code: 'invalid_config',
+            'invalid-params': [{ name: 'rounds', reason: 'Must be at most 10' }],
+            errors: [{ pointer: '/participants/1', detail: 'Unknown model', code: 'unknown_model' }],
+          }),
+        } as any,
+      };
+      mockKyInstance.post.mockRejectedValue(httpError);
+
+      const client = createHttpClient('https://api.example.com');
+      const result = await client.post<TestResponse>('/api/debates', {})();
+
+      expect(E.isLeft(result) && result.left).toMatchObject({
+        _tag: 'ValidationError',
+        code: 'invalid_config',
+        errors: {
+          issues: [
+            { code: 'custom', path: ['rounds'], message: 'Must be at most 10' },
+            {
+              code: 'custom',
+              path: ['participants', 1],
+              message: 'Unknown model',
+              params: { code: 'unknown_model' },
+            },
+          ],
+        },
+      });
+    });
+
+    it('should keep the message as a request-level issue without field errors', async () => {
+      const httpError: Partial<HTTPError> = {
+        name: 'HTTPError',
+        response: {
+          status: 400,
+          statusText: 'Bad Request',
+          json: vi.fn().mockResolvedValue({ title: 'Malformed JSON' }),
+        } as any,
+      };
+      mockKyInstance.post.mockRejectedValue(httpError);
+
+      const client = createHttpClient('https://api.example.com');
+      const result = await client.post<TestResponse>('/test', {})();
+
+      expect(E.isLeft(result) && result.left._tag === 'ValidationError' && result.left.errors.issues).toEqual([
+        { code: 'custom', path: [], message: 'Malformed JSON' },
+      ]);
+    });
+
     it('should return Left with AuthError on 401 Unauthorized', async () => {
       const httpError: Partial<HTTPError> = {
         name: 'HTTPError',
@@ -325,6 +487,44 @@ describe('HttpClient', () => {
       }
     });
 
+    it.each([
+      ['/api/debates/d1', 'debate', 'd1'],
+      ['/api/debates/d1/turns?branchId=b1', 'debate', 'd1'],
+      ['/api/debates/d1/branches/b%201/turns', 'branch', 'b 1'],
+      ['/api/debates/d1/turns/t1/fork', 'turn', 't1'],
+      ['/api/debates/50%', 'debate', '50%'],
+    ])('should infer the missing resource from %s', async (path, resource, id) => {
+      mockKyInstance.get.mockRejectedValue({
+        name: 'HTTPError',
+        response: {
+          status: 404,
+          statusText: 'Not Found',
+          json: vi.fn().mockResolvedValue({ code: 'not_found' }),
+        },
+      });
+
+      const client = createHttpClient('https://api.example.com');
+      const result = await client.get<TestResponse>(path)();
+
+      expect(result).toEqual(E.left(notFoundError(resource, id, 'not_found')));
+    });
+
+    it('should carry the server error code on server errors', async () => {
+      mockKyInstance.get.mockRejectedValue({
+        name: 'HTTPError',
+        response: {
+          status: 500,
+          statusText: 'Internal Server Error',
+          json: vi.fn().mockResolvedValue({ detail: 'Database unavailable', code: 'db_down' }),
+        },
+      });
+
+      const client = createHttpClient('https://api.example.com');
+      const result = await client.get<TestResponse>('/test')();
+
+      expect(result).toEqual(E.left(serverError(500, 'Database unavailable', 'db_down')));
+    });
+
     it('should return Left with NotFoundError on 404 Not Found', async () => {
       const httpError: Partial<HTTPError> = {
         name: 'HTTPError',
@@ -585,6 +785,356 @@ describe('HttpClient', () => {
     });
   });
 
+  describe('Middleware', () => {
+    it('should send headers injected by middleware', async () => {
+      mockKyInstance.get.mockResolvedValue({
+        json: vi.fn().mockResolvedValue({ id: '123', name: 'test' }),
+      });
+
+      const client = createHttpClient('https://api.example.com', {
+        middleware: [withHeaders({ 'X-Client': 'debateui' })],
+      });
+      await client.get<TestResponse>('/test')();
+
+      expect(mockKyInstance.get).toHaveBeenCalledWith(
+        'test',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Client': 'debateui' }),
+        })
+      );
+    });
+
+    it('should let middleware answer without calling ky', async () => {
+      const mockData: TestResponse = { id: 'mock', name: 'mocked' };
+      const mock: Middleware = () => () =>
+        TE.right({ status: 200, headers: new Headers(), body: mockData });
+
+      const client = createHttpClient('https://api.example.com', { middleware: [mock] });
+      const result = await client.get<TestResponse>('/test')();
+
+      expect(result).toEqual(E.right(mockData));
+      expect(mockKyInstance.get).not.toHaveBeenCalled();
+    });
+
+    it('should pass mapped ApiErrors to error middleware', async () => {
+      const mockError: Partial<HTTPError> = {
+        response: {
+          status: 404,
+          statusText: 'Not Found',
+          json: vi.fn().mockResolvedValue({ message: 'Not found' }),
+        } as any,
+      };
+      mockKyInstance.get.mockRejectedValue(mockError);
+      const seen: string[] = [];
+
+      const client = createHttpClient('https://api.example.com', {
+        middleware: [
+          onError((error) => {
+            seen.push(error._tag);
+            return TE.right({ status: 200, headers: new Headers(), body: [] });
+          }),
+        ],
+      });
+      const result = await client.get<TestResponse[]>('/test')();
+
+      expect(seen).toEqual(['NotFoundError']);
+      expect(result).toEqual(E.right([]));
+    });
+
+    it('should run configured middleware once around retries', async () => {
+      mockKyInstance.get
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce({ json: vi.fn().mockResolvedValue({ id: '1', name: 'a' }) });
+      const seen: string[] = [];
+
+      const client = createHttpClient('https://api.example.com', {
+        retryPolicy: { initialDelay: 0, jitter: 0 },
+        middleware: [
+          onRequest((request) => {
+            seen.push(request.path);
+            return TE.right(request);
+          }),
+        ],
+      });
+      const result = await client.get<TestResponse>('/test')();
+
+      expect(E.isRight(result)).toBe(true);
+      expect(mockKyInstance.get).toHaveBeenCalledTimes(2);
+      expect(seen).toEqual(['/test']);
+    });
+
+    it('should expose the response status to response middleware', async () => {
+      mockKyInstance.post.mockResolvedValue({ status: 204 });
+      const statuses: number[] = [];
+
+      const client = createHttpClient('https://api.example.com', {
+        middleware: [
+          onResponse((response) => {
+            statuses.push(response.status);
+            return TE.right(response);
+          }),
+        ],
+      });
+      await client.post<void>('/api/debates/d1/start')();
+
+      expect(statuses).toEqual([204]);
+    });
+  });
+
+  describe('Bearer token auth', () => {
+    const unauthorized = (): Partial<HTTPError> => ({
+      name: 'HTTPError',
+      response: {
+        status: 401,
+        statusText: 'Unauthorized',
+        json: vi.fn().mockResolvedValue({ message: 'Token expired' }),
+      } as any,
+    });
+    const ok = (data: TestResponse) => ({ json: vi.fn().mockResolvedValue(data) });
+    const authorizationOf = (call: number) =>
+      mockKyInstance.get.mock.calls[call]?.[1]?.headers?.Authorization;
+
+    it('should send the token as a bearer Authorization header', async () => {
+      mockKyInstance.get.mockResolvedValue(ok({ id: '1', name: 'test' }));
+      const tokenProvider = createTokenProvider({ initialToken: 'abc', refreshToken: () => TE.right('new') });
+
+      const client = createHttpClient('https://api.example.com', { tokenProvider });
+      await client.get<TestResponse>('/test')();
+
+      expect(authorizationOf(0)).toBe('Bearer abc');
+    });
+
+    it('should refresh the token and retry once on 401', async () => {
+      mockKyInstance.get
+        .mockRejectedValueOnce(unauthorized())
+        .mockResolvedValueOnce(ok({ id: '1', name: 'test' }));
+      const refreshToken = vi.fn(() => TE.right('fresh'));
+      const tokenProvider = createTokenProvider({ initialToken: 'expired', refreshToken });
+
+      const client = createHttpClient('https://api.example.com', { tokenProvider });
+      const result = await client.get<TestResponse>('/test')();
+
+      expect(result).toEqual(E.right({ id: '1', name: 'test' }));
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(authorizationOf(0)).toBe('Bearer expired');
+      expect(authorizationOf(1)).toBe('Bearer fresh');
+    });
+
+    it('should share one refresh between concurrent 401s', async () => {
+      mockKyInstance.get.mockImplementation((_path: string, options: { headers: Record<string, string> }) =>
+        options.headers['Authorization'] === 'Bearer fresh'
+          ? Promise.resolve(ok({ id: '1', name: 'test' }))
+          : Promise.reject(unauthorized())
+      );
+      const refreshToken = vi.fn(() => TE.right('fresh'));
+      const tokenProvider = createTokenProvider({ initialToken: 'expired', refreshToken });
+
+      const client = createHttpClient('https://api.example.com', { tokenProvider });
+      const results = await Promise.all([client.get('/a')(), client.get('/b')(), client.get('/c')()]);
+
+      expect(results.every(E.isRight)).toBe(true);
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the AuthError and sign out when the refresh fails', async () => {
+      mockKyInstance.get.mockRejectedValue(unauthorized());
+      const tokenProvider = createTokenProvider({
+        initialToken: 'expired',
+        refreshToken: () => TE.left(authError('Session expired', 401)),
+      });
+      const signedOut = vi.fn();
+      tokenProvider.onSignedOut(signedOut);
+
+      const client = createHttpClient('https://api.example.com', { tokenProvider });
+      const result = await client.get<TestResponse>('/test')();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('AuthError');
+      expect(mockKyInstance.get).toHaveBeenCalledTimes(1);
+      expect(signedOut).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry more than once', async () => {
+      mockKyInstance.get.mockRejectedValue(unauthorized());
+      const refreshToken = vi.fn(() => TE.right('still-rejected'));
+      const tokenProvider = createTokenProvider({ initialToken: 'expired', refreshToken });
+
+      const client = createHttpClient('https://api.example.com', { tokenProvider });
+      const result = await client.get<TestResponse>('/test')();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('AuthError');
+      expect(mockKyInstance.get).toHaveBeenCalledTimes(2);
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Retry policy', () => {
+    const unavailable = (): Partial<HTTPError> => ({
+      name: 'HTTPError',
+      response: {
+        status: 503,
+        statusText: 'Service Unavailable',
+        json: vi.fn().mockResolvedValue({ message: 'Overloaded' }),
+      } as any,
+    });
+    const ok = { status: 200, json: vi.fn().mockResolvedValue({ id: '1', name: 'test' }) };
+    const retryPolicy = { initialDelay: 1, jitter: 0 };
+
+    it('should not retry without a retry policy', async () => {
+      mockKyInstance.get.mockRejectedValue(unavailable());
+
+      const client = createHttpClient('https://api.example.com');
+      await client.get<TestResponse>('/test')();
+
+      expect(mockKyInstance.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry idempotent requests and disable the ky retry', async () => {
+      mockKyInstance.get.mockRejectedValueOnce(unavailable()).mockResolvedValueOnce(ok);
+      mockKyInstance.delete.mockRejectedValueOnce(unavailable()).mockResolvedValueOnce(ok);
+
+      const client = createHttpClient('https://api.example.com', { retryPolicy });
+      const got = await client.get<TestResponse>('/test')();
+      const deleted = await client.delete<TestResponse>('/test')();
+
+      expect(E.isRight(got) && E.isRight(deleted)).toBe(true);
+      expect(mockKyInstance.get).toHaveBeenCalledTimes(2);
+      expect(mockKyInstance.delete).toHaveBeenCalledTimes(2);
+      expect(ky.create).toHaveBeenCalledWith(expect.objectContaining({ retry: 0 }));
+    });
+
+    it('should not retry POST requests by default', async () => {
+      mockKyInstance.post.mockRejectedValueOnce(unavailable()).mockResolvedValueOnce(ok);
+
+      const client = createHttpClient('https://api.example.com', { retryPolicy });
+      const result = await client.post<TestResponse>('/test', { name: 'x' })();
+
+      expect(E.isLeft(result)).toBe(true);
+      expect(mockKyInstance.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply a per-request override', async () => {
+      mockKyInstance.post.mockRejectedValueOnce(unavailable()).mockResolvedValueOnce(ok);
+      mockKyInstance.get.mockRejectedValue(unavailable());
+
+      const client = createHttpClient('https://api.example.com', { retryPolicy });
+      const posted = await client.post<TestResponse>('/test', { name: 'x' }, { retryPolicy: { maxRetries: 1 } })();
+      await client.get<TestResponse>('/test', { retryPolicy: false })();
+
+      expect(E.isRight(posted)).toBe(true);
+      expect(mockKyInstance.post).toHaveBeenCalledTimes(2);
+      expect(mockKyInstance.get).toHaveBeenCalledTimes(1);
+      expect(mockKyInstance.post.mock.calls[0]?.[1]).not.toHaveProperty('retryPolicy');
+    });
+  });
+
+  describe('Circuit breaker', () => {
+    it('should stop retrying once the circuit opens', async () => {
+      mockKyInstance.get.mockRejectedValue(new TypeError('Failed to fetch'));
+      const circuitBreaker = createCircuitBreaker({ failureThreshold: 2 });
+
+      const client = createHttpClient('https://api.example.com', {
+        retryPolicy: { maxRetries: 5, initialDelay: 0, jitter: 0 },
+        circuitBreaker,
+      });
+      const result = await client.get<TestResponse>('/test')();
+
+      expect(mockKyInstance.get).toHaveBeenCalledTimes(2);
+      expect(circuitBreaker.getState()).toBe('open');
+      expect(E.isLeft(result) && result.left._tag).toBe('ServiceUnavailableError');
+    });
+  });
+
+  describe('Idempotency keys', () => {
+    const rejected = (status: number, problem: Record<string, unknown> = {}): Partial<HTTPError> => ({
+      name: 'HTTPError',
+      response: {
+        status,
+        statusText: 'Rejected',
+        json: vi.fn().mockResolvedValue({ message: 'Request does not match the original', ...problem }),
+      } as any,
+    });
+    const ok = { status: 200, json: vi.fn().mockResolvedValue({ id: '1', name: 'test' }) };
+    const keyOf = (call: number) =>
+      mockKyInstance.post.mock.calls[call]?.[1]?.headers?.['Idempotency-Key'];
+
+    it('should send the key as an Idempotency-Key header', async () => {
+      mockKyInstance.post.mockResolvedValue(ok);
+
+      const client = createHttpClient('https://api.example.com');
+      await client.post<TestResponse>('/test', { name: 'x' }, { idempotencyKey: 'key-1' })();
+
+      expect(keyOf(0)).toBe('key-1');
+      expect(mockKyInstance.post.mock.calls[0]?.[1]).not.toHaveProperty('idempotencyKey');
+    });
+
+    it('should retry a keyed POST with the same key', async () => {
+      mockKyInstance.post.mockRejectedValueOnce(rejected(503)).mockResolvedValueOnce(ok);
+
+      const client = createHttpClient('https://api.example.com', {
+        retryPolicy: { initialDelay: 1, jitter: 0 },
+      });
+      const result = await client.post<TestResponse>('/test', { name: 'x' }, { idempotencyKey: 'key-1' })();
+
+      expect(E.isRight(result)).toBe(true);
+      expect(keyOf(0)).toBe('key-1');
+      expect(keyOf(1)).toBe('key-1');
+      expect(mockKyInstance.post.mock.calls[0]?.[1]?.headers?.['X-Request-ID']).not.toBe(
+        mockKyInstance.post.mock.calls[1]?.[1]?.headers?.['X-Request-ID']
+      );
+    });
+
+    it.each([
+      [409, { code: 'idempotency_key_in_use' }],
+      [422, { code: 'idempotency_key_reused' }],
+      [422, { type: 'https://debateui.dev/problems/idempotency-key-reused' }],
+    ])('should return a ConflictError when the server rejects a replay (%i, %o)', async (status, problem) => {
+      mockKyInstance.post.mockRejectedValue(rejected(status, problem));
+
+      const client = createHttpClient('https://api.example.com', {
+        retryPolicy: { initialDelay: 1, jitter: 0 },
+      });
+      const result = await client.post<TestResponse>('/test', { name: 'x' }, { idempotencyKey: 'key-1' })();
+
+      expect(E.isLeft(result)).toBe(true);
+      if (E.isLeft(result) && result.left._tag === 'ConflictError') {
+        expect(result.left.conflictingResource).toBe(IDEMPOTENCY_CONFLICT);
+        expect(result.left.message).toContain('key-1');
+      } else {
+        expect.fail('expected a ConflictError');
+      }
+      expect(mockKyInstance.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should map other conflicts of a keyed request as usual', async () => {
+      mockKyInstance.post.mockRejectedValue(rejected(409, { code: 'branch_exists' }));
+
+      const client = createHttpClient('https://api.example.com');
+      const result = await client.post<TestResponse>('/test', { name: 'x' }, { idempotencyKey: 'key-1' })();
+
+      expect(result).toEqual(E.left(conflictError('Request does not match the original', undefined, 'branch_exists')));
+    });
+
+    it('should map a keyed 422 about the request to a ValidationError', async () => {
+      mockKyInstance.post.mockRejectedValue(
+        rejected(422, { code: 'invalid_config', errors: [{ field: 'rounds', message: 'Too many' }] })
+      );
+
+      const client = createHttpClient('https://api.example.com');
+      const result = await client.post<TestResponse>('/test', { name: 'x' }, { idempotencyKey: 'key-1' })();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('ValidationError');
+    });
+
+    it('should keep mapping 422 without a key to a ValidationError', async () => {
+      mockKyInstance.post.mockRejectedValue(rejected(422));
+
+      const client = createHttpClient('https://api.example.com');
+      const result = await client.post<TestResponse>('/test', { name: 'x' })();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('ValidationError');
+    });
+  });
+
   describe('Request ID generation', () => {
     it('should generate unique request IDs for each request', async () => {
       const mockData: TestResponse = { id: '123', name: 'test' };
@@ -620,7 +1170,7 @@ describe('HttpClient', () => {
       })();
 
       expect(mockKyInstance.get).toHaveBeenCalledWith(
-        '/test',
+        'test',
         expect.objectContaining({
           headers: expect.objectContaining({
             'X-Request-ID': customRequestId,
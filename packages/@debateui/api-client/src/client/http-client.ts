@@ -1,16 +1,33 @@
 import ky, { type KyInstance, type Options, type HTTPError } from 'ky';
 import * as TE from 'fp-ts/TaskEither';
 import * as E from 'fp-ts/Either';
-import { v4 as uuidv4 } from 'uuid';
+import { pipe } from 'fp-ts/function';
+import { z } from 'zod';
 import {
   type ApiError,
   networkError,
+  cancelledError,
+  validationError,
   authError,
   notFoundError,
   conflictError,
   rateLimitError,
   serverError,
 } from '@debateui/core';
+import type { TokenProvider } from './token-provider';
+import type { RetryPolicy } from './retry';
+import type { CircuitBreaker } from './circuit-breaker';
+import { parseProblemDetails, type ProblemDetails } from './problem-details';
+import {
+  composeMiddleware,
+  retryMiddleware,
+  requestIdMiddleware,
+  authMiddleware,
+  type HttpHandler,
+  type HttpMethod,
+  type HttpRequest,
+  type Middleware,
+} from './middleware';
 
 /**
  * HTTP client configuration options
@@ -28,7 +45,35 @@ export interface HttpClientConfig {
   headers?: Record<string, string>;
 
   /**
-   * Request/response hooks for interceptors
+   * Supplies the bearer token sent as `Authorization`.
+   * On a 401 the token is refreshed and the request retried once; requests
+   * made during a refresh wait for it.
+   */
+  tokenProvider?: TokenProvider;
+
+  /**
+   * Retry failed GET, PUT and DELETE requests with backoff, honouring
+   * `retryAfterMs` of rate limits. Overrides for `DEFAULT_RETRY_POLICY`;
+   * retries are off when unset. Replaces ky's built-in retry unless
+   * `retry` is set as well.
+   */
+  retryPolicy?: Partial<RetryPolicy>;
+
+  /**
+   * Fail fast with ServiceUnavailableError while the backend is degraded.
+   * Every attempt counts, so retries stop once the circuit opens.
+   */
+  circuitBreaker?: CircuitBreaker;
+
+  /**
+   * Middleware around every request, outermost first. Wraps the built-in
+   * retry, request ID and auth middleware, so it sees each request once
+   * and its final outcome.
+   */
+  middleware?: readonly Middleware[];
+
+  /**
+   * Raw ky hooks, run for every attempt inside the middleware chain
    */
   hooks?: Options['hooks'];
 
@@ -40,6 +85,43 @@ export interface HttpClientConfig {
   signal?: AbortSignal;
 }
 
+/**
+ * Header carrying the idempotency key of a request
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * `conflictingResource` of the ConflictError returned when the server
+ * rejects a replayed idempotency key
+ */
+export const IDEMPOTENCY_CONFLICT = 'idempotency-key';
+
+/**
+ * Error codes by which the server reports a rejected idempotency key: reused
+ * with a different request, or its first request still in progress. Also
+ * recognised as the last segment of a problem `type`, in kebab case.
+ */
+export const IDEMPOTENCY_ERROR_CODES: readonly string[] = ['idempotency_key_reused', 'idempotency_key_in_use'];
+
+/**
+ * Per-request options
+ */
+export interface RequestOptions extends Options {
+  /**
+   * Overrides for the client's retry policy for this request, or false to
+   * not retry it. Also enables retries for a POST, which the caller thereby
+   * declares safe to repeat.
+   */
+  retryPolicy?: Partial<RetryPolicy> | false;
+
+  /**
+   * Key identifying one logical operation, sent as `Idempotency-Key`.
+   * Retries send the same key, so the server can answer a repeated POST
+   * with the original result; a POST with a key is retried like a GET.
+   */
+  idempotencyKey?: string;
+}
+
 /**
  * HTTP client interface with type-safe request methods
  */
@@ -50,7 +132,7 @@ export interface HttpClient {
    * @param options - Request options
    * @returns TaskEither with response data or ApiError
    */
-  get: <T>(path: string, options?: Options) => TE.TaskEither<ApiError, T>;
+  get: <T>(path: string, options?: RequestOptions) => TE.TaskEither<ApiError, T>;
 
   /**
    * Perform a POST request
@@ -62,7 +144,7 @@ export interface HttpClient {
   post: <T>(
     path: string,
     body?: unknown,
-    options?: Options
+    options?: RequestOptions
   ) => TE.TaskEither<ApiError, T>;
 
   /**
@@ -75,7 +157,7 @@ export interface HttpClient {
   put: <T>(
     path: string,
     body?: unknown,
-    options?: Options
+    options?: RequestOptions
   ) => TE.TaskEither<ApiError, T>;
 
   /**
@@ -84,21 +166,91 @@ export interface HttpClient {
    * @param options - Request options
    * @returns TaskEither with response data or ApiError
    */
-  delete: <T>(path: string, options?: Options) => TE.TaskEither<ApiError, T>;
+  delete: <T>(path: string, options?: RequestOptions) => TE.TaskEither<ApiError, T>;
+}
+
+/**
+ * Read problem details from an error response.
+ * A body that is not JSON yields no details.
+ */
+async function readProblemDetails(response: Response): Promise<ProblemDetails> {
+  try {
+    return parseProblemDetails(await response.json());
+  } catch {
+    return { fieldErrors: [] };
+  }
+}
+
+/**
+ * Build a ZodError from the fields the server rejected, so validation
+ * errors from the server look like those found in the client.
+ * Without field errors, one issue for the whole request carries the message.
+ */
+function toZodError(problem: ProblemDetails, message: string): z.ZodError {
+  if (problem.fieldErrors.length === 0) {
+    return new z.ZodError([{ code: 'custom', path: [], message }]);
+  }
+  return new z.ZodError(
+    problem.fieldErrors.map(({ path, message: fieldMessage, code }) => ({
+      code: 'custom' as const,
+      path: [...path],
+      message: fieldMessage,
+      ...(code !== undefined && { params: { code } }),
+    }))
+  );
 }
 
 /**
- * Extract error message from HTTP error response
+ * Singular form of a collection name in a request path
  */
-async function extractErrorMessage(
-  response: Response
-): Promise<string> {
+function singularize(collection: string): string {
+  if (collection.endsWith('ies')) {
+    return `${collection.slice(0, -3)}y`;
+  }
+  if (/(ch|sh|x|ss)es$/.test(collection)) {
+    return collection.slice(0, -2);
+  }
+  return collection.endsWith('s') ? collection.slice(0, -1) : collection;
+}
+
+/**
+ * Decode a path segment, keeping it as sent when it is not valid
+ * percent-encoding (e.g. an id like `50%`)
+ */
+function decodeSegment(segment: string): string {
   try {
-    const json = await response.json();
-    return json.message || response.statusText;
+    return decodeURIComponent(segment);
   } catch {
-    return response.statusText;
+    return segment;
+  }
+}
+
+/**
+ * Infer the resource that was not found from the request path.
+ * Paths alternate collection and id after the `api` prefix, so the last
+ * complete pair names the resource, e.g. `/api/debates/d1/branches/b1/turns`
+ * is branch `b1`.
+ */
+function inferResource(path: string): { resource: string; id: string } {
+  const segments = (path.split('?')[0] ?? '').split('/').filter((segment) => segment !== '');
+  const resourceSegments = segments[0] === 'api' ? segments.slice(1) : segments;
+
+  let found = { resource: 'resource', id: 'unknown' };
+  for (let i = 0; i + 1 < resourceSegments.length; i += 2) {
+    found = {
+      resource: singularize(resourceSegments[i] ?? ''),
+      id: decodeSegment(resourceSegments[i + 1] ?? ''),
+    };
   }
+  return found;
+}
+
+/**
+ * Whether the problem names the idempotency key as the cause
+ */
+function isIdempotencyProblem({ code, type }: ProblemDetails): boolean {
+  const typeCode = type?.split('/').pop()?.replace(/-/g, '_');
+  return [code, typeCode].some((candidate) => candidate !== undefined && IDEMPOTENCY_ERROR_CODES.includes(candidate));
 }
 
 /**
@@ -111,35 +263,49 @@ function parseRetryAfter(header: string | null): number | undefined {
 }
 
 /**
- * Convert HTTP error to appropriate ApiError variant
+ * Convert HTTP error to appropriate ApiError variant.
+ * Reads RFC 7807 problem details or the fallback error shape for the
+ * message, the server error code and the rejected fields.
+ * @param error - HTTP error thrown by ky
+ * @param request - Request that failed
  */
-async function handleHttpError(error: HTTPError): Promise<ApiError> {
+async function handleHttpError(
+  error: HTTPError,
+  request: HttpRequest
+): Promise<ApiError> {
   const { response } = error;
   const status = response.status;
-  const message = await extractErrorMessage(response);
+  const problem = await readProblemDetails(response);
+  const message = problem.message ?? response.statusText;
+  const { code } = problem;
+  const { idempotencyKey } = request;
+
+  // The key was reused with a different request (422), or its first
+  // request is still being processed (409). Other 409s and 422s of keyed
+  // requests are about the request itself and map as usual.
+  if (idempotencyKey !== undefined && (status === 409 || status === 422) && isIdempotencyProblem(problem)) {
+    return conflictError(
+      `Idempotency key ${idempotencyKey} was rejected: ${message}`,
+      IDEMPOTENCY_CONFLICT,
+      code
+    );
+  }
 
   switch (status) {
-    case 400: {
-      // For 400 errors, we need to create a ZodError
-      // Since we don't have the actual validation errors, create a generic one
-      const zodError = {
-        issues: [{ code: 'custom' as const, path: [], message }],
-        name: 'ZodError' as const,
-        format: () => ({ _errors: [message] }),
-      } as any;
-      return { _tag: 'ValidationError', errors: zodError };
-    }
+    case 400:
+      return validationError(toZodError(problem, message), code);
 
     case 401:
     case 403:
-      return authError(message, status as 401 | 403);
+      return authError(message, status, code);
 
-    case 404:
-      // For 404, extract resource and id from path or use generic values
-      return notFoundError('resource', 'unknown');
+    case 404: {
+      const { resource, id } = inferResource(request.path);
+      return notFoundError(resource, id, code);
+    }
 
     case 409:
-      return conflictError(message);
+      return conflictError(message, undefined, code);
 
     case 429: {
       const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
@@ -152,31 +318,31 @@ async function handleHttpError(error: HTTPError): Promise<ApiError> {
     case 502:
     case 503:
     case 504:
-      return serverError(status, message);
+      return serverError(status, message, code);
 
     default:
       // For other 4xx errors, treat as validation errors
       if (status >= 400 && status < 500) {
-        const zodError = {
-          issues: [{ code: 'custom' as const, path: [], message }],
-          name: 'ZodError' as const,
-          format: () => ({ _errors: [message] }),
-        } as any;
-        return { _tag: 'ValidationError', errors: zodError };
+        return validationError(toZodError(problem, message), code);
       }
       // For other 5xx errors, treat as server errors
-      return serverError(status, message);
+      return serverError(status, message, code);
   }
 }
 
 /**
- * Convert network/timeout error to NetworkError
+ * Convert network/timeout error to NetworkError, or CancelledError when the
+ * request was aborted
  */
 function handleNetworkError(error: unknown): ApiError {
   // Check if it's an error-like object with a name property
   if (error && typeof error === 'object' && 'name' in error) {
     const errorObj = error as { name: string; message?: string };
 
+    if (errorObj.name === 'AbortError') {
+      return cancelledError();
+    }
+
     // Check if it's a timeout error
     if (errorObj.name === 'TimeoutError') {
       const message = errorObj.message || 'Request timed out';
@@ -198,34 +364,59 @@ function handleNetworkError(error: unknown): ApiError {
 }
 
 /**
- * Generate a unique request ID for tracing
+ * Convert ky's header formats to a plain record
  */
-function generateRequestId(): string {
-  return uuidv4();
+function toHeaderRecord(headers: Options['headers']): Record<string, string> {
+  if (headers === undefined) {
+    return {};
+  }
+  if (headers instanceof Headers || Array.isArray(headers)) {
+    return Object.fromEntries(new Headers(headers).entries());
+  }
+  return Object.fromEntries(
+    Object.entries(headers).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
 }
 
 /**
- * Add request ID header if not already present
+ * Strip the leading slash from a request path.
+ * ky rejects inputs starting with '/' when prefixUrl is set, while the API
+ * clients use absolute-looking paths such as '/api/debates'.
  */
-function addRequestIdHeader(
-  options: Options = {}
-): Options {
-  const headers = {
-    'X-Request-ID': generateRequestId(),
-    ...(options.headers || {}),
-  };
+function stripLeadingSlash(path: string): string {
+  return path.startsWith('/') ? path.slice(1) : path;
+}
 
-  return {
-    ...options,
-    headers,
-  };
+/**
+ * Combine the client's signal with the one of a call, so a call passing its
+ * own signal can still be cancelled through the client's.
+ */
+function combineSignals(...signals: (AbortSignal | null | undefined)[]): AbortSignal | undefined {
+  const present = signals.filter((signal): signal is AbortSignal => signal !== undefined && signal !== null);
+  return present.length > 1 ? AbortSignal.any(present) : present[0];
 }
 
 /**
- * Create a type-safe HTTP client wrapper around ky
+ * Create a type-safe HTTP client wrapper around ky.
+ * Every request runs through the middleware chain as a TaskEither: the
+ * configured middleware, then retries, the circuit breaker, request ID and
+ * auth, then ky.
  * @param baseUrl - Base URL for all requests
  * @param config - HTTP client configuration
  * @returns HTTP client with type-safe request methods
+ *
+ * @example
+ * ```typescript
+ * const client = createHttpClient('https://api.example.com', {
+ *   middleware: [
+ *     withHeaders({ 'X-Client': 'debateui' }),
+ *     onError((error) => {
+ *       console.warn('Request failed', error._tag);
+ *       return TE.left(error);
+ *     }),
+ *   ],
+ * });
+ * ```
  */
 export function createHttpClient(
   baseUrl: string,
@@ -238,6 +429,10 @@ export function createHttpClient(
     retry,
     throwHttpErrors,
     signal,
+    tokenProvider,
+    retryPolicy,
+    circuitBreaker,
+    middleware = [],
   } = config;
 
   // Build options object, only including defined properties
@@ -246,7 +441,7 @@ export function createHttpClient(
     timeout,
     headers,
     ...(hooks !== undefined && { hooks }),
-    ...(retry !== undefined && { retry }),
+    ...(retry !== undefined ? { retry } : retryPolicy !== undefined && { retry: 0 }),
     ...(throwHttpErrors !== undefined && { throwHttpErrors }),
     ...(signal !== undefined && { signal }),
   };
@@ -255,62 +450,83 @@ export function createHttpClient(
   const kyInstance: KyInstance = ky.create(options);
 
   /**
-   * Generic request handler
+   * Innermost handler: send the request with ky and map failures to ApiError
    */
-  async function request<T>(
-    method: 'get' | 'post' | 'put' | 'delete',
-    path: string,
-    options: Options = {}
-  ): Promise<T> {
-    const optionsWithRequestId = addRequestIdHeader(options);
-    const response = await kyInstance[method](path, optionsWithRequestId);
-    return response.json<T>();
-  }
+  const send: HttpHandler = (request) => async () => {
+    try {
+      const response = await kyInstance[request.method](stripLeadingSlash(request.path), {
+        ...request.options,
+        headers: request.headers,
+        ...((request.method === 'post' || request.method === 'put') && { json: request.body }),
+      });
+      // Command endpoints (start, pause, resume) reply with an empty body
+      const body: unknown = response.status === 204 ? undefined : await response.json();
+      return E.right({ status: response.status, headers: response.headers, body });
+    } catch (error: unknown) {
+      // Check if it's an HTTPError
+      if (error && typeof error === 'object' && 'response' in error) {
+        return E.left(await handleHttpError(error as HTTPError, request));
+      }
+      // An aborted request rejects with whatever reason was given to abort()
+      if (request.options.signal?.aborted) {
+        return E.left(cancelledError());
+      }
+      // Handle network/timeout errors
+      return E.left(handleNetworkError(error));
+    }
+  };
+
+  // Retries wrap the circuit breaker, request ID and auth, so every attempt
+  // is counted and gets a fresh ID and token
+  const handler = composeMiddleware([
+    ...middleware,
+    retryMiddleware(retryPolicy),
+    ...(circuitBreaker ? [circuitBreaker.middleware] : []),
+    requestIdMiddleware,
+    ...(tokenProvider ? [authMiddleware(tokenProvider)] : []),
+  ])(send);
 
   /**
-   * Wrap request in TaskEither for error handling
+   * Build the request and run it through the middleware chain
    */
-  function wrapRequest<T>(
-    fn: () => Promise<T>
+  function perform<T>(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    { retryPolicy: override, idempotencyKey, headers: requestHeaders, signal: callSignal, ...rest }: RequestOptions = {}
   ): TE.TaskEither<ApiError, T> {
-    return async () => {
-      try {
-        const result = await fn();
-        return E.right(result);
-      } catch (error: unknown) {
-        // Check if it's an HTTPError
-        if (error && typeof error === 'object' && 'response' in error) {
-          const apiError = await handleHttpError(error as HTTPError);
-          return E.left(apiError);
-        }
-        // Handle network/timeout errors
-        const apiError = handleNetworkError(error);
-        return E.left(apiError);
-      }
+    const requestSignal = combineSignals(signal, callSignal);
+    const options = { ...rest, ...(requestSignal !== undefined && { signal: requestSignal }) };
+    const request: HttpRequest = {
+      method,
+      path,
+      headers: {
+        ...toHeaderRecord(requestHeaders),
+        ...(idempotencyKey !== undefined && { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }),
+      },
+      body,
+      options,
+      ...(idempotencyKey !== undefined && { idempotencyKey }),
+      ...(override !== undefined && { retryPolicy: override }),
     };
+
+    return pipe(
+      handler(request),
+      TE.map((response) => response.body as T)
+    );
   }
 
   return {
-    get: <T>(path: string, options?: Options) =>
-      wrapRequest(() => request<T>('get', path, options)),
-
-    post: <T>(path: string, body?: unknown, options?: Options) =>
-      wrapRequest(() =>
-        request<T>('post', path, {
-          ...options,
-          json: body,
-        })
-      ),
-
-    put: <T>(path: string, body?: unknown, options?: Options) =>
-      wrapRequest(() =>
-        request<T>('put', path, {
-          ...options,
-          json: body,
-        })
-      ),
-
-    delete: <T>(path: string, options?: Options) =>
-      wrapRequest(() => request<T>('delete', path, options)),
+    get: <T>(path: string, options?: RequestOptions) =>
+      perform<T>('get', path, undefined, options),
+
+    post: <T>(path: string, body?: unknown, options?: RequestOptions) =>
+      perform<T>('post', path, body, options),
+
+    put: <T>(path: string, body?: unknown, options?: RequestOptions) =>
+      perform<T>('put', path, body, options),
+
+    delete: <T>(path: string, options?: RequestOptions) =>
+      perform<T>('delete', path, undefined, options),
   };
 }
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import { authError, networkError, notFoundError, type ApiError } from '@debateui/core';
+import {
+  composeMiddleware,
+  onRequest,
+  onResponse,
+  onError,
+  withHeaders,
+  requestIdMiddleware,
+  authMiddleware,
+  retryMiddleware,
+  REQUEST_ID_HEADER,
+  type HttpHandler,
+  type HttpRequest,
+  type HttpResponse,
+  type Middleware,
+} from './middleware';
+import { createTokenProvider } from './token-provider';
+
+const request: HttpRequest = {
+  method: 'get',
+  path: '/api/debates',
+  headers: {},
+  body: undefined,
+  options: {},
+};
+
+const ok = (body: unknown = null): HttpResponse => ({ status: 200, headers: new Headers(), body });
+
+// A handler recording each request it receives and answering with the given outcomes in turn
+const createHandler = (...outcomes: E.Either<ApiError, HttpResponse>[]) => {
+  const remaining = [...outcomes];
+  return vi.fn<HttpHandler>(() => () => Promise.resolve(remaining.shift() ?? E.right(ok())));
+};
+
+describe('middleware', () => {
+  describe('composeMiddleware', () => {
+    it('runs the first middleware outermost', async () => {
+      const calls: string[] = [];
+      const trace =
+        (name: string): Middleware =>
+        (next) =>
+        (req) => {
+          calls.push(`${name}:request`);
+          return TE.map((response: HttpResponse) => {
+            calls.push(`${name}:response`);
+            return response;
+          })(next(req));
+        };
+
+      await composeMiddleware([trace('a'), trace('b')])(createHandler())(request)();
+
+      expect(calls).toEqual(['a:request', 'b:request', 'b:response', 'a:response']);
+    });
+
+    it('returns the handler unchanged without middleware', () => {
+      const handler = createHandler();
+      expect(composeMiddleware([])(handler)).toBe(handler);
+    });
+  });
+
+  describe('onRequest', () => {
+    it('sends the transformed request', async () => {
+      const handler = createHandler();
+      const toV2 = onRequest((req) => TE.right({ ...req, path: `/v2${req.path}` }));
+
+      await toV2(handler)(request)();
+
+      expect(handler.mock.calls[0]?.[0].path).toBe('/v2/api/debates');
+    });
+
+    it('stops the request when the transform fails', async () => {
+      const handler = createHandler();
+      const offline = onRequest(() => TE.left(networkError('offline')));
+
+      const result = await offline(handler)(request)();
+
+      expect(result).toEqual(E.left(networkError('offline')));
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onResponse', () => {
+    it('passes on the transformed response', async () => {
+      const unwrap = onResponse((response) =>
+        TE.right({ ...response, body: (response.body as { data: unknown }).data })
+      );
+
+      const result = await unwrap(createHandler(E.right(ok({ data: 'debate' }))))(request)();
+
+      expect(result).toEqual(E.right(ok('debate')));
+    });
+
+    it('is skipped for failed requests', async () => {
+      const transform = vi.fn((response: HttpResponse) => TE.right(response));
+      const error = notFoundError('debate', 'd1');
+
+      const result = await onResponse(transform)(createHandler(E.left(error)))(request)();
+
+      expect(result).toEqual(E.left(error));
+      expect(transform).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onError', () => {
+    it('can recover with a response', async () => {
+      const emptyOnNotFound = onError((error) =>
+        error._tag === 'NotFoundError' ? TE.right(ok([])) : TE.left(error)
+      );
+
+      const result = await emptyOnNotFound(
+        createHandler(E.left(notFoundError('debate', 'd1')))
+      )(request)();
+
+      expect(result).toEqual(E.right(ok([])));
+    });
+
+    it('receives the request that failed', async () => {
+      const handle = vi.fn((error: ApiError) => TE.left(error));
+
+      await onError(handle)(createHandler(E.left(networkError('offline'))))(request)();
+
+      expect(handle).toHaveBeenCalledWith(networkError('offline'), request);
+    });
+  });
+
+  describe('withHeaders', () => {
+    it('adds headers without overriding those of the request', async () => {
+      const handler = createHandler();
+
+      await withHeaders({ 'X-Client': 'debateui', Accept: 'text/plain' })(handler)({
+        ...request,
+        headers: { Accept: 'application/json' },
+      })();
+
+      expect(handler.mock.calls[0]?.[0].headers).toEqual({
+        'X-Client': 'debateui',
+        Accept: 'application/json',
+      });
+    });
+  });
+
+  describe('requestIdMiddleware', () => {
+    it('sets a new request ID on every run', async () => {
+      const handler = createHandler();
+      const task = requestIdMiddleware(handler)(request);
+
+      await task();
+      await task();
+
+      const ids = handler.mock.calls.map(([req]) => req.headers[REQUEST_ID_HEADER]);
+      expect(ids[0]).toEqual(expect.any(String));
+      expect(ids[0]).not.toBe(ids[1]);
+    });
+  });
+
+  describe('authMiddleware', () => {
+    it('refreshes the token and resends once on a 401', async () => {
+      const provider = createTokenProvider({
+        initialToken: 'stale',
+        refreshToken: () => TE.right('fresh'),
+      });
+      const handler = createHandler(E.left(authError('expired', 401)));
+
+      const result = await authMiddleware(provider)(handler)(request)();
+
+      expect(E.isRight(result)).toBe(true);
+      expect(handler.mock.calls.map(([req]) => req.headers['Authorization'])).toEqual([
+        'Bearer stale',
+        'Bearer fresh',
+      ]);
+    });
+
+    it('does not refresh on a 403', async () => {
+      const refreshToken = vi.fn(() => TE.right('fresh'));
+      const provider = createTokenProvider({ initialToken: 'token', refreshToken });
+
+      const result = await authMiddleware(provider)(
+        createHandler(E.left(authError('forbidden', 403)))
+      )(request)();
+
+      expect(result).toEqual(E.left(authError('forbidden', 403)));
+      expect(refreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retryMiddleware', () => {
+    const policy = { initialDelay: 0, jitter: 0 };
+
+    it('retries idempotent requests', async () => {
+      const handler = createHandler(E.left(networkError('offline')));
+
+      const result = await retryMiddleware(policy)(handler)(request)();
+
+      expect(E.isRight(result)).toBe(true);
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry a POST without an idempotency key', async () => {
+      const handler = createHandler(E.left(networkError('offline')));
+
+      await retryMiddleware(policy)(handler)({ ...request, method: 'post' })();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('lets the request disable retries', async () => {
+      const handler = createHandler(E.left(networkError('offline')));
+
+      await retryMiddleware(policy)(handler)({ ...request, retryPolicy: false })();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops retrying when the request is aborted', async () => {
+      const handler = createHandler(E.left(networkError('offline')));
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await retryMiddleware(policy)(handler)({
+        ...request,
+        options: { signal: controller.signal },
+      })();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('CancelledError');
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import type { Options } from 'ky';
+import * as TE from 'fp-ts/TaskEither';
+import * as O from 'fp-ts/Option';
+import { pipe } from 'fp-ts/function';
+import { v4 as uuidv4 } from 'uuid';
+import type { ApiError } from '@debateui/core';
+import { bearer, type TokenProvider } from './token-provider';
+import { withRetry, type RetryPolicy } from './retry';
+
+/**
+ * HTTP method of a request
+ */
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+/**
+ * A request as it travels through the middleware chain
+ */
+export interface HttpRequest {
+  readonly method: HttpMethod;
+  /** Request path relative to the base URL */
+  readonly path: string;
+  readonly headers: Readonly<Record<string, string>>;
+  /** JSON body, undefined for GET and DELETE */
+  readonly body: unknown;
+  /** Idempotency key of the operation, sent as `Idempotency-Key` */
+  readonly idempotencyKey?: string;
+  /** Per-request retry policy override, false to not retry */
+  readonly retryPolicy?: Partial<RetryPolicy> | false;
+  /** Remaining ky options such as `searchParams` or `signal` */
+  readonly options: Options;
+}
+
+/**
+ * A response as it travels back through the middleware chain
+ */
+export interface HttpResponse {
+  readonly status: number;
+  readonly headers: Headers;
+  /** Parsed JSON body, undefined for 204 responses */
+  readonly body: unknown;
+}
+
+/**
+ * Sends a request, or hands it on to the next handler
+ */
+export type HttpHandler = (request: HttpRequest) => TE.TaskEither<ApiError, HttpResponse>;
+
+/**
+ * Wraps the next handler in the chain.
+ * A middleware may change the request, the response or the error, call the
+ * next handler several times (retries) or not at all (mocks, caches).
+ */
+export type Middleware = (next: HttpHandler) => HttpHandler;
+
+/**
+ * Compose middleware around a handler.
+ * The first middleware is the outermost: it sees the request first and the
+ * response last.
+ *
+ * @param middleware - Middleware, outermost first
+ * @returns Combinator wrapping a handler with the middleware
+ */
+export const composeMiddleware =
+  (middleware: readonly Middleware[]) =>
+  (handler: HttpHandler): HttpHandler =>
+    middleware.reduceRight<HttpHandler>((next, wrap) => wrap(next), handler);
+
+/**
+ * Middleware transforming each request before it is sent.
+ * Runs again on every attempt when placed inside the retry middleware.
+ * Failing the task stops the request with that error.
+ *
+ * @param transform - Returns the request to send
+ * @returns Request interceptor
+ *
+ * @example
+ * ```typescript
+ * const log = onRequest((request) => {
+ *   console.debug(request.method, request.path);
+ *   return TE.right(request);
+ * });
+ * ```
+ */
+export const onRequest =
+  (transform: (request: HttpRequest) => TE.TaskEither<ApiError, HttpRequest>): Middleware =>
+  (next) =>
+  (request) =>
+    pipe(TE.right(request), TE.chain(transform), TE.chain(next));
+
+/**
+ * Middleware transforming each successful response.
+ * Failing the task turns the response into an error.
+ *
+ * @param transform - Returns the response to pass on
+ * @returns Response interceptor
+ */
+export const onResponse =
+  (
+    transform: (response: HttpResponse, request: HttpRequest) => TE.TaskEither<ApiError, HttpResponse>
+  ): Middleware =>
+  (next) =>
+  (request) =>
+    pipe(
+      next(request),
+      TE.chain((response) => transform(response, request))
+    );
+
+/**
+ * Middleware handling each failed request.
+ * Return the error (or another one) to fail, or a response to recover.
+ *
+ * @param handle - Maps the error to the outcome of the request
+ * @returns Error interceptor
+ *
+ * @example
+ * ```typescript
+ * const countErrors = onError((error) => {
+ *   metrics.increment(`http.error.${error._tag}`);
+ *   return TE.left(error);
+ * });
+ * ```
+ */
+export const onError =
+  (
+    handle: (error: ApiError, request: HttpRequest) => TE.TaskEither<ApiError, HttpResponse>
+  ): Middleware =>
+  (next) =>
+  (request) =>
+    pipe(
+      next(request),
+      TE.orElse((error) => handle(error, request))
+    );
+
+/**
+ * Middleware adding headers to each request.
+ * Headers already set on the request win.
+ *
+ * @param headers - Headers, or a function read on every attempt
+ * @returns Header injector
+ */
+export const withHeaders = (
+  headers: Readonly<Record<string, string>> | (() => Readonly<Record<string, string>>)
+): Middleware =>
+  onRequest((request) =>
+    TE.right({
+      ...request,
+      headers: {
+        ...(typeof headers === 'function' ? headers() : headers),
+        ...request.headers,
+      },
+    })
+  );
+
+/**
+ * Header carrying the tracing ID of a request
+ */
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+/**
+ * Middleware giving each attempt a new `X-Request-ID`, unless the caller
+ * set one
+ */
+export const requestIdMiddleware: Middleware = withHeaders(() => ({
+  [REQUEST_ID_HEADER]: uuidv4(),
+}));
+
+/**
+ * Middleware sending the provider's token as `Authorization`.
+ * On a 401 the token is refreshed and the request sent once more; when the
+ * refresh fails the original AuthError is returned.
+ *
+ * @param provider - Supplies and refreshes the token
+ * @returns Bearer auth middleware
+ */
+export const authMiddleware =
+  (provider: TokenProvider): Middleware =>
+  (next) =>
+  (request) => {
+    const send = (token: O.Option<string>): TE.TaskEither<ApiError, HttpResponse> =>
+      next(
+        O.isSome(token)
+          ? { ...request, headers: { ...request.headers, Authorization: bearer(token.value) } }
+          : request
+      );
+
+    return pipe(
+      TE.fromTask(provider.getToken),
+      TE.chain(send),
+      TE.orElse((error) =>
+        error._tag === 'AuthError' && error.statusCode === 401
+          ? pipe(
+              provider.refresh(),
+              TE.matchE(
+                () => TE.left(error),
+                (token) => send(O.some(token))
+              )
+            )
+          : TE.left(error)
+      )
+    );
+  };
+
+/**
+ * Middleware applying a retry policy: to idempotent methods and keyed
+ * POSTs, merged with the per-request override, which may also enable it for
+ * other POSTs or disable it
+ *
+ * @param policy - Overrides for `DEFAULT_RETRY_POLICY`, or undefined to only
+ *   retry requests that ask for it
+ * @returns Retry middleware
+ */
+export const retryMiddleware =
+  (policy: Partial<RetryPolicy> | undefined): Middleware =>
+  (next) =>
+  (request) => {
+    // Hand the request on afresh for every attempt
+    const attempt: TE.TaskEither<ApiError, HttpResponse> = () => next(request)();
+    const { retryPolicy: override } = request;
+    const signal = request.options.signal ?? undefined;
+    if (override === false) {
+      return attempt;
+    }
+    if (override !== undefined) {
+      return withRetry({ ...policy, ...override }, signal)(attempt);
+    }
+    const idempotent = request.method !== 'post' || request.idempotencyKey !== undefined;
+    return policy !== undefined && idempotent ? withRetry(policy, signal)(attempt) : attempt;
+  };
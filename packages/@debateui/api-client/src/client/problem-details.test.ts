@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseFieldPath, parseProblemDetails } from './problem-details';
+
+describe('problem-details', () => {
+  describe('parseFieldPath', () => {
+    it('splits JSON pointers', () => {
+      expect(parseFieldPath('/participants/0')).toEqual(['participants', 0]);
+    });
+
+    it('unescapes JSON pointer segments', () => {
+      expect(parseFieldPath('/metadata/a~1b/c~0d')).toEqual(['metadata', 'a/b', 'c~d']);
+    });
+
+    it('splits dotted paths with brackets', () => {
+      expect(parseFieldPath('participants[1].model')).toEqual(['participants', 1, 'model']);
+      expect(parseFieldPath('config.rounds')).toEqual(['config', 'rounds']);
+    });
+  });
+
+  describe('parseProblemDetails', () => {
+    it('reads RFC 7807 problem details', () => {
+      expect(
+        parseProblemDetails({
+          type: 'https://debateui.dev/problems/invalid-config',
+          title: 'Invalid debate configuration',
+          status: 400,
+          detail: 'Rounds must be at most 10',
+          code: 'invalid_config',
+          'invalid-params': [{ name: 'rounds', reason: 'Must be at most 10' }],
+        })
+      ).toEqual({
+        message: 'Rounds must be at most 10',
+        code: 'invalid_config',
+        type: 'https://debateui.dev/problems/invalid-config',
+        fieldErrors: [{ path: ['rounds'], message: 'Must be at most 10' }],
+      });
+    });
+
+    it('falls back to the title without a detail', () => {
+      expect(parseProblemDetails({ title: 'Not Found', status: 404 }).message).toBe('Not Found');
+    });
+
+    it('reads the fallback error shape', () => {
+      expect(
+        parseProblemDetails({
+          message: 'Invalid debate configuration',
+          errors: [{ field: 'participants[0]', message: 'Unknown model', code: 'unknown_model' }],
+        })
+      ).toEqual({
+        message: 'Invalid debate configuration',
+        fieldErrors: [{ path: ['participants', 0], message: 'Unknown model', code: 'unknown_model' }],
+      });
+    });
+
+    it('skips field errors without a path or message', () => {
+      expect(
+        parseProblemDetails({ errors: [{ field: 'rounds' }, { message: 'Somewhere' }] }).fieldErrors
+      ).toEqual([]);
+    });
+
+    it('keeps the message when the field list has another shape', () => {
+      expect(parseProblemDetails({ message: 'Bad request', errors: ['rounds is invalid'] })).toEqual({
+        message: 'Bad request',
+        fieldErrors: [],
+      });
+    });
+
+    it('yields nothing for bodies that are not error objects', () => {
+      expect(parseProblemDetails('Service Unavailable')).toEqual({ fieldErrors: [] });
+      expect(parseProblemDetails(null)).toEqual({ fieldErrors: [] });
+    });
+  });
+});
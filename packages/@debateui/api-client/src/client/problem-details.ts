@@ -0,0 +1,138 @@
+import { z } from 'zod';
+
+/**
+ * One rejected field of a request.
+ * Accepts the RFC 7807 `invalid-params` entries (`name`, `reason`), JSON
+ * pointers (`pointer`, `detail`) and the fallback shape (`field`, `message`).
+ */
+const FieldErrorSchema = z.object({
+  pointer: z.string().optional(),
+  field: z.string().optional(),
+  name: z.string().optional(),
+  detail: z.string().optional(),
+  message: z.string().optional(),
+  reason: z.string().optional(),
+  code: z.string().optional(),
+});
+
+/**
+ * Error body sent by the server.
+ *
+ * Problem details (`application/problem+json`, RFC 7807):
+ * ```json
+ * {
+ *   "type": "https://debateui.dev/problems/invalid-config",
+ *   "title": "Invalid debate configuration",
+ *   "status": 400,
+ *   "detail": "2 fields are invalid",
+ *   "code": "invalid_config",
+ *   "invalid-params": [{ "name": "rounds", "reason": "must be at most 10" }],
+ *   "errors": [{ "pointer": "/participants/0", "detail": "unknown model" }]
+ * }
+ * ```
+ *
+ * Fallback for plain `application/json` errors:
+ * ```json
+ * {
+ *   "message": "Invalid debate configuration",
+ *   "code": "invalid_config",
+ *   "errors": [{ "field": "participants[0]", "message": "unknown model" }]
+ * }
+ * ```
+ */
+const ErrorBodySchema = z.object({
+  type: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().optional(),
+  detail: z.string().optional(),
+  instance: z.string().optional(),
+  message: z.string().optional(),
+  code: z.string().optional(),
+  // Field lists in another shape are ignored rather than losing the message
+  errors: z.array(FieldErrorSchema).optional().catch(undefined),
+  'invalid-params': z.array(FieldErrorSchema).optional().catch(undefined),
+});
+
+/**
+ * A field the server rejected
+ */
+export interface FieldError {
+  /** Path to the field, e.g. `['participants', 0]` */
+  readonly path: readonly (string | number)[];
+  readonly message: string;
+  readonly code?: string;
+}
+
+/**
+ * What could be read from an error response body
+ */
+export interface ProblemDetails {
+  /** Human-readable description of the problem */
+  readonly message?: string;
+  /** Machine-readable error code */
+  readonly code?: string;
+  /** URI of the problem type */
+  readonly type?: string;
+  readonly fieldErrors: readonly FieldError[];
+}
+
+/**
+ * Split a field path into segments.
+ * Takes JSON pointers (`/participants/0`) and dotted paths with optional
+ * brackets (`participants[0].name`); numeric segments become numbers.
+ *
+ * @param path - Field path as sent by the server
+ * @returns Path segments
+ */
+export const parseFieldPath = (path: string): (string | number)[] => {
+  const segments = path.startsWith('/')
+    ? path
+        .slice(1)
+        .split('/')
+        .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    : path.replace(/\[([^\]]*)\]/g, '.$1').split('.');
+
+  return segments
+    .filter((segment) => segment !== '')
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+};
+
+const toFieldError = (entry: z.infer<typeof FieldErrorSchema>): FieldError | undefined => {
+  const path = entry.pointer ?? entry.field ?? entry.name;
+  const message = entry.detail ?? entry.message ?? entry.reason;
+  if (path === undefined || message === undefined) {
+    return undefined;
+  }
+  return {
+    path: parseFieldPath(path),
+    message,
+    ...(entry.code !== undefined && { code: entry.code }),
+  };
+};
+
+/**
+ * Read problem details or the fallback error shape from a parsed body.
+ * Anything else yields no message, no code and no field errors.
+ *
+ * @param body - Parsed JSON body of an error response
+ * @returns Message, code, problem type and field errors the body carries
+ */
+export const parseProblemDetails = (body: unknown): ProblemDetails => {
+  const parsed = ErrorBodySchema.safeParse(body);
+  if (!parsed.success) {
+    return { fieldErrors: [] };
+  }
+
+  const { type, detail, message, title, code, errors = [] } = parsed.data;
+  const text = detail ?? message ?? title;
+  const fieldErrors = [...(parsed.data['invalid-params'] ?? []), ...errors]
+    .map(toFieldError)
+    .filter((fieldError): fieldError is FieldError => fieldError !== undefined);
+
+  return {
+    ...(text !== undefined && { message: text }),
+    ...(code !== undefined && { code }),
+    ...(type !== undefined && { type }),
+    fieldErrors,
+  };
+};
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import {
+  networkError,
+  serverError,
+  rateLimitError,
+  notFoundError,
+  conflictError,
+  cancelledError,
+  type ApiError,
+} from '@debateui/core';
+import { withRetry, getRetryDelay, DEFAULT_RETRY_POLICY } from './retry';
+
+// A task failing with the given errors in turn, then succeeding
+const createFlakyTask = (errors: ApiError[]) => {
+  const remaining = [...errors];
+  const task = vi.fn((): Promise<E.Either<ApiError, string>> => {
+    const error = remaining.shift();
+    return Promise.resolve(error ? E.left(error) : E.right('ok'));
+  });
+  return task;
+};
+
+const noJitter = { jitter: 0 };
+
+describe('retry', () => {
+  describe('getRetryDelay', () => {
+    it('backs off exponentially up to the maximum', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, initialDelay: 100, maxDelay: 500, jitter: 0 };
+      const error = networkError('offline');
+
+      expect(getRetryDelay(error, 1, policy)).toBe(100);
+      expect(getRetryDelay(error, 2, policy)).toBe(200);
+      expect(getRetryDelay(error, 3, policy)).toBe(400);
+      expect(getRetryDelay(error, 4, policy)).toBe(500);
+    });
+
+    it('shortens the delay by up to the jitter fraction', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, initialDelay: 1000, jitter: 0.5 };
+      const error = serverError(503, 'Unavailable');
+
+      expect(getRetryDelay(error, 1, policy, () => 0)).toBe(1000);
+      expect(getRetryDelay(error, 1, policy, () => 1)).toBe(500);
+    });
+
+    it('waits as long as a rate limit asks', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, maxDelay: 60000 };
+
+      expect(getRetryDelay(rateLimitError(42000), 1, policy, () => 1)).toBe(42000);
+    });
+
+    it('waits no longer than the maximum delay for a rate limit', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, maxDelay: 10000 };
+
+      expect(getRetryDelay(rateLimitError(60000), 1, policy)).toBe(10000);
+    });
+  });
+
+  describe('withRetry', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('returns the first success without retrying', async () => {
+      const task = createFlakyTask([]);
+
+      const result = await pipe(task, withRetry(noJitter))();
+
+      expect(result).toEqual(E.right('ok'));
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries retryable errors with backoff until one succeeds', async () => {
+      const task = createFlakyTask([networkError('offline'), serverError(502, 'Bad gateway')]);
+
+      const pending = pipe(task, withRetry({ ...noJitter, initialDelay: 100 }))();
+      await vi.advanceTimersByTimeAsync(99);
+      expect(task).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(task).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(await pending).toEqual(E.right('ok'));
+      expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('honours retryAfterMs of rate limits', async () => {
+      const task = createFlakyTask([rateLimitError(5000)]);
+
+      const pending = pipe(task, withRetry({ ...noJitter, initialDelay: 100 }))();
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(task).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(await pending).toEqual(E.right('ok'));
+    });
+
+    it('ends with a cancelled error when aborted while waiting to retry', async () => {
+      const task = createFlakyTask([networkError('offline')]);
+      const controller = new AbortController();
+
+      const pending = pipe(task, withRetry({ ...noJitter, initialDelay: 1000 }, controller.signal))();
+      await vi.advanceTimersByTimeAsync(100);
+      controller.abort();
+
+      expect(await pending).toEqual(E.left(cancelledError()));
+      expect(task).toHaveBeenCalledTimes(1);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('does not retry once already aborted', async () => {
+      const task = createFlakyTask([networkError('offline')]);
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await pipe(task, withRetry(noJitter, controller.signal))();
+
+      expect(result).toEqual(E.left(cancelledError()));
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails immediately on errors that are not retryable', async () => {
+      const task = createFlakyTask([notFoundError('debate', 'd1')]);
+
+      const result = await pipe(task, withRetry(noJitter))();
+
+      expect(E.isLeft(result) && result.left._tag).toBe('NotFoundError');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after maxRetries with the last error', async () => {
+      const task = createFlakyTask([
+        serverError(503, 'first'),
+        serverError(503, 'second'),
+        serverError(503, 'third'),
+      ]);
+
+      const pending = pipe(task, withRetry({ ...noJitter, maxRetries: 2, initialDelay: 10 }))();
+      await vi.runAllTimersAsync();
+
+      expect(await pending).toEqual(E.left(serverError(503, 'third')));
+      expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('retries the error tags the policy names', async () => {
+      const task = createFlakyTask([conflictError('Stale branch')]);
+
+      const pending = pipe(task, withRetry({ ...noJitter, retryOn: ['ConflictError'] }))();
+      await vi.runAllTimersAsync();
+
+      expect(await pending).toEqual(E.right('ok'));
+    });
+
+    it('composes with other TaskEither operators', async () => {
+      const task = createFlakyTask([networkError('offline')]);
+
+      const pending = pipe(
+        task,
+        withRetry(noJitter),
+        TE.map((value) => value.toUpperCase())
+      )();
+      await vi.runAllTimersAsync();
+
+      expect(await pending).toEqual(E.right('OK'));
+    });
+  });
+});
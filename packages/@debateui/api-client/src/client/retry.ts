@@ -0,0 +1,123 @@
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import { cancelledError, type ApiError } from '@debateui/core';
+
+/**
+ * Tag of an ApiError variant
+ */
+export type ApiErrorTag = ApiError['_tag'];
+
+/**
+ * When and how often a failed request is retried
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry in milliseconds, doubled on each retry */
+  initialDelay: number;
+  /** Upper bound for the backoff delay in milliseconds */
+  maxDelay: number;
+  /**
+   * Fraction of each backoff delay that is randomised, from 0 (none) to 1.
+   * Spreads out retries from clients that failed at the same time.
+   */
+  jitter: number;
+  /** Error tags worth retrying; anything else fails immediately */
+  retryOn: readonly ApiErrorTag[];
+}
+
+/**
+ * Default retry policy.
+ * Conflicts are not retried: the request has to be rebuilt from fresh state.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelay: 500,
+  maxDelay: 10000,
+  jitter: 0.5,
+  retryOn: ['NetworkError', 'ServerError', 'RateLimitError'],
+};
+
+/**
+ * Milliseconds to wait before a retry.
+ * A rate limit waits as long as the server asked, since retrying earlier is
+ * bound to fail, but no longer than `maxDelay`; other errors back off
+ * exponentially with jitter.
+ *
+ * @param error - Error of the failed attempt
+ * @param retry - Number of the retry, starting at 1
+ * @param policy - Retry policy
+ * @param random - Source of randomness for the jitter
+ * @returns Delay in milliseconds
+ */
+export const getRetryDelay = (
+  error: ApiError,
+  retry: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number => {
+  if (error._tag === 'RateLimitError') {
+    return Math.min(error.retryAfterMs, policy.maxDelay);
+  }
+  const backoff = Math.min(policy.initialDelay * Math.pow(2, retry - 1), policy.maxDelay);
+  return Math.round(backoff * (1 - policy.jitter * random()));
+};
+
+/**
+ * Wait for `ms` milliseconds, or until the signal aborts
+ * @returns Whether the full delay passed
+ */
+const sleep = (ms: number, signal: AbortSignal | undefined): Promise<boolean> =>
+  new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Retry a TaskEither according to a policy.
+ * Each retry runs the task again, so it must be safe to repeat.
+ * Aborting the signal while waiting for a retry ends with a
+ * `CancelledError` instead of the rest of the delay.
+ *
+ * @param policy - Overrides for `DEFAULT_RETRY_POLICY`
+ * @param signal - Cancels the pending retries, e.g. the request's signal
+ * @returns Combinator wrapping a task with retries
+ *
+ * @example
+ * ```typescript
+ * const turns = pipe(
+ *   client.debate.getTurns(debateId),
+ *   withRetry({ maxRetries: 5 })
+ * );
+ * ```
+ */
+export const withRetry =
+  (policy: Partial<RetryPolicy> = {}, signal?: AbortSignal) =>
+  <A>(task: TE.TaskEither<ApiError, A>): TE.TaskEither<ApiError, A> => {
+    const resolved: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...policy };
+
+    return async () => {
+      let result = await task();
+      for (let retry = 1; retry <= resolved.maxRetries; retry++) {
+        if (E.isRight(result) || !resolved.retryOn.includes(result.left._tag)) {
+          return result;
+        }
+        if (!(await sleep(getRetryDelay(result.left, retry, resolved), signal))) {
+          return E.left(cancelledError());
+        }
+        result = await task();
+      }
+      return result;
+    };
+  };
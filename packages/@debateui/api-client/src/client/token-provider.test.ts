@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { authError, type ApiError } from '@debateui/core';
+import { createTokenProvider } from './token-provider';
+
+// A refresh the test settles by hand
+const createDeferredRefresh = () => {
+  let settle: (result: E.Either<ApiError, string>) => void = () => undefined;
+  const refreshToken = vi.fn(
+    (): TE.TaskEither<ApiError, string> => () =>
+      new Promise((resolve) => {
+        settle = resolve;
+      })
+  );
+  return {
+    refreshToken,
+    settle: (result: E.Either<ApiError, string>) => {
+      settle(result);
+    },
+  };
+};
+
+describe('TokenProvider', () => {
+  it('starts with the initial token', async () => {
+    const provider = createTokenProvider({ initialToken: 'abc', refreshToken: () => TE.right('new') });
+
+    expect(provider.currentToken()).toEqual(O.some('abc'));
+    expect(await provider.getToken()).toEqual(O.some('abc'));
+  });
+
+  it('stores the refreshed token', async () => {
+    const provider = createTokenProvider({ refreshToken: () => TE.right('new') });
+
+    expect(provider.currentToken()).toEqual(O.none);
+    expect(await provider.refresh()()).toEqual(E.right('new'));
+    expect(provider.currentToken()).toEqual(O.some('new'));
+  });
+
+  it('shares one refresh between concurrent callers', async () => {
+    const { refreshToken, settle } = createDeferredRefresh();
+    const provider = createTokenProvider({ initialToken: 'old', refreshToken });
+
+    const first = provider.refresh()();
+    const second = provider.refresh()();
+    const queued = provider.getToken();
+    settle(E.right('new'));
+
+    expect(await first).toEqual(E.right('new'));
+    expect(await second).toEqual(E.right('new'));
+    expect(await queued).toEqual(O.some('new'));
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes again once the previous refresh has settled', async () => {
+    const refreshToken = vi.fn(() => TE.right('new'));
+    const provider = createTokenProvider({ refreshToken });
+
+    await provider.refresh()();
+    await provider.refresh()();
+
+    expect(refreshToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('signs out when the refresh fails', async () => {
+    const reason = authError('Session expired', 401);
+    const provider = createTokenProvider({ initialToken: 'old', refreshToken: () => TE.left(reason) });
+    const listener = vi.fn();
+    provider.onSignedOut(listener);
+
+    expect(await provider.refresh()()).toEqual(E.left(reason));
+    expect(listener).toHaveBeenCalledWith(reason);
+    expect(provider.currentToken()).toEqual(O.none);
+  });
+
+  it('treats a throwing refresh as a failed one', async () => {
+    const provider = createTokenProvider({
+      refreshToken: () => () => Promise.reject(new Error('offline')),
+    });
+    const listener = vi.fn();
+    provider.onSignedOut(listener);
+
+    const result = await provider.refresh()();
+
+    expect(E.isLeft(result) && result.left._tag).toBe('AuthError');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops notifying removed listeners', () => {
+    const provider = createTokenProvider({ initialToken: 'abc', refreshToken: () => TE.right('new') });
+    const listener = vi.fn();
+    const unsubscribe = provider.onSignedOut(listener);
+
+    unsubscribe();
+    provider.signOut(authError('Signed out', 401));
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(provider.currentToken()).toEqual(O.none);
+  });
+});
@@ -0,0 +1,147 @@
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { authError, type ApiError } from '@debateui/core';
+
+/**
+ * Where access tokens come from, e.g. an SSO session
+ */
+export interface TokenSource {
+  /**
+   * Token to start with, e.g. from the login redirect.
+   * Without one, the first 401 triggers a refresh.
+   */
+  initialToken?: string;
+
+  /**
+   * Obtain a new access token, e.g. with a refresh token or SSO cookie.
+   * A Left means the session cannot be renewed and the user is signed out.
+   */
+  refreshToken: () => TE.TaskEither<ApiError, string>;
+}
+
+/**
+ * Listener for the user being signed out
+ */
+export type SignedOutListener = (reason: ApiError) => void;
+
+/**
+ * Supplies bearer tokens to the HTTP client and the stream transports.
+ * One provider should be shared by all of them, so a refresh triggered by
+ * one request is reused by every other.
+ */
+export interface TokenProvider {
+  /**
+   * Token for the next request.
+   * Waits for a refresh in progress, so requests made meanwhile are queued
+   * behind it instead of failing with the expired token.
+   */
+  getToken: () => Promise<O.Option<string>>;
+
+  /**
+   * Token as of now, without waiting.
+   * For transports that connect synchronously, such as EventSource.
+   */
+  currentToken: () => O.Option<string>;
+
+  /**
+   * Replace the token after a 401.
+   * Concurrent calls share one refresh; a failed refresh signs the user out.
+   */
+  refresh: () => TE.TaskEither<ApiError, string>;
+
+  /**
+   * Drop the token and notify signed-out listeners
+   */
+  signOut: (reason: ApiError) => void;
+
+  /**
+   * Subscribe to sign-outs
+   * @returns Function that removes the listener
+   */
+  onSignedOut: (listener: SignedOutListener) => () => void;
+}
+
+/**
+ * Creates a token provider that keeps the current token in memory and
+ * renews it through the given source.
+ *
+ * @param source - Initial token and refresh function
+ * @returns TokenProvider to pass to `createHttpClient` and the stream clients
+ *
+ * @example
+ * ```typescript
+ * const tokenProvider = createTokenProvider({
+ *   initialToken: session.accessToken,
+ *   refreshToken: () => renewSsoSession(),
+ * });
+ *
+ * tokenProvider.onSignedOut(() => redirectToLogin());
+ *
+ * const httpClient = createHttpClient(baseUrl, { tokenProvider });
+ * createSSEClient(debateId, baseUrl, onEvent, { tokenProvider });
+ * ```
+ */
+export const createTokenProvider = (source: TokenSource): TokenProvider => {
+  let token: O.Option<string> = O.fromNullable(source.initialToken);
+  let pendingRefresh: Promise<E.Either<ApiError, string>> | null = null;
+  const listeners = new Set<SignedOutListener>();
+
+  const signOut = (reason: ApiError): void => {
+    token = O.none;
+    listeners.forEach((listener) => {
+      listener(reason);
+    });
+  };
+
+  const runRefresh = async (): Promise<E.Either<ApiError, string>> => {
+    const result = await TE.tryCatch(
+      () => source.refreshToken()(),
+      () => authError('Failed to refresh the access token', 401)
+    )();
+    const flattened = E.flatten(result);
+
+    if (E.isRight(flattened)) {
+      token = O.some(flattened.right);
+    } else {
+      signOut(flattened.left);
+    }
+    return flattened;
+  };
+
+  const refresh = (): TE.TaskEither<ApiError, string> => () => {
+    if (pendingRefresh === null) {
+      pendingRefresh = runRefresh().finally(() => {
+        pendingRefresh = null;
+      });
+    }
+    return pendingRefresh;
+  };
+
+  const getToken = async (): Promise<O.Option<string>> => {
+    if (pendingRefresh !== null) {
+      await pendingRefresh;
+    }
+    return token;
+  };
+
+  const onSignedOut = (listener: SignedOutListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    getToken,
+    currentToken: () => token,
+    refresh,
+    signOut,
+    onSignedOut,
+  };
+};
+
+/**
+ * Authorization header value for a bearer token
+ */
+export const bearer = (token: string): string => `Bearer ${token}`;
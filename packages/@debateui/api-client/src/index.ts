@@ -12,12 +12,70 @@ export {
   createHttpClient,
   type HttpClient,
   type HttpClientConfig,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_CONFLICT,
+  IDEMPOTENCY_ERROR_CODES,
+  type RequestOptions,
 } from './client/http-client';
 
+// Export HTTP middleware
+export {
+  composeMiddleware,
+  onRequest,
+  onResponse,
+  onError,
+  withHeaders,
+  requestIdMiddleware,
+  authMiddleware,
+  retryMiddleware,
+  REQUEST_ID_HEADER,
+  type HttpMethod,
+  type HttpRequest,
+  type HttpResponse,
+  type HttpHandler,
+  type Middleware,
+} from './client/middleware';
+
+// Export retry policy
+export {
+  withRetry,
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+  type ApiErrorTag,
+} from './client/retry';
+
+// Export error body parsing
+export {
+  parseProblemDetails,
+  parseFieldPath,
+  type ProblemDetails,
+  type FieldError,
+} from './client/problem-details';
+
+// Export circuit breaker
+export {
+  createCircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_POLICY,
+  type CircuitBreaker,
+  type CircuitBreakerPolicy,
+  type CircuitState,
+  type CircuitStateListener,
+} from './client/circuit-breaker';
+
+// Export bearer token auth
+export {
+  createTokenProvider,
+  type TokenProvider,
+  type TokenSource,
+  type SignedOutListener,
+} from './client/token-provider';
+
 // Export Debate API
 export {
   createDebateApi,
   type DebateApiClient,
+  type ApiRequestOptions,
+  type CallOptions,
 } from './api/debate-api';
 
 // Export Branch API
@@ -35,14 +93,104 @@ export {
   isErrorEvent,
   isCompleteEvent,
   isCCREvent,
+  isHeartbeatEvent,
+  isStalledEvent,
+  isHelloEvent,
+  isUnknownEvent,
   type StreamEvent,
   type StreamEventHandler,
   type SSEClient,
   type SSEClientOptions,
+  type SSETransport,
+  type StreamClient,
+  type UnknownEventData,
   type CCREventType,
   type CCREventData,
 } from './streaming/sse-client';
 
+// Export stream protocol versioning
+export {
+  STREAM_PROTOCOL_VERSION,
+  PROTOCOL_VERSION_PARAM,
+  LAST_EVENT_ID_PARAM,
+  ACCESS_TOKEN_PARAM,
+  checkProtocolVersion,
+} from './streaming/protocol';
+
+// Export typed CCR event metadata
+export {
+  RoundMetadataSchema,
+  TurnStreamingMetadataSchema,
+  TurnCompletedMetadataSchema,
+  ModelApiCallMetadataSchema,
+  ModelApiResponseMetadataSchema,
+  TokenUsageMetadataSchema,
+  CostUpdateMetadataSchema,
+  ErrorOccurredMetadataSchema,
+  toTypedCCREvent,
+  isCCREventOfType,
+  isRoundStartedEvent,
+  isRoundCompletedEvent,
+  isTurnStreamingEvent,
+  isTurnCompletedEvent,
+  isModelApiCallEvent,
+  isModelApiResponseEvent,
+  isTokenUsageEvent,
+  isCostUpdateEvent,
+  isErrorOccurredEvent,
+  type RoundMetadata,
+  type TurnStreamingMetadata,
+  type TurnCompletedMetadata,
+  type ModelApiCallMetadata,
+  type ModelApiResponseMetadata,
+  type TokenUsageMetadata,
+  type CostUpdateMetadata,
+  type ErrorOccurredMetadata,
+  type TypedCCREventType,
+  type CCREventOf,
+  type TypedCCREvent,
+} from './streaming/ccr-metadata';
+
+// Export WebSocket streaming client
+export {
+  createWebSocketClient,
+  type WebSocketClient,
+  type WebSocketClientOptions,
+  type ClientMessage,
+} from './streaming/ws-client';
+
+// Export SSE stream parser
+export {
+  createSSEParser,
+  type SSEMessage,
+  type SSEParser,
+} from './streaming/sse-parser';
+
+// Export session recording and replay
+export {
+  FIXTURE_VERSION,
+  SessionFixtureSchema,
+  parseSessionFixture,
+  serializeSessionFixture,
+  type SessionFixture,
+  type FixtureEntry,
+  type HttpEntry,
+  type StreamEntry,
+  type RecordedError,
+} from './recording/fixture';
+export {
+  createSessionRecorder,
+  type SessionRecorder,
+  type SessionRecorderOptions,
+} from './recording/recorder';
+export {
+  replayMiddleware,
+  createReplayHttpClient,
+  createReplaySSEClient,
+  type ReplayOptions,
+  type ReplaySSEClientFactory,
+} from './recording/replayer';
+
 /**
  * Combined API client interface
  */
@@ -0,0 +1,201 @@
+import * as E from 'fp-ts/Either';
+import { z } from 'zod';
+import {
+  authError,
+  cancelledError,
+  conflictError,
+  debateFailedError,
+  networkError,
+  notFoundError,
+  rateLimitError,
+  serverError,
+  serviceUnavailableError,
+  validationError,
+  type ApiError,
+} from '@debateui/core';
+
+/**
+ * Version of the fixture format.
+ * Bump when recorded entries change shape.
+ */
+export const FIXTURE_VERSION = 1;
+
+/**
+ * An error as stored in a fixture.
+ * Validation errors keep their issues; the cause of a network error is
+ * dropped, as it does not survive JSON.
+ */
+const RecordedErrorSchema = z.discriminatedUnion('_tag', [
+  z.object({ _tag: z.literal('NetworkError'), message: z.string() }),
+  z.object({
+    _tag: z.literal('ValidationError'),
+    issues: z.array(
+      z.object({
+        path: z.array(z.union([z.string(), z.number()])),
+        message: z.string(),
+      })
+    ),
+    code: z.string().optional(),
+  }),
+  z.object({
+    _tag: z.literal('AuthError'),
+    message: z.string(),
+    statusCode: z.union([z.literal(401), z.literal(403)]),
+    code: z.string().optional(),
+  }),
+  z.object({ _tag: z.literal('RateLimitError'), retryAfterMs: z.number() }),
+  z.object({
+    _tag: z.literal('NotFoundError'),
+    resource: z.string(),
+    id: z.string(),
+    code: z.string().optional(),
+  }),
+  z.object({
+    _tag: z.literal('ConflictError'),
+    message: z.string(),
+    conflictingResource: z.string().optional(),
+    code: z.string().optional(),
+  }),
+  z.object({
+    _tag: z.literal('ServerError'),
+    statusCode: z.number(),
+    message: z.string(),
+    code: z.string().optional(),
+  }),
+  z.object({
+    _tag: z.literal('ServiceUnavailableError'),
+    message: z.string(),
+    retryAfterMs: z.number(),
+  }),
+  z.object({ _tag: z.literal('CancelledError'), message: z.string() }),
+  z.object({ _tag: z.literal('DebateFailedError'), debateId: z.string(), message: z.string() }),
+]);
+
+/**
+ * One request and its outcome.
+ * Request headers are not recorded, so fixtures carry no credentials.
+ */
+const HttpEntrySchema = z.object({
+  kind: z.literal('http'),
+  /** Milliseconds since the recording started */
+  at: z.number().nonnegative(),
+  request: z.object({
+    method: z.enum(['get', 'post', 'put', 'delete']),
+    /** Path relative to the base URL, including the query */
+    path: z.string(),
+    body: z.unknown().optional(),
+  }),
+  outcome: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('response'),
+      status: z.number().int(),
+      headers: z.record(z.string()),
+      body: z.unknown().optional(),
+    }),
+    z.object({ type: z.literal('error'), error: RecordedErrorSchema }),
+  ]),
+});
+
+/**
+ * One event received from a debate stream
+ */
+const StreamEntrySchema = z.object({
+  kind: z.literal('stream'),
+  /** Milliseconds since the recording started */
+  at: z.number().nonnegative(),
+  debateId: z.string(),
+  /** The event as delivered to the handler; validated again on replay */
+  event: z.unknown(),
+});
+
+/**
+ * A recorded session: API traffic and stream events in the order they
+ * happened
+ */
+export const SessionFixtureSchema = z.object({
+  version: z.literal(FIXTURE_VERSION),
+  /** ISO timestamp of the start of the recording */
+  recordedAt: z.string(),
+  entries: z.array(z.discriminatedUnion('kind', [HttpEntrySchema, StreamEntrySchema])),
+});
+
+export type RecordedError = z.infer<typeof RecordedErrorSchema>;
+export type HttpEntry = z.infer<typeof HttpEntrySchema>;
+export type StreamEntry = z.infer<typeof StreamEntrySchema>;
+export type FixtureEntry = HttpEntry | StreamEntry;
+export type SessionFixture = z.infer<typeof SessionFixtureSchema>;
+
+/**
+ * Parse a fixture, e.g. one attached to a bug report
+ *
+ * @param input - Parsed JSON of a fixture file
+ * @returns Right(SessionFixture) on success, Left(ZodError) on failure
+ */
+export const parseSessionFixture = (input: unknown): E.Either<z.ZodError, SessionFixture> => {
+  const result = SessionFixtureSchema.safeParse(input);
+  return result.success ? E.right(result.data) : E.left(result.error);
+};
+
+/**
+ * Serialize a fixture for writing to a file
+ *
+ * @param fixture - Recorded session
+ * @returns Indented JSON
+ */
+export const serializeSessionFixture = (fixture: SessionFixture): string =>
+  JSON.stringify(fixture, null, 2);
+
+/**
+ * Store an error in a fixture
+ *
+ * @param error - Error of a recorded request
+ * @returns The error in its JSON-safe form
+ */
+export const toRecordedError = (error: ApiError): RecordedError => {
+  switch (error._tag) {
+    case 'NetworkError':
+      return { _tag: 'NetworkError', message: error.message };
+    case 'ValidationError':
+      return {
+        _tag: 'ValidationError',
+        issues: error.errors.issues.map(({ path, message }) => ({ path, message })),
+        ...(error.code !== undefined && { code: error.code }),
+      };
+    default:
+      return error;
+  }
+};
+
+/**
+ * Restore an error stored in a fixture
+ *
+ * @param error - Error as stored
+ * @returns The ApiError the recorded request failed with
+ */
+export const fromRecordedError = (error: RecordedError): ApiError => {
+  switch (error._tag) {
+    case 'NetworkError':
+      return networkError(error.message);
+    case 'ValidationError':
+      return validationError(
+        new z.ZodError(error.issues.map((issue) => ({ ...issue, code: 'custom' as const }))),
+        error.code
+      );
+    case 'AuthError':
+      return authError(error.message, error.statusCode, error.code);
+    case 'RateLimitError':
+      return rateLimitError(error.retryAfterMs);
+    case 'NotFoundError':
+      return notFoundError(error.resource, error.id, error.code);
+    case 'ConflictError':
+      return conflictError(error.message, error.conflictingResource, error.code);
+    case 'ServerError':
+      return serverError(error.statusCode, error.message, error.code);
+    case 'ServiceUnavailableError':
+      return serviceUnavailableError(error.message, error.retryAfterMs);
+    case 'CancelledError':
+      return cancelledError(error.message);
+    case 'DebateFailedError':
+      return debateFailedError(error.debateId, error.message);
+  }
+};
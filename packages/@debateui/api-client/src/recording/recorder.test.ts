@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as E from 'fp-ts/Either';
+import { z } from 'zod';
+import { networkError, validationError, type ApiError } from '@debateui/core';
+import type { HttpHandler, HttpRequest, HttpResponse } from '../client/middleware';
+import type { StreamEvent } from '../streaming/sse-client';
+import { parseSessionFixture } from './fixture';
+import { createSessionRecorder } from './recorder';
+
+const request: HttpRequest = {
+  method: 'post',
+  path: '/api/debates',
+  headers: { Authorization: 'Bearer secret' },
+  body: { question: 'Is remote work here to stay?' },
+  options: {},
+};
+
+const answer =
+  (outcome: E.Either<ApiError, HttpResponse>): HttpHandler =>
+  () =>
+  () =>
+    Promise.resolve(outcome);
+
+// A clock advanced by hand
+const createClock = () => {
+  let time = 1_700_000_000_000;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+};
+
+describe('createSessionRecorder', () => {
+  it('records requests and responses with their timing', async () => {
+    const clock = createClock();
+    const recorder = createSessionRecorder({ now: clock.now });
+    const send = recorder.middleware(
+      answer(E.right({ status: 201, headers: new Headers({ 'X-Request-ID': 'r1' }), body: { debateId: 'd1' } }))
+    );
+
+    clock.advance(250);
+    const result = await send(request)();
+
+    expect(result).toEqual(E.right(expect.objectContaining({ body: { debateId: 'd1' } })));
+    expect(recorder.fixture()).toEqual({
+      version: 1,
+      recordedAt: new Date(1_700_000_000_000).toISOString(),
+      entries: [
+        {
+          kind: 'http',
+          at: 250,
+          request: { method: 'post', path: '/api/debates', body: { question: 'Is remote work here to stay?' } },
+          outcome: { type: 'response', status: 201, headers: { 'x-request-id': 'r1' }, body: { debateId: 'd1' } },
+        },
+      ],
+    });
+  });
+
+  it('does not record request headers', async () => {
+    const recorder = createSessionRecorder();
+
+    await recorder.middleware(answer(E.right({ status: 204, headers: new Headers(), body: undefined })))(request)();
+
+    expect(recorder.toJSON()).not.toContain('secret');
+  });
+
+  it('records failed requests and passes the error on', async () => {
+    const recorder = createSessionRecorder({ now: createClock().now });
+    const error = networkError('offline', new TypeError('fetch failed'));
+
+    const result = await recorder.middleware(answer(E.left(error)))({ ...request, method: 'get', body: undefined })();
+
+    expect(result).toEqual(E.left(error));
+    expect(recorder.fixture().entries).toEqual([
+      {
+        kind: 'http',
+        at: 0,
+        request: { method: 'get', path: '/api/debates' },
+        outcome: { type: 'error', error: { _tag: 'NetworkError', message: 'offline' } },
+      },
+    ]);
+  });
+
+  it('keeps the issues of a validation error', async () => {
+    const recorder = createSessionRecorder();
+    const error = validationError(
+      new z.ZodError([{ code: 'custom', path: ['question'], message: 'Too short' }]),
+      'invalid_question'
+    );
+
+    await recorder.middleware(answer(E.left(error)))(request)();
+
+    expect(recorder.fixture().entries[0]).toMatchObject({
+      outcome: {
+        type: 'error',
+        error: {
+          _tag: 'ValidationError',
+          issues: [{ path: ['question'], message: 'Too short' }],
+          code: 'invalid_question',
+        },
+      },
+    });
+  });
+
+  it('records stream events and hands them on', () => {
+    const clock = createClock();
+    const recorder = createSessionRecorder({ now: clock.now });
+    const onEvent = vi.fn();
+    const event: StreamEvent = { type: 'complete', data: { debateId: 'd1' } };
+
+    clock.advance(1200);
+    recorder.recordStream('d1', onEvent)(event);
+
+    expect(onEvent).toHaveBeenCalledWith(event);
+    expect(recorder.fixture().entries).toEqual([{ kind: 'stream', at: 1200, debateId: 'd1', event }]);
+  });
+
+  it('writes JSON that parses back into the fixture', async () => {
+    const recorder = createSessionRecorder();
+    await recorder.middleware(answer(E.right({ status: 200, headers: new Headers(), body: [] })))(request)();
+    recorder.recordStream('d1', () => undefined)({ type: 'heartbeat', data: { timestamp: 1 } });
+
+    expect(parseSessionFixture(JSON.parse(recorder.toJSON()))).toEqual(E.right(recorder.fixture()));
+  });
+});
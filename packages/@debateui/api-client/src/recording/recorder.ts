@@ -0,0 +1,130 @@
+import * as TE from 'fp-ts/TaskEither';
+import { pipe } from 'fp-ts/function';
+import type { Middleware } from '../client/middleware';
+import type { StreamEventHandler } from '../streaming/sse-client';
+import {
+  FIXTURE_VERSION,
+  serializeSessionFixture,
+  toRecordedError,
+  type FixtureEntry,
+  type HttpEntry,
+  type SessionFixture,
+} from './fixture';
+
+/**
+ * Options for a session recorder
+ */
+export interface SessionRecorderOptions {
+  /** Clock for the timing of entries, defaults to `Date.now` */
+  now?: () => number;
+}
+
+/**
+ * Records API traffic and stream events of a session into a fixture
+ */
+export interface SessionRecorder {
+  /**
+   * Middleware recording each request and its final outcome.
+   * Place it first in `middleware` of `createHttpClient` so retries are
+   * recorded as one request.
+   */
+  middleware: Middleware;
+
+  /**
+   * Wrap a stream handler so every event it receives is recorded
+   * @param debateId - Debate the stream belongs to
+   * @param onEvent - Handler to pass the events on to
+   * @returns Handler to give to the stream client instead
+   */
+  recordStream: (debateId: string, onEvent: StreamEventHandler) => StreamEventHandler;
+
+  /**
+   * The session recorded so far
+   */
+  fixture: () => SessionFixture;
+
+  /**
+   * The session recorded so far as JSON, to write to a fixture file
+   */
+  toJSON: () => string;
+}
+
+/**
+ * Creates a recorder capturing a session as a fixture that
+ * `createReplayHttpClient` and `createReplaySSEClient` can play back.
+ *
+ * Entries are timed relative to the creation of the recorder.
+ *
+ * @param options - Clock to time entries with
+ * @returns SessionRecorder
+ *
+ * @example
+ * ```typescript
+ * const recorder = createSessionRecorder();
+ * const httpClient = createHttpClient(baseUrl, { middleware: [recorder.middleware] });
+ * createSSEClient(debateId, baseUrl, recorder.recordStream(debateId, onEvent));
+ *
+ * // Later, attach to the bug report
+ * const fixture = recorder.toJSON();
+ * ```
+ */
+export const createSessionRecorder = (options: SessionRecorderOptions = {}): SessionRecorder => {
+  const now = options.now ?? Date.now;
+  const startedAt = now();
+  const recordedAt = new Date(startedAt).toISOString();
+  const entries: FixtureEntry[] = [];
+
+  const elapsed = (): number => Math.max(0, now() - startedAt);
+
+  const fixture = (): SessionFixture => ({
+    version: FIXTURE_VERSION,
+    recordedAt,
+    entries: [...entries],
+  });
+
+  const middleware: Middleware = (next) => (request) => {
+    const at = elapsed();
+    const recorded: HttpEntry['request'] = {
+      method: request.method,
+      path: request.path,
+      ...(request.body !== undefined && { body: request.body }),
+    };
+
+    return pipe(
+      next(request),
+      TE.bimap(
+        (error) => {
+          entries.push({ kind: 'http', at, request: recorded, outcome: { type: 'error', error: toRecordedError(error) } });
+          return error;
+        },
+        (response) => {
+          entries.push({
+            kind: 'http',
+            at,
+            request: recorded,
+            outcome: {
+              type: 'response',
+              status: response.status,
+              headers: Object.fromEntries(response.headers.entries()),
+              ...(response.body !== undefined && { body: response.body }),
+            },
+          });
+          return response;
+        }
+      )
+    );
+  };
+
+  return {
+    middleware,
+
+    recordStream: (debateId, onEvent) => (event) => {
+      entries.push({ kind: 'stream', at: elapsed(), debateId, event });
+      onEvent(event);
+    },
+
+    fixture,
+
+    toJSON: () => serializeSessionFixture(fixture()),
+  };
+};
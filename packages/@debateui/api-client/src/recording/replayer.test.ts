@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { createDebateApi } from '../api/debate-api';
+import type { StreamEvent } from '../streaming/sse-client';
+import type { SessionFixture } from './fixture';
+import { createReplayHttpClient, createReplaySSEClient } from './replayer';
+
+const turn = {
+  turnId: '3c9b7f0e-1d2a-4b5c-8d6e-7f8091a2b3c4',
+  branchId: '5d1e2f3a-4b5c-4d6e-8f70-8192a3b4c5d6',
+  participantId: 'claude',
+  participantType: 'model',
+  content: 'Remote work is here to stay.',
+  tokensUsed: 7,
+  costUsd: 0.0001,
+  latencyMs: 900,
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const heartbeat = (timestamp: number): StreamEvent => ({ type: 'heartbeat', data: { timestamp } });
+
+const fixture: SessionFixture = {
+  version: 1,
+  recordedAt: '2026-01-01T00:00:00.000Z',
+  entries: [
+    {
+      kind: 'http',
+      at: 0,
+      request: { method: 'get', path: '/api/debates/d1/turns' },
+      outcome: { type: 'response', status: 200, headers: {}, body: [] },
+    },
+    { kind: 'stream', at: 100, debateId: 'd1', event: heartbeat(1) },
+    {
+      kind: 'http',
+      at: 150,
+      request: { method: 'get', path: '/api/debates/d1/turns' },
+      outcome: { type: 'response', status: 200, headers: {}, body: [turn] },
+    },
+    { kind: 'stream', at: 300, debateId: 'd1', event: { type: 'turn', data: turn } },
+    { kind: 'stream', at: 350, debateId: 'd1', event: { type: 'turn', data: { content: 1 } } },
+    { kind: 'stream', at: 1300, debateId: 'd1', event: { type: 'complete', data: { debateId: 'd1' } } },
+    {
+      kind: 'http',
+      at: 1400,
+      request: { method: 'post', path: '/api/debates/d1/pause' },
+      outcome: {
+        type: 'error',
+        error: { _tag: 'ConflictError', message: 'Debate is completed', code: 'debate_completed' },
+      },
+    },
+    {
+      kind: 'http',
+      at: 1500,
+      request: { method: 'post', path: '/api/debates', body: { question: 'Too short' } },
+      outcome: {
+        type: 'error',
+        error: { _tag: 'ValidationError', issues: [{ path: ['question'], message: 'Too short' }] },
+      },
+    },
+  ],
+};
+
+const config = {
+  question: 'Is remote work here to stay?',
+  participants: ['claude', 'gpt-4'],
+  rounds: 2,
+  consensusThreshold: 0.8,
+  forkMode: 'save' as const,
+};
+
+describe('createReplayHttpClient', () => {
+  it('serves recorded responses in order and repeats the last one', async () => {
+    const api = createDebateApi(createReplayHttpClient(fixture));
+
+    expect(await api.getTurns('d1')()).toEqual(E.right([]));
+    expect(await api.getTurns('d1')()).toMatchObject(E.right([{ content: 'Remote work is here to stay.' }]));
+    expect(await api.getTurns('d1')()).toMatchObject(E.right([{ content: 'Remote work is here to stay.' }]));
+  });
+
+  it('fails with the recorded error', async () => {
+    const api = createDebateApi(createReplayHttpClient(fixture));
+
+    expect(await api.pauseDebate('d1')()).toEqual(
+      E.left({ _tag: 'ConflictError', message: 'Debate is completed', code: 'debate_completed' })
+    );
+  });
+
+  it('restores validation issues', async () => {
+    const api = createDebateApi(createReplayHttpClient(fixture));
+
+    const result = await api.createDebate(config)();
+
+    expect(E.isLeft(result) && result.left._tag === 'ValidationError' && result.left.errors.issues).toEqual([
+      { code: 'custom', path: ['question'], message: 'Too short' },
+    ]);
+  });
+
+  it('fails requests that were never recorded', async () => {
+    const api = createDebateApi(createReplayHttpClient(fixture));
+
+    expect(await api.getDebate('d2')()).toEqual(
+      E.left({ _tag: 'NetworkError', message: 'No recorded response for GET /api/debates/d2' })
+    );
+  });
+
+  it('cancels aborted requests', async () => {
+    const api = createDebateApi(createReplayHttpClient(fixture));
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await api.getTurns('d1', undefined, { signal: controller.signal })()).toMatchObject(
+      E.left({ _tag: 'CancelledError' })
+    );
+  });
+});
+
+describe('createReplaySSEClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('replays the valid events of the debate with their recorded timing', async () => {
+    const onEvent = vi.fn();
+
+    const result = await createReplaySSEClient(fixture)('d1', 'http://localhost', onEvent)();
+
+    expect(E.isRight(result)).toBe(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onEvent.mock.calls.map(([event]) => (event as StreamEvent).type)).toEqual(['heartbeat']);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(onEvent).toHaveBeenCalledTimes(2);
+    expect(onEvent).toHaveBeenLastCalledWith({ type: 'turn', data: expect.objectContaining({ content: turn.content }) });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(onEvent).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onEvent).toHaveBeenLastCalledWith({ type: 'complete', data: { debateId: 'd1' } });
+  });
+
+  it('plays faster at a higher speed', async () => {
+    const onEvent = vi.fn();
+
+    await createReplaySSEClient(fixture, { speed: 10 })('d1', 'http://localhost', onEvent)();
+    await vi.advanceTimersByTimeAsync(20);
+    expect(onEvent).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onEvent).toHaveBeenCalledTimes(3);
+  });
+
+  it('resumes after the given number of events', async () => {
+    const onEvent = vi.fn();
+
+    const result = await createReplaySSEClient(fixture, { speed: Infinity })('d1', 'http://localhost', onEvent, {
+      lastEventId: '2',
+    })();
+    await vi.runAllTimersAsync();
+
+    expect(onEvent.mock.calls).toEqual([[{ type: 'complete', data: { debateId: 'd1' } }]]);
+    expect(E.isRight(result) && result.right.getLastEventId()).toEqual(O.some('3'));
+  });
+
+  it('stops on close', async () => {
+    const onEvent = vi.fn();
+
+    const result = await createReplaySSEClient(fixture)('d1', 'http://localhost', onEvent)();
+    await vi.advanceTimersByTimeAsync(0);
+    if (E.isRight(result)) result.right.close();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(onEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails for a debate without recorded events', async () => {
+    expect(await createReplaySSEClient(fixture)('d2', 'http://localhost', vi.fn())()).toEqual(
+      E.left({ _tag: 'NetworkError', message: 'No recorded stream for debate d2' })
+    );
+  });
+});
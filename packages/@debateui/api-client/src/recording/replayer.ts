@@ -0,0 +1,185 @@
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as A from 'fp-ts/Array';
+import { pipe } from 'fp-ts/function';
+import { cancelledError, networkError, type ApiError } from '@debateui/core';
+import { createHttpClient, type HttpClient } from '../client/http-client';
+import type { HttpResponse, Middleware } from '../client/middleware';
+import type { SSEClient, SSEClientOptions, StreamEvent, StreamEventHandler } from '../streaming/sse-client';
+import { decodeStreamEvent } from '../streaming/stream-events';
+import { fromRecordedError, type HttpEntry, type SessionFixture } from './fixture';
+
+/**
+ * Base URL of replay clients; no request ever reaches it
+ */
+const REPLAY_BASE_URL = 'http://replay.invalid';
+
+/**
+ * Options for replaying a stream
+ */
+export interface ReplayOptions {
+  /**
+   * Playback speed relative to the recording: 2 plays twice as fast,
+   * Infinity delivers every event without delay
+   * @default 1
+   */
+  speed?: number;
+}
+
+/**
+ * Same signature as `createSSEClient`, so a replay can stand in for it
+ */
+export type ReplaySSEClientFactory = (
+  debateId: string,
+  baseUrl: string,
+  onEvent: StreamEventHandler,
+  options?: SSEClientOptions
+) => TE.TaskEither<ApiError, SSEClient>;
+
+const toOutcome = (outcome: HttpEntry['outcome']): E.Either<ApiError, HttpResponse> =>
+  outcome.type === 'error'
+    ? E.left(fromRecordedError(outcome.error))
+    : E.right({ status: outcome.status, headers: new Headers(outcome.headers), body: outcome.body });
+
+/**
+ * Middleware answering requests from a fixture instead of sending them.
+ *
+ * Requests are matched by method and path, query included. Repeated
+ * requests get the recorded outcomes in order; once those run out, the last
+ * one is repeated, so polling keeps working. A request that was never
+ * recorded fails with a NetworkError naming it.
+ *
+ * @param fixture - Recorded session
+ * @returns Middleware that never calls the next handler
+ */
+export const replayMiddleware = (fixture: SessionFixture): Middleware => {
+  const recorded = new Map<string, HttpEntry['outcome'][]>();
+  fixture.entries.forEach((entry) => {
+    if (entry.kind !== 'http') return;
+    const key = `${entry.request.method} ${entry.request.path}`;
+    recorded.set(key, [...(recorded.get(key) ?? []), entry.outcome]);
+  });
+  const served = new Map<string, number>();
+
+  return () => (request) => () => {
+    if (request.options.signal?.aborted) {
+      return Promise.resolve(E.left(cancelledError()));
+    }
+
+    const key = `${request.method} ${request.path}`;
+    const outcomes = recorded.get(key) ?? [];
+    const index = served.get(key) ?? 0;
+    served.set(key, index + 1);
+
+    return Promise.resolve(
+      pipe(
+        A.lookup(Math.min(index, outcomes.length - 1), outcomes),
+        O.match(
+          () => E.left(networkError(`No recorded response for ${request.method.toUpperCase()} ${request.path}`)),
+          toOutcome
+        )
+      )
+    );
+  };
+};
+
+/**
+ * Creates an HTTP client serving a recorded session.
+ * Every call goes through the regular client, so responses are decoded and
+ * errors mapped exactly as with the live backend.
+ *
+ * @param fixture - Recorded session
+ * @returns HttpClient answering from the fixture
+ *
+ * @example
+ * ```typescript
+ * const fixture = parseSessionFixture(JSON.parse(readFileSync(path, 'utf8')));
+ * const apiClient = createApiClient(createReplayHttpClient(fixture));
+ * ```
+ */
+export const createReplayHttpClient = (fixture: SessionFixture): HttpClient =>
+  createHttpClient(REPLAY_BASE_URL, { middleware: [replayMiddleware(fixture)] });
+
+/**
+ * Creates a stream client factory replaying the recorded events of a
+ * debate with their recorded timing.
+ *
+ * Event ids are positions in the recording: `getLastEventId` gives the
+ * number of events delivered, and `lastEventId` resumes after as many.
+ * `reconnect` continues where the replay stopped.
+ *
+ * @param fixture - Recorded session
+ * @param replay - Playback speed
+ * @returns Factory with the signature of `createSSEClient`
+ *
+ * @example
+ * ```typescript
+ * const replaySSE = createReplaySSEClient(fixture, { speed: Infinity });
+ * const client = await replaySSE('debate-123', baseUrl, onEvent)();
+ * ```
+ */
+export const createReplaySSEClient =
+  (fixture: SessionFixture, replay: ReplayOptions = {}): ReplaySSEClientFactory =>
+  (debateId, _baseUrl, onEvent, options = {}) => {
+    const speed = replay.speed ?? 1;
+    const events = fixture.entries.flatMap((entry): { at: number; event: StreamEvent }[] => {
+      if (entry.kind !== 'stream' || entry.debateId !== debateId) return [];
+      return pipe(
+        decodeStreamEvent(entry.event),
+        O.match(
+          () => [],
+          (event) => [{ at: entry.at, event }]
+        )
+      );
+    });
+
+    if (events.length === 0) {
+      return TE.left(networkError(`No recorded stream for debate ${debateId}`));
+    }
+
+    let position = Math.max(0, Number(options.lastEventId ?? 0) || 0);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const stop = (): void => {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+    };
+
+    const schedule = (previousAt: number | undefined): void => {
+      const next = events[position];
+      if (closed || next === undefined) return;
+      const delay = previousAt === undefined ? 0 : (next.at - previousAt) / speed;
+      timer = setTimeout(() => {
+        timer = undefined;
+        position += 1;
+        onEvent(next.event);
+        schedule(next.at);
+      }, Number.isFinite(delay) ? delay : 0);
+    };
+
+    const close = (): void => {
+      closed = true;
+      stop();
+    };
+
+    options.signal?.addEventListener('abort', close, { once: true });
+    if (options.signal?.aborted) {
+      close();
+    }
+    schedule(undefined);
+
+    return TE.right({
+      eventSource: null,
+      close,
+      reconnect: () => {
+        if (closed) return;
+        stop();
+        schedule(undefined);
+      },
+      getLastEventId: () => (position > 0 ? O.some(String(position)) : O.none),
+    });
+  };
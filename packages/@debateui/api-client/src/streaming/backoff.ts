@@ -0,0 +1,27 @@
+import type { SSEClientOptions } from './sse-client';
+
+/**
+ * Reconnection settings shared by all stream transports
+ */
+export type RetryOptions = Required<Pick<SSEClientOptions, 'maxRetries' | 'initialRetryDelay' | 'maxRetryDelay'>>;
+
+/**
+ * Default SSE client options
+ */
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 5,
+  initialRetryDelay: 1000,
+  maxRetryDelay: 30000,
+};
+
+/**
+ * Calculate exponential backoff delay for a retry attempt
+ *
+ * @param retryCount - Number of the retry attempt, starting at 1
+ * @param options - Reconnection settings
+ * @returns Delay in milliseconds, capped at `maxRetryDelay`
+ */
+export const getRetryDelay = (retryCount: number, options: RetryOptions): number => {
+  const delay = options.initialRetryDelay * Math.pow(2, retryCount);
+  return Math.min(delay, options.maxRetryDelay);
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import * as O from 'fp-ts/Option';
+import type { CCREventData, CCREventType } from './sse-client';
+import {
+  toTypedCCREvent,
+  isCCREventOfType,
+  isTokenUsageEvent,
+  isCostUpdateEvent,
+  isModelApiCallEvent,
+  isErrorOccurredEvent,
+  isRoundStartedEvent,
+  isTurnCompletedEvent,
+} from './ccr-metadata';
+
+const createEvent = (eventType: CCREventType, metadata: Record<string, unknown> | undefined): CCREventData => ({
+  eventId: 'evt-1',
+  timestamp: 1700000000000,
+  eventType,
+  agent: 'claude',
+  message: eventType,
+  metadata,
+});
+
+describe('CCR event metadata', () => {
+  describe('toTypedCCREvent', () => {
+    it('accepts metadata matching the schema for the event type', () => {
+      const event = createEvent('token.usage', { promptTokens: 120, completionTokens: 80 });
+      const typed = toTypedCCREvent(event);
+
+      expect(O.isSome(typed)).toBe(true);
+      if (O.isSome(typed) && typed.value.eventType === 'token.usage') {
+        expect(typed.value.metadata.promptTokens).toBe(120);
+        expect(typed.value.metadata.completionTokens).toBe(80);
+      }
+    });
+
+    it('keeps unknown metadata fields', () => {
+      const event = createEvent('cost.update', { totalCostUsd: 0.25, currency: 'USD' });
+
+      expect(toTypedCCREvent(event)).toEqual(O.some(event));
+    });
+
+    it('rejects metadata that does not match the event type', () => {
+      expect(toTypedCCREvent(createEvent('token.usage', { promptTokens: '120' }))).toEqual(O.none);
+      expect(toTypedCCREvent(createEvent('model.api.call', undefined))).toEqual(O.none);
+    });
+
+    it('accepts any metadata for event types without a schema', () => {
+      const event = createEvent('context.stored', { key: 'debate-1' });
+
+      expect(toTypedCCREvent(event)).toEqual(O.some(event));
+      expect(toTypedCCREvent(createEvent('debate.initialized', undefined))).toEqual(
+        O.some(createEvent('debate.initialized', undefined))
+      );
+    });
+  });
+
+  describe('type guards', () => {
+    it('match events of their type with valid metadata', () => {
+      expect(isTokenUsageEvent(createEvent('token.usage', { promptTokens: 1, completionTokens: 2 }))).toBe(true);
+      expect(isCostUpdateEvent(createEvent('cost.update', { totalCostUsd: 0.1, totalTokens: 300 }))).toBe(true);
+      expect(isModelApiCallEvent(createEvent('model.api.call', { model: 'gpt-4', requestId: 'req-1' }))).toBe(true);
+      expect(isErrorOccurredEvent(createEvent('error.occurred', { code: 'RATE_LIMIT', agent: 'gpt-4' }))).toBe(true);
+      expect(isRoundStartedEvent(createEvent('debate.round.started', { round: 2 }))).toBe(true);
+    });
+
+    it('reject events of another type', () => {
+      expect(isTokenUsageEvent(createEvent('cost.update', { promptTokens: 1, completionTokens: 2 }))).toBe(false);
+    });
+
+    it('reject events with invalid metadata', () => {
+      expect(isRoundStartedEvent(createEvent('debate.round.started', { round: 0 }))).toBe(false);
+      expect(isErrorOccurredEvent(createEvent('error.occurred', { agent: 'gpt-4' }))).toBe(false);
+      expect(isTurnCompletedEvent(createEvent('turn.completed', { turn: { turnId: 'incomplete' } }))).toBe(false);
+    });
+
+    it('narrow the metadata type', () => {
+      const event = createEvent('model.api.call', { model: 'gpt-4', requestId: 'req-1' });
+
+      // Compiles without casts once narrowed
+      const summarize = (e: CCREventData): string =>
+        isModelApiCallEvent(e) ? `${e.metadata.model} ${e.metadata.requestId}` : 'other';
+
+      expect(summarize(event)).toBe('gpt-4 req-1');
+    });
+
+    it('can be created for any event type', () => {
+      const isConsensusCheck = isCCREventOfType('consensus.check');
+
+      expect(isConsensusCheck(createEvent('consensus.check', { score: 0.7 }))).toBe(true);
+      expect(isConsensusCheck(createEvent('consensus.reached', undefined))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import * as O from 'fp-ts/Option';
+import { z } from 'zod';
+import { TurnResponseSchema } from '@debateui/core';
+import type { CCREventData, CCREventType } from './sse-client';
+
+/**
+ * Zod schemas for the metadata of each CCR event type.
+ * All of them pass unknown fields through, so the backend can add fields
+ * without breaking validation.
+ */
+export const RoundMetadataSchema = z.object({
+  round: z.number().int().positive(),
+}).passthrough();
+
+export const TurnStreamingMetadataSchema = z.object({
+  delta: z.string(),
+}).passthrough();
+
+export const TurnCompletedMetadataSchema = z.object({
+  turn: TurnResponseSchema,
+}).passthrough();
+
+export const ModelApiCallMetadataSchema = z.object({
+  model: z.string(),
+  requestId: z.string(),
+}).passthrough();
+
+export const ModelApiResponseMetadataSchema = z.object({
+  model: z.string(),
+  requestId: z.string(),
+  latencyMs: z.number().nonnegative().optional(),
+}).passthrough();
+
+export const TokenUsageMetadataSchema = z.object({
+  promptTokens: z.number().int().nonnegative(),
+  completionTokens: z.number().int().nonnegative(),
+}).passthrough();
+
+export const CostUpdateMetadataSchema = z.object({
+  totalCostUsd: z.number().nonnegative(),
+  totalTokens: z.number().int().nonnegative().optional(),
+}).passthrough();
+
+export const ErrorOccurredMetadataSchema = z.object({
+  code: z.string(),
+  agent: z.string().optional(),
+}).passthrough();
+
+export type RoundMetadata = z.infer<typeof RoundMetadataSchema>;
+export type TurnStreamingMetadata = z.infer<typeof TurnStreamingMetadataSchema>;
+export type TurnCompletedMetadata = z.infer<typeof TurnCompletedMetadataSchema>;
+export type ModelApiCallMetadata = z.infer<typeof ModelApiCallMetadataSchema>;
+export type ModelApiResponseMetadata = z.infer<typeof ModelApiResponseMetadataSchema>;
+export type TokenUsageMetadata = z.infer<typeof TokenUsageMetadataSchema>;
+export type CostUpdateMetadata = z.infer<typeof CostUpdateMetadataSchema>;
+export type ErrorOccurredMetadata = z.infer<typeof ErrorOccurredMetadataSchema>;
+
+/**
+ * Metadata schema for every event type that has one
+ */
+const CCRMetadataSchemas = {
+  'debate.round.started': RoundMetadataSchema,
+  'debate.round.completed': RoundMetadataSchema,
+  'turn.streaming': TurnStreamingMetadataSchema,
+  'turn.completed': TurnCompletedMetadataSchema,
+  'model.api.call': ModelApiCallMetadataSchema,
+  'model.api.response': ModelApiResponseMetadataSchema,
+  'token.usage': TokenUsageMetadataSchema,
+  'cost.update': CostUpdateMetadataSchema,
+  'error.occurred': ErrorOccurredMetadataSchema,
+} as const;
+
+type CCRMetadataSchemas = typeof CCRMetadataSchemas;
+
+/**
+ * CCR event types with a metadata schema
+ */
+export type TypedCCREventType = keyof CCRMetadataSchemas;
+
+/**
+ * CCR event of one type, with its metadata narrowed
+ */
+export type CCREventOf<T extends CCREventType> = Omit<CCREventData, 'eventType' | 'metadata'> & {
+  readonly eventType: T;
+  readonly metadata: T extends TypedCCREventType
+    ? z.infer<CCRMetadataSchemas[T]>
+    : Record<string, unknown> | undefined;
+};
+
+/**
+ * CCR events as a discriminated union on `eventType`
+ */
+export type TypedCCREvent = { [T in CCREventType]: CCREventOf<T> }[CCREventType];
+
+const hasMetadataSchema = (eventType: CCREventType): eventType is TypedCCREventType =>
+  eventType in CCRMetadataSchemas;
+
+/**
+ * Validate the metadata of a CCR event against the schema for its type.
+ * Events of types without a schema are always accepted.
+ *
+ * @param event - CCR event as received from the stream
+ * @returns The event as a member of the union, or none if its metadata
+ *   does not match its type
+ *
+ * @example
+ * ```typescript
+ * const typed = toTypedCCREvent(event);
+ * if (O.isSome(typed) && typed.value.eventType === 'token.usage') {
+ *   console.log(typed.value.metadata.promptTokens);
+ * }
+ * ```
+ */
+export const toTypedCCREvent = (event: CCREventData): O.Option<TypedCCREvent> => {
+  if (!hasMetadataSchema(event.eventType)) {
+    return O.some(event as TypedCCREvent);
+  }
+  const result = CCRMetadataSchemas[event.eventType].safeParse(event.metadata);
+  return result.success ? O.some({ ...event, metadata: result.data } as TypedCCREvent) : O.none;
+};
+
+/**
+ * Creates a type guard for CCR events of one type with valid metadata
+ *
+ * @param eventType - Event type to match
+ * @returns Type guard narrowing `CCREventData` to that event type
+ */
+export const isCCREventOfType =
+  <T extends CCREventType>(eventType: T) =>
+  (event: CCREventData): event is CCREventData & CCREventOf<T> =>
+    event.eventType === eventType && O.isSome(toTypedCCREvent(event));
+
+/**
+ * Type guard for `debate.round.started` events
+ */
+export const isRoundStartedEvent = isCCREventOfType('debate.round.started');
+
+/**
+ * Type guard for `debate.round.completed` events
+ */
+export const isRoundCompletedEvent = isCCREventOfType('debate.round.completed');
+
+/**
+ * Type guard for `turn.streaming` events
+ */
+export const isTurnStreamingEvent = isCCREventOfType('turn.streaming');
+
+/**
+ * Type guard for `turn.completed` events
+ */
+export const isTurnCompletedEvent = isCCREventOfType('turn.completed');
+
+/**
+ * Type guard for `model.api.call` events
+ */
+export const isModelApiCallEvent = isCCREventOfType('model.api.call');
+
+/**
+ * Type guard for `model.api.response` events
+ */
+export const isModelApiResponseEvent = isCCREventOfType('model.api.response');
+
+/**
+ * Type guard for `token.usage` events
+ */
+export const isTokenUsageEvent = isCCREventOfType('token.usage');
+
+/**
+ * Type guard for `cost.update` events
+ */
+export const isCostUpdateEvent = isCCREventOfType('cost.update');
+
+/**
+ * Type guard for `error.occurred` events
+ */
+export const isErrorOccurredEvent = isCCREventOfType('error.occurred');
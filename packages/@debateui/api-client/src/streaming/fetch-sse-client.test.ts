@@ -0,0 +1,373 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { createFetchSSEClient } from './fetch-sse-client';
+import { createSSEClient } from './sse-client';
+import { createTokenProvider } from '../client/token-provider';
+import * as TE from 'fp-ts/TaskEither';
+import { authError } from '@debateui/core';
+
+// A streamed response body the test writes to
+interface MockStream {
+  readonly response: Response;
+  write: (text: string) => void;
+  end: () => void;
+}
+
+const createMockStream = (): MockStream => {
+  const encoder = new TextEncoder();
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  const body = new ReadableStream<Uint8Array>({
+    start: (c) => {
+      controller = c;
+    },
+  });
+
+  return {
+    response: new Response(body, {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream' },
+    }),
+    write: (text) => controller?.enqueue(encoder.encode(text)),
+    end: () => controller?.close(),
+  };
+};
+
+// A request made through the mock fetch
+interface MockRequest {
+  readonly url: string;
+  readonly headers: Record<string, string>;
+  readonly signal: AbortSignal | undefined;
+  readonly stream: MockStream;
+}
+
+// A fetch implementation recording every request and answering each with
+// a fresh stream, or with the given responses in order
+const createMockFetch = (responses: Response[] = []) => {
+  const requests: MockRequest[] = [];
+  const fetch = vi.fn((input: string | URL | Request, init?: RequestInit) => {
+    const stream = createMockStream();
+    requests.push({
+      url: String(input),
+      headers: { ...(init?.headers as Record<string, string>) },
+      signal: init?.signal ?? undefined,
+      stream,
+    });
+    return Promise.resolve(responses.shift() ?? stream.response);
+  });
+  return { fetch: fetch as unknown as typeof globalThis.fetch, requests };
+};
+
+describe('Fetch SSE Client', () => {
+  const debateId = 'c7e9a3b2-1234-5678-90ab-cdef12345678';
+  const baseUrl = 'http://localhost:3000';
+  const streamUrl = `${baseUrl}/debates/${debateId}/stream`;
+  const completeEvent = JSON.stringify({ type: 'complete', data: { debateId } });
+
+  it('requests the stream URL with an event-stream Accept header', async () => {
+    const { fetch, requests } = createMockFetch();
+    const result = await createFetchSSEClient(debateId, baseUrl, vi.fn(), { fetch })();
+
+    expect(E.isRight(result)).toBe(true);
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(1);
+    });
+    expect(requests[0]?.url).toBe(`${streamUrl}?protocolVersion=1`);
+    expect(requests[0]?.headers).toEqual({ Accept: 'text/event-stream' });
+    if (E.isRight(result)) {
+      expect(result.right.eventSource).toBeNull();
+      result.right.close();
+    }
+  });
+
+  it('sends custom request headers', async () => {
+    const { fetch, requests } = createMockFetch();
+    const result = await createFetchSSEClient(debateId, baseUrl, vi.fn(), {
+      fetch,
+      headers: { Authorization: 'Bearer token-1' },
+    })();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(1);
+    });
+    expect(requests[0]?.headers['Authorization']).toBe('Bearer token-1');
+    if (E.isRight(result)) {
+      result.right.close();
+    }
+  });
+
+  it('delivers validated events from a chunked body', async () => {
+    const { fetch, requests } = createMockFetch();
+    const handler = vi.fn();
+    const result = await createFetchSSEClient(debateId, baseUrl, handler, { fetch })();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(1);
+    });
+    const body = `id: evt-1\ndata: ${completeEvent}\n\n`;
+    requests[0]?.stream.write(body.slice(0, 20));
+    requests[0]?.stream.write(body.slice(20));
+
+    await vi.waitFor(() => {
+      expect(handler).toHaveBeenCalledWith({ type: 'complete', data: { debateId } });
+    });
+    if (E.isRight(result)) {
+      expect(result.right.getLastEventId()).toEqual(O.some('evt-1'));
+      result.right.close();
+    }
+  });
+
+  it('ignores invalid data and named events', async () => {
+    const { fetch, requests } = createMockFetch();
+    const handler = vi.fn();
+    const result = await createFetchSSEClient(debateId, baseUrl, handler, { fetch })();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(1);
+    });
+    requests[0]?.stream.write('data: not valid json\n\n');
+    requests[0]?.stream.write(`event: ping\ndata: ${completeEvent}\n\n`);
+    requests[0]?.stream.write(`data: ${completeEvent}\n\n`);
+
+    await vi.waitFor(() => {
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+    if (E.isRight(result)) {
+      result.right.close();
+    }
+  });
+
+  it('reconnects with Last-Event-ID and fresh headers after the stream ends', async () => {
+    const { fetch, requests } = createMockFetch();
+    let token = 0;
+    const result = await createFetchSSEClient(debateId, baseUrl, vi.fn(), {
+      fetch,
+      initialRetryDelay: 1,
+      headers: () => ({ Authorization: `Bearer token-${String(++token)}` }),
+    })();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(1);
+    });
+    requests[0]?.stream.write(`id: evt-3\ndata: ${completeEvent}\n\n`);
+    requests[0]?.stream.end();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(2);
+    });
+    expect(requests[1]?.url).toBe(`${streamUrl}?protocolVersion=1`);
+    expect(requests[1]?.headers).toEqual({
+      Accept: 'text/event-stream',
+      Authorization: 'Bearer token-2',
+      'Last-Event-ID': 'evt-3',
+    });
+    if (E.isRight(result)) {
+      result.right.close();
+    }
+  });
+
+  it('retries after a failed response and reports when retries run out', async () => {
+    const { fetch, requests } = createMockFetch([
+      new Response(null, { status: 503 }),
+      new Response(null, { status: 503 }),
+    ]);
+    const handler = vi.fn();
+    await createFetchSSEClient(debateId, baseUrl, handler, {
+      fetch,
+      maxRetries: 1,
+      initialRetryDelay: 1,
+    })();
+
+    await vi.waitFor(() => {
+      expect(handler).toHaveBeenCalledWith({
+        type: 'error',
+        data: { message: 'Maximum reconnection attempts exceeded', recoverable: false },
+      });
+    });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('stops watching for stalls once retries run out', async () => {
+    const { fetch } = createMockFetch([new Response(null, { status: 503 })]);
+    const handler = vi.fn();
+    await createFetchSSEClient(debateId, baseUrl, handler, {
+      fetch,
+      maxRetries: 0,
+      stallTimeout: 20,
+    })();
+
+    await vi.waitFor(() => {
+      expect(handler).toHaveBeenCalledWith({
+        type: 'error',
+        data: { message: 'Maximum reconnection attempts exceeded', recoverable: false },
+      });
+    });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends the bearer token and refreshes it once on 401', async () => {
+    const { fetch, requests } = createMockFetch([new Response(null, { status: 401 })]);
+    const refreshToken = vi.fn(() => TE.right('fresh'));
+    const tokenProvider = createTokenProvider({ initialToken: 'expired', refreshToken });
+    const result = await createFetchSSEClient(debateId, baseUrl, vi.fn(), { fetch, tokenProvider })();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(2);
+    });
+    expect(requests[0]?.headers['Authorization']).toBe('Bearer expired');
+    expect(requests[1]?.headers['Authorization']).toBe('Bearer fresh');
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    if (E.isRight(result)) {
+      result.right.close();
+    }
+  });
+
+  it('stops with an unrecoverable error when the refresh fails', async () => {
+    const { fetch, requests } = createMockFetch([new Response(null, { status: 401 })]);
+    const tokenProvider = createTokenProvider({
+      initialToken: 'expired',
+      refreshToken: () => TE.left(authError('Session expired', 401)),
+    });
+    const handler = vi.fn();
+    await createFetchSSEClient(debateId, baseUrl, handler, { fetch, tokenProvider, initialRetryDelay: 1 })();
+
+    await vi.waitFor(() => {
+      expect(handler).toHaveBeenCalledWith({
+        type: 'error',
+        data: { message: 'Signed out: the access token could not be refreshed', recoverable: false },
+      });
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(requests).toHaveLength(1);
+  });
+
+  it('stops with an unrecoverable error on a 401 after a refresh', async () => {
+    const { fetch, requests } = createMockFetch([
+      new Response(null, { status: 401 }),
+      new Response(null, { status: 401 }),
+    ]);
+    const refreshToken = vi.fn(() => TE.right('fresh'));
+    const tokenProvider = createTokenProvider({ initialToken: 'expired', refreshToken });
+    const handler = vi.fn();
+    await createFetchSSEClient(debateId, baseUrl, handler, { fetch, tokenProvider, initialRetryDelay: 1 })();
+
+    await vi.waitFor(() => {
+      expect(handler).toHaveBeenCalledWith({
+        type: 'error',
+        data: { message: 'Signed out: the access token could not be refreshed', recoverable: false },
+      });
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(requests).toHaveLength(2);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes from the given event id on the first request', async () => {
+    const { fetch, requests } = createMockFetch();
+    const result = await createFetchSSEClient(debateId, baseUrl, vi.fn(), {
+      fetch,
+      lastEventId: 'evt-9',
+    })();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(1);
+    });
+    expect(requests[0]?.headers['Last-Event-ID']).toBe('evt-9');
+    if (E.isRight(result)) {
+      result.right.close();
+    }
+  });
+
+  it('aborts the request on close and does not reconnect', async () => {
+    const { fetch, requests } = createMockFetch();
+    const result = await createFetchSSEClient(debateId, baseUrl, vi.fn(), {
+      fetch,
+      initialRetryDelay: 1,
+    })();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(1);
+    });
+    if (E.isRight(result)) {
+      result.right.close();
+    }
+
+    expect(requests[0]?.signal?.aborted).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(requests).toHaveLength(1);
+  });
+
+  it('closes when the given signal aborts', async () => {
+    const { fetch, requests } = createMockFetch();
+    const controller = new AbortController();
+    await createFetchSSEClient(debateId, baseUrl, vi.fn(), {
+      fetch,
+      signal: controller.signal,
+    })();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(1);
+    });
+    controller.abort();
+
+    expect(requests[0]?.signal?.aborted).toBe(true);
+  });
+
+  it('opens a new request on manual reconnect', async () => {
+    const { fetch, requests } = createMockFetch();
+    const result = await createFetchSSEClient(debateId, baseUrl, vi.fn(), { fetch })();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(1);
+    });
+    if (E.isRight(result)) {
+      result.right.reconnect();
+      await vi.waitFor(() => {
+        expect(requests).toHaveLength(2);
+      });
+      expect(requests[0]?.signal?.aborted).toBe(true);
+      result.right.close();
+    }
+  });
+
+  it('counts comment keepalives as activity for stall detection', async () => {
+    const { fetch, requests } = createMockFetch();
+    const handler = vi.fn();
+    const result = await createFetchSSEClient(debateId, baseUrl, handler, {
+      fetch,
+      stallTimeout: 50,
+    })();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(1);
+    });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    requests[0]?.stream.write(': keepalive\n\n');
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(handler).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => {
+      expect(handler).toHaveBeenCalledWith({ type: 'stalled', data: { idleMs: 50 } });
+    });
+    if (E.isRight(result)) {
+      result.right.close();
+    }
+  });
+
+  it('is selected by createSSEClient with the fetch transport', async () => {
+    const { fetch, requests } = createMockFetch();
+    const result = await createSSEClient(debateId, baseUrl, vi.fn(), {
+      transport: 'fetch',
+      fetch,
+    })();
+
+    await vi.waitFor(() => {
+      expect(requests).toHaveLength(1);
+    });
+    if (E.isRight(result)) {
+      expect(result.right.eventSource).toBeNull();
+      result.right.close();
+    }
+  });
+});
@@ -0,0 +1,256 @@
+import * as TE from 'fp-ts/TaskEither';
+import * as O from 'fp-ts/Option';
+import * as E from 'fp-ts/Either';
+import { networkError, type ApiError } from '@debateui/core';
+import type { SSEClient, SSEClientOptions, StreamEventHandler } from './sse-client';
+import { parseStreamEvent } from './stream-events';
+import { DEFAULT_RETRY_OPTIONS, getRetryDelay } from './backoff';
+import { createSSEParser } from './sse-parser';
+import { createStallMonitor } from './stall-monitor';
+import { withStreamParams } from './protocol';
+import { bearer } from '../client/token-provider';
+
+/**
+ * Creates an SSE client that reads the stream with fetch instead of
+ * EventSource, so it can send request headers (e.g. Authorization) and runs
+ * outside the browser. The body is parsed incrementally as it arrives.
+ *
+ * Follows the same contract as the EventSource client: events are validated
+ * the same way, the retry options apply with the same backoff, and a server
+ * closing the stream or a failed request is retried. On reconnect the
+ * resume point is sent as a `Last-Event-ID` header.
+ *
+ * With a `tokenProvider`, the token is sent as `Authorization`. A 401 is
+ * answered with one refresh and an immediate reconnect; if the refresh
+ * fails the client stops with an unrecoverable error.
+ *
+ * Usually selected through `createSSEClient` with `transport: 'fetch'`.
+ *
+ * @param debateId - ID of the debate to stream
+ * @param baseUrl - Base URL of the API server
+ * @param onEvent - Handler function called for each event
+ * @param options - Retry, header, abort and fetch options
+ * @returns TaskEither with SSEClient or ApiError
+ */
+export const createFetchSSEClient = (
+  debateId: string,
+  baseUrl: string,
+  onEvent: StreamEventHandler,
+  options: SSEClientOptions = {}
+): TE.TaskEither<ApiError, SSEClient> => {
+  return TE.tryCatch(
+    async () => {
+      const opts = { ...DEFAULT_RETRY_OPTIONS, ...options };
+      const fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+      let retryCount = 0;
+      let currentRequest: AbortController | null = null;
+      let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+      let lastEventId: O.Option<string> = O.fromNullable(options.lastEventId);
+
+      // The resume point travels in the Last-Event-ID header instead
+      const streamUrl = withStreamParams(`${baseUrl}/debates/${debateId}/stream`, O.none);
+
+      const stallMonitor = createStallMonitor(options.stallTimeout, (idleMs) => {
+        onEvent({ type: 'stalled', data: { idleMs } });
+      });
+
+      /**
+       * Request headers for a new connection
+       */
+      const getHeaders = (token: O.Option<string>): Record<string, string> => ({
+        Accept: 'text/event-stream',
+        ...(typeof options.headers === 'function' ? options.headers() : options.headers),
+        ...(O.isSome(token) ? { Authorization: bearer(token.value) } : {}),
+        ...(O.isSome(lastEventId) ? { 'Last-Event-ID': lastEventId.value } : {}),
+      });
+
+      /**
+       * Retry with backoff after the stream failed or ended
+       */
+      const scheduleRetry = (): void => {
+        if (retryCount < opts.maxRetries) {
+          retryCount++;
+          const delay = getRetryDelay(retryCount, opts);
+
+          reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect();
+          }, delay);
+        } else {
+          // Giving up: nothing left to watch for stalls
+          stallMonitor.stop();
+          // Notify handler of unrecoverable error
+          onEvent({
+            type: 'error',
+            data: {
+              message: 'Maximum reconnection attempts exceeded',
+              recoverable: false,
+            },
+          });
+        }
+      };
+
+      /**
+       * Read the response body until it ends
+       */
+      const readStream = async (body: ReadableStream<Uint8Array>): Promise<void> => {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        const parser = createSSEParser((message) => {
+          // Track the resume point, even for events that fail validation
+          if (message.lastEventId) {
+            lastEventId = O.some(message.lastEventId);
+          }
+
+          // Named events are not delivered to EventSource's onmessage either
+          if (message.event !== 'message') {
+            return;
+          }
+
+          const streamEvent = parseStreamEvent(message.data);
+          if (O.isSome(streamEvent)) {
+            // Reset retry count on successful message
+            retryCount = 0;
+
+            // Call handler with validated event
+            onEvent(streamEvent.value);
+          }
+        });
+
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) {
+            return;
+          }
+          // Any chunk counts as activity, including comment keepalives
+          stallMonitor.touch();
+          parser.push(decoder.decode(value, { stream: true }));
+        }
+      };
+
+      /**
+       * Stop for good once the token cannot be renewed
+       */
+      const signOut = (): void => {
+        stop();
+        onEvent({
+          type: 'error',
+          data: {
+            message: 'Signed out: the access token could not be refreshed',
+            recoverable: false,
+          },
+        });
+      };
+
+      /**
+       * Refresh the token after a 401 and reconnect, or stop when signed out
+       */
+      const reauthenticate = async (request: AbortController): Promise<void> => {
+        if (!options.tokenProvider) {
+          return;
+        }
+        const refreshed = await options.tokenProvider.refresh()();
+        if (request.signal.aborted || currentRequest !== request) {
+          return;
+        }
+
+        if (E.isRight(refreshed)) {
+          connect(true);
+        } else {
+          signOut();
+        }
+      };
+
+      /**
+       * Open a request and stream its body
+       *
+       * @param afterRefresh - Whether the token was just refreshed, so a
+       *   second 401 signs out instead of refreshing again
+       */
+      const connect = (afterRefresh = false): void => {
+        const request = new AbortController();
+        currentRequest = request;
+        stallMonitor.touch();
+
+        const run = async (): Promise<void> => {
+          try {
+            const token = options.tokenProvider ? await options.tokenProvider.getToken() : O.none;
+            const response = await fetchImpl(streamUrl, {
+              headers: getHeaders(token),
+              signal: request.signal,
+            });
+
+            if (response.status === 401 && options.tokenProvider) {
+              if (afterRefresh) {
+                signOut();
+              } else {
+                await reauthenticate(request);
+              }
+              return;
+            }
+
+            if (!response.ok || response.body === null) {
+              throw new Error(`Stream request failed with status ${response.status}`);
+            }
+
+            await readStream(response.body);
+          } catch {
+            // Failed requests fall through to the retry below
+          }
+
+          // The server closed the stream or the request failed; a closed or
+          // replaced client does not reconnect
+          if (!request.signal.aborted && currentRequest === request) {
+            scheduleRetry();
+          }
+        };
+
+        void run();
+      };
+
+      /**
+       * Stop the current request and any pending retry
+       */
+      const stop = (): void => {
+        stallMonitor.stop();
+
+        if (reconnectTimer) {
+          clearTimeout(reconnectTimer);
+          reconnectTimer = null;
+        }
+
+        if (currentRequest) {
+          currentRequest.abort();
+          currentRequest = null;
+        }
+      };
+
+      // Initial connection
+      connect();
+
+      /**
+       * Manually trigger reconnection
+       */
+      const reconnect = (): void => {
+        stop();
+        retryCount = 0;
+        connect();
+      };
+
+      options.signal?.addEventListener('abort', stop, { once: true });
+      if (options.signal?.aborted) {
+        stop();
+      }
+
+      return {
+        eventSource: null,
+        close: stop,
+        reconnect,
+        getLastEventId: () => lastEventId,
+      };
+    },
+    (error) => {
+      return networkError(`Failed to create SSE client: ${error}`);
+    }
+  );
+};
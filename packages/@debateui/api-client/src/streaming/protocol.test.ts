@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import * as O from 'fp-ts/Option';
+import { STREAM_PROTOCOL_VERSION, withStreamParams, checkProtocolVersion } from './protocol';
+
+describe('stream protocol', () => {
+  describe('withStreamParams', () => {
+    it('announces the client protocol version', () => {
+      expect(withStreamParams('http://localhost:3000/debates/d1/stream', O.none)).toBe(
+        `http://localhost:3000/debates/d1/stream?protocolVersion=${String(STREAM_PROTOCOL_VERSION)}`
+      );
+    });
+
+    it('adds the encoded resume point', () => {
+      expect(withStreamParams('ws://localhost:3000/debates/d1/ws', O.some('evt 7'))).toBe(
+        `ws://localhost:3000/debates/d1/ws?protocolVersion=${String(STREAM_PROTOCOL_VERSION)}&lastEventId=evt%207`
+      );
+    });
+
+    it('adds the encoded access token after the resume point', () => {
+      expect(withStreamParams('http://localhost:3000/debates/d1/stream', O.some('evt-1'), O.some('a+b'))).toBe(
+        `http://localhost:3000/debates/d1/stream?protocolVersion=${String(STREAM_PROTOCOL_VERSION)}&lastEventId=evt-1&access_token=a%2Bb`
+      );
+    });
+  });
+
+  describe('checkProtocolVersion', () => {
+    it('accepts the same or an older server version', () => {
+      expect(checkProtocolVersion(STREAM_PROTOCOL_VERSION)).toEqual(O.none);
+      expect(checkProtocolVersion(STREAM_PROTOCOL_VERSION - 1)).toEqual(O.none);
+    });
+
+    it('warns when the server is newer', () => {
+      const warning = checkProtocolVersion(STREAM_PROTOCOL_VERSION + 1);
+
+      expect(O.isSome(warning)).toBe(true);
+      if (O.isSome(warning)) {
+        expect(warning.value).toContain(`v${String(STREAM_PROTOCOL_VERSION + 1)}`);
+      }
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import * as O from 'fp-ts/Option';
+
+/**
+ * Version of the stream protocol this client understands.
+ * Bump when the client learns new event types or fields.
+ */
+export const STREAM_PROTOCOL_VERSION = 1;
+
+/**
+ * Query parameter announcing the client's protocol version on connect.
+ * The server answers with a `hello` event carrying its own version.
+ */
+export const PROTOCOL_VERSION_PARAM = 'protocolVersion';
+
+/**
+ * Query parameter carrying the resume point on reconnect.
+ * EventSource cannot set a Last-Event-ID header on a new connection, and
+ * only sends it on its own automatic retries, which this client replaces.
+ */
+export const LAST_EVENT_ID_PARAM = 'lastEventId';
+
+/**
+ * Query parameter carrying the bearer token.
+ * EventSource and WebSocket cannot send an Authorization header.
+ */
+export const ACCESS_TOKEN_PARAM = 'access_token';
+
+/**
+ * Stream URL with the protocol handshake and, once known, the resume point
+ *
+ * @param url - Stream endpoint without query parameters
+ * @param lastEventId - Id of the last received event, if any
+ * @param accessToken - Bearer token for transports that cannot send headers
+ * @returns URL to open the next connection with
+ */
+export const withStreamParams = (
+  url: string,
+  lastEventId: O.Option<string>,
+  accessToken: O.Option<string> = O.none
+): string => {
+  const params = [
+    `${PROTOCOL_VERSION_PARAM}=${String(STREAM_PROTOCOL_VERSION)}`,
+    ...(O.isSome(lastEventId) ? [`${LAST_EVENT_ID_PARAM}=${encodeURIComponent(lastEventId.value)}`] : []),
+    ...(O.isSome(accessToken) ? [`${ACCESS_TOKEN_PARAM}=${encodeURIComponent(accessToken.value)}`] : []),
+  ];
+  return `${url}?${params.join('&')}`;
+};
+
+/**
+ * Compare the server's protocol version with this client's.
+ * A newer server may send events this client shows only as unknown.
+ *
+ * @param serverVersion - Version from the server's `hello` event
+ * @returns A warning when the server is newer, none otherwise
+ */
+export const checkProtocolVersion = (serverVersion: number): O.Option<string> =>
+  serverVersion > STREAM_PROTOCOL_VERSION
+    ? O.some(
+        `The server uses stream protocol v${String(serverVersion)}, but this client only ` +
+          `understands v${String(STREAM_PROTOCOL_VERSION)}. Some events may not be shown correctly; ` +
+          'update the client.'
+      )
+    : O.none;
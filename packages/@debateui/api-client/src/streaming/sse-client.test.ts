@@ -1,7 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createSSEClient } from './sse-client';
+import { createTokenProvider } from '../client/token-provider';
 import type { TurnResponse, ConsensusResult } from '@debateui/core';
 import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
 
 // Mock EventSource
 class MockEventSource {
@@ -27,9 +30,9 @@ class MockEventSource {
   }
 
   // Helper to simulate receiving a message
-  simulateMessage(data: string, type: string = 'message') {
+  simulateMessage(data: string, type: string = 'message', lastEventId: string = '') {
     if (this.onmessage) {
-      const event = new MessageEvent(type, { data });
+      const event = new MessageEvent(type, { data, lastEventId });
       this.onmessage(event);
     }
   }
@@ -47,6 +50,7 @@ interface MockSSEClient {
   eventSource: MockEventSource;
   close: () => void;
   reconnect: () => void;
+  getLastEventId: () => O.Option<string>;
 }
 
 describe('SSE Client', () => {
@@ -72,8 +76,8 @@ describe('SSE Client', () => {
 
       expect(E.isRight(result)).toBe(true);
       if (E.isRight(result)) {
-        const { eventSource } = result.right;
-        expect(eventSource.url).toBe(`${baseUrl}/debates/${debateId}/stream`);
+        const { eventSource } = result.right as unknown as MockSSEClient;
+        expect(eventSource.url).toBe(`${baseUrl}/debates/${debateId}/stream?protocolVersion=1`);
         eventSource.close();
       }
     });
@@ -288,7 +292,7 @@ describe('SSE Client', () => {
 
       expect(E.isRight(result)).toBe(true);
       if (E.isRight(result)) {
-        const { eventSource, close } = result.right;
+        const { eventSource, close } = result.right as unknown as MockSSEClient;
 
         // Close the connection
         close();
@@ -298,6 +302,25 @@ describe('SSE Client', () => {
       }
     });
 
+    it('closes when the given signal aborts', async () => {
+      const controller = new AbortController();
+      const result = await createSSEClient(
+        'c7e9a3b2-1234-5678-90ab-cdef12345678',
+        'http://localhost:3000',
+        vi.fn(),
+        { signal: controller.signal }
+      )();
+
+      expect(E.isRight(result)).toBe(true);
+      if (E.isRight(result)) {
+        const { eventSource } = result.right as unknown as MockSSEClient;
+
+        controller.abort();
+
+        expect(eventSource.readyState).toBe(2); // CLOSED
+      }
+    });
+
     it('handles invalid JSON gracefully', async () => {
       const debateId = 'c7e9a3b2-1234-5678-90ab-cdef12345678';
       const handler = vi.fn();
@@ -353,4 +376,256 @@ describe('SSE Client', () => {
       }
     });
   });
+
+  describe('heartbeats and stalls', () => {
+    const debateId = 'c7e9a3b2-1234-5678-90ab-cdef12345678';
+    const heartbeat = JSON.stringify({ type: 'heartbeat', data: { timestamp: 1700000000000 } });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('delivers heartbeat events', async () => {
+      const handler = vi.fn();
+      const result = await createSSEClient(debateId, 'http://localhost:3000', handler)();
+
+      expect(E.isRight(result)).toBe(true);
+      if (E.isRight(result)) {
+        const { eventSource, close } = result.right as unknown as MockSSEClient;
+        eventSource.simulateMessage(heartbeat);
+
+        expect(handler).toHaveBeenCalledWith({ type: 'heartbeat', data: { timestamp: 1700000000000 } });
+        close();
+      }
+    });
+
+    it('emits a stalled event when the stream goes silent', async () => {
+      vi.useFakeTimers();
+      const handler = vi.fn();
+      const result = await createSSEClient(debateId, 'http://localhost:3000', handler, {
+        stallTimeout: 1000,
+      })();
+
+      expect(E.isRight(result)).toBe(true);
+      if (E.isRight(result)) {
+        const { eventSource, close } = result.right as unknown as MockSSEClient;
+
+        // Heartbeats keep the stream alive
+        vi.advanceTimersByTime(900);
+        eventSource.simulateMessage(heartbeat);
+        vi.advanceTimersByTime(900);
+        expect(handler).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'stalled' }));
+
+        vi.advanceTimersByTime(100);
+        expect(handler).toHaveBeenLastCalledWith({ type: 'stalled', data: { idleMs: 1000 } });
+        close();
+      }
+    });
+
+    it('does not report stalls after close', async () => {
+      vi.useFakeTimers();
+      const handler = vi.fn();
+      const result = await createSSEClient(debateId, 'http://localhost:3000', handler, {
+        stallTimeout: 1000,
+      })();
+
+      if (E.isRight(result)) {
+        result.right.close();
+      }
+      vi.advanceTimersByTime(5000);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('stops watching for stalls once retries run out', async () => {
+      vi.useFakeTimers();
+      const handler = vi.fn();
+      const result = await createSSEClient(debateId, 'http://localhost:3000', handler, {
+        stallTimeout: 1000,
+        maxRetries: 0,
+      })();
+
+      if (E.isRight(result)) {
+        const { eventSource } = result.right as unknown as MockSSEClient;
+        eventSource.simulateError();
+      }
+      vi.advanceTimersByTime(5000);
+
+      expect(handler.mock.calls.map(([event]) => (event as { type: string }).type)).toEqual(['error']);
+    });
+  });
+
+  describe('protocol versioning', () => {
+    const debateId = 'c7e9a3b2-1234-5678-90ab-cdef12345678';
+
+    const receive = async (message: unknown): Promise<ReturnType<typeof vi.fn>> => {
+      const handler = vi.fn();
+      const result = await createSSEClient(debateId, 'http://localhost:3000', handler)();
+
+      if (E.isRight(result)) {
+        const { eventSource } = result.right as unknown as MockSSEClient;
+        eventSource.simulateMessage(JSON.stringify(message));
+        eventSource.close();
+      }
+      return handler;
+    };
+
+    it('delivers the server hello', async () => {
+      const handler = await receive({ type: 'hello', data: { protocolVersion: 2 } });
+
+      expect(handler).toHaveBeenCalledWith({ type: 'hello', data: { protocolVersion: 2 } });
+    });
+
+    it('passes events of unknown types through', async () => {
+      const message = { type: 'vote', data: { participantId: 'claude' } };
+      const handler = await receive(message);
+
+      expect(handler).toHaveBeenCalledWith({
+        type: 'unknown',
+        data: { type: 'vote', eventType: undefined, raw: message },
+      });
+    });
+
+    it('passes CCR events of unknown event types through', async () => {
+      const message = {
+        type: 'ccr',
+        data: { eventId: 'evt-1', timestamp: 1700000000000, eventType: 'debate.vote.cast', message: 'Vote cast' },
+      };
+      const handler = await receive(message);
+
+      expect(handler).toHaveBeenCalledWith({
+        type: 'unknown',
+        data: { type: 'ccr', eventType: 'debate.vote.cast', raw: message },
+      });
+    });
+
+    it('still drops malformed events of known types', async () => {
+      const handler = await receive({ type: 'hello', data: { protocolVersion: 'two' } });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resuming after a disconnect', () => {
+    const debateId = 'c7e9a3b2-1234-5678-90ab-cdef12345678';
+    const baseUrl = 'http://localhost:3000';
+    const streamUrl = `${baseUrl}/debates/${debateId}/stream`;
+    const completeEvent = JSON.stringify({ type: 'complete', data: { debateId } });
+
+    // Records every EventSource the client opens
+    const trackConnections = (): MockEventSource[] => {
+      const connections: MockEventSource[] = [];
+      vi.stubGlobal('EventSource', class extends MockEventSource {
+        constructor(url: string) {
+          super(url);
+          connections.push(this);
+        }
+      });
+      return connections;
+    };
+
+    it('tracks the id of the last received event', async () => {
+      const result = await createSSEClient(debateId, baseUrl, vi.fn())();
+
+      expect(E.isRight(result)).toBe(true);
+      if (E.isRight(result)) {
+        const { eventSource, getLastEventId, close } = result.right as unknown as MockSSEClient;
+
+        expect(getLastEventId()).toEqual(O.none);
+        eventSource.simulateMessage(completeEvent, 'message', 'evt-41');
+        eventSource.simulateMessage(completeEvent, 'message', 'evt-42');
+        expect(getLastEventId()).toEqual(O.some('evt-42'));
+
+        close();
+      }
+    });
+
+    it('sends the last event id when reconnecting manually', async () => {
+      const connections = trackConnections();
+      const result = await createSSEClient(debateId, baseUrl, vi.fn())();
+
+      expect(E.isRight(result)).toBe(true);
+      if (E.isRight(result)) {
+        const { reconnect, close } = result.right;
+
+        connections[0]?.simulateMessage(completeEvent, 'message', 'evt 7');
+        reconnect();
+
+        expect(connections).toHaveLength(2);
+        expect(connections[1]?.url).toBe(`${streamUrl}?protocolVersion=1&lastEventId=evt%207`);
+
+        close();
+      }
+    });
+
+    it('receives the stream with fetch when given a token provider', async () => {
+      const connections = trackConnections();
+      const tokenProvider = createTokenProvider({ initialToken: 'abc', refreshToken: () => TE.right('def') });
+      const fetchMock = vi.fn<typeof fetch>(() => new Promise<Response>(() => undefined));
+      const result = await createSSEClient(debateId, baseUrl, vi.fn(), { tokenProvider, fetch: fetchMock })();
+
+      await vi.waitFor(() => {
+        expect(fetchMock.mock.calls).toHaveLength(1);
+      });
+      expect(connections).toHaveLength(0);
+      expect(fetchMock.mock.calls[0]?.[0]).toBe(`${streamUrl}?protocolVersion=1`);
+      expect(fetchMock.mock.calls[0]?.[1]?.headers).toMatchObject({ Authorization: 'Bearer abc' });
+      if (E.isRight(result)) {
+        result.right.close();
+      }
+    });
+
+    it('sends the current access token in the URL when EventSource is chosen', async () => {
+      const connections = trackConnections();
+      const tokenProvider = createTokenProvider({ initialToken: 'abc', refreshToken: () => TE.right('def') });
+      const result = await createSSEClient(debateId, baseUrl, vi.fn(), {
+        tokenProvider,
+        transport: 'eventsource',
+      })();
+
+      expect(connections[0]?.url).toBe(`${streamUrl}?protocolVersion=1&access_token=abc`);
+
+      // A token refreshed by the HTTP client is picked up on reconnect
+      await tokenProvider.refresh()();
+      if (E.isRight(result)) {
+        result.right.reconnect();
+        expect(connections[1]?.url).toBe(`${streamUrl}?protocolVersion=1&access_token=def`);
+        result.right.close();
+      }
+    });
+
+    it('sends the last event id when retrying after an error', async () => {
+      const connections = trackConnections();
+      const result = await createSSEClient(debateId, baseUrl, vi.fn(), {
+        initialRetryDelay: 1,
+      })();
+
+      expect(E.isRight(result)).toBe(true);
+      if (E.isRight(result)) {
+        connections[0]?.simulateMessage(completeEvent, 'message', 'evt-3');
+        connections[0]?.simulateError();
+
+        await vi.waitFor(() => {
+          expect(connections).toHaveLength(2);
+        });
+        expect(connections[1]?.url).toBe(`${streamUrl}?protocolVersion=1&lastEventId=evt-3`);
+
+        result.right.close();
+      }
+    });
+
+    it('resumes from the given event id on the first connection', async () => {
+      const connections = trackConnections();
+      const result = await createSSEClient(debateId, baseUrl, vi.fn(), {
+        lastEventId: 'evt-9',
+      })();
+
+      expect(E.isRight(result)).toBe(true);
+      expect(connections[0]?.url).toBe(`${streamUrl}?protocolVersion=1&lastEventId=evt-9`);
+      if (E.isRight(result)) {
+        expect(result.right.getLastEventId()).toEqual(O.some('evt-9'));
+        result.right.close();
+      }
+    });
+  });
 });
@@ -1,7 +1,13 @@
 import * as TE from 'fp-ts/TaskEither';
-import { z } from 'zod';
-import { TurnResponseSchema, ConsensusResultSchema, type TurnResponse, type ConsensusResult } from '@debateui/core';
+import * as O from 'fp-ts/Option';
+import type { TurnResponse, ConsensusResult } from '@debateui/core';
 import { networkError, type ApiError } from '@debateui/core';
+import { parseStreamEvent } from './stream-events';
+import { DEFAULT_RETRY_OPTIONS, getRetryDelay } from './backoff';
+import { createFetchSSEClient } from './fetch-sse-client';
+import { createStallMonitor } from './stall-monitor';
+import { withStreamParams } from './protocol';
+import type { TokenProvider } from '../client/token-provider';
 
 /**
  * CCR (ConstantContextRouter) event types for detailed workflow visibility
@@ -35,6 +41,19 @@ export interface CCREventData {
   readonly metadata: Record<string, unknown> | undefined;
 }
 
+/**
+ * An event this client does not recognise, typically from a newer server.
+ * Kept instead of dropped so it can still be shown.
+ */
+export interface UnknownEventData {
+  /** `type` of the event as sent by the server */
+  readonly type: string;
+  /** `eventType` of a CCR event of a type this client does not know */
+  readonly eventType: string | undefined;
+  /** The event as received */
+  readonly raw: unknown;
+}
+
 /**
  * Stream event types that can be received from the SSE endpoint
  */
@@ -43,13 +62,25 @@ export type StreamEvent =
   | { type: 'consensus'; data: ConsensusResult }
   | { type: 'error'; data: { message: string; recoverable: boolean } }
   | { type: 'complete'; data: { debateId: string } }
-  | { type: 'ccr'; data: CCREventData };
+  | { type: 'ccr'; data: CCREventData }
+  | { type: 'heartbeat'; data: { timestamp: number } }
+  | { type: 'stalled'; data: { idleMs: number } }
+  | { type: 'hello'; data: { protocolVersion: number } }
+  | { type: 'unknown'; data: UnknownEventData };
 
 /**
  * Handler function for processing stream events
  */
 export type StreamEventHandler = (event: StreamEvent) => void;
 
+/**
+ * How the stream is received.
+ * - `eventsource`: the browser EventSource (default without a token provider)
+ * - `fetch`: fetch with a streamed body; supports request headers and
+ *   runs anywhere fetch does, including Node (default with a token provider)
+ */
+export type SSETransport = 'eventsource' | 'fetch';
+
 /**
  * SSE Client configuration options
  */
@@ -57,95 +88,74 @@ export interface SSEClientOptions {
   maxRetries?: number;
   initialRetryDelay?: number;
   maxRetryDelay?: number;
+  /** Resume after this event id, e.g. the last id seen by a previous client */
+  lastEventId?: string;
+  /**
+   * Emit a `stalled` event when nothing, not even a heartbeat, arrives for
+   * this many milliseconds. Disabled when unset.
+   */
+  stallTimeout?: number;
+  /**
+   * Transport to receive the stream with. Defaults to `fetch` when a
+   * `tokenProvider` is set and to `eventsource` otherwise.
+   */
+  transport?: SSETransport;
+  /**
+   * Request headers, e.g. Authorization (fetch transport only).
+   * A function is called again on every reconnect, so tokens can be refreshed.
+   */
+  headers?: Record<string, string> | (() => Record<string, string>);
+  /**
+   * Bearer token source, shared with the HTTP client.
+   * The fetch transport sends it as `Authorization` and refreshes it once
+   * on a 401. EventSource cannot send headers, so with `transport:
+   * 'eventsource'` the current token goes in the query string, where
+   * server and proxy logs may record it.
+   */
+  tokenProvider?: TokenProvider;
+  /** Closes the client when aborted */
+  signal?: AbortSignal;
+  /** fetch implementation (fetch transport only), defaults to the global fetch */
+  fetch?: typeof fetch;
 }
 
 /**
- * SSE Client result containing EventSource and control functions
+ * Control functions shared by every debate stream client
  */
-export interface SSEClient {
-  eventSource: EventSource;
+export interface StreamClient {
   close: () => void;
   reconnect: () => void;
+  getLastEventId: () => O.Option<string>;
 }
 
 /**
- * Zod schemas for validating stream events
- */
-const StreamEventErrorSchema = z.object({
-  type: z.literal('error'),
-  data: z.object({
-    message: z.string(),
-    recoverable: z.boolean(),
-  }),
-});
-
-const StreamEventCompleteSchema = z.object({
-  type: z.literal('complete'),
-  data: z.object({
-    debateId: z.string(),
-  }),
-});
-
-const StreamEventTurnSchema = z.object({
-  type: z.literal('turn'),
-  data: TurnResponseSchema,
-});
-
-const StreamEventConsensusSchema = z.object({
-  type: z.literal('consensus'),
-  data: ConsensusResultSchema,
-});
-
-const CCREventTypeSchema = z.enum([
-  'debate.initialized',
-  'debate.round.started',
-  'debate.round.completed',
-  'turn.started',
-  'turn.streaming',
-  'turn.completed',
-  'model.api.call',
-  'model.api.response',
-  'consensus.check',
-  'consensus.reached',
-  'context.stored',
-  'context.retrieved',
-  'token.usage',
-  'cost.update',
-  'error.occurred',
-]);
-
-const StreamEventCCRSchema = z.object({
-  type: z.literal('ccr'),
-  data: z.object({
-    eventId: z.string(),
-    timestamp: z.number(),
-    eventType: CCREventTypeSchema,
-    agent: z.string().optional(),
-    message: z.string(),
-    metadata: z.record(z.unknown()).optional(),
-  }),
-});
-
-const StreamEventSchema = z.union([
-  StreamEventTurnSchema,
-  StreamEventConsensusSchema,
-  StreamEventErrorSchema,
-  StreamEventCompleteSchema,
-  StreamEventCCRSchema,
-]);
-
-/**
- * Default SSE client options
+ * SSE Client result containing EventSource and control functions
  */
-const DEFAULT_OPTIONS: Required<SSEClientOptions> = {
-  maxRetries: 5,
-  initialRetryDelay: 1000,
-  maxRetryDelay: 30000,
-};
+export interface SSEClient extends StreamClient {
+  /** Underlying EventSource; null for the fetch transport */
+  eventSource: EventSource | null;
+}
 
 /**
  * Creates an SSE client for streaming debate updates in real-time.
  *
+ * The id of the last received event is tracked, and every new connection
+ * (backoff retries and `reconnect()`) resumes after it so the server can
+ * replay only what was missed.
+ *
+ * Every connection announces `STREAM_PROTOCOL_VERSION`, and the server
+ * answers with a `hello` event carrying its own version. Events of types
+ * this client does not know are delivered as `unknown` rather than dropped.
+ *
+ * The server may send `heartbeat` events while a debate is quiet. With a
+ * `stallTimeout`, a synthetic `stalled` event is emitted when the stream
+ * goes silent, since an open connection alone does not prove it is alive.
+ *
+ * The transport is chosen per call with `options.transport`; both
+ * transports share the same events, retry behaviour and client contract.
+ * With a `tokenProvider` and no transport, the fetch transport is used so
+ * the token travels in a header rather than the URL.
+ *
  * @param debateId - ID of the debate to stream
  * @param baseUrl - Base URL of the API server
  * @param onEvent - Handler function called for each event
@@ -174,6 +184,12 @@ const DEFAULT_OPTIONS: Required<SSEClientOptions> = {
  *   // Later...
  *   close();
  * }
+ *
+ * // Behind an auth proxy, or from Node
+ * createSSEClient('debate-123', 'https://api.example.com', onEvent, {
+ *   transport: 'fetch',
+ *   headers: () => ({ Authorization: `Bearer ${getToken()}` }),
+ * });
  * ```
  */
 export const createSSEClient = (
@@ -181,51 +197,57 @@ export const createSSEClient = (
   baseUrl: string,
   onEvent: StreamEventHandler,
   options: SSEClientOptions = {}
+): TE.TaskEither<ApiError, SSEClient> =>
+  (options.transport ?? (options.tokenProvider !== undefined ? 'fetch' : 'eventsource')) === 'fetch'
+    ? createFetchSSEClient(debateId, baseUrl, onEvent, options)
+    : createEventSourceClient(debateId, baseUrl, onEvent, options);
+
+/**
+ * SSE client on the browser EventSource
+ */
+const createEventSourceClient = (
+  debateId: string,
+  baseUrl: string,
+  onEvent: StreamEventHandler,
+  options: SSEClientOptions
 ): TE.TaskEither<ApiError, SSEClient> => {
   return TE.tryCatch(
     async () => {
-      const opts = { ...DEFAULT_OPTIONS, ...options };
+      const opts = { ...DEFAULT_RETRY_OPTIONS, ...options };
       let retryCount = 0;
       let currentEventSource: EventSource | null = null;
       let reconnectTimer: NodeJS.Timeout | null = null;
+      let lastEventId: O.Option<string> = O.fromNullable(options.lastEventId);
 
       const streamUrl = `${baseUrl}/debates/${debateId}/stream`;
 
-      /**
-       * Calculate exponential backoff delay
-       */
-      const getRetryDelay = (): number => {
-        const delay = opts.initialRetryDelay * Math.pow(2, retryCount);
-        return Math.min(delay, opts.maxRetryDelay);
-      };
+      const stallMonitor = createStallMonitor(options.stallTimeout, (idleMs) => {
+        onEvent({ type: 'stalled', data: { idleMs } });
+      });
 
       /**
        * Create and configure EventSource connection
        */
       const connect = (): EventSource => {
-        const eventSource = new EventSource(streamUrl);
+        const accessToken = options.tokenProvider?.currentToken() ?? O.none;
+        const eventSource = new EventSource(withStreamParams(streamUrl, lastEventId, accessToken));
+        stallMonitor.touch();
 
         eventSource.onmessage = (event: MessageEvent) => {
-          try {
-            // Parse JSON data
-            const rawData = JSON.parse(event.data);
-
-            // Validate with Zod schema
-            const parseResult = StreamEventSchema.safeParse(rawData);
-
-            if (parseResult.success) {
-              // Reset retry count on successful message
-              retryCount = 0;
-
-              // Call handler with validated event
-              onEvent(parseResult.data);
-            } else {
-              // Log validation error but don't crash
-              console.error('Invalid stream event:', parseResult.error);
-            }
-          } catch (err) {
-            // Log parse error but don't crash
-            console.error('Failed to parse stream event:', err);
+          stallMonitor.touch();
+
+          // Track the resume point, even for events that fail validation
+          if (event.lastEventId) {
+            lastEventId = O.some(event.lastEventId);
+          }
+
+          const streamEvent = parseStreamEvent(event.data);
+          if (O.isSome(streamEvent)) {
+            // Reset retry count on successful message
+            retryCount = 0;
+
+            // Call handler with validated event
+            onEvent(streamEvent.value);
           }
         };
 
@@ -233,7 +255,7 @@ export const createSSEClient = (
           // Connection lost or error occurred
           if (retryCount < opts.maxRetries) {
             retryCount++;
-            const delay = getRetryDelay();
+            const delay = getRetryDelay(retryCount, opts);
 
             console.log(`SSE connection lost. Retrying in ${delay}ms (attempt ${retryCount}/${opts.maxRetries})`);
 
@@ -245,6 +267,8 @@ export const createSSEClient = (
             }, delay);
           } else {
             console.error('SSE max retries exceeded');
+            // Giving up: nothing left to watch for stalls
+            stallMonitor.stop();
             // Notify handler of unrecoverable error
             onEvent({
               type: 'error',
@@ -283,6 +307,8 @@ export const createSSEClient = (
        * Close the connection and cleanup
        */
       const close = (): void => {
+        stallMonitor.stop();
+
         if (reconnectTimer) {
           clearTimeout(reconnectTimer);
           reconnectTimer = null;
@@ -294,10 +320,16 @@ export const createSSEClient = (
         }
       };
 
+      options.signal?.addEventListener('abort', close, { once: true });
+      if (options.signal?.aborted) {
+        close();
+      }
+
       return {
         eventSource: currentEventSource,
         close,
         reconnect,
+        getLastEventId: () => lastEventId,
       };
     },
     (error) => {
@@ -340,3 +372,31 @@ export const isCompleteEvent = (event: StreamEvent): event is { type: 'complete'
 export const isCCREvent = (event: StreamEvent): event is { type: 'ccr'; data: CCREventData } => {
   return event.type === 'ccr';
 };
+
+/**
+ * Type guard to check if event is a heartbeat event
+ */
+export const isHeartbeatEvent = (event: StreamEvent): event is { type: 'heartbeat'; data: { timestamp: number } } => {
+  return event.type === 'heartbeat';
+};
+
+/**
+ * Type guard to check if event is a hello event
+ */
+export const isHelloEvent = (event: StreamEvent): event is { type: 'hello'; data: { protocolVersion: number } } => {
+  return event.type === 'hello';
+};
+
+/**
+ * Type guard to check if event is an unknown event
+ */
+export const isUnknownEvent = (event: StreamEvent): event is { type: 'unknown'; data: UnknownEventData } => {
+  return event.type === 'unknown';
+};
+
+/**
+ * Type guard to check if event is a stalled event
+ */
+export const isStalledEvent = (event: StreamEvent): event is { type: 'stalled'; data: { idleMs: number } } => {
+  return event.type === 'stalled';
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { createSSEParser, type SSEMessage } from './sse-parser';
+
+// Collects every message dispatched while pushing the given chunks
+const parseChunks = (chunks: readonly string[]): SSEMessage[] => {
+  const messages: SSEMessage[] = [];
+  const parser = createSSEParser((message) => messages.push(message));
+  chunks.forEach((chunk) => {
+    parser.push(chunk);
+  });
+  return messages;
+};
+
+describe('SSE Parser', () => {
+  it('dispatches a message on a blank line', () => {
+    expect(parseChunks(['data: hello\n\n'])).toEqual([
+      { event: 'message', data: 'hello', lastEventId: '' },
+    ]);
+  });
+
+  it('does not dispatch until the event is terminated', () => {
+    expect(parseChunks(['data: hello\n'])).toEqual([]);
+  });
+
+  it('joins lines split across chunks', () => {
+    expect(parseChunks(['da', 'ta: hel', 'lo\n', '\n'])).toEqual([
+      { event: 'message', data: 'hello', lastEventId: '' },
+    ]);
+  });
+
+  it('handles a \\r\\n terminator split across chunks', () => {
+    expect(parseChunks(['data: a\r', '\n\r', '\ndata: b\r\n\r\n'])).toEqual([
+      { event: 'message', data: 'a', lastEventId: '' },
+      { event: 'message', data: 'b', lastEventId: '' },
+    ]);
+  });
+
+  it('accepts bare \\r line terminators', () => {
+    expect(parseChunks(['data: a\r\rdata: b\r\r', 'data: c'])).toEqual([
+      { event: 'message', data: 'a', lastEventId: '' },
+      { event: 'message', data: 'b', lastEventId: '' },
+    ]);
+  });
+
+  it('joins multiple data lines with newlines', () => {
+    expect(parseChunks(['data: first\ndata: second\ndata\n\n'])).toEqual([
+      { event: 'message', data: 'first\nsecond\n', lastEventId: '' },
+    ]);
+  });
+
+  it('only strips a single leading space from values', () => {
+    expect(parseChunks(['data:  indented\ndata:tight\n\n'])).toEqual([
+      { event: 'message', data: ' indented\ntight', lastEventId: '' },
+    ]);
+  });
+
+  it('ignores comments and unknown fields', () => {
+    expect(parseChunks([': keep-alive\nretry: 100\nfoo: bar\ndata: x\n\n'])).toEqual([
+      { event: 'message', data: 'x', lastEventId: '' },
+    ]);
+  });
+
+  it('does not dispatch events without data', () => {
+    expect(parseChunks(['event: ping\n\n', ': comment\n\n'])).toEqual([]);
+  });
+
+  it('uses the event name for one message only', () => {
+    expect(parseChunks(['event: ping\ndata: 1\n\ndata: 2\n\n'])).toEqual([
+      { event: 'ping', data: '1', lastEventId: '' },
+      { event: 'message', data: '2', lastEventId: '' },
+    ]);
+  });
+
+  it('keeps the last event id across messages', () => {
+    expect(parseChunks(['id: evt-1\ndata: a\n\ndata: b\n\nid\ndata: c\n\n'])).toEqual([
+      { event: 'message', data: 'a', lastEventId: 'evt-1' },
+      { event: 'message', data: 'b', lastEventId: 'evt-1' },
+      { event: 'message', data: 'c', lastEventId: '' },
+    ]);
+  });
+
+  it('ignores ids containing a null character', () => {
+    expect(parseChunks(['id: evt-1\n\nid: bad\0id\ndata: a\n\n'])).toEqual([
+      { event: 'message', data: 'a', lastEventId: 'evt-1' },
+    ]);
+  });
+});
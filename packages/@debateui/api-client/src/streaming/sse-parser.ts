@@ -0,0 +1,111 @@
+/**
+ * One message dispatched from a `text/event-stream` body
+ */
+export interface SSEMessage {
+  /** Event type, `message` unless the stream named it */
+  readonly event: string;
+  /** Data lines joined with newlines */
+  readonly data: string;
+  /** Last event id seen on the stream, empty if none */
+  readonly lastEventId: string;
+}
+
+/**
+ * Incremental parser fed with decoded chunks of the stream body
+ */
+export interface SSEParser {
+  push: (chunk: string) => void;
+}
+
+/**
+ * Creates a parser for the `text/event-stream` format, following the
+ * WHATWG event stream interpretation rules. Chunks may split lines anywhere,
+ * including between the `\r` and `\n` of a line terminator.
+ *
+ * @param onMessage - Called for every dispatched message
+ * @returns Parser to push decoded chunks into
+ *
+ * @example
+ * ```typescript
+ * const parser = createSSEParser((message) => console.log(message.data));
+ * parser.push('id: 1\ndata: hel');
+ * parser.push('lo\n\n'); // logs 'hello'
+ * ```
+ */
+export const createSSEParser = (onMessage: (message: SSEMessage) => void): SSEParser => {
+  let buffer = '';
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId = '';
+
+  /**
+   * Dispatch the buffered event on a blank line
+   */
+  const dispatch = (): void => {
+    if (dataLines.length > 0) {
+      onMessage({ event: eventType || 'message', data: dataLines.join('\n'), lastEventId });
+    }
+    eventType = '';
+    dataLines = [];
+  };
+
+  /**
+   * Interpret one complete line
+   */
+  const processLine = (line: string): void => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+
+    // Comment lines keep the connection alive
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const rawValue = colon === -1 ? '' : line.slice(colon + 1);
+    const value = rawValue.startsWith(' ') ? rawValue.slice(1) : rawValue;
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          lastEventId = value;
+        }
+        break;
+      default:
+        // `retry` and unknown fields are ignored; reconnection is driven by
+        // the client's own backoff options
+        break;
+    }
+  };
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+
+      // Line terminators allowed by the event stream format
+      const terminator = /\r\n|\r|\n/g;
+      let lineStart = 0;
+      let match = terminator.exec(buffer);
+      while (match !== null) {
+        // A trailing \r may be the first half of \r\n; wait for the next chunk
+        if (match[0] === '\r' && match.index === buffer.length - 1) {
+          break;
+        }
+        processLine(buffer.slice(lineStart, match.index));
+        lineStart = match.index + match[0].length;
+        match = terminator.exec(buffer);
+      }
+
+      buffer = buffer.slice(lineStart);
+    },
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createStallMonitor } from './stall-monitor';
+
+describe('Stall Monitor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports a stall once after the timeout without activity', () => {
+    const onStall = vi.fn();
+    const monitor = createStallMonitor(1000, onStall);
+
+    monitor.touch();
+    vi.advanceTimersByTime(999);
+    expect(onStall).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onStall).toHaveBeenCalledWith(1000);
+
+    vi.advanceTimersByTime(5000);
+    expect(onStall).toHaveBeenCalledTimes(1);
+  });
+
+  it('restarts the timeout on activity', () => {
+    const onStall = vi.fn();
+    const monitor = createStallMonitor(1000, onStall);
+
+    monitor.touch();
+    vi.advanceTimersByTime(800);
+    monitor.touch();
+    vi.advanceTimersByTime(800);
+    expect(onStall).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(200);
+    expect(onStall).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-arms after a stall when activity resumes', () => {
+    const onStall = vi.fn();
+    const monitor = createStallMonitor(1000, onStall);
+
+    monitor.touch();
+    vi.advanceTimersByTime(1000);
+    monitor.touch();
+    vi.advanceTimersByTime(1000);
+
+    expect(onStall).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops watching when stopped', () => {
+    const onStall = vi.fn();
+    const monitor = createStallMonitor(1000, onStall);
+
+    monitor.touch();
+    monitor.stop();
+    vi.advanceTimersByTime(5000);
+
+    expect(onStall).not.toHaveBeenCalled();
+  });
+
+  it('does nothing without a positive timeout', () => {
+    const onStall = vi.fn();
+
+    createStallMonitor(undefined, onStall).touch();
+    createStallMonitor(0, onStall).touch();
+    vi.advanceTimersByTime(60000);
+
+    expect(onStall).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Watches a stream for silence
+ */
+export interface StallMonitor {
+  /** Record activity on the stream, restarting the timeout */
+  touch: () => void;
+  /** Stop watching */
+  stop: () => void;
+}
+
+/**
+ * Creates a monitor that calls `onStall` once when `touch` has not been
+ * called for `timeout` milliseconds. The next `touch` re-arms it.
+ *
+ * @param timeout - Silence in milliseconds before the stream counts as
+ *   stalled; when unset or not positive, the monitor does nothing
+ * @param onStall - Called with the timeout when the stream stalls
+ * @returns StallMonitor to touch on activity and stop on close
+ */
+export const createStallMonitor = (
+  timeout: number | undefined,
+  onStall: (idleMs: number) => void
+): StallMonitor => {
+  if (timeout === undefined || timeout <= 0) {
+    return { touch: () => undefined, stop: () => undefined };
+  }
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const stop = (): void => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  return {
+    touch: () => {
+      stop();
+      timer = setTimeout(() => {
+        timer = null;
+        onStall(timeout);
+      }, timeout);
+    },
+    stop,
+  };
+};
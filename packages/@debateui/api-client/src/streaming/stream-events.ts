@@ -0,0 +1,168 @@
+import * as O from 'fp-ts/Option';
+import { z } from 'zod';
+import { TurnResponseSchema, ConsensusResultSchema } from '@debateui/core';
+import type { StreamEvent } from './sse-client';
+
+/**
+ * Zod schemas for validating stream events
+ */
+const StreamEventErrorSchema = z.object({
+  type: z.literal('error'),
+  data: z.object({
+    message: z.string(),
+    recoverable: z.boolean(),
+  }),
+});
+
+const StreamEventHeartbeatSchema = z.object({
+  type: z.literal('heartbeat'),
+  data: z.object({
+    timestamp: z.number(),
+  }),
+});
+
+const StreamEventHelloSchema = z.object({
+  type: z.literal('hello'),
+  data: z.object({
+    protocolVersion: z.number().int().positive(),
+  }),
+});
+
+const StreamEventCompleteSchema = z.object({
+  type: z.literal('complete'),
+  data: z.object({
+    debateId: z.string(),
+  }),
+});
+
+const StreamEventTurnSchema = z.object({
+  type: z.literal('turn'),
+  data: TurnResponseSchema,
+});
+
+const StreamEventConsensusSchema = z.object({
+  type: z.literal('consensus'),
+  data: ConsensusResultSchema,
+});
+
+const CCREventTypeSchema = z.enum([
+  'debate.initialized',
+  'debate.round.started',
+  'debate.round.completed',
+  'turn.started',
+  'turn.streaming',
+  'turn.completed',
+  'model.api.call',
+  'model.api.response',
+  'consensus.check',
+  'consensus.reached',
+  'context.stored',
+  'context.retrieved',
+  'token.usage',
+  'cost.update',
+  'error.occurred',
+]);
+
+const StreamEventCCRSchema = z.object({
+  type: z.literal('ccr'),
+  data: z.object({
+    eventId: z.string(),
+    timestamp: z.number(),
+    eventType: CCREventTypeSchema,
+    agent: z.string().optional(),
+    message: z.string(),
+    metadata: z.record(z.unknown()).optional(),
+  }),
+});
+
+const StreamEventSchema = z.union([
+  StreamEventTurnSchema,
+  StreamEventConsensusSchema,
+  StreamEventErrorSchema,
+  StreamEventCompleteSchema,
+  StreamEventCCRSchema,
+  StreamEventHeartbeatSchema,
+  StreamEventHelloSchema,
+]);
+
+/**
+ * Event types this client can validate; anything else is unknown
+ */
+const KNOWN_EVENT_TYPES: ReadonlySet<string> = new Set(
+  StreamEventSchema.options.map((schema) => schema.shape.type.value)
+);
+
+/**
+ * Minimal shape every event shares, used to recognise unknown events
+ */
+const EventEnvelopeSchema = z.object({
+  type: z.string(),
+  data: z.object({ eventType: z.string().optional() }).passthrough().optional(),
+});
+
+/**
+ * Wrap an event of a type this client does not know, so it is kept
+ * rather than dropped. CCR events count as unknown when their
+ * `eventType` is new. Known types with invalid payloads are not wrapped.
+ */
+const toUnknownEvent = (rawData: unknown): O.Option<StreamEvent> => {
+  const envelope = EventEnvelopeSchema.safeParse(rawData);
+  if (!envelope.success) {
+    return O.none;
+  }
+
+  const { type } = envelope.data;
+  const eventType = envelope.data.data?.eventType;
+  const isNewType = !KNOWN_EVENT_TYPES.has(type);
+  const isNewCCRType =
+    type === 'ccr' && eventType !== undefined && !CCREventTypeSchema.safeParse(eventType).success;
+
+  return isNewType || isNewCCRType
+    ? O.some({ type: 'unknown', data: { type, eventType, raw: rawData } })
+    : O.none;
+};
+
+/**
+ * Validate an already decoded stream message.
+ *
+ * @param rawData - Decoded JSON payload of one message
+ * @returns The validated event, an `unknown` event for types this client
+ *   does not know, or none if a known event is malformed
+ */
+export const decodeStreamEvent = (rawData: unknown): O.Option<StreamEvent> => {
+  // Validate with Zod schema
+  const parseResult = StreamEventSchema.safeParse(rawData);
+
+  if (parseResult.success) {
+    return O.some(parseResult.data);
+  }
+
+  const unknownEvent = toUnknownEvent(rawData);
+  if (O.isSome(unknownEvent)) {
+    return unknownEvent;
+  }
+
+  // Log validation error but don't crash
+  console.error('Invalid stream event:', parseResult.error);
+  return O.none;
+};
+
+/**
+ * Parse and validate the data of one stream message.
+ * Invalid JSON and malformed events are logged and skipped rather than
+ * tearing down the stream.
+ *
+ * @param data - Raw `data` of an SSE message
+ * @returns The validated event, or none if the message was invalid
+ */
+export const parseStreamEvent = (data: string): O.Option<StreamEvent> => {
+  try {
+    // Parse JSON data
+    const rawData: unknown = JSON.parse(data);
+    return decodeStreamEvent(rawData);
+  } catch (err) {
+    // Log parse error but don't crash
+    console.error('Failed to parse stream event:', err);
+    return O.none;
+  }
+};
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import { createWebSocketClient } from './ws-client';
+import { createTokenProvider } from '../client/token-provider';
+
+// Mock WebSocket recording every socket the client opens
+class MockWebSocket {
+  static readonly OPEN = 1;
+  static instances: MockWebSocket[] = [];
+
+  url: string;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  readyState: number = 0;
+  sent: string[] = [];
+
+  constructor(url: string) {
+    this.url = url;
+    MockWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = 3; // CLOSED
+  }
+
+  // Helper to simulate the connection opening
+  simulateOpen() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.(new Event('open'));
+  }
+
+  // Helper to simulate receiving a message
+  simulateMessage(data: unknown) {
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(data) }));
+  }
+
+  // Helper to simulate the server dropping the connection
+  simulateClose() {
+    this.readyState = 3; // CLOSED
+    this.onclose?.(new Event('close') as CloseEvent);
+  }
+}
+
+describe('WebSocket Client', () => {
+  const debateId = 'c7e9a3b2-1234-5678-90ab-cdef12345678';
+  const completeEvent = { type: 'complete', data: { debateId } };
+
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', MockWebSocket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('connects to the ws URL for the debate', async () => {
+    await createWebSocketClient(debateId, 'http://localhost:3000', vi.fn())();
+    await createWebSocketClient(debateId, 'https://api.example.com', vi.fn())();
+
+    expect(MockWebSocket.instances[0]?.url).toBe(`ws://localhost:3000/debates/${debateId}/ws?protocolVersion=1`);
+    expect(MockWebSocket.instances[1]?.url).toBe(`wss://api.example.com/debates/${debateId}/ws?protocolVersion=1`);
+  });
+
+  it('sends the current access token as a query parameter', async () => {
+    const tokenProvider = createTokenProvider({ initialToken: 'a b', refreshToken: () => TE.right('new') });
+    await createWebSocketClient(debateId, 'http://localhost:3000', vi.fn(), { tokenProvider })();
+
+    expect(MockWebSocket.instances[0]?.url).toBe(
+      `ws://localhost:3000/debates/${debateId}/ws?protocolVersion=1&access_token=a%20b`
+    );
+  });
+
+  it('delivers validated events and tracks their ids', async () => {
+    const handler = vi.fn();
+    const result = await createWebSocketClient(debateId, 'http://localhost:3000', handler)();
+
+    expect(E.isRight(result)).toBe(true);
+    if (E.isRight(result)) {
+      const socket = MockWebSocket.instances[0];
+      socket?.simulateOpen();
+      socket?.simulateMessage({ ...completeEvent, id: 'evt-5' });
+      socket?.simulateMessage({ type: 'turn', data: {} });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(completeEvent);
+      expect(result.right.getLastEventId()).toEqual(O.some('evt-5'));
+      result.right.close();
+    }
+  });
+
+  it('sends messages once the socket is open', async () => {
+    const result = await createWebSocketClient(debateId, 'http://localhost:3000', vi.fn())();
+
+    expect(E.isRight(result)).toBe(true);
+    if (E.isRight(result)) {
+      const socket = MockWebSocket.instances[0];
+      expect(E.isLeft(result.right.send({ type: 'pause' }))).toBe(true);
+
+      socket?.simulateOpen();
+      expect(result.right.send({ type: 'turn', data: { content: 'I disagree' } })).toEqual(E.right(undefined));
+      expect(result.right.send({ type: 'resume' })).toEqual(E.right(undefined));
+
+      expect(socket?.sent.map((data) => JSON.parse(data) as unknown)).toEqual([
+        { type: 'turn', data: { content: 'I disagree' } },
+        { type: 'resume' },
+      ]);
+      result.right.close();
+    }
+  });
+
+  it('reconnects after the connection drops, resuming after the last event id', async () => {
+    const result = await createWebSocketClient(debateId, 'http://localhost:3000', vi.fn(), {
+      initialRetryDelay: 1,
+    })();
+
+    expect(E.isRight(result)).toBe(true);
+    if (E.isRight(result)) {
+      MockWebSocket.instances[0]?.simulateOpen();
+      MockWebSocket.instances[0]?.simulateMessage({ ...completeEvent, id: 'evt 7' });
+      MockWebSocket.instances[0]?.simulateClose();
+
+      await vi.waitFor(() => {
+        expect(MockWebSocket.instances).toHaveLength(2);
+      });
+      expect(MockWebSocket.instances[1]?.url).toBe(
+        `ws://localhost:3000/debates/${debateId}/ws?protocolVersion=1&lastEventId=evt%207`
+      );
+      result.right.close();
+    }
+  });
+
+  it('reports an unrecoverable error when retries run out', async () => {
+    const handler = vi.fn();
+    await createWebSocketClient(debateId, 'http://localhost:3000', handler, {
+      maxRetries: 0,
+    })();
+
+    MockWebSocket.instances[0]?.simulateClose();
+
+    expect(handler).toHaveBeenCalledWith({
+      type: 'error',
+      data: { message: 'Maximum reconnection attempts exceeded', recoverable: false },
+    });
+  });
+
+  it('stops watching for stalls once retries run out', async () => {
+    vi.useFakeTimers();
+    const handler = vi.fn();
+    await createWebSocketClient(debateId, 'http://localhost:3000', handler, {
+      maxRetries: 0,
+      stallTimeout: 1000,
+    })();
+
+    MockWebSocket.instances[0]?.simulateClose();
+    vi.advanceTimersByTime(5000);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('pings the server and reconnects when the heartbeat is not answered', async () => {
+    vi.useFakeTimers();
+    const result = await createWebSocketClient(debateId, 'http://localhost:3000', vi.fn(), {
+      heartbeatInterval: 100,
+      heartbeatTimeout: 50,
+      initialRetryDelay: 10,
+    })();
+
+    const socket = MockWebSocket.instances[0];
+    socket?.simulateOpen();
+
+    // Answered ping keeps the connection
+    vi.advanceTimersByTime(100);
+    expect(socket?.sent).toEqual([JSON.stringify({ type: 'ping' })]);
+    socket?.simulateMessage({ type: 'pong' });
+    vi.advanceTimersByTime(50);
+    expect(MockWebSocket.instances).toHaveLength(1);
+
+    // Unanswered ping drops it and retries
+    vi.advanceTimersByTime(100);
+    vi.advanceTimersByTime(50);
+    expect(socket?.readyState).toBe(3);
+    vi.advanceTimersByTime(20);
+    expect(MockWebSocket.instances).toHaveLength(2);
+
+    if (E.isRight(result)) {
+      result.right.close();
+    }
+  });
+
+  it('does not reconnect after close', async () => {
+    const result = await createWebSocketClient(debateId, 'http://localhost:3000', vi.fn(), {
+      initialRetryDelay: 1,
+    })();
+
+    if (E.isRight(result)) {
+      const socket = MockWebSocket.instances[0];
+      result.right.close();
+      socket?.simulateClose();
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(MockWebSocket.instances).toHaveLength(1);
+  });
+
+  it('closes when the given signal aborts', async () => {
+    const controller = new AbortController();
+    await createWebSocketClient(debateId, 'http://localhost:3000', vi.fn(), {
+      signal: controller.signal,
+    })();
+
+    controller.abort();
+
+    expect(MockWebSocket.instances[0]?.readyState).toBe(3);
+  });
+});
@@ -0,0 +1,342 @@
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { z } from 'zod';
+import { networkError, type ApiError } from '@debateui/core';
+import type { StreamClient, StreamEventHandler } from './sse-client';
+import { decodeStreamEvent } from './stream-events';
+import { DEFAULT_RETRY_OPTIONS, getRetryDelay } from './backoff';
+import { createStallMonitor } from './stall-monitor';
+import { withStreamParams } from './protocol';
+import type { TokenProvider } from '../client/token-provider';
+
+/**
+ * Messages the client can send over the WebSocket
+ */
+export type ClientMessage =
+  | { type: 'turn'; data: { content: string; branchId?: string } }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'ping' };
+
+/**
+ * WebSocket client configuration options
+ */
+export interface WebSocketClientOptions {
+  maxRetries?: number;
+  initialRetryDelay?: number;
+  maxRetryDelay?: number;
+  /** Resume after this event id, e.g. the last id seen by a previous client */
+  lastEventId?: string;
+  /** Milliseconds between heartbeat pings */
+  heartbeatInterval?: number;
+  /** Milliseconds to wait for any message after a ping before reconnecting */
+  heartbeatTimeout?: number;
+  /**
+   * Emit a `stalled` event when no message, not even a pong, arrives for
+   * this many milliseconds. Disabled when unset.
+   */
+  stallTimeout?: number;
+  /**
+   * Bearer token source, shared with the HTTP client.
+   * Browsers cannot set headers on a WebSocket handshake, so the current
+   * token is sent as a query parameter on every connection, where server
+   * and proxy logs may record it. Prefer the SSE client for authenticated
+   * streams, or have the backend accept short-lived stream tickets here.
+   */
+  tokenProvider?: TokenProvider;
+  /** Closes the client when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * WebSocket client result containing control functions
+ */
+export interface WebSocketClient extends StreamClient {
+  /**
+   * Send a message to the server
+   * @returns Left with a network error if the socket is not open
+   */
+  send: (message: ClientMessage) => E.Either<ApiError, void>;
+}
+
+/**
+ * Default heartbeat settings
+ */
+const DEFAULT_HEARTBEAT_OPTIONS = {
+  heartbeatInterval: 30000,
+  heartbeatTimeout: 10000,
+};
+
+/**
+ * Heartbeat reply from the server
+ */
+const PongMessageSchema = z.object({
+  type: z.literal('pong'),
+});
+
+/**
+ * Event id the server attaches to stream events for resuming
+ */
+const EventIdEnvelopeSchema = z.object({
+  id: z.string().min(1),
+});
+
+/**
+ * WebSocket URL for an HTTP(S) base URL (http → ws, https → wss)
+ */
+const toWebSocketUrl = (baseUrl: string): string => baseUrl.replace(/^http/, 'ws');
+
+/**
+ * Creates a WebSocket client for streaming debate updates in real-time.
+ *
+ * Receives the same validated `StreamEvent` union as the SSE client, and can
+ * also send messages back, such as human turns and pause/resume commands.
+ * Each server message is one JSON event; an optional top-level `id` marks
+ * the resume point, which is sent as the `lastEventId` query parameter on
+ * every new connection, next to the protocol version handshake.
+ *
+ * A ping is sent every `heartbeatInterval`; if nothing arrives within
+ * `heartbeatTimeout` the connection is treated as dead. Lost connections
+ * are retried with the same backoff as the SSE client.
+ *
+ * Useful where proxies buffer SSE responses.
+ *
+ * @param debateId - ID of the debate to stream
+ * @param baseUrl - Base URL of the API server (http or https)
+ * @param onEvent - Handler function called for each event
+ * @param options - Optional configuration for reconnection and heartbeats
+ * @returns TaskEither with WebSocketClient or ApiError
+ *
+ * @example
+ * ```typescript
+ * const result = await createWebSocketClient('debate-123', 'https://api.example.com', onEvent)();
+ *
+ * if (E.isRight(result)) {
+ *   const { send, close } = result.right;
+ *   send({ type: 'turn', data: { content: 'I disagree because...' } });
+ *   send({ type: 'pause' });
+ *   // Later...
+ *   close();
+ * }
+ * ```
+ */
+export const createWebSocketClient = (
+  debateId: string,
+  baseUrl: string,
+  onEvent: StreamEventHandler,
+  options: WebSocketClientOptions = {}
+): TE.TaskEither<ApiError, WebSocketClient> => {
+  return TE.tryCatch(
+    async () => {
+      const opts = { ...DEFAULT_RETRY_OPTIONS, ...DEFAULT_HEARTBEAT_OPTIONS, ...options };
+      let retryCount = 0;
+      let currentSocket: WebSocket | null = null;
+      let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+      let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+      let heartbeatDeadline: ReturnType<typeof setTimeout> | null = null;
+      let lastEventId: O.Option<string> = O.fromNullable(options.lastEventId);
+
+      const socketUrl = `${toWebSocketUrl(baseUrl)}/debates/${debateId}/ws`;
+
+      const stallMonitor = createStallMonitor(options.stallTimeout, (idleMs) => {
+        onEvent({ type: 'stalled', data: { idleMs } });
+      });
+
+      /**
+       * Stop sending pings and waiting for replies
+       */
+      const stopHeartbeat = (): void => {
+        if (heartbeatTimer) {
+          clearInterval(heartbeatTimer);
+          heartbeatTimer = null;
+        }
+
+        if (heartbeatDeadline) {
+          clearTimeout(heartbeatDeadline);
+          heartbeatDeadline = null;
+        }
+      };
+
+      /**
+       * Detach and close the current socket without triggering a retry
+       */
+      const dropSocket = (): void => {
+        stopHeartbeat();
+
+        if (currentSocket) {
+          currentSocket.onopen = null;
+          currentSocket.onmessage = null;
+          currentSocket.onclose = null;
+          currentSocket.close();
+          currentSocket = null;
+        }
+      };
+
+      /**
+       * Retry with backoff after the connection was lost
+       */
+      const scheduleRetry = (): void => {
+        if (retryCount < opts.maxRetries) {
+          retryCount++;
+          const delay = getRetryDelay(retryCount, opts);
+
+          reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect();
+          }, delay);
+        } else {
+          // Giving up: nothing left to watch for stalls
+          stallMonitor.stop();
+          // Notify handler of unrecoverable error
+          onEvent({
+            type: 'error',
+            data: {
+              message: 'Maximum reconnection attempts exceeded',
+              recoverable: false,
+            },
+          });
+        }
+      };
+
+      /**
+       * Ping the server periodically; a missed reply means a dead connection
+       */
+      const startHeartbeat = (socket: WebSocket): void => {
+        heartbeatTimer = setInterval(() => {
+          // Still waiting for a reply to the previous ping
+          if (heartbeatDeadline) {
+            return;
+          }
+
+          socket.send(JSON.stringify({ type: 'ping' }));
+          heartbeatDeadline = setTimeout(() => {
+            heartbeatDeadline = null;
+            dropSocket();
+            scheduleRetry();
+          }, opts.heartbeatTimeout);
+        }, opts.heartbeatInterval);
+      };
+
+      /**
+       * Handle one message from the server
+       */
+      const handleMessage = (data: string): void => {
+        stallMonitor.touch();
+
+        // Any message proves the connection is alive
+        if (heartbeatDeadline) {
+          clearTimeout(heartbeatDeadline);
+          heartbeatDeadline = null;
+        }
+
+        let rawData: unknown;
+        try {
+          rawData = JSON.parse(data);
+        } catch {
+          // Malformed messages are skipped
+          return;
+        }
+
+        if (PongMessageSchema.safeParse(rawData).success) {
+          return;
+        }
+
+        // Track the resume point, even for events that fail validation
+        const envelope = EventIdEnvelopeSchema.safeParse(rawData);
+        if (envelope.success) {
+          lastEventId = O.some(envelope.data.id);
+        }
+
+        const streamEvent = decodeStreamEvent(rawData);
+        if (O.isSome(streamEvent)) {
+          // Reset retry count on successful message
+          retryCount = 0;
+
+          // Call handler with validated event
+          onEvent(streamEvent.value);
+        }
+      };
+
+      /**
+       * Create and configure a WebSocket connection
+       */
+      const connect = (): void => {
+        const accessToken = options.tokenProvider?.currentToken() ?? O.none;
+        const socket = new WebSocket(withStreamParams(socketUrl, lastEventId, accessToken));
+        currentSocket = socket;
+        stallMonitor.touch();
+
+        socket.onopen = () => {
+          startHeartbeat(socket);
+        };
+
+        socket.onmessage = (event: MessageEvent) => {
+          if (typeof event.data === 'string') {
+            handleMessage(event.data);
+          }
+        };
+
+        // An error is always followed by close, which handles the retry
+        socket.onclose = () => {
+          stopHeartbeat();
+          currentSocket = null;
+          scheduleRetry();
+        };
+      };
+
+      // Initial connection
+      connect();
+
+      /**
+       * Close the connection and cleanup
+       */
+      const close = (): void => {
+        stallMonitor.stop();
+
+        if (reconnectTimer) {
+          clearTimeout(reconnectTimer);
+          reconnectTimer = null;
+        }
+
+        dropSocket();
+      };
+
+      /**
+       * Manually trigger reconnection
+       */
+      const reconnect = (): void => {
+        close();
+        retryCount = 0;
+        connect();
+      };
+
+      /**
+       * Send a message if the socket is open
+       */
+      const send = (message: ClientMessage): E.Either<ApiError, void> => {
+        if (currentSocket?.readyState !== WebSocket.OPEN) {
+          return E.left(networkError('WebSocket is not connected'));
+        }
+
+        currentSocket.send(JSON.stringify(message));
+        return E.right(undefined);
+      };
+
+      options.signal?.addEventListener('abort', close, { once: true });
+      if (options.signal?.aborted) {
+        close();
+      }
+
+      return {
+        close,
+        reconnect,
+        getLastEventId: () => lastEventId,
+        send,
+      };
+    },
+    (error) => {
+      return networkError(`Failed to create WebSocket client: ${error}`);
+    }
+  );
+};
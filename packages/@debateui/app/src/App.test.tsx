@@ -1,12 +1,124 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { useDebateStore } from '@debateui/state';
+import { serverError, validationError } from '@debateui/core';
+import * as TE from 'fp-ts/TaskEither';
+import * as O from 'fp-ts/Option';
+import * as E from 'fp-ts/Either';
+import { act } from 'react';
+import { z } from 'zod';
 import { App } from './App';
+import { apiClient, demoSimulator } from './api';
+import type * as DebateStreamModule from './hooks/useDebateStream';
+
+// Circuit state reported by the mocked circuit breaker
+const circuitMock = vi.hoisted(() => ({ state: 'closed' }));
+
+// Whether the mocked configuration selects demo mode by default
+const demoModeMock = vi.hoisted(() => ({ enabled: false }));
+
+vi.mock('./api', () => ({
+  API_BASE_URL: 'http://localhost:3000',
+  STREAM_TRANSPORT: 'sse',
+  circuitBreaker: {
+    getState: () => circuitMock.state,
+    onStateChange: () => () => {},
+  },
+  apiClient: {
+    debate: {
+      createDebate: vi.fn(),
+      startDebate: vi.fn(),
+      getDebate: vi.fn(),
+      getTurns: vi.fn(),
+      listDebates: vi.fn(),
+      pauseDebate: vi.fn(),
+      resumeDebate: vi.fn(),
+    },
+    branch: {
+      listBranches: vi.fn(),
+      getBranchTurns: vi.fn(),
+    },
+  },
+  get DEMO_MODE() {
+    return demoModeMock.enabled;
+  },
+  tokenProvider: undefined,
+  demoSimulator: {
+    apiClient: {
+      debate: {
+        createDebate: vi.fn(),
+        startDebate: vi.fn(),
+        getDebate: vi.fn(),
+        getTurns: vi.fn(),
+        pauseDebate: vi.fn(),
+        resumeDebate: vi.fn(),
+      },
+      branch: {
+        listBranches: vi.fn(),
+        getBranchTurns: vi.fn(),
+      },
+    },
+    createStreamClient: vi.fn(),
+    hasDebate: vi.fn(() => false),
+  },
+}));
+
+
+// Stream state reported by the mocked useDebateStream
+const streamMock = vi.hoisted(() => ({
+  status: 'disconnected',
+  ccrEvents: [] as unknown[],
+  compatibilityWarning: null as string | null,
+  reconnect: vi.fn(),
+  clearStall: vi.fn(),
+}));
+
+vi.mock('./hooks/useDebateStream', async (importOriginal) => ({
+  ...(await importOriginal<typeof DebateStreamModule>()),
+  useDebateStream: () => ({
+    status: streamMock.status,
+    error: null,
+    ccrEvents: streamMock.ccrEvents,
+    clearEvents: () => {},
+    compatibilityWarning: streamMock.compatibilityWarning,
+    reconnect: streamMock.reconnect,
+    clearStall: streamMock.clearStall,
+    send: O.none,
+  }),
+}));
+
+const debateApi = vi.mocked(apiClient.debate);
+const branchApi = vi.mocked(apiClient.branch);
+
+const DEBATE_ID = 'c7e9a3b2-1234-5678-90ab-cdef12345678';
+
+// Walks the wizard up to the Start Debate button and clicks it
+const startDebateFromWizard = async (question: string) => {
+  const user = userEvent.setup();
+  render(<App />);
+
+  await user.type(screen.getByPlaceholderText(/microservices or a monolith/), question);
+  await user.click(screen.getByRole('button', { name: /continue/i }));
+  await user.click(screen.getByText('Maximum Accuracy'));
+  await waitFor(() => {
+    expect(screen.getByText('Your Debate Panel')).toBeInTheDocument();
+  });
+  await user.click(screen.getByRole('button', { name: /start debate/i }));
+  return user;
+};
 
 describe('App', () => {
   beforeEach(() => {
     useDebateStore.getState().reset();
+    vi.clearAllMocks();
+    streamMock.status = 'disconnected';
+    streamMock.ccrEvents = [];
+    streamMock.compatibilityWarning = null;
+    circuitMock.state = 'closed';
+    demoModeMock.enabled = false;
+    branchApi.getBranchTurns.mockReturnValue(TE.right([]));
+    window.history.replaceState(null, '', '/');
   });
 
   describe('Question Step', () => {
@@ -239,4 +351,716 @@ describe('App', () => {
       expect(screen.getByText(/Powered by Claude, GPT-4, Gemini & DeepSeek/)).toBeInTheDocument();
     });
   });
+
+  describe('Starting a debate', () => {
+    it('creates and starts the debate with the question and recommended agents', async () => {
+      debateApi.createDebate.mockReturnValue(TE.right({ debateId: DEBATE_ID }));
+      debateApi.startDebate.mockReturnValue(TE.right(undefined));
+
+      await startDebateFromWizard('How should I implement this API endpoint?');
+
+      await waitFor(() => {
+        expect(useDebateStore.getState().debate).toEqual({
+          _tag: 'Running',
+          debateId: DEBATE_ID,
+          currentRound: 1,
+          turns: [],
+        });
+      });
+      const [config, options] = debateApi.createDebate.mock.calls[0] ?? [];
+      expect(config).toEqual({
+        question: 'How should I implement this API endpoint?',
+        participants: ['claude', 'gpt4', 'deepseek'],
+        rounds: 4,
+        consensusThreshold: 0.85,
+        forkMode: 'save',
+      });
+      expect(typeof options?.idempotencyKey).toBe('string');
+      expect(debateApi.startDebate.mock.calls[0]?.[0]).toBe(DEBATE_ID);
+    });
+
+    it('moves to the debate URL once the debate is running', async () => {
+      debateApi.createDebate.mockReturnValue(TE.right({ debateId: DEBATE_ID }));
+      debateApi.startDebate.mockReturnValue(TE.right(undefined));
+
+      await startDebateFromWizard('How should I implement this API endpoint?');
+
+      await waitFor(() => {
+        expect(window.location.pathname).toBe(`/debates/${DEBATE_ID}`);
+      });
+      // The store already holds the debate, so the route does not reload it
+      expect(debateApi.getDebate.mock.calls).toHaveLength(0);
+    });
+
+    it('ignores a launch that completes after the user started over', async () => {
+      let answerCreate = () => {};
+      debateApi.createDebate.mockReturnValue(
+        () =>
+          new Promise((resolve) => {
+            answerCreate = () => {
+              resolve(E.right({ debateId: DEBATE_ID }));
+            };
+          })
+      );
+      debateApi.startDebate.mockReturnValue(TE.right(undefined));
+
+      const user = await startDebateFromWizard('How should I implement this API endpoint?');
+      await user.click(await screen.findByRole('button', { name: '[NEW DEBATE]' }));
+      await act(async () => {
+        answerCreate();
+        await Promise.resolve();
+      });
+
+      expect(useDebateStore.getState().debate._tag).toBe('Idle');
+      expect(window.location.pathname).toBe('/');
+      expect(screen.getByText('What would you like to explore?')).toBeInTheDocument();
+    });
+
+    it('shows the API error and does not start when createDebate fails', async () => {
+      debateApi.createDebate.mockReturnValue(
+        TE.left(validationError(new z.ZodError([{ code: 'custom', path: ['question'], message: 'Question rejected' }])))
+      );
+
+      await startDebateFromWizard('How should I implement this API endpoint?');
+
+      await waitFor(() => {
+        expect(screen.getByRole('alert')).toHaveTextContent('Question rejected');
+      });
+      expect(debateApi.startDebate.mock.calls).toHaveLength(0);
+      expect(useDebateStore.getState().debate._tag).toBe('Error');
+    });
+
+    it('retries a recoverable failure from the error display', async () => {
+      debateApi.createDebate.mockReturnValueOnce(TE.left(serverError(503, 'Service unavailable')));
+      debateApi.createDebate.mockReturnValueOnce(TE.right({ debateId: DEBATE_ID }));
+      debateApi.startDebate.mockReturnValue(TE.right(undefined));
+
+      const user = await startDebateFromWizard('How should I implement this API endpoint?');
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /retry/i })).toBeInTheDocument();
+      });
+      await user.click(screen.getByRole('button', { name: /retry/i }));
+
+      await waitFor(() => {
+        expect(useDebateStore.getState().debate._tag).toBe('Running');
+      });
+      expect(debateApi.createDebate.mock.calls).toHaveLength(2);
+      // A retry is the same launch, so a debate created before the failure is reused
+      const [first, second] = debateApi.createDebate.mock.calls;
+      expect(second?.[1]?.idempotencyKey).toBe(first?.[1]?.idempotencyKey);
+    });
+
+    it('launches through the simulator in demo mode', async () => {
+      const demoDebate = vi.mocked(demoSimulator.apiClient.debate);
+      demoDebate.createDebate.mockReturnValue(TE.right({ debateId: DEBATE_ID }));
+      demoDebate.startDebate.mockReturnValue(TE.right(undefined));
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.type(screen.getByPlaceholderText(/microservices or a monolith/), 'How should I implement this API endpoint?');
+      await user.click(screen.getByRole('button', { name: /continue/i }));
+      await user.click(screen.getByText('Maximum Accuracy'));
+      await user.click(await screen.findByRole('checkbox', { name: /demo mode/i }));
+      await user.click(screen.getByRole('button', { name: /start debate/i }));
+
+      await waitFor(() => {
+        expect(useDebateStore.getState().debate._tag).toBe('Running');
+      });
+      expect(demoDebate.startDebate.mock.calls[0]?.[0]).toBe(DEBATE_ID);
+      expect(debateApi.createDebate.mock.calls).toHaveLength(0);
+    });
+
+    it('keeps a debate launched without demo mode on the backend when demo mode is the default', async () => {
+      demoModeMock.enabled = true;
+      debateApi.createDebate.mockReturnValue(TE.right({ debateId: DEBATE_ID }));
+      debateApi.startDebate.mockReturnValue(TE.right(undefined));
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.type(screen.getByPlaceholderText(/microservices or a monolith/), 'How should I implement this API endpoint?');
+      await user.click(screen.getByRole('button', { name: /continue/i }));
+      await user.click(screen.getByText('Maximum Accuracy'));
+      const demoBox = await screen.findByRole('checkbox', { name: /demo mode/i });
+      expect(demoBox).toBeChecked();
+      await user.click(demoBox);
+      await user.click(screen.getByRole('button', { name: /start debate/i }));
+
+      await waitFor(() => {
+        expect(window.location.pathname).toBe(`/debates/${DEBATE_ID}`);
+      });
+      expect(debateApi.startDebate.mock.calls[0]?.[0]).toBe(DEBATE_ID);
+      expect(vi.mocked(demoSimulator.apiClient.debate).createDebate.mock.calls).toHaveLength(0);
+      expect(screen.queryByText('DEMO')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Opening an existing debate', () => {
+    it('loads the debate by id and shows its question', async () => {
+      debateApi.getDebate.mockReturnValue(
+        TE.right({
+          debateId: DEBATE_ID,
+          status: 'completed',
+          question: 'Should we adopt a monorepo for all services?',
+          participants: ['claude', 'gpt4'],
+          currentRound: 3,
+          totalRounds: 3,
+          turns: [],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:05:00Z',
+        })
+      );
+      branchApi.listBranches.mockReturnValue(TE.right([]));
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.type(screen.getByRole('textbox', { name: 'Debate ID' }), DEBATE_ID);
+      await user.click(screen.getByRole('button', { name: /open debate/i }));
+
+      await waitFor(() => {
+        expect(screen.getByText(/Should we adopt a monorepo/)).toBeInTheDocument();
+      });
+      expect(debateApi.getDebate.mock.calls[0]?.[0]).toBe(DEBATE_ID);
+      expect(screen.getByText('COMPLETE')).toBeInTheDocument();
+      expect(window.location.pathname).toBe(`/debates/${DEBATE_ID}`);
+    });
+
+    it('shows the last played round of a completed debate', async () => {
+      debateApi.getDebate.mockReturnValue(
+        TE.right({
+          debateId: DEBATE_ID,
+          status: 'completed',
+          question: 'Should we adopt a monorepo for all services?',
+          participants: ['claude', 'gpt4'],
+          currentRound: 3,
+          totalRounds: 3,
+          turns: [
+            {
+              turnId: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+              branchId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+              participantId: 'claude',
+              participantType: 'model',
+              content: 'Only if the tooling is shared.',
+              tokensUsed: 120,
+              costUsd: 0.002,
+              latencyMs: 900,
+              round: 3,
+              createdAt: '2024-01-01T00:04:00Z',
+            },
+          ],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:05:00Z',
+        })
+      );
+      branchApi.listBranches.mockReturnValue(TE.right([]));
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      render(<App />);
+
+      expect(await screen.findByText('R3/3')).toBeInTheDocument();
+    });
+
+    it('shows the transcript of a paused debate', async () => {
+      debateApi.getDebate.mockReturnValue(
+        TE.right({
+          debateId: DEBATE_ID,
+          status: 'paused',
+          question: 'Should we adopt a monorepo for all services?',
+          participants: ['claude', 'gpt4'],
+          currentRound: 2,
+          totalRounds: 3,
+          turns: [
+            {
+              turnId: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+              branchId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+              participantId: 'claude',
+              participantType: 'model',
+              content: 'Only if the tooling is shared.',
+              tokensUsed: 120,
+              costUsd: 0.002,
+              latencyMs: 900,
+              createdAt: '2024-01-01T00:01:00Z',
+            },
+          ],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:05:00Z',
+        })
+      );
+      branchApi.listBranches.mockReturnValue(TE.right([]));
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Only if the tooling is shared.')).toBeInTheDocument();
+      });
+      expect(screen.getByText('PAUSED')).toBeInTheDocument();
+      expect(screen.getByText('R2/3')).toBeInTheDocument();
+    });
+
+    it('resumes a paused debate through the API', async () => {
+      debateApi.getDebate.mockReturnValue(
+        TE.right({
+          debateId: DEBATE_ID,
+          status: 'paused',
+          question: 'Should we adopt a monorepo for all services?',
+          participants: ['claude', 'gpt4'],
+          currentRound: 2,
+          totalRounds: 3,
+          turns: [],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:05:00Z',
+        })
+      );
+      debateApi.resumeDebate.mockReturnValue(TE.right(undefined));
+      branchApi.listBranches.mockReturnValue(TE.right([]));
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      const user = userEvent.setup();
+      render(<App />);
+
+      const resume = await screen.findByRole('button', { name: 'Resume debate' });
+      await user.click(resume);
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: 'Pause debate' })).toBeEnabled();
+      });
+      expect(debateApi.resumeDebate.mock.calls[0]?.[0]).toBe(DEBATE_ID);
+    });
+
+    it('shows a turn while it is being streamed', async () => {
+      debateApi.getDebate.mockReturnValue(
+        TE.right({
+          debateId: DEBATE_ID,
+          status: 'running',
+          question: 'Should we adopt a monorepo for all services?',
+          participants: ['claude', 'gpt4'],
+          currentRound: 1,
+          totalRounds: 3,
+          turns: [],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:05:00Z',
+        })
+      );
+      branchApi.listBranches.mockReturnValue(TE.right([]));
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Awaiting first response...')).toBeInTheDocument();
+      });
+
+      act(() => {
+        useDebateStore.getState().startTurn('claude');
+      });
+      expect(screen.getByRole('status', { name: 'claude is thinking' })).toBeInTheDocument();
+      expect(screen.queryByText('Awaiting first response...')).not.toBeInTheDocument();
+
+      act(() => {
+        useDebateStore.getState().appendTurnDelta('claude', 'Only if the tooling');
+      });
+      expect(screen.getByText('Only if the tooling')).toBeInTheDocument();
+    });
+
+    it('offers to reconnect or re-sync when the stream stalls', async () => {
+      const missedTurn = {
+        turnId: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+        branchId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+        participantId: 'claude',
+        participantType: 'model' as const,
+        content: 'A turn the stream never delivered.',
+        tokensUsed: 120,
+        costUsd: 0.002,
+        latencyMs: 900,
+        createdAt: '2024-01-01T00:01:00Z',
+      };
+      debateApi.getDebate.mockReturnValue(
+        TE.right({
+          debateId: DEBATE_ID,
+          status: 'running',
+          question: 'Should we adopt a monorepo for all services?',
+          participants: ['claude', 'gpt4'],
+          currentRound: 1,
+          totalRounds: 3,
+          turns: [],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:05:00Z',
+        })
+      );
+      branchApi.listBranches.mockReturnValue(TE.right([]));
+      debateApi.getTurns.mockReturnValue(TE.right([missedTurn]));
+      streamMock.status = 'stalled';
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      const user = userEvent.setup();
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByRole('alert')).toHaveTextContent(/may have stalled/);
+      });
+
+      await user.click(screen.getByRole('button', { name: '[RECONNECT]' }));
+      expect(streamMock.reconnect).toHaveBeenCalled();
+
+      await user.click(screen.getByRole('button', { name: '[RE-SYNC TURNS]' }));
+      await waitFor(() => {
+        expect(screen.getByText('A turn the stream never delivered.')).toBeInTheDocument();
+      });
+      expect(debateApi.getTurns.mock.calls[0]?.[0]).toBe(DEBATE_ID);
+      expect(streamMock.clearStall).toHaveBeenCalledTimes(1);
+    });
+
+    it('summarizes typed event metadata in the event log', async () => {
+      const ccrEvent = (eventType: string, metadata: Record<string, unknown>) => ({
+        eventId: eventType,
+        timestamp: 1700000000000,
+        eventType,
+        agent: 'claude',
+        message: `${eventType} event`,
+        metadata,
+      });
+      debateApi.getDebate.mockReturnValue(
+        TE.right({
+          debateId: DEBATE_ID,
+          status: 'running',
+          question: 'Should we adopt a monorepo for all services?',
+          participants: ['claude', 'gpt4'],
+          currentRound: 1,
+          totalRounds: 3,
+          turns: [],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:05:00Z',
+        })
+      );
+      branchApi.listBranches.mockReturnValue(TE.right([]));
+      streamMock.ccrEvents = [
+        ccrEvent('token.usage', { promptTokens: 120, completionTokens: 80 }),
+        ccrEvent('model.api.call', { model: 'gpt-4', requestId: 'req-7' }),
+        ccrEvent('context.stored', { key: 'turn-1' }),
+      ];
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('120 in / 80 out tok')).toBeInTheDocument();
+      });
+      expect(screen.getByText('gpt-4 req=req-7')).toBeInTheDocument();
+      expect(screen.getByText('key=turn-1')).toBeInTheDocument();
+    });
+
+    it('shows unknown events and the protocol compatibility warning', async () => {
+      debateApi.getDebate.mockReturnValue(
+        TE.right({
+          debateId: DEBATE_ID,
+          status: 'running',
+          question: 'Should we adopt a monorepo for all services?',
+          participants: ['claude', 'gpt4'],
+          currentRound: 1,
+          totalRounds: 3,
+          turns: [],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:05:00Z',
+        })
+      );
+      branchApi.listBranches.mockReturnValue(TE.right([]));
+      streamMock.compatibilityWarning = 'The server uses stream protocol v2';
+      streamMock.ccrEvents = [
+        {
+          kind: 'unknown',
+          eventId: 'unknown-1',
+          timestamp: 1700000000000,
+          eventType: 'debate.vote.cast',
+          raw: { type: 'ccr' },
+        },
+      ];
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('debate.vote.cast')).toBeInTheDocument();
+      });
+      expect(screen.getByText('unknown event')).toBeInTheDocument();
+      expect(screen.getByRole('status')).toHaveTextContent('The server uses stream protocol v2');
+    });
+
+    it('shows a degraded-service banner while the circuit is open', async () => {
+      debateApi.getDebate.mockReturnValue(
+        TE.right({
+          debateId: DEBATE_ID,
+          status: 'running',
+          question: 'Should we adopt a monorepo for all services?',
+          participants: ['claude', 'gpt4'],
+          currentRound: 1,
+          totalRounds: 3,
+          turns: [],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:05:00Z',
+        })
+      );
+      branchApi.listBranches.mockReturnValue(TE.right([]));
+      circuitMock.state = 'open';
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByRole('status')).toHaveTextContent(
+          'Service degraded: requests are paused while the backend recovers.'
+        );
+      });
+    });
+  });
+
+  describe('Deep links', () => {
+    const ROOT_BRANCH_ID = 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+    const FORK_BRANCH_ID = 'b1eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+    const TURN_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+    const ROOT_BRANCH = {
+      branchId: ROOT_BRANCH_ID,
+      parentBranchId: null,
+      forkTurnId: null,
+      name: 'Main',
+      forkMode: 'save' as const,
+      depth: 0,
+      createdAt: '2024-01-01T00:00:00Z',
+    };
+    const FORK_BRANCH = {
+      branchId: FORK_BRANCH_ID,
+      parentBranchId: ROOT_BRANCH_ID,
+      forkTurnId: TURN_ID,
+      name: 'What if',
+      forkMode: 'explore' as const,
+      depth: 1,
+      createdAt: '2024-01-01T00:02:00Z',
+    };
+
+    beforeEach(() => {
+      debateApi.getDebate.mockReturnValue(
+        TE.right({
+          debateId: DEBATE_ID,
+          status: 'running',
+          question: 'Should we adopt a monorepo for all services?',
+          participants: ['claude', 'gpt4'],
+          currentRound: 2,
+          totalRounds: 3,
+          turns: [
+            {
+              turnId: TURN_ID,
+              branchId: FORK_BRANCH_ID,
+              participantId: 'claude',
+              participantType: 'model',
+              content: 'Only if the tooling is shared.',
+              tokensUsed: 120,
+              costUsd: 0.002,
+              latencyMs: 900,
+              createdAt: '2024-01-01T00:01:00Z',
+            },
+          ],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:05:00Z',
+        })
+      );
+      branchApi.listBranches.mockReturnValue(TE.right([ROOT_BRANCH, FORK_BRANCH]));
+    });
+
+    it('loads the debate from a debate link', async () => {
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/Should we adopt a monorepo/)).toBeInTheDocument();
+      });
+      expect(debateApi.getDebate.mock.calls[0]?.[0]).toBe(DEBATE_ID);
+      expect(useDebateStore.getState().branching.activeBranchId).toEqual(O.some(ROOT_BRANCH_ID));
+    });
+
+    it('keeps only the turns of the branch selected last', async () => {
+      const OTHER_BRANCH_ID = 'b2eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+      const branchTurn = (branchId: string, content: string) => ({
+        turnId: `c${branchId.slice(1)}`,
+        branchId,
+        participantId: 'claude',
+        participantType: 'model' as const,
+        content,
+        tokensUsed: 120,
+        costUsd: 0.002,
+        latencyMs: 900,
+        createdAt: '2024-01-01T00:03:00Z',
+      });
+      branchApi.listBranches.mockReturnValue(
+        TE.right([
+          ROOT_BRANCH,
+          FORK_BRANCH,
+          { ...FORK_BRANCH, branchId: OTHER_BRANCH_ID, name: 'Other angle', createdAt: '2024-01-01T00:03:00Z' },
+        ])
+      );
+      // The first fork answers only after the second one
+      let answerFirstFork = () => {};
+      branchApi.getBranchTurns.mockImplementation((_debateId, branchId) =>
+        branchId === FORK_BRANCH_ID
+          ? () =>
+              new Promise((resolve) => {
+                answerFirstFork = () => {
+                  resolve(E.right([branchTurn(FORK_BRANCH_ID, 'From the first fork.')]));
+                };
+              })
+          : TE.right([branchTurn(OTHER_BRANCH_ID, 'From the other fork.')])
+      );
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.click(await screen.findByRole('treeitem', { name: /What if/ }));
+      await user.click(screen.getByRole('treeitem', { name: /Other angle/ }));
+      expect(await screen.findByText('From the other fork.')).toBeInTheDocument();
+
+      await act(async () => {
+        answerFirstFork();
+        await Promise.resolve();
+      });
+      expect(screen.queryByText('From the first fork.')).not.toBeInTheDocument();
+      expect(screen.getByText('From the other fork.')).toBeInTheDocument();
+    });
+
+    it('selects the branch from a branch link', async () => {
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}/branches/${FORK_BRANCH_ID}`);
+      render(<App />);
+
+      await waitFor(() => {
+        expect(useDebateStore.getState().branching.activeBranchId).toEqual(O.some(FORK_BRANCH_ID));
+      });
+    });
+
+    it('links the branch selected in the navigator', async () => {
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.click(await screen.findByRole('treeitem', { name: /What if/ }));
+
+      expect(window.location.pathname).toBe(`/debates/${DEBATE_ID}/branches/${FORK_BRANCH_ID}`);
+      expect(useDebateStore.getState().branching.activeBranchId).toEqual(O.some(FORK_BRANCH_ID));
+    });
+
+    it('highlights the turn from a turn anchor', async () => {
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}#turn-${TURN_ID}`);
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Only if the tooling is shared.')).toBeInTheDocument();
+      });
+      expect(document.getElementById(`turn-${TURN_ID}`)).toHaveAttribute('aria-current', 'location');
+    });
+
+    it('returns to the wizard when navigating back from a debate', async () => {
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      render(<App />);
+      await waitFor(() => {
+        expect(screen.getByText(/Should we adopt a monorepo/)).toBeInTheDocument();
+      });
+
+      act(() => {
+        window.history.replaceState(null, '', '/');
+        window.dispatchEvent(new PopStateEvent('popstate'));
+      });
+
+      expect(screen.getByText('What would you like to explore?')).toBeInTheDocument();
+      expect(useDebateStore.getState().debate._tag).toBe('Idle');
+    });
+
+    it('returns to the root URL when starting a new debate', async () => {
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      const user = userEvent.setup();
+      render(<App />);
+      await waitFor(() => {
+        expect(screen.getByText(/Should we adopt a monorepo/)).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByRole('button', { name: /new debate/i }));
+
+      expect(window.location.pathname).toBe('/');
+      expect(screen.getByText('What would you like to explore?')).toBeInTheDocument();
+    });
+  });
+
+  describe('Debate history', () => {
+    beforeEach(() => {
+      debateApi.listDebates.mockReturnValue(
+        TE.right({
+          debates: [
+            {
+              debateId: DEBATE_ID,
+              status: 'completed',
+              question: 'Should we adopt a monorepo for all services?',
+              participants: ['claude', 'gpt4'],
+              currentRound: 3,
+              totalRounds: 3,
+              createdAt: '2024-01-01T00:00:00Z',
+              updatedAt: '2024-01-01T00:05:00Z',
+            },
+          ],
+          nextCursor: null,
+        })
+      );
+      debateApi.getDebate.mockReturnValue(
+        TE.right({
+          debateId: DEBATE_ID,
+          status: 'completed',
+          question: 'Should we adopt a monorepo for all services?',
+          participants: ['claude', 'gpt4'],
+          currentRound: 3,
+          totalRounds: 3,
+          turns: [],
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:05:00Z',
+        })
+      );
+      branchApi.listBranches.mockReturnValue(TE.right([]));
+    });
+
+    it('opens the history from the wizard', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.click(screen.getByRole('button', { name: 'History' }));
+
+      expect(window.location.pathname).toBe('/debates');
+      expect(await screen.findByText('Should we adopt a monorepo for all services?')).toBeInTheDocument();
+      expect(screen.getByText('Claude 3.5 Sonnet, GPT-4o')).toBeInTheDocument();
+    });
+
+    it('opens a debate from the history', async () => {
+      window.history.replaceState(null, '', '/debates');
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.click(await screen.findByText('Should we adopt a monorepo for all services?'));
+
+      expect(window.location.pathname).toBe(`/debates/${DEBATE_ID}`);
+      await waitFor(() => {
+        expect(debateApi.getDebate.mock.calls[0]?.[0]).toBe(DEBATE_ID);
+      });
+    });
+
+    it('returns to the history from a debate', async () => {
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+      const user = userEvent.setup();
+      render(<App />);
+      await waitFor(() => {
+        expect(useDebateStore.getState().debate._tag).toBe('Completed');
+      });
+
+      await user.click(screen.getByRole('button', { name: '[HISTORY]' }));
+
+      expect(window.location.pathname).toBe('/debates');
+      expect(await screen.findByRole('heading', { name: 'Debate History' })).toBeInTheDocument();
+      expect(useDebateStore.getState().debate._tag).toBe('Idle');
+    });
+
+    it('starts a new debate from the history', async () => {
+      window.history.replaceState(null, '', '/debates');
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.click(screen.getByRole('button', { name: 'New Debate' }));
+
+      expect(window.location.pathname).toBe('/');
+      expect(screen.getByText('What would you like to explore?')).toBeInTheDocument();
+    });
+  });
 });
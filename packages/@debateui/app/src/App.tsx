@@ -3,14 +3,48 @@ import { useDebateStore } from '@debateui/state';
 import {
   useDebateState,
   useTurns,
+  useInProgressTurns,
   useCurrentRound,
+  useTotalRounds,
   useIsDebateRunning,
   useConsensus,
+  useConfig,
+  useAllBranches,
+  useActiveBranch,
 } from '@debateui/state';
-import { useDebateStream } from './hooks/useDebateStream';
-import type { CCREventData, CCREventType } from '@debateui/api-client';
+import { useDebateStream, isUnknownLogEntry, type EventLogEntry } from './hooks/useDebateStream';
+import { useLoadDebate } from './hooks/useLoadDebate';
+import { useResyncTurns } from './hooks/useResyncTurns';
+import { useBranchTurns } from './hooks/useBranchTurns';
+import { useRoute } from './hooks/useRoute';
+import { useScrollToTurn } from './hooks/useScrollToTurn';
+import { useCircuitState } from './hooks/useCircuitState';
+import { debateRoute, historyRoute, setupRoute, turnAnchorId } from './routing';
+import { ErrorDisplay } from './components/ErrorDisplay';
+import { DebateHistory } from './components/DebateHistory';
+import { ControlBar } from './components/ControlBar';
+import { LiveTurnCard } from './components/LiveTurnCard';
+import { BranchNavigator } from './components/BranchNavigator';
+import { AGENTS, type Agent } from './agents';
+import { API_BASE_URL, STREAM_TRANSPORT, DEMO_MODE, apiClient, circuitBreaker, demoSimulator, tokenProvider } from './api';
+import {
+  isTokenUsageEvent,
+  isCostUpdateEvent,
+  isModelApiCallEvent,
+  isModelApiResponseEvent,
+  isErrorOccurredEvent,
+  isRoundStartedEvent,
+  isRoundCompletedEvent,
+  isTurnCompletedEvent,
+  type ApiClient,
+  type CCREventData,
+  type CCREventType,
+} from '@debateui/api-client';
 import * as O from 'fp-ts/Option';
-import type { TurnResponse } from '@debateui/core';
+import * as E from 'fp-ts/Either';
+import * as TE from 'fp-ts/TaskEither';
+import { pipe } from 'fp-ts/function';
+import { isRecoverableError, type ApiError, type DebateConfig, type TurnResponse } from '@debateui/core';
 
 // ============================================
 // TYPES
@@ -20,14 +54,6 @@ type SetupStep = 'question' | 'goal' | 'recommendation' | 'debate';
 type Goal = 'accuracy' | 'budget' | 'balanced';
 type Category = 'technical' | 'creative' | 'analytical' | 'factual' | 'strategic';
 
-interface Agent {
-  id: string;
-  name: string;
-  strength: string;
-  costPerTurn: number;
-  color: 'claude' | 'gpt' | 'gemini' | 'deepseek';
-}
-
 interface Recommendation {
   agents: Agent[];
   reasoning: string;
@@ -38,41 +64,6 @@ interface Recommendation {
 
 // CCR Event Types imported from @debateui/api-client
 
-// ============================================
-// AGENT DATABASE
-// ============================================
-
-const AGENTS: Record<string, Agent> = {
-  claude: {
-    id: 'claude',
-    name: 'Claude 3.5 Sonnet',
-    strength: 'Nuanced reasoning, safety-aware, excellent at synthesis',
-    costPerTurn: 0.015,
-    color: 'claude',
-  },
-  gpt4: {
-    id: 'gpt4',
-    name: 'GPT-4o',
-    strength: 'Broad knowledge, strong at following complex instructions',
-    costPerTurn: 0.025,
-    color: 'gpt',
-  },
-  gemini: {
-    id: 'gemini',
-    name: 'Gemini 1.5 Pro',
-    strength: 'Multimodal understanding, large context window',
-    costPerTurn: 0.012,
-    color: 'gemini',
-  },
-  deepseek: {
-    id: 'deepseek',
-    name: 'DeepSeek R1',
-    strength: 'Deep reasoning chains, mathematical proofs',
-    costPerTurn: 0.008,
-    color: 'deepseek',
-  },
-};
-
 // ============================================
 // SMART CATEGORIZATION & RECOMMENDATION
 // ============================================
@@ -233,6 +224,48 @@ const getRecommendation = (category: Category, goal: Goal): Recommendation => {
   return recommendations[category][goal];
 };
 
+// ============================================
+// DEBATE LAUNCH
+// ============================================
+
+const buildDebateConfig = (question: string, agents: string[], goal: Goal | null): DebateConfig => ({
+  question: question.trim(),
+  participants: agents,
+  rounds: goal === 'accuracy' ? 4 : goal === 'balanced' ? 3 : 2,
+  consensusThreshold: goal === 'accuracy' ? 0.85 : 0.75,
+  forkMode: 'save',
+});
+
+/**
+ * Creates the debate on the backend and starts it. The outcome is handed
+ * to the callbacks with the key of the launch, so a launch the user has
+ * abandoned in the meantime can be told apart and ignored.
+ *
+ * @param client - Backend client, or the demo simulator's
+ * @param onLaunched - Called with the new debate id once it is running
+ * @param onFailed - Called with the error when creating or starting fails
+ * @param idempotencyKey - Key of this launch; retries of the same launch
+ *   reuse it so a debate created before a timeout is not created twice
+ */
+const launchDebate = async (
+  client: ApiClient,
+  config: DebateConfig,
+  onLaunched: (debateId: string, idempotencyKey: string) => void,
+  onFailed: (error: ApiError, idempotencyKey: string) => void,
+  idempotencyKey: string
+): Promise<void> => {
+  const result = await pipe(
+    client.debate.createDebate(config, { idempotencyKey }),
+    TE.chainFirst(({ debateId }) => client.debate.startDebate(debateId))
+  )();
+
+  if (E.isRight(result)) {
+    onLaunched(result.right.debateId, idempotencyKey);
+  } else {
+    onFailed(result.left, idempotencyKey);
+  }
+};
+
 // ============================================
 // ICONS
 // ============================================
@@ -282,6 +315,40 @@ const getEventColor = (type: CCREventType): string => {
   return colors[type] ?? 'text-gray-400';
 };
 
+/**
+ * Short summary of an event's metadata for the log; known event types get a
+ * readable line, anything else falls back to key=value pairs
+ */
+const formatEventMetadata = (event: CCREventData): string => {
+  if (isTokenUsageEvent(event)) {
+    const { promptTokens, completionTokens } = event.metadata;
+    return `${String(promptTokens)} in / ${String(completionTokens)} out tok`;
+  }
+  if (isCostUpdateEvent(event)) {
+    const { totalCostUsd, totalTokens } = event.metadata;
+    return totalTokens === undefined
+      ? `$${totalCostUsd.toFixed(4)} total`
+      : `$${totalCostUsd.toFixed(4)} total · ${totalTokens.toLocaleString()} tok`;
+  }
+  if (isModelApiCallEvent(event)) {
+    return `${event.metadata.model} req=${event.metadata.requestId}`;
+  }
+  if (isModelApiResponseEvent(event)) {
+    const { model, latencyMs } = event.metadata;
+    return latencyMs === undefined ? model : `${model} ${String(latencyMs)}ms`;
+  }
+  if (isErrorOccurredEvent(event)) {
+    return `code=${event.metadata.code}`;
+  }
+  if (isRoundStartedEvent(event) || isRoundCompletedEvent(event)) {
+    return `round=${String(event.metadata.round)}`;
+  }
+  if (isTurnCompletedEvent(event)) {
+    return `${String(event.metadata.turn.tokensUsed)} tok`;
+  }
+  return Object.entries(event.metadata ?? {}).map(([k, v]) => `${k}=${String(v)}`).join(' ');
+};
+
 const getAgentColor = (agent?: string): string => {
   if (!agent) return '';
   if (agent.includes('claude')) return 'text-violet-400';
@@ -291,8 +358,19 @@ const getAgentColor = (agent?: string): string => {
   return 'text-gray-400';
 };
 
+/**
+ * Compact JSON of an unknown event's payload for the log
+ */
+const formatUnknownEvent = (raw: unknown): string => {
+  try {
+    return JSON.stringify(raw);
+  } catch {
+    return '';
+  }
+};
+
 interface EventLogProps {
-  events: readonly CCREventData[];
+  events: readonly EventLogEntry[];
 }
 
 const EventLog: FC<EventLogProps> = ({ events }) => {
@@ -311,16 +389,21 @@ const EventLog: FC<EventLogProps> = ({ events }) => {
 
   return (
     <div ref={logRef} className="event-log font-mono text-xs leading-tight overflow-y-auto h-full">
-      {events.map((event) => (
+      {events.map((event) => isUnknownLogEntry(event) ? (
+        <div key={event.eventId} className="event-line py-0.5 px-2 hover:bg-white/5 flex gap-2">
+          <span className="text-gray-500 shrink-0">{formatTime(event.timestamp)}</span>
+          <span className="shrink-0 w-28 text-gray-500">{event.eventType}</span>
+          <span className="text-gray-500 italic shrink-0">unknown event</span>
+          <span className="text-gray-500 truncate ml-auto">{formatUnknownEvent(event.raw)}</span>
+        </div>
+      ) : (
         <div key={event.eventId} className="event-line py-0.5 px-2 hover:bg-white/5 flex gap-2">
           <span className="text-gray-500 shrink-0">{formatTime(event.timestamp)}</span>
           <span className={`shrink-0 w-28 ${getEventColor(event.eventType)}`}>{event.eventType}</span>
           {event.agent && <span className={`shrink-0 w-16 ${getAgentColor(event.agent)}`}>[{event.agent}]</span>}
           <span className="text-gray-300 truncate">{event.message}</span>
           {event.metadata && (
-            <span className="text-gray-500 truncate ml-auto">
-              {Object.entries(event.metadata).map(([k, v]) => `${k}=${v}`).join(' ')}
-            </span>
+            <span className="text-gray-500 truncate ml-auto">{formatEventMetadata(event)}</span>
           )}
         </div>
       ))}
@@ -403,6 +486,36 @@ const QuestionStep: FC<QuestionStepProps> = ({ question, setQuestion, onNext })
   );
 };
 
+interface OpenDebateFormProps {
+  onOpen: (debateId: string) => void;
+}
+
+const OpenDebateForm: FC<OpenDebateFormProps> = ({ onOpen }) => {
+  const [debateId, setDebateId] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (debateId.trim()) {
+      onOpen(debateId.trim());
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 max-w-md mx-auto flex items-center gap-2">
+      <input
+        value={debateId}
+        onChange={(e) => setDebateId(e.target.value)}
+        placeholder="Debate ID"
+        aria-label="Debate ID"
+        className="flex-1 text-xs px-3 py-1.5 rounded border border-light bg-surface font-mono"
+      />
+      <button type="submit" disabled={!debateId.trim()} className="btn-secondary text-xs py-1.5 px-3">
+        Open Debate
+      </button>
+    </form>
+  );
+};
+
 interface GoalStepProps {
   goal: Goal | null;
   setGoal: (g: Goal) => void;
@@ -473,11 +586,14 @@ const GoalStep: FC<GoalStepProps> = ({ goal, setGoal, onNext, onBack }) => {
 interface RecommendationStepProps {
   question: string;
   goal: Goal;
+  /** Play a simulated debate instead of calling the backend */
+  demo: boolean;
+  onDemoChange: (demo: boolean) => void;
   onStart: (agents: string[]) => void;
   onBack: () => void;
 }
 
-const RecommendationStep: FC<RecommendationStepProps> = ({ question, goal, onStart, onBack }) => {
+const RecommendationStep: FC<RecommendationStepProps> = ({ question, goal, demo, onDemoChange, onStart, onBack }) => {
   const category = categorizeQuestion(question);
   const categoryInfo = getCategoryInfo(category);
   const recommendation = getRecommendation(category, goal);
@@ -527,6 +643,17 @@ const RecommendationStep: FC<RecommendationStepProps> = ({ question, goal, onSta
           </div>
         </div>
 
+        {/* Demo mode - plays a scripted debate without a backend */}
+        <label className="card p-3 flex items-center gap-3 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={demo}
+            onChange={(event) => { onDemoChange(event.target.checked); }}
+          />
+          <span className="font-medium">Demo mode</span>
+          <span className="text-xs text-muted ml-auto">Simulated debate, no backend or API keys needed</span>
+        </label>
+
         {/* Actions */}
         <div className="flex justify-between">
           <button onClick={onBack} className="btn-secondary py-2 px-4">Back</button>
@@ -546,34 +673,40 @@ const RecommendationStep: FC<RecommendationStepProps> = ({ question, goal, onSta
 // DEBATE VIEW - MISSION CONTROL
 // ============================================
 
+const getAgentColorClass = (id: string): string => {
+  if (id.includes('claude')) return 'border-l-violet-500 bg-violet-500/5';
+  if (id.includes('gpt')) return 'border-l-green-500 bg-green-500/5';
+  if (id.includes('gemini')) return 'border-l-blue-500 bg-blue-500/5';
+  if (id.includes('deepseek')) return 'border-l-pink-500 bg-pink-500/5';
+  return 'border-l-gray-500 bg-gray-500/5';
+};
+
+const getAgentTextColor = (id: string): string => {
+  if (id.includes('claude')) return 'text-violet-400';
+  if (id.includes('gpt')) return 'text-green-400';
+  if (id.includes('gemini')) return 'text-blue-400';
+  if (id.includes('deepseek')) return 'text-pink-400';
+  return 'text-gray-400';
+};
+
 interface TurnCardProps {
   turn: TurnResponse;
+  highlighted: boolean;
 }
 
-const TurnCard: FC<TurnCardProps> = ({ turn }) => {
-  const getAgentColorClass = (id: string): string => {
-    if (id.includes('claude')) return 'border-l-violet-500 bg-violet-500/5';
-    if (id.includes('gpt')) return 'border-l-green-500 bg-green-500/5';
-    if (id.includes('gemini')) return 'border-l-blue-500 bg-blue-500/5';
-    if (id.includes('deepseek')) return 'border-l-pink-500 bg-pink-500/5';
-    return 'border-l-gray-500 bg-gray-500/5';
-  };
-
-  const getAgentTextColor = (id: string): string => {
-    if (id.includes('claude')) return 'text-violet-400';
-    if (id.includes('gpt')) return 'text-green-400';
-    if (id.includes('gemini')) return 'text-blue-400';
-    if (id.includes('deepseek')) return 'text-pink-400';
-    return 'text-gray-400';
-  };
-
+const TurnCard: FC<TurnCardProps> = ({ turn, highlighted }) => {
   return (
-    <div className={`turn-card border-l-2 p-3 ${getAgentColorClass(turn.participantId)}`}>
+    <div
+      id={turnAnchorId(turn.turnId)}
+      aria-current={highlighted ? 'location' : undefined}
+      className={`turn-card border-l-2 p-3 ${getAgentColorClass(turn.participantId)} ${highlighted ? 'ring-1 ring-cyan-400' : ''}`}
+    >
       <div className="flex items-center justify-between mb-1">
         <span className={`font-mono text-sm font-semibold ${getAgentTextColor(turn.participantId)}`}>
           {turn.participantId}
         </span>
         <span className="text-xs text-gray-500 font-mono">
+          {turn.round !== undefined && <>R{turn.round} · </>}
           {turn.tokensUsed}tok · ${turn.costUsd.toFixed(4)} · {turn.latencyMs}ms
         </span>
       </div>
@@ -583,23 +716,67 @@ const TurnCard: FC<TurnCardProps> = ({ turn }) => {
 };
 
 interface DebateViewProps {
-  question: string;
-  selectedAgents: string[];
+  loading: boolean;
+  highlightedTurnId: O.Option<string>;
+  /** The debate is played by the demo simulator */
+  demo: boolean;
   onReset: () => void;
+  onHistory: () => void;
+  onRetry: () => void;
+  onSelectBranch: (branchId: string) => void;
 }
 
-// API base URL - can be configured via environment
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? 'http://localhost:3000';
-
-const DebateView: FC<DebateViewProps> = ({ question, selectedAgents, onReset }) => {
+const DebateView: FC<DebateViewProps> = ({ loading, highlightedTurnId, demo, onReset, onHistory, onRetry, onSelectBranch }) => {
+  const { question, participants: selectedAgents } = useConfig();
   const debateState = useDebateState();
   const turns = useTurns();
+  const inProgressTurns = Array.from(useInProgressTurns().values());
   const currentRound = useCurrentRound();
+  const totalRounds = useTotalRounds();
   const isRunning = useIsDebateRunning();
   const consensus = useConsensus();
+  const branches = useAllBranches();
+  const activeBranch = useActiveBranch();
+  const client = demo ? demoSimulator.apiClient : apiClient;
+
+  // The root branch is the live debate in the store; a fork shows its own turns
+  const {
+    status: branchTurnsStatus,
+    turns: branchTurns,
+    error: branchTurnsError,
+  } = useBranchTurns(client);
+  const viewingFork = pipe(
+    activeBranch,
+    O.exists((branch) => branch.parentBranchId !== null)
+  );
+  const shownTurns = viewingFork ? branchTurns : turns;
+
+  useScrollToTurn(highlightedTurnId, shownTurns.length);
 
   // Use real SSE stream for CCR events
-  const { status: streamStatus, ccrEvents, error: streamError } = useDebateStream(API_BASE_URL);
+  const {
+    status: streamStatus,
+    ccrEvents,
+    error: streamError,
+    compatibilityWarning,
+    reconnect: reconnectStream,
+    clearStall,
+    send: streamSend,
+  } = useDebateStream(
+    API_BASE_URL,
+    demo
+      ? { createClient: demoSimulator.createStreamClient }
+      : { transport: STREAM_TRANSPORT, ...(tokenProvider !== undefined ? { tokenProvider } : {}) }
+  );
+  const { status: resyncStatus, error: resyncError, resync } = useResyncTurns(client);
+  const circuitState = useCircuitState(circuitBreaker);
+
+  // A successful re-sync shows the backend is reachable and the turns are current
+  useEffect(() => {
+    if (resyncStatus === 'synced') {
+      clearStall();
+    }
+  }, [resyncStatus, clearStall]);
 
   const totalCost = turns.reduce((sum, t) => sum + t.costUsd, 0);
   const totalTokens = turns.reduce((sum, t) => sum + t.tokensUsed, 0);
@@ -626,16 +803,29 @@ const DebateView: FC<DebateViewProps> = ({ question, selectedAgents, onReset })
                   <CheckIcon className="w-3 h-3" />
                   COMPLETE
                 </span>
+              ) : debateState._tag === 'Paused' ? (
+                <span className="text-xs font-mono text-orange-400">PAUSED</span>
+              ) : debateState._tag === 'Starting' ? (
+                <span className="text-xs font-mono text-yellow-400 animate-pulse">STARTING</span>
+              ) : debateState._tag === 'Error' ? (
+                <span className="text-xs font-mono text-red-400">ERROR</span>
               ) : (
                 <span className="text-xs font-mono text-gray-500">IDLE</span>
               )}
             </div>
+            {demo && (
+              <span className="text-xs font-mono text-fuchsia-400 px-1.5 border border-fuchsia-900/60 rounded" title="Simulated debate">
+                DEMO
+              </span>
+            )}
             <span className="text-xs text-gray-400 font-mono truncate max-w-md">
               Q: {question.slice(0, 60)}{question.length > 60 ? '...' : ''}
             </span>
           </div>
           <div className="flex items-center gap-6 text-xs font-mono">
-            <span className="text-cyan-400">R{currentRound}</span>
+            <span className="text-cyan-400" title={`Round ${String(currentRound)} of ${String(totalRounds)}`}>
+              R{currentRound}/{totalRounds}
+            </span>
             <span className="text-amber-400">{turns.length} turns</span>
             <span className="text-green-400">{totalTokens.toLocaleString()} tok</span>
             <span className="text-yellow-400">${totalCost.toFixed(4)}</span>
@@ -643,8 +833,17 @@ const DebateView: FC<DebateViewProps> = ({ question, selectedAgents, onReset })
             <span className="text-gray-500">{eventsPerSecond} evt/s</span>
           </div>
         </div>
+        {circuitState !== 'closed' && (
+          <div role="status" className="mt-2 text-xs font-mono text-amber-400 px-2 py-1 bg-amber-900/20 border border-amber-900/50 rounded">
+            {circuitState === 'open'
+              ? 'Service degraded: requests are paused while the backend recovers.'
+              : 'Service degraded: checking whether the backend has recovered...'}
+          </div>
+        )}
       </header>
 
+      <ControlBar client={client} onReset={onReset} send={streamSend} />
+
       {/* Main Grid - 3 columns */}
       <div className="flex-1 grid grid-cols-12 gap-0 overflow-hidden">
         {/* Left: Agent Status Panel */}
@@ -678,6 +877,13 @@ const DebateView: FC<DebateViewProps> = ({ question, selectedAgents, onReset })
             })}
           </div>
 
+          {branches.length > 1 && (
+            <div className="mt-3">
+              <div className="text-xs font-mono text-gray-500 mb-2 px-1">BRANCHES</div>
+              <BranchNavigator onSelect={onSelectBranch} />
+            </div>
+          )}
+
           {/* Consensus indicator */}
           {O.isSome(consensus) && (
             <div className="mt-auto pt-2 border-t border-slate-700">
@@ -697,16 +903,63 @@ const DebateView: FC<DebateViewProps> = ({ question, selectedAgents, onReset })
           >
             [NEW DEBATE]
           </button>
+          <button
+            onClick={onHistory}
+            className="text-xs font-mono text-gray-500 hover:text-white transition-colors px-2 py-1 rounded hover:bg-slate-700"
+          >
+            [HISTORY]
+          </button>
         </div>
 
         {/* Center: Turns */}
         <div className="col-span-6 flex flex-col overflow-hidden">
           <div className="text-xs font-mono text-gray-500 px-3 py-2 border-b border-slate-700 flex items-center justify-between">
-            <span>DEBATE TURNS</span>
-            <span className="text-gray-600">{turns.length} responses</span>
+            <span>{viewingFork ? 'BRANCH TURNS' : 'DEBATE TURNS'}</span>
+            <span className="text-gray-600">{shownTurns.length} responses</span>
           </div>
           <div className="flex-1 overflow-y-auto p-2 space-y-2">
-            {turns.length === 0 && isRunning && (
+            {streamStatus === 'stalled' && (
+              <div
+                role="alert"
+                className="text-xs font-mono bg-orange-900/20 border border-orange-900/50 rounded px-3 py-2 text-orange-300"
+              >
+                <p>No updates from the backend for a while. The debate may have stalled.</p>
+                {resyncError && <p className="text-red-400 mt-1">{resyncError}</p>}
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={reconnectStream}
+                    className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-gray-200 transition-colors"
+                  >
+                    [RECONNECT]
+                  </button>
+                  <button
+                    onClick={() => {
+                      void resync();
+                    }}
+                    disabled={resyncStatus === 'syncing'}
+                    className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-gray-200 transition-colors disabled:opacity-50"
+                  >
+                    {resyncStatus === 'syncing' ? '[RE-SYNCING...]' : '[RE-SYNC TURNS]'}
+                  </button>
+                </div>
+              </div>
+            )}
+            {debateState._tag === 'Error' && (
+              <ErrorDisplay
+                error={debateState.error}
+                {...(debateState.recoverable ? { onRetry } : {})}
+              />
+            )}
+            {loading && (
+              <p className="text-xs text-gray-500 font-mono text-center py-8 animate-pulse">Loading debate...</p>
+            )}
+            {viewingFork && branchTurnsStatus === 'loading' && (
+              <p className="text-xs text-gray-500 font-mono text-center py-8 animate-pulse">Loading branch...</p>
+            )}
+            {viewingFork && branchTurnsError && (
+              <p role="alert" className="text-xs font-mono text-red-400 px-3 py-2">{branchTurnsError}</p>
+            )}
+            {!viewingFork && turns.length === 0 && inProgressTurns.length === 0 && isRunning && (
               <div className="flex items-center justify-center py-8">
                 <div className="text-center">
                   <div className="typing-dots mx-auto mb-2">
@@ -716,8 +969,15 @@ const DebateView: FC<DebateViewProps> = ({ question, selectedAgents, onReset })
                 </div>
               </div>
             )}
-            {turns.map((turn) => (
-              <TurnCard key={turn.turnId} turn={turn} />
+            {shownTurns.map((turn) => (
+              <TurnCard
+                key={turn.turnId}
+                turn={turn}
+                highlighted={O.exists((id) => id === turn.turnId)(highlightedTurnId)}
+              />
+            ))}
+            {!viewingFork && inProgressTurns.map((turn) => (
+              <LiveTurnCard key={`live-${turn.participantId}`} turn={turn} />
             ))}
           </div>
         </div>
@@ -729,6 +989,7 @@ const DebateView: FC<DebateViewProps> = ({ question, selectedAgents, onReset })
               CCR EVENT STREAM
               {streamStatus === 'connected' && <span className="w-1.5 h-1.5 rounded-full bg-green-400 animate-pulse" />}
               {streamStatus === 'connecting' && <span className="w-1.5 h-1.5 rounded-full bg-yellow-400 animate-pulse" />}
+              {streamStatus === 'stalled' && <span className="w-1.5 h-1.5 rounded-full bg-orange-400" />}
               {streamStatus === 'error' && <span className="w-1.5 h-1.5 rounded-full bg-red-400" />}
             </span>
             <span className="text-green-500">{ccrEvents.length} events</span>
@@ -738,6 +999,11 @@ const DebateView: FC<DebateViewProps> = ({ question, selectedAgents, onReset })
               {streamError}
             </div>
           )}
+          {compatibilityWarning && (
+            <div role="status" className="text-xs text-amber-400 px-3 py-1 bg-amber-900/20 border-b border-amber-900/50">
+              {compatibilityWarning}
+            </div>
+          )}
           <EventLog events={ccrEvents} />
         </div>
       </div>
@@ -748,7 +1014,7 @@ const DebateView: FC<DebateViewProps> = ({ question, selectedAgents, onReset })
           <div className="flex items-center gap-4">
             <span>DebateUI v0.1.0</span>
             <span className="text-gray-600">|</span>
-            <span className={streamStatus === 'connected' ? 'text-green-500' : streamStatus === 'error' ? 'text-red-500' : 'text-yellow-500'}>
+            <span className={streamStatus === 'connected' ? 'text-green-500' : streamStatus === 'error' ? 'text-red-500' : streamStatus === 'stalled' ? 'text-orange-500' : 'text-yellow-500'}>
               CCR {streamStatus}
             </span>
           </div>
@@ -817,37 +1083,132 @@ const ProgressIndicator: FC<ProgressIndicatorProps> = ({ currentStep }) => {
 // MAIN APP
 // ============================================
 
+/**
+ * Id of the debate currently held by the store, if it has one
+ */
+const storedDebateId = (): string | undefined => {
+  const { debate } = useDebateStore.getState();
+  return 'debateId' in debate ? debate.debateId : undefined;
+};
+
 export const App: FC = () => {
   const [step, setStep] = useState<SetupStep>('question');
   const [question, setQuestion] = useState('');
   const [goal, setGoal] = useState<Goal | null>(null);
-  const [selectedAgents, setSelectedAgents] = useState<string[]>([]);
+  const [demoSelected, setDemoSelected] = useState(DEMO_MODE);
 
-  const { setConfig, startDebate, debateStarted, reset: resetStore } = useDebateStore.getState();
+  const { setConfig, startDebate, debateStarted, setError, selectBranch, reset: resetStore } = useDebateStore.getState();
+  const { route, navigate } = useRoute();
 
-  const handleStartDebate = useCallback((agents: string[]) => {
-    setSelectedAgents(agents);
-    setConfig({
-      question,
-      participants: agents,
-      rounds: goal === 'accuracy' ? 4 : goal === 'balanced' ? 3 : 2,
-      consensusThreshold: goal === 'accuracy' ? 0.85 : 0.75,
-      forkMode: 'save',
-    });
-    startDebate();
-    // Simulate backend response
-    setTimeout(() => debateStarted(`debate-${Date.now()}`), 500);
-    setStep('debate');
-  }, [question, goal, setConfig, startDebate, debateStarted]);
+  const routeDebateId = route._tag === 'Debate' ? route.debateId : null;
+  const routeBranchId = route._tag === 'Debate' ? O.toNullable(route.branchId) : null;
 
-  const handleReset = useCallback(() => {
+  // A linked debate is a demo if the simulator played it, whatever the default;
+  // a new one if demo mode is selected
+  const demo = routeDebateId !== null ? demoSimulator.hasDebate(routeDebateId) : demoSelected;
+  const client = demo ? demoSimulator.apiClient : apiClient;
+  const { status: loadStatus, load: loadDebate } = useLoadDebate(client);
+
+  // Load the linked debate unless the store already holds it, then select the linked branch
+  const syncDebateWithRoute = useCallback(async (debateId: string, branchId: string | null) => {
+    if (storedDebateId() !== debateId) {
+      await loadDebate(debateId);
+    }
+    if (branchId !== null && storedDebateId() === debateId) {
+      selectBranch(branchId);
+    }
+  }, [loadDebate, selectBranch]);
+
+  useEffect(() => {
+    if (routeDebateId !== null) {
+      void syncDebateWithRoute(routeDebateId, routeBranchId);
+    }
+  }, [routeDebateId, routeBranchId, syncDebateWithRoute]);
+
+  // Idempotency key of the current launch, kept for retries of it
+  const launchKey = useRef<string | null>(null);
+
+  const resetWizard = useCallback(() => {
+    // Abandons a launch still pending
+    launchKey.current = null;
     resetStore();
     setStep('question');
     setQuestion('');
     setGoal(null);
-    setSelectedAgents([]);
   }, [resetStore]);
 
+  // Navigating back from a debate to the wizard or the history starts over
+  const previousRouteTag = useRef(route._tag);
+  useEffect(() => {
+    if (previousRouteTag.current === 'Debate' && route._tag !== 'Debate') {
+      resetWizard();
+    }
+    previousRouteTag.current = route._tag;
+  }, [route._tag, resetWizard]);
+
+  // A launch is only followed up while it is the current one and the debate is still starting
+  const isCurrentLaunch = useCallback((idempotencyKey: string) =>
+    launchKey.current === idempotencyKey && useDebateStore.getState().debate._tag === 'Starting',
+  []);
+
+  const handleLaunched = useCallback((debateId: string, idempotencyKey: string) => {
+    if (!isCurrentLaunch(idempotencyKey)) return;
+    debateStarted(debateId);
+    navigate(debateRoute(debateId));
+  }, [isCurrentLaunch, debateStarted, navigate]);
+
+  const handleLaunchFailed = useCallback((error: ApiError, idempotencyKey: string) => {
+    if (!isCurrentLaunch(idempotencyKey)) return;
+    setError(error, isRecoverableError(error));
+  }, [isCurrentLaunch, setError]);
+
+  const handleStartDebate = useCallback((agents: string[]) => {
+    const config = buildDebateConfig(question, agents, goal);
+    setConfig(config);
+    startDebate();
+    setStep('debate');
+    launchKey.current = crypto.randomUUID();
+    void launchDebate(client, config, handleLaunched, handleLaunchFailed, launchKey.current);
+  }, [client, question, goal, setConfig, startDebate, handleLaunched, handleLaunchFailed]);
+
+  const handleOpenDebate = useCallback((debateId: string) => {
+    navigate(debateRoute(debateId));
+  }, [navigate]);
+
+  // Link the selected branch, so the URL always points at what is shown
+  const handleSelectBranch = useCallback((branchId: string) => {
+    const debateId = storedDebateId();
+    if (debateId !== undefined) {
+      navigate(debateRoute(debateId, O.some(branchId)));
+    }
+  }, [navigate]);
+
+  const handleRetry = useCallback(() => {
+    if (routeDebateId !== null) {
+      void syncDebateWithRoute(routeDebateId, routeBranchId);
+      return;
+    }
+    // An errored debate can only be reset, so start over from the same config
+    const { config } = useDebateStore.getState();
+    resetStore();
+    setConfig(config);
+    startDebate();
+    launchKey.current ??= crypto.randomUUID();
+    void launchDebate(client, config, handleLaunched, handleLaunchFailed, launchKey.current);
+  }, [client, routeDebateId, routeBranchId, syncDebateWithRoute, resetStore, setConfig, startDebate, handleLaunched, handleLaunchFailed]);
+
+  const handleReset = useCallback(() => {
+    resetWizard();
+    if (route._tag !== 'Setup') {
+      navigate(setupRoute());
+    }
+  }, [route._tag, resetWizard, navigate]);
+
+  const handleShowHistory = useCallback(() => {
+    resetWizard();
+    navigate(historyRoute());
+  }, [resetWizard, navigate]);
+
   // Auto-advance after selecting goal
   useEffect(() => {
     if (goal && step === 'goal') {
@@ -857,8 +1218,18 @@ export const App: FC = () => {
     return undefined;
   }, [goal, step]);
 
-  if (step === 'debate') {
-    return <DebateView question={question} selectedAgents={selectedAgents} onReset={handleReset} />;
+  if ((step === 'debate' && route._tag === 'Setup') || route._tag === 'Debate') {
+    return (
+      <DebateView
+        loading={loadStatus === 'loading'}
+        highlightedTurnId={route._tag === 'Debate' ? route.turnId : O.none}
+        demo={demo}
+        onReset={handleReset}
+        onHistory={handleShowHistory}
+        onRetry={handleRetry}
+        onSelectBranch={handleSelectBranch}
+      />
+    );
   }
 
   return (
@@ -870,39 +1241,57 @@ export const App: FC = () => {
             <SparklesIcon className="w-5 h-5 text-primary" />
             <span className="font-bold">DebateUI</span>
           </div>
-          <span className="text-xs text-muted">AI Multi-Agent Debates</span>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-muted">AI Multi-Agent Debates</span>
+            {route._tag === 'History' ? (
+              <button onClick={handleReset} className="btn-secondary text-xs py-1 px-3">New Debate</button>
+            ) : (
+              <button onClick={handleShowHistory} className="btn-secondary text-xs py-1 px-3">History</button>
+            )}
+          </div>
         </div>
       </header>
 
       {/* Main content - reduced padding */}
       <main className="flex-1 flex flex-col justify-center px-4 py-6">
         <div className="max-w-4xl mx-auto w-full">
-          <ProgressIndicator currentStep={step} />
-
-          {step === 'question' && (
-            <QuestionStep
-              question={question}
-              setQuestion={setQuestion}
-              onNext={() => setStep('goal')}
-            />
-          )}
+          {route._tag === 'History' ? (
+            <DebateHistory client={client} participants={Object.values(AGENTS)} onOpen={handleOpenDebate} />
+          ) : (
+            <>
+              <ProgressIndicator currentStep={step} />
+
+              {step === 'question' && (
+                <>
+                  <QuestionStep
+                    question={question}
+                    setQuestion={setQuestion}
+                    onNext={() => setStep('goal')}
+                  />
+                  <OpenDebateForm onOpen={handleOpenDebate} />
+                </>
+              )}
 
-          {step === 'goal' && (
-            <GoalStep
-              goal={goal}
-              setGoal={setGoal}
-              onNext={() => setStep('recommendation')}
-              onBack={() => setStep('question')}
-            />
-          )}
+              {step === 'goal' && (
+                <GoalStep
+                  goal={goal}
+                  setGoal={setGoal}
+                  onNext={() => setStep('recommendation')}
+                  onBack={() => setStep('question')}
+                />
+              )}
 
-          {step === 'recommendation' && goal && (
-            <RecommendationStep
-              question={question}
-              goal={goal}
-              onStart={handleStartDebate}
-              onBack={() => setStep('goal')}
-            />
+              {step === 'recommendation' && goal && (
+                <RecommendationStep
+                  question={question}
+                  goal={goal}
+                  demo={demoSelected}
+                  onDemoChange={setDemoSelected}
+                  onStart={handleStartDebate}
+                  onBack={() => setStep('goal')}
+                />
+              )}
+            </>
           )}
         </div>
       </main>
@@ -0,0 +1,44 @@
+/**
+ * A model the wizard can put on a debate panel
+ */
+export interface Agent {
+  id: string;
+  name: string;
+  strength: string;
+  costPerTurn: number;
+  color: 'claude' | 'gpt' | 'gemini' | 'deepseek';
+}
+
+/**
+ * Models available for debates, by participant id
+ */
+export const AGENTS: Record<string, Agent> = {
+  claude: {
+    id: 'claude',
+    name: 'Claude 3.5 Sonnet',
+    strength: 'Nuanced reasoning, safety-aware, excellent at synthesis',
+    costPerTurn: 0.015,
+    color: 'claude',
+  },
+  gpt4: {
+    id: 'gpt4',
+    name: 'GPT-4o',
+    strength: 'Broad knowledge, strong at following complex instructions',
+    costPerTurn: 0.025,
+    color: 'gpt',
+  },
+  gemini: {
+    id: 'gemini',
+    name: 'Gemini 1.5 Pro',
+    strength: 'Multimodal understanding, large context window',
+    costPerTurn: 0.012,
+    color: 'gemini',
+  },
+  deepseek: {
+    id: 'deepseek',
+    name: 'DeepSeek R1',
+    strength: 'Deep reasoning chains, mathematical proofs',
+    costPerTurn: 0.008,
+    color: 'deepseek',
+  },
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { createSessionTokenProvider } from './auth';
+
+const REFRESH_URL = 'https://sso.example.com/token';
+
+describe('createSessionTokenProvider', () => {
+  it('fetches a token with the session cookie', async () => {
+    const fetchMock = vi.fn<typeof fetch>(() =>
+      Promise.resolve(new Response(JSON.stringify({ accessToken: 'abc' }), { status: 200 }))
+    );
+    const provider = createSessionTokenProvider(REFRESH_URL, fetchMock);
+
+    const result = await provider.refresh()();
+
+    expect(result).toEqual(E.right('abc'));
+    expect(provider.currentToken()).toEqual(O.some('abc'));
+    expect(fetchMock.mock.calls).toEqual([[REFRESH_URL, { method: 'POST', credentials: 'include' }]]);
+  });
+
+  it('signs out when the session has ended', async () => {
+    const fetchMock = vi.fn<typeof fetch>(() => Promise.resolve(new Response(null, { status: 401 })));
+    const provider = createSessionTokenProvider(REFRESH_URL, fetchMock);
+    const onSignedOut = vi.fn();
+    provider.onSignedOut(onSignedOut);
+
+    const result = await provider.refresh()();
+
+    expect(E.isLeft(result)).toBe(true);
+    expect(onSignedOut.mock.calls[0]?.[0]).toMatchObject({ _tag: 'AuthError', statusCode: 401 });
+  });
+
+  it('signs out on a malformed answer', async () => {
+    const fetchMock = vi.fn<typeof fetch>(() => Promise.resolve(new Response('{}', { status: 200 })));
+    const provider = createSessionTokenProvider(REFRESH_URL, fetchMock);
+    const onSignedOut = vi.fn();
+    provider.onSignedOut(onSignedOut);
+
+    await provider.refresh()();
+
+    expect(onSignedOut.mock.calls[0]?.[0]).toMatchObject({ _tag: 'ValidationError' });
+  });
+});
@@ -0,0 +1,65 @@
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import { z } from 'zod';
+import { createTokenProvider, type TokenProvider } from '@debateui/api-client';
+import { authError, networkError, validationError, type ApiError } from '@debateui/core';
+
+/**
+ * Body of a successful token refresh
+ */
+const RefreshResponseSchema = z.object({
+  accessToken: z.string().min(1),
+});
+
+/**
+ * Creates a token provider that renews access tokens from the SSO session.
+ *
+ * The refresh URL is posted to with the session cookie and answers
+ * `{ accessToken }`. There is no initial token, so the first 401 fetches
+ * one. A refresh that fails, e.g. because the session ended, signs the
+ * user out.
+ *
+ * @param refreshUrl - Endpoint issuing access tokens for the session
+ * @param fetchImpl - fetch implementation, defaults to the global fetch
+ * @returns TokenProvider for the HTTP client and the stream
+ */
+export const createSessionTokenProvider = (
+  refreshUrl: string,
+  fetchImpl: typeof fetch = globalThis.fetch.bind(globalThis)
+): TokenProvider =>
+  createTokenProvider({
+    refreshToken: () =>
+      pipe(
+        TE.tryCatch(
+          () => fetchImpl(refreshUrl, { method: 'POST', credentials: 'include' }),
+          (error): ApiError =>
+            networkError('Failed to reach the sign-in service', error instanceof Error ? error : undefined)
+        ),
+        TE.chain((response) =>
+          response.ok
+            ? TE.tryCatch(
+                (): Promise<unknown> => response.json(),
+                (): ApiError => networkError('Invalid response from the sign-in service')
+              )
+            : TE.left(authError('The session has expired', response.status === 403 ? 403 : 401))
+        ),
+        TE.chainEitherK((body) =>
+          pipe(
+            RefreshResponseSchema.safeParse(body),
+            (result) => (result.success ? E.right(result.data.accessToken) : E.left(validationError(result.error)))
+          )
+        )
+      ),
+  });
+
+/**
+ * Signed-out handler sending the browser to sign in again.
+ * Without a login URL the page is reloaded, which goes through the SSO
+ * sign-in when the session has ended.
+ *
+ * @param loginUrl - Sign-in page, if the app has a dedicated one
+ */
+export const redirectToSignIn = (loginUrl: string | undefined) => (): void => {
+  window.location.assign(loginUrl ?? window.location.href);
+};
@@ -0,0 +1,70 @@
+import {
+  createApiClient,
+  createCircuitBreaker,
+  createHttpClient,
+  DEFAULT_RETRY_POLICY,
+  type ApiClient,
+  type CircuitBreaker,
+  type TokenProvider,
+} from '@debateui/api-client';
+import type { StreamTransport } from '../hooks/useDebateStream';
+import { AGENTS } from '../agents';
+import { createDebateSimulator, type DebateSimulator } from '../demo';
+import { createSessionTokenProvider, redirectToSignIn } from './auth';
+
+/**
+ * Base URL of the CCR backend, configurable via VITE_API_BASE_URL.
+ */
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? 'http://localhost:3000';
+
+/**
+ * Transport for the live debate stream, configurable via VITE_STREAM_TRANSPORT
+ * (`sse` or `websocket`). Anything else falls back to SSE.
+ */
+export const STREAM_TRANSPORT: StreamTransport =
+  import.meta.env.VITE_STREAM_TRANSPORT === 'websocket' ? 'websocket' : 'sse';
+
+/**
+ * Circuit breaker guarding the backend. While it is open, requests fail
+ * fast and the debate view shows a degraded-service banner.
+ */
+export const circuitBreaker: CircuitBreaker = createCircuitBreaker();
+
+/**
+ * Bearer tokens for a backend behind SSO, enabled by setting
+ * VITE_AUTH_REFRESH_URL to the endpoint issuing tokens for the session.
+ * Shared by the API client and the debate stream. When the session cannot
+ * be renewed, the browser is sent to VITE_AUTH_LOGIN_URL (or the page is
+ * reloaded to sign in again).
+ */
+export const tokenProvider: TokenProvider | undefined =
+  import.meta.env.VITE_AUTH_REFRESH_URL === undefined
+    ? undefined
+    : createSessionTokenProvider(import.meta.env.VITE_AUTH_REFRESH_URL);
+
+tokenProvider?.onSignedOut(redirectToSignIn(import.meta.env.VITE_AUTH_LOGIN_URL));
+
+/**
+ * Shared API client used by the app for all debate and branch requests.
+ * Reads are retried, so provider rate limits during large panels resolve
+ * themselves instead of surfacing as errors.
+ */
+export const apiClient: ApiClient = createApiClient(
+  createHttpClient(API_BASE_URL, {
+    retryPolicy: DEFAULT_RETRY_POLICY,
+    circuitBreaker,
+    ...(tokenProvider !== undefined ? { tokenProvider } : {}),
+  })
+);
+
+/**
+ * Start debates in demo mode by default, configurable via VITE_DEMO_MODE
+ * (`true` to enable). The wizard can still switch it per debate.
+ */
+export const DEMO_MODE = import.meta.env.VITE_DEMO_MODE === 'true';
+
+/**
+ * Simulator answering demo debates in the browser, without a backend or
+ * API keys.
+ */
+export const demoSimulator: DebateSimulator = createDebateSimulator({ agents: AGENTS });
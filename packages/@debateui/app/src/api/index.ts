@@ -0,0 +1 @@
+export { API_BASE_URL, STREAM_TRANSPORT, DEMO_MODE, apiClient, circuitBreaker, demoSimulator, tokenProvider } from './client';
@@ -236,6 +236,20 @@ describe('BranchNavigator', () => {
       expect(mockSelectBranch).toHaveBeenCalledTimes(1);
     });
 
+    it('reports the selected branch to onSelect', async () => {
+      const user = userEvent.setup();
+      const onSelect = vi.fn();
+      mockUseAllBranches.mockReturnValue(mockBranches);
+      mockUseActiveBranch.mockReturnValue(O.none);
+      mockUseBranchCount.mockReturnValue(mockBranches.length);
+
+      render(<BranchNavigator onSelect={onSelect} />);
+
+      await user.click(screen.getByRole('treeitem', { name: /feature-branch/ }));
+
+      expect(onSelect).toHaveBeenCalledWith('123e4567-e89b-12d3-a456-426614174001');
+    });
+
     it('allows clicking different branches', async () => {
       const user = userEvent.setup();
       mockUseAllBranches.mockReturnValue(mockBranches);
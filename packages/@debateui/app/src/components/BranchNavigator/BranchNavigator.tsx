@@ -148,11 +148,16 @@ const BranchGroup = ({
   );
 };
 
+export interface BranchNavigatorProps {
+  /** Called with the branch the user selected, after it became active */
+  onSelect?: (branchId: string) => void;
+}
+
 /**
  * BranchNavigator component for viewing and switching between branches.
  * Displays branches in a tree structure with collapsible groups by depth.
  */
-export const BranchNavigator = () => {
+export const BranchNavigator = ({ onSelect }: BranchNavigatorProps = {}) => {
   const branches = useAllBranches() as BranchInfo[];
   const activeBranch = useActiveBranch() as O.Option<BranchInfo>;
   const { selectBranch } = useDebateStore();
@@ -179,7 +184,8 @@ export const BranchNavigator = () => {
   // Handle branch selection - memoized to prevent unnecessary re-renders
   const handleSelectBranch = useCallback((branchId: string) => {
     selectBranch(branchId);
-  }, [selectBranch]);
+    onSelect?.(branchId);
+  }, [selectBranch, onSelect]);
 
   // Handle toggle group
   const handleToggleGroup = useCallback((depth: number) => {
@@ -226,13 +232,13 @@ export const BranchNavigator = () => {
           if (currentFocused >= 0 && currentFocused < branches.length) {
             const branch = branches[currentFocused];
             if (branch) {
-              selectBranch(branch.branchId);
+              handleSelectBranch(branch.branchId);
             }
           }
           break;
       }
     },
-    [totalBranches, focusedIndex, branches, selectBranch]
+    [totalBranches, focusedIndex, branches, handleSelectBranch]
   );
 
   // Focus the appropriate item when focusedIndex changes
@@ -247,14 +253,10 @@ export const BranchNavigator = () => {
   useEffect(() => {
     const groups = groupBranchesByDepth(branches);
     setExpandedGroups((prev) => {
-      const next = new Set(prev);
-      // Add any new depths
-      groups.forEach((_, depth) => {
-        if (!prev.has(depth)) {
-          next.add(depth);
-        }
-      });
-      return next;
+      const newDepths = Array.from(groups.keys()).filter((depth) => !prev.has(depth));
+      // Keep the same set when nothing is new, so the update doesn't re-render
+      if (newDepths.length === 0) return prev;
+      return new Set([...prev, ...newDepths]);
     });
   }, [branches]);
 
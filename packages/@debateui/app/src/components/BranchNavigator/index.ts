@@ -1 +1 @@
-export { BranchNavigator } from './BranchNavigator';
+export { BranchNavigator, type BranchNavigatorProps } from './BranchNavigator';
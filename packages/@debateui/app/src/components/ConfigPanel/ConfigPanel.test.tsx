@@ -3,6 +3,8 @@ import { render, screen, waitFor, act, fireEvent } from '@testing-library/react'
 import userEvent from '@testing-library/user-event';
 import { ConfigPanel } from './ConfigPanel';
 import { useDebateStore } from '@debateui/state';
+import { validationError } from '@debateui/core';
+import { z } from 'zod';
 
 describe('ConfigPanel', () => {
   beforeEach(() => {
@@ -290,6 +292,52 @@ describe('ConfigPanel', () => {
     });
   });
 
+  describe('Server Validation Errors', () => {
+    const rejectConfig = () => {
+      const store = useDebateStore.getState();
+      store.setConfig({ question: 'Should we adopt a monorepo?', participants: ['a', 'b'] });
+      store.startDebate();
+      store.setError(
+        validationError(
+          new z.ZodError([
+            { code: 'custom', path: ['rounds'], message: 'Rounds must be at most 10' },
+            { code: 'custom', path: ['participants', 1], message: 'Unknown model: b' },
+          ]),
+          'invalid_config'
+        ),
+        false
+      );
+    };
+
+    it('highlights the fields the server rejected', () => {
+      rejectConfig();
+      render(<ConfigPanel />);
+
+      const roundsInput = screen.getByLabelText(/rounds/i);
+      expect(screen.getByText('Rounds must be at most 10')).toBeInTheDocument();
+      expect(roundsInput).toHaveAttribute('aria-invalid', 'true');
+      expect(screen.getByLabelText(/participants/i)).toHaveAttribute('aria-invalid', 'true');
+      expect(screen.getByText('Unknown model: b')).toBeInTheDocument();
+      expect(screen.getByLabelText(/question/i)).toHaveAttribute('aria-invalid', 'false');
+    });
+
+    it('keeps the rejected config editable and revalidates on edit', async () => {
+      const user = userEvent.setup();
+      rejectConfig();
+      render(<ConfigPanel />);
+
+      const roundsInput = screen.getByLabelText(/rounds/i);
+      expect(roundsInput).not.toBeDisabled();
+      await user.clear(roundsInput);
+      await user.type(roundsInput, '5');
+
+      await waitFor(() => {
+        expect(screen.queryByText('Rounds must be at most 10')).not.toBeInTheDocument();
+      });
+      expect(useDebateStore.getState().config.rounds).toBe(5);
+    });
+  });
+
   describe('Accessibility', () => {
     it('has proper labels for all form elements', () => {
       render(<ConfigPanel />);
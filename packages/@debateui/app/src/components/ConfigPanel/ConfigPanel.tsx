@@ -1,7 +1,8 @@
 import { useState, useEffect, useId } from 'react';
-import { useDebateStore, useConfig, useDebateState } from '@debateui/state';
+import { useDebateStore, useConfig, useDebateState, useDebateError } from '@debateui/state';
 import { DebateConfigSchema, type DebateConfig } from '@debateui/core';
 import { z } from 'zod';
+import * as O from 'fp-ts/Option';
 
 interface ValidationErrors {
   question?: string;
@@ -10,10 +11,28 @@ interface ValidationErrors {
   consensusThreshold?: string;
 }
 
+const VALIDATED_FIELDS: readonly string[] = ['question', 'participants', 'rounds', 'consensusThreshold'];
+
+const isValidatedField = (field: unknown): field is keyof ValidationErrors =>
+  typeof field === 'string' && VALIDATED_FIELDS.includes(field);
+
+/**
+ * First message per form field among the issues the server reported.
+ * Issues for nested paths (e.g. `participants.1`) belong to their field.
+ */
+const toFieldErrors = (errors: z.ZodError): ValidationErrors =>
+  errors.issues.reduce<ValidationErrors>((fieldErrors, issue) => {
+    const field = issue.path[0];
+    return isValidatedField(field) && fieldErrors[field] === undefined
+      ? { ...fieldErrors, [field]: issue.message }
+      : fieldErrors;
+  }, {});
+
 export const ConfigPanel = () => {
   const config = useConfig();
   const debateState = useDebateState();
   const setConfig = useDebateStore((state) => state.setConfig);
+  const rejection = O.toUndefined(useDebateError());
 
   // Local form state for immediate updates
   const [localQuestion, setLocalQuestion] = useState(config.question);
@@ -36,8 +55,9 @@ export const ConfigPanel = () => {
   const thresholdId = useId();
   const forkModeId = useId();
 
-  // Determine if fields should be disabled (debate not idle)
-  const isDisabled = debateState._tag !== 'Idle';
+  // Determine if fields should be disabled (debate not idle), unless the
+  // server rejected the config and it has to be fixed
+  const isDisabled = debateState._tag !== 'Idle' && rejection?._tag !== 'ValidationError';
 
   // Sync local state with store when config changes externally
   useEffect(() => {
@@ -48,6 +68,19 @@ export const ConfigPanel = () => {
     setLocalForkMode(config.forkMode);
   }, [config]);
 
+  // Highlight the fields the server rejected; they revalidate as they are edited
+  useEffect(() => {
+    if (rejection?._tag !== 'ValidationError') {
+      return;
+    }
+    const serverErrors = toFieldErrors(rejection.errors);
+    setErrors((prev) => ({ ...prev, ...serverErrors }));
+    setTouched((prev) => ({
+      ...prev,
+      ...Object.fromEntries(Object.keys(serverErrors).map((field) => [field, true])),
+    }));
+  }, [rejection]);
+
   // Validate a single field
   const validateField = (field: keyof DebateConfig, value: unknown): string | undefined => {
     try {
@@ -3,12 +3,31 @@ import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ControlBar } from './ControlBar';
 import type { DebateState } from '@debateui/core';
-import { idle, starting, running, paused, completed, error as errorState } from '@debateui/core';
+import { idle, starting, running, paused, completed, error as errorState, serverError } from '@debateui/core';
 import * as StateModule from '@debateui/state';
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import type { ApiClient } from '@debateui/api-client';
+import type { StreamSend } from '../../hooks/useDebateStream';
 
 // Mock the entire state module
 vi.mock('@debateui/state');
 
+const { pauseDebateApiMock, resumeDebateApiMock } = vi.hoisted(() => ({
+  pauseDebateApiMock: vi.fn(),
+  resumeDebateApiMock: vi.fn(),
+}));
+
+vi.mock('../../api', () => ({
+  apiClient: {
+    debate: {
+      pauseDebate: pauseDebateApiMock,
+      resumeDebate: resumeDebateApiMock,
+    },
+  },
+}));
+
 describe('ControlBar', () => {
   const mockStartDebate = vi.fn();
   const mockPauseDebate = vi.fn();
@@ -17,6 +36,8 @@ describe('ControlBar', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    pauseDebateApiMock.mockReturnValue(TE.right(undefined));
+    resumeDebateApiMock.mockReturnValue(TE.right(undefined));
   });
 
   const setupStore = (
@@ -184,14 +205,54 @@ describe('ControlBar', () => {
       const pauseButton = screen.getByRole('button', { name: /pause/i });
       await user.click(pauseButton);
 
+      expect(pauseDebateApiMock).toHaveBeenCalledWith('debate-123');
       expect(mockPauseDebate).toHaveBeenCalledTimes(1);
       expect(mockPauseDebate).toHaveBeenCalledWith('User requested pause');
     });
+
+    it('keeps the debate running and shows the error when pausing fails', async () => {
+      pauseDebateApiMock.mockReturnValue(TE.left(serverError(503, 'Service unavailable')));
+      setupStore(running('debate-123', 1, []), true);
+      const user = userEvent.setup();
+      render(<ControlBar />);
+
+      await user.click(screen.getByRole('button', { name: /pause/i }));
+
+      expect(mockPauseDebate).not.toHaveBeenCalled();
+      expect(screen.getByRole('alert')).toHaveTextContent('Service unavailable');
+      expect(screen.getByRole('button', { name: /pause/i })).toBeEnabled();
+    });
+
+    it('sends the pause command with the given client', async () => {
+      const pauseDebate = vi.fn(() => TE.right(undefined));
+      const client = { debate: { pauseDebate } } as unknown as ApiClient;
+      setupStore(running('debate-123', 1, []), true);
+      const user = userEvent.setup();
+      render(<ControlBar client={client} />);
+
+      await user.click(screen.getByRole('button', { name: /pause/i }));
+
+      expect(pauseDebate.mock.calls).toEqual([['debate-123']]);
+      expect(pauseDebateApiMock).not.toHaveBeenCalled();
+    });
+
+    it('sends the pause command over the stream when it can carry messages', async () => {
+      const send = vi.fn<StreamSend>(() => E.right(undefined));
+      setupStore(running('debate-123', 1, []), true);
+      const user = userEvent.setup();
+      render(<ControlBar send={O.some(send)} />);
+
+      await user.click(screen.getByRole('button', { name: /pause/i }));
+
+      expect(send.mock.calls).toEqual([[{ type: 'pause' }]]);
+      expect(pauseDebateApiMock).not.toHaveBeenCalled();
+      expect(mockPauseDebate).toHaveBeenCalledWith('User requested pause');
+    });
   });
 
   describe('Paused state', () => {
     it('shows Resume button enabled when Paused and can resume', () => {
-      setupStore(paused('debate-123', 'User requested', true), true);
+      setupStore(paused('debate-123', 1, [], 'User requested', true), true);
       render(<ControlBar />);
 
       const resumeButton = screen.getByRole('button', { name: /resume/i });
@@ -199,7 +260,7 @@ describe('ControlBar', () => {
     });
 
     it('disables Resume button when Paused but cannot resume', () => {
-      setupStore(paused('debate-123', 'Error occurred', false), true);
+      setupStore(paused('debate-123', 1, [], 'Error occurred', false), true);
       render(<ControlBar />);
 
       const resumeButton = screen.getByRole('button', { name: /resume/i });
@@ -207,7 +268,7 @@ describe('ControlBar', () => {
     });
 
     it('disables Start button when Paused', () => {
-      setupStore(paused('debate-123', 'User requested', true), true);
+      setupStore(paused('debate-123', 1, [], 'User requested', true), true);
       render(<ControlBar />);
 
       const startButton = screen.getByRole('button', { name: /start/i });
@@ -215,7 +276,7 @@ describe('ControlBar', () => {
     });
 
     it('disables Pause button when Paused', () => {
-      setupStore(paused('debate-123', 'User requested', true), true);
+      setupStore(paused('debate-123', 1, [], 'User requested', true), true);
       render(<ControlBar />);
 
       const pauseButton = screen.getByRole('button', { name: /pause/i });
@@ -223,22 +284,35 @@ describe('ControlBar', () => {
     });
 
     it('shows Paused state indicator', () => {
-      setupStore(paused('debate-123', 'User requested', true), true);
+      setupStore(paused('debate-123', 1, [], 'User requested', true), true);
       render(<ControlBar />);
 
       expect(screen.getByText(/paused/i)).toBeInTheDocument();
     });
 
     it('calls resumeDebate when Resume button is clicked', async () => {
-      setupStore(paused('debate-123', 'User requested', true), true);
+      setupStore(paused('debate-123', 1, [], 'User requested', true), true);
       const user = userEvent.setup();
       render(<ControlBar />);
 
       const resumeButton = screen.getByRole('button', { name: /resume/i });
       await user.click(resumeButton);
 
+      expect(resumeDebateApiMock).toHaveBeenCalledWith('debate-123');
       expect(mockResumeDebate).toHaveBeenCalledTimes(1);
     });
+
+    it('stays paused and shows the error when resuming fails', async () => {
+      resumeDebateApiMock.mockReturnValue(TE.left(serverError(500, 'Resume failed')));
+      setupStore(paused('debate-123', 1, [], 'User requested', true), true);
+      const user = userEvent.setup();
+      render(<ControlBar />);
+
+      await user.click(screen.getByRole('button', { name: /resume/i }));
+
+      expect(mockResumeDebate).not.toHaveBeenCalled();
+      expect(screen.getByRole('alert')).toHaveTextContent('Resume failed');
+    });
   });
 
   describe('Completed state', () => {
@@ -296,6 +370,18 @@ describe('ControlBar', () => {
 
       expect(mockReset).toHaveBeenCalledTimes(1);
     });
+
+    it('calls onReset instead of resetting the store when given', async () => {
+      setupStore(completed('debate-123', mockConsensus, []), true);
+      const onReset = vi.fn();
+      const user = userEvent.setup();
+      render(<ControlBar onReset={onReset} />);
+
+      await user.click(screen.getByRole('button', { name: /reset/i }));
+
+      expect(onReset).toHaveBeenCalledTimes(1);
+      expect(mockReset).not.toHaveBeenCalled();
+    });
   });
 
   describe('Error state', () => {
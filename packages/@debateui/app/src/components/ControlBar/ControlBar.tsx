@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   useDebateState,
   useIsConfigValid,
@@ -8,12 +8,33 @@ import {
   useIsDebateTerminal,
 } from '@debateui/state';
 import { useDebateStore } from '@debateui/state';
+import { formatApiError, type ApiError } from '@debateui/core';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import * as TE from 'fp-ts/TaskEither';
+import type { ApiClient } from '@debateui/api-client';
+import { apiClient } from '../../api';
+import type { StreamSend } from '../../hooks/useDebateStream';
+
+export interface ControlBarProps {
+  /** API client the pause/resume commands are sent with (defaults to the app's client) */
+  client?: ApiClient;
+  /** Called on Reset instead of resetting the store directly */
+  onReset?: () => void;
+  /** Stream connection to send Pause over instead of the API, when it can carry messages */
+  send?: O.Option<StreamSend>;
+}
 
 /**
  * ControlBar component for debate flow control.
  * Provides Start, Pause, Resume, and Reset buttons with state-dependent behavior.
+ *
+ * Pause and Resume are sent to the backend first; the store only transitions
+ * once the request succeeds. A failed request leaves the debate as it was and
+ * shows the error next to the buttons. Pause goes over the WebSocket when the
+ * stream has one; a paused debate has no stream, so Resume always uses the API.
  */
-export const ControlBar: React.FC = () => {
+export const ControlBar: React.FC<ControlBarProps> = ({ client = apiClient, onReset, send = O.none }) => {
   const debate = useDebateState();
   const isConfigValid = useIsConfigValid();
   const isRunning = useIsDebateRunning();
@@ -26,13 +47,16 @@ export const ControlBar: React.FC = () => {
   const resumeDebate = useDebateStore((state) => state.resumeDebate);
   const reset = useDebateStore((state) => state.reset);
 
+  const [pending, setPending] = useState(false);
+  const [commandError, setCommandError] = useState<ApiError | null>(null);
+
   // Button states
   const isIdle = debate._tag === 'Idle';
   const isStarting = debate._tag === 'Starting';
 
   const canStart = isIdle && isConfigValid;
-  const canPause = isRunning;
-  const canResumeButton = isPaused && canResume;
+  const canPause = isRunning && !pending;
+  const canResumeButton = isPaused && canResume && !pending;
   const canReset = isTerminal;
 
   // Handle button clicks
@@ -40,16 +64,45 @@ export const ControlBar: React.FC = () => {
     startDebate();
   };
 
+  // Send a pause/resume command and apply the store transition once it succeeds
+  const sendCommand = async (
+    command: TE.TaskEither<ApiError, void>,
+    onSuccess: () => void
+  ) => {
+    setPending(true);
+    setCommandError(null);
+    const result = await command();
+    setPending(false);
+
+    if (E.isRight(result)) {
+      onSuccess();
+    } else {
+      setCommandError(result.left);
+    }
+  };
+
   const handlePause = () => {
-    pauseDebate('User requested pause');
+    if (debate._tag !== 'Running') return;
+    const command = O.isSome(send)
+      ? TE.fromEither(send.value({ type: 'pause' }))
+      : client.debate.pauseDebate(debate.debateId);
+    void sendCommand(command, () => {
+      pauseDebate('User requested pause');
+    });
   };
 
   const handleResume = () => {
-    resumeDebate();
+    if (debate._tag !== 'Paused') return;
+    void sendCommand(client.debate.resumeDebate(debate.debateId), resumeDebate);
   };
 
   const handleReset = () => {
-    reset();
+    setCommandError(null);
+    if (onReset) {
+      onReset();
+    } else {
+      reset();
+    }
   };
 
   // Get state display text
@@ -179,6 +232,12 @@ export const ControlBar: React.FC = () => {
           Reset
         </button>
       </div>
+
+      {commandError && (
+        <p role="alert" className="text-sm text-red-600">
+          {formatApiError(commandError)}
+        </p>
+      )}
     </div>
   );
 };
@@ -1 +1,2 @@
 export { ControlBar } from './ControlBar';
+export type { ControlBarProps } from './ControlBar';
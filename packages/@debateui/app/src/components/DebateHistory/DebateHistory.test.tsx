@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import { queryDebates, serverError, validationError, type DebateSummary } from '@debateui/core';
+import type { ApiClient } from '@debateui/api-client';
+import { DebateHistory } from './DebateHistory';
+
+const PARTICIPANTS = [
+  { id: 'claude', name: 'Claude 3.5 Sonnet' },
+  { id: 'gpt4', name: 'GPT-4o' },
+  { id: 'deepseek', name: 'DeepSeek R1' },
+];
+
+const summary = (n: number, overrides: Partial<DebateSummary> = {}): DebateSummary => ({
+  debateId: `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`,
+  status: 'completed',
+  question: `Question number ${String(n)}`,
+  participants: ['claude', 'gpt4'],
+  currentRound: 3,
+  totalRounds: 3,
+  createdAt: `2025-03-${String(n).padStart(2, '0')}T12:00:00Z`,
+  updatedAt: `2025-03-${String(n).padStart(2, '0')}T13:00:00Z`,
+  ...overrides,
+});
+
+const DEBATES = [
+  summary(1, { question: 'Should we rewrite the billing service in Rust?', participants: ['claude', 'deepseek'] }),
+  summary(2, { question: 'Monolith or microservices for the new platform?', status: 'running', currentRound: 1 }),
+  summary(3, {
+    question: 'Is a four-day week good for the team?',
+    consensus: { level: 'strong', percentage: 0.9, supporting: 2, dissenting: 0, confidence: 0.8 },
+  }),
+];
+
+// Backend answering like the real one, over a fixed set of debates
+const createClient = (debates: readonly DebateSummary[] = DEBATES) => {
+  const listDebates = vi.fn<ApiClient['debate']['listDebates']>((query = {}) =>
+    TE.fromEither(pipe(queryDebates(debates, query), E.mapLeft(validationError)))
+  );
+  return { client: { debate: { listDebates } } as unknown as ApiClient, listDebates };
+};
+
+const questions = (): string[] =>
+  within(screen.getByRole('list', { name: 'Debates' }))
+    .getAllByRole('button')
+    .map((item) => item.querySelector('span')?.textContent ?? '');
+
+describe('DebateHistory', () => {
+  it('lists the newest debates first', async () => {
+    const { client } = createClient();
+    render(<DebateHistory client={client} participants={PARTICIPANTS} onOpen={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(questions()).toEqual([
+        'Is a four-day week good for the team?',
+        'Monolith or microservices for the new platform?',
+        'Should we rewrite the billing service in Rust?',
+      ]);
+    });
+    expect(screen.getByText('Claude 3.5 Sonnet, DeepSeek R1')).toBeInTheDocument();
+    expect(screen.getByText('Round 1/3')).toBeInTheDocument();
+    expect(screen.getByText('90% strong consensus')).toBeInTheDocument();
+  });
+
+  it('opens a debate on click', async () => {
+    const onOpen = vi.fn<(debateId: string) => void>();
+    const { client } = createClient();
+    const user = userEvent.setup();
+    render(<DebateHistory client={client} participants={PARTICIPANTS} onOpen={onOpen} />);
+
+    await user.click(await screen.findByText('Monolith or microservices for the new platform?'));
+
+    expect(onOpen).toHaveBeenCalledWith(summary(2).debateId);
+  });
+
+  it('searches the questions', async () => {
+    const { client, listDebates } = createClient();
+    const user = userEvent.setup();
+    render(<DebateHistory client={client} participants={PARTICIPANTS} onOpen={vi.fn()} />);
+
+    await user.type(screen.getByLabelText('Search questions'), 'rust');
+
+    await waitFor(() => {
+      expect(questions()).toEqual(['Should we rewrite the billing service in Rust?']);
+    });
+    expect(listDebates.mock.lastCall?.[0]).toMatchObject({ question: 'rust' });
+  });
+
+  it('searches once the user paused typing', async () => {
+    const { client, listDebates } = createClient();
+    const user = userEvent.setup();
+    render(<DebateHistory client={client} participants={PARTICIPANTS} onOpen={vi.fn()} />);
+
+    await user.type(screen.getByLabelText('Search questions'), 'rust');
+
+    await waitFor(() => {
+      expect(questions()).toEqual(['Should we rewrite the billing service in Rust?']);
+    });
+    const searched = listDebates.mock.calls.flatMap(([query]) => (query?.question !== undefined ? [query.question] : []));
+    expect(searched).toEqual(['rust']);
+  });
+
+  it('filters by status and participant', async () => {
+    const { client, listDebates } = createClient();
+    const user = userEvent.setup();
+    render(<DebateHistory client={client} participants={PARTICIPANTS} onOpen={vi.fn()} />);
+
+    await user.selectOptions(screen.getByLabelText('Status'), 'completed');
+    await user.selectOptions(screen.getByLabelText('Participant'), 'deepseek');
+
+    await waitFor(() => {
+      expect(questions()).toEqual(['Should we rewrite the billing service in Rust?']);
+    });
+    expect(listDebates.mock.lastCall?.[0]).toMatchObject({ status: ['completed'], participants: ['deepseek'] });
+  });
+
+  it('filters by creation date, including the end date', async () => {
+    const { client, listDebates } = createClient();
+    const user = userEvent.setup();
+    render(<DebateHistory client={client} participants={PARTICIPANTS} onOpen={vi.fn()} />);
+
+    await user.type(screen.getByLabelText('Created from'), '2025-03-02');
+    await user.type(screen.getByLabelText('Created to'), '2025-03-02');
+
+    await waitFor(() => {
+      expect(questions()).toEqual(['Monolith or microservices for the new platform?']);
+    });
+    expect(listDebates.mock.lastCall?.[0]).toMatchObject({
+      createdAfter: new Date('2025-03-02T00:00:00').toISOString(),
+      createdBefore: new Date('2025-03-03T00:00:00').toISOString(),
+    });
+  });
+
+  it('sorts by question', async () => {
+    const { client } = createClient();
+    const user = userEvent.setup();
+    render(<DebateHistory client={client} participants={PARTICIPANTS} onOpen={vi.fn()} />);
+
+    await user.selectOptions(screen.getByLabelText('Sort by'), 'question');
+
+    await waitFor(() => {
+      expect(questions()[0]).toBe('Is a four-day week good for the team?');
+    });
+    expect(questions()[2]).toBe('Should we rewrite the billing service in Rust?');
+  });
+
+  it('loads more debates page by page', async () => {
+    const many = Array.from({ length: 25 }, (_, index) => summary(index + 1));
+    const { client, listDebates } = createClient(many);
+    const user = userEvent.setup();
+    render(<DebateHistory client={client} participants={PARTICIPANTS} onOpen={vi.fn()} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Load more' }));
+
+    await waitFor(() => {
+      expect(questions()).toHaveLength(25);
+    });
+    expect(typeof listDebates.mock.lastCall?.[0]?.cursor).toBe('string');
+    expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+  });
+
+  it('tells an empty history from no matches', async () => {
+    const { client } = createClient([]);
+    const user = userEvent.setup();
+    render(<DebateHistory client={client} participants={PARTICIPANTS} onOpen={vi.fn()} />);
+
+    expect(await screen.findByText(/no debates yet/i)).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('Search questions'), 'rust');
+
+    expect(await screen.findByText('No debates match these filters.')).toBeInTheDocument();
+  });
+
+  it('shows a failure and retries it', async () => {
+    const { client, listDebates } = createClient();
+    listDebates.mockReturnValueOnce(TE.left(serverError(503, 'Service unavailable')));
+    const user = userEvent.setup();
+    render(<DebateHistory client={client} participants={PARTICIPANTS} onOpen={vi.fn()} />);
+
+    await user.click(await screen.findByRole('button', { name: /retry/i }));
+
+    await waitFor(() => {
+      expect(questions()).toHaveLength(3);
+    });
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+});
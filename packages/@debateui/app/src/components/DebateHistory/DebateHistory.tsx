@@ -0,0 +1,308 @@
+import { useState, useMemo, useId } from 'react';
+import type { ApiClient } from '@debateui/api-client';
+import {
+  DebateStatusSchema,
+  type DebateListQuery,
+  type DebateStatus,
+  type DebateSummary,
+} from '@debateui/core';
+import { useDebateHistory } from '../../hooks/useDebateHistory';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import { ErrorDisplay } from '../ErrorDisplay';
+
+/**
+ * A participant the history can be filtered by
+ */
+export interface HistoryParticipant {
+  id: string;
+  name: string;
+}
+
+export interface DebateHistoryProps {
+  /** API client to list debates with */
+  client: ApiClient;
+  /** Participants offered as a filter, and used to name them */
+  participants: readonly HistoryParticipant[];
+  /** Open a debate of the list */
+  onOpen: (debateId: string) => void;
+}
+
+/**
+ * How long the search text must stay unchanged before it is searched for
+ */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Sort orders offered by the history
+ */
+const SORTS = {
+  newest: { label: 'Newest first', sortBy: 'createdAt', sortOrder: 'desc' },
+  oldest: { label: 'Oldest first', sortBy: 'createdAt', sortOrder: 'asc' },
+  updated: { label: 'Recently updated', sortBy: 'updatedAt', sortOrder: 'desc' },
+  question: { label: 'Question A–Z', sortBy: 'question', sortOrder: 'asc' },
+} as const satisfies Record<string, { label: string } & Pick<DebateListQuery, 'sortBy' | 'sortOrder'>>;
+
+type SortOption = keyof typeof SORTS;
+
+const isSortOption = (value: string): value is SortOption => value in SORTS;
+
+const STATUS_COLORS: Record<DebateStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  paused: 'bg-yellow-100 text-yellow-700',
+  completed: 'bg-green-100 text-green-700',
+  error: 'bg-red-100 text-red-700',
+};
+
+/**
+ * Start of a local calendar day (`yyyy-mm-dd`) as an ISO timestamp
+ */
+const startOfDay = (day: string, offsetDays = 0): string => {
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + offsetDays);
+  return date.toISOString();
+};
+
+/**
+ * Formats an ISO datetime string to a human-readable format.
+ */
+const formatDateTime = (isoString: string): string =>
+  new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(isoString));
+
+interface HistoryItemProps {
+  debate: DebateSummary;
+  names: ReadonlyMap<string, string>;
+  onOpen: (debateId: string) => void;
+}
+
+const HistoryItem = ({ debate, names, onOpen }: HistoryItemProps) => (
+  <li>
+    <button
+      onClick={() => {
+        onOpen(debate.debateId);
+      }}
+      className="card w-full text-left p-3 hover:border-primary transition-colors"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <span className="font-medium text-sm">{debate.question}</span>
+        <span className={`text-xs px-2 py-0.5 rounded-full capitalize shrink-0 ${STATUS_COLORS[debate.status]}`}>
+          {debate.status}
+        </span>
+      </div>
+      <div className="mt-1 flex flex-wrap items-center gap-x-3 text-xs text-muted">
+        <span>{debate.participants.map((id) => names.get(id) ?? id).join(', ')}</span>
+        <span>
+          Round {debate.currentRound}/{debate.totalRounds}
+        </span>
+        {debate.consensus !== undefined && (
+          <span>{Math.round(debate.consensus.percentage * 100)}% {debate.consensus.level} consensus</span>
+        )}
+        <span className="ml-auto">{formatDateTime(debate.createdAt)}</span>
+      </div>
+    </button>
+  </li>
+);
+
+/**
+ * History of past debates, with search, filters and sorting.
+ *
+ * Features:
+ * - Search by question text, once the user paused typing
+ * - Filters by status, participant and creation date
+ * - Pages through long histories with "Load more"
+ * - Opens a debate on click
+ *
+ * @example
+ * ```tsx
+ * <DebateHistory
+ *   client={apiClient}
+ *   participants={Object.values(AGENTS)}
+ *   onOpen={(debateId) => navigate(debateRoute(debateId))}
+ * />
+ * ```
+ */
+export const DebateHistory = ({ client, participants, onOpen }: DebateHistoryProps) => {
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<DebateStatus | ''>('');
+  const [participant, setParticipant] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [sort, setSort] = useState<SortOption>('newest');
+  const question = useDebouncedValue(search.trim(), SEARCH_DEBOUNCE_MS);
+
+  const searchId = useId();
+  const statusId = useId();
+  const participantId = useId();
+  const fromId = useId();
+  const toId = useId();
+  const sortId = useId();
+
+  const query = useMemo((): DebateListQuery => {
+    const { sortBy, sortOrder } = SORTS[sort];
+    return {
+      sortBy,
+      sortOrder,
+      ...(question !== '' && { question }),
+      ...(status !== '' && { status: [status] }),
+      ...(participant !== '' && { participants: [participant] }),
+      ...(from !== '' && { createdAfter: startOfDay(from) }),
+      // The end date is inclusive
+      ...(to !== '' && { createdBefore: startOfDay(to, 1) }),
+    };
+  }, [question, status, participant, from, to, sort]);
+
+  const { debates, status: loadStatus, error, hasMore, loadMore, reload } = useDebateHistory(client, query);
+
+  const names = useMemo(
+    () => new Map(participants.map(({ id, name }) => [id, name])),
+    [participants]
+  );
+  const filtered = question !== '' || status !== '' || participant !== '' || from !== '' || to !== '';
+
+  return (
+    <section aria-labelledby={`${searchId}-title`} className="space-y-4">
+      <h2 id={`${searchId}-title`} className="text-xl font-bold">Debate History</h2>
+
+      <div className="card p-3 grid grid-cols-2 md:grid-cols-3 gap-3 text-xs">
+        <div className="col-span-2 md:col-span-3 flex flex-col gap-1">
+          <label htmlFor={searchId} className="text-muted">Search questions</label>
+          <input
+            id={searchId}
+            type="search"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+            }}
+            placeholder="e.g. microservices"
+            className="px-3 py-1.5 rounded border border-light bg-surface"
+          />
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label htmlFor={statusId} className="text-muted">Status</label>
+          <select
+            id={statusId}
+            value={status}
+            onChange={(e) => {
+              const parsed = DebateStatusSchema.safeParse(e.target.value);
+              setStatus(parsed.success ? parsed.data : '');
+            }}
+            className="px-2 py-1.5 rounded border border-light bg-surface capitalize"
+          >
+            <option value="">All statuses</option>
+            {DebateStatusSchema.options.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label htmlFor={participantId} className="text-muted">Participant</label>
+          <select
+            id={participantId}
+            value={participant}
+            onChange={(e) => {
+              setParticipant(e.target.value);
+            }}
+            className="px-2 py-1.5 rounded border border-light bg-surface"
+          >
+            <option value="">Any participant</option>
+            {participants.map(({ id, name }) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label htmlFor={sortId} className="text-muted">Sort by</label>
+          <select
+            id={sortId}
+            value={sort}
+            onChange={(e) => {
+              if (isSortOption(e.target.value)) setSort(e.target.value);
+            }}
+            className="px-2 py-1.5 rounded border border-light bg-surface"
+          >
+            {Object.entries(SORTS).map(([value, { label }]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label htmlFor={fromId} className="text-muted">Created from</label>
+          <input
+            id={fromId}
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => {
+              setFrom(e.target.value);
+            }}
+            className="px-2 py-1.5 rounded border border-light bg-surface"
+          />
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label htmlFor={toId} className="text-muted">Created to</label>
+          <input
+            id={toId}
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => {
+              setTo(e.target.value);
+            }}
+            className="px-2 py-1.5 rounded border border-light bg-surface"
+          />
+        </div>
+      </div>
+
+      {error !== null && (
+        <ErrorDisplay
+          error={error}
+          onRetry={() => {
+            void reload();
+          }}
+        />
+      )}
+
+      {loadStatus === 'loaded' && debates.length === 0 && (
+        <p className="text-sm text-muted text-center py-6">
+          {filtered ? 'No debates match these filters.' : 'No debates yet. Start one to see it here.'}
+        </p>
+      )}
+
+      {debates.length > 0 && (
+        <ul className="space-y-2" aria-label="Debates">
+          {debates.map((debate) => (
+            <HistoryItem key={debate.debateId} debate={debate} names={names} onOpen={onOpen} />
+          ))}
+        </ul>
+      )}
+
+      {loadStatus === 'loading' && (
+        <p role="status" className="text-xs text-muted text-center">Loading debates...</p>
+      )}
+
+      {hasMore && loadStatus === 'loaded' && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => {
+              void loadMore();
+            }}
+            className="btn-secondary text-xs py-1.5 px-4"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
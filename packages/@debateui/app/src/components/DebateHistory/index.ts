@@ -0,0 +1 @@
+export { DebateHistory, type DebateHistoryProps, type HistoryParticipant } from './DebateHistory';
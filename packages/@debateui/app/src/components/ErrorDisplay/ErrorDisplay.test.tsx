@@ -308,6 +308,55 @@ describe('ErrorDisplay', () => {
     });
   });
 
+  describe('ServiceUnavailableError', () => {
+    it('renders ServiceUnavailableError with the time until the next attempt', () => {
+      const error: ApiError = {
+        _tag: 'ServiceUnavailableError',
+        message: 'The service is degraded; requests are paused',
+        retryAfterMs: 12500,
+      };
+
+      render(<ErrorDisplay error={error} />);
+
+      expect(screen.getByRole('heading', { name: /service unavailable/i })).toBeInTheDocument();
+      expect(screen.getByText(/requests are paused/i)).toBeInTheDocument();
+      expect(screen.getByText(/try again in 13 seconds/i)).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /retry/i })).toBeInTheDocument();
+    });
+  });
+
+  describe('CancelledError', () => {
+    it('renders CancelledError without a retry button', () => {
+      const error: ApiError = {
+        _tag: 'CancelledError',
+        message: 'The request was cancelled',
+      };
+
+      render(<ErrorDisplay error={error} />);
+
+      expect(screen.getByRole('heading', { name: /request cancelled/i })).toBeInTheDocument();
+      expect(screen.getByText(/the request was cancelled/i)).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /retry/i })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('DebateFailedError', () => {
+    it('renders a failed debate without an HTTP status or retry button', () => {
+      const error: ApiError = {
+        _tag: 'DebateFailedError',
+        debateId: 'c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+        message: 'Debate c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11 ended with an error',
+      };
+
+      render(<ErrorDisplay error={error} onRetry={vi.fn()} />);
+
+      expect(screen.getByRole('heading', { name: /debate failed/i })).toBeInTheDocument();
+      expect(screen.getByText(/ended with an error/i)).toBeInTheDocument();
+      expect(screen.queryByText(/status code/i)).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /retry/i })).not.toBeInTheDocument();
+    });
+  });
+
   describe('ServerError', () => {
     it('renders ServerError with status code', () => {
       const error: ApiError = {
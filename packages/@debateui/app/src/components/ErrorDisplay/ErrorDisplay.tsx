@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import type { ApiError } from '@debateui/core';
+import { isRecoverableError, type ApiError } from '@debateui/core';
 
 export interface ErrorDisplayProps {
   error: ApiError;
@@ -59,16 +59,6 @@ export const ErrorDisplay = ({ error, onRetry }: ErrorDisplayProps) => {
     }
   };
 
-  // Determine if error is recoverable (should show retry button)
-  const isRecoverable = (err: ApiError): boolean => {
-    return (
-      err._tag === 'NetworkError' ||
-      err._tag === 'ServerError' ||
-      err._tag === 'ConflictError' ||
-      err._tag === 'RateLimitError'
-    );
-  };
-
   // Render error icon based on type
   const renderIcon = () => {
     const iconClass = 'w-6 h-6';
@@ -328,6 +318,36 @@ export const ErrorDisplay = ({ error, onRetry }: ErrorDisplayProps) => {
           </div>
         );
 
+      case 'ServiceUnavailableError':
+        return (
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Service Unavailable</h3>
+            <p className="mt-2 text-sm text-gray-600">{error.message}</p>
+            <p className="mt-2 text-sm text-gray-500">
+              The server is having trouble. Try again in {Math.ceil(error.retryAfterMs / 1000)} seconds.
+            </p>
+          </div>
+        );
+
+      case 'CancelledError':
+        return (
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Request Cancelled</h3>
+            <p className="mt-2 text-sm text-gray-600">{error.message}</p>
+          </div>
+        );
+
+      case 'DebateFailedError':
+        return (
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Debate Failed</h3>
+            <p className="mt-2 text-sm text-gray-600">{error.message}</p>
+            <p className="mt-2 text-sm text-gray-500">
+              The debate stopped on the server. Start a new debate to try again.
+            </p>
+          </div>
+        );
+
       default: {
         // Exhaustiveness check - ensures all error types are handled
         const exhaustiveCheck: never = error;
@@ -356,7 +376,7 @@ export const ErrorDisplay = ({ error, onRetry }: ErrorDisplayProps) => {
         <div className="flex-1 min-w-0">{renderContent()}</div>
       </div>
 
-      {isRecoverable(error) && error._tag !== 'RateLimitError' && (
+      {isRecoverableError(error) && error._tag !== 'RateLimitError' && (
         <div className="mt-6">
           <button
             onClick={handleRetry}
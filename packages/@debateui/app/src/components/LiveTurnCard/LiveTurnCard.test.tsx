@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { LiveTurnCard } from './LiveTurnCard';
+
+describe('LiveTurnCard', () => {
+  it('shows a typing indicator before the first token', () => {
+    render(<LiveTurnCard turn={{ participantId: 'claude-3', content: '' }} />);
+
+    expect(screen.getByRole('status', { name: 'claude-3 is thinking' })).toBeInTheDocument();
+    expect(screen.getByText('thinking')).toBeInTheDocument();
+    expect(screen.queryByTestId('turn-content')).not.toBeInTheDocument();
+  });
+
+  it('shows the streamed content', () => {
+    render(<LiveTurnCard turn={{ participantId: 'claude-3', content: 'I would argue' }} />);
+
+    expect(screen.getByTestId('turn-content')).toHaveTextContent('I would argue');
+    expect(screen.getByText('typing')).toBeInTheDocument();
+    expect(screen.queryByTestId('typing-indicator')).not.toBeInTheDocument();
+  });
+
+  it('marks the card as busy', () => {
+    render(<LiveTurnCard turn={{ participantId: 'claude-3', content: 'I would argue' }} />);
+
+    const card = screen.getByRole('article', { name: 'Turn by claude-3 (in progress)' });
+    expect(card).toHaveAttribute('aria-busy', 'true');
+  });
+});
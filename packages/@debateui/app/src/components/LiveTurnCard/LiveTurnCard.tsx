@@ -0,0 +1,49 @@
+import type { InProgressTurn } from '@debateui/core';
+
+export interface LiveTurnCardProps {
+  turn: InProgressTurn;
+}
+
+/**
+ * LiveTurnCard shows a turn while it is still being generated.
+ * Before the first token arrives it shows a typing indicator; afterwards the
+ * streamed text is shown with a blinking caret. Replaced by a TurnCard once
+ * the final turn arrives.
+ */
+export function LiveTurnCard({ turn }: LiveTurnCardProps) {
+  const { participantId, content } = turn;
+  const isThinking = content.length === 0;
+
+  return (
+    <article
+      className="rounded-lg border-2 border-dashed border-blue-200 bg-blue-50/50 p-4 shadow-sm"
+      aria-label={`Turn by ${participantId} (in progress)`}
+      aria-busy="true"
+    >
+      {/* Header: Participant Info */}
+      <div className="mb-3 flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-700">{participantId}</span>
+        <span className="text-xs text-gray-500">{isThinking ? 'thinking' : 'typing'}</span>
+      </div>
+
+      {/* Content */}
+      {isThinking ? (
+        <div
+          role="status"
+          aria-label={`${participantId} is thinking`}
+          className="flex items-center gap-1"
+          data-testid="typing-indicator"
+        >
+          <span className="h-2 w-2 animate-bounce rounded-full bg-blue-400" />
+          <span className="h-2 w-2 animate-bounce rounded-full bg-blue-400 [animation-delay:150ms]" />
+          <span className="h-2 w-2 animate-bounce rounded-full bg-blue-400 [animation-delay:300ms]" />
+        </div>
+      ) : (
+        <div className="whitespace-pre-wrap text-gray-800" data-testid="turn-content">
+          {content}
+          <span aria-hidden="true" className="ml-0.5 inline-block h-4 w-1.5 animate-pulse bg-gray-500 align-middle" />
+        </div>
+      )}
+    </article>
+  );
+}
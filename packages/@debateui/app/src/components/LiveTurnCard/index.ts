@@ -0,0 +1,2 @@
+export { LiveTurnCard } from './LiveTurnCard';
+export type { LiveTurnCardProps } from './LiveTurnCard';
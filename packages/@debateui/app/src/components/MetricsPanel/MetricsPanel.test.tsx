@@ -128,6 +128,33 @@ describe('MetricsPanel', () => {
     expect(screen.getByText('Current Round')).toBeInTheDocument();
   });
 
+  it('shows round progress against the configured rounds', () => {
+    startDebate();
+    const store = useDebateStore.getState();
+    store.completeRound(1);
+
+    render(<MetricsPanel />);
+
+    expect(screen.getByText('2 of 4')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar', { name: 'Round progress' })).toHaveAttribute(
+      'aria-valuenow',
+      '2'
+    );
+  });
+
+  it('shows the last played round once the debate is completed', () => {
+    startDebate();
+    const store = useDebateStore.getState();
+    store.receiveTurn(mockTurn1);
+    store.completeRound(1);
+    store.receiveTurn(mockTurn2);
+    store.completeDebate(mockConsensus);
+
+    render(<MetricsPanel />);
+
+    expect(screen.getByText('2 of 4')).toBeInTheDocument();
+  });
+
   it('displays consensus when available', async () => {
     startDebate();
     const store = useDebateStore.getState();
@@ -1,4 +1,5 @@
-import { useTurns, useCurrentRound, useTurnCount, useDebateStore } from '@debateui/state';
+import type { ReactNode } from 'react';
+import { useTurns, useCurrentRound, useTotalRounds, useTurnCount, useDebateStore } from '@debateui/state';
 import * as O from 'fp-ts/Option';
 import type { TurnResponse, ConsensusResult } from '@debateui/core';
 
@@ -9,7 +10,8 @@ import type { TurnResponse, ConsensusResult } from '@debateui/core';
  */
 export function MetricsPanel() {
   const turns = useTurns();
-  const currentRound = useCurrentRound();
+  const round = useCurrentRound();
+  const totalRounds = useTotalRounds();
   const turnCount = useTurnCount();
 
   // Get consensus directly from debate state to avoid Option reference issues
@@ -17,6 +19,8 @@ export function MetricsPanel() {
   const consensus: O.Option<ConsensusResult> =
     debate._tag === 'Completed' ? O.some(debate.consensus) : O.none;
 
+  const roundProgress = totalRounds > 0 ? Math.min(100, (round / totalRounds) * 100) : 0;
+
   // Calculate aggregate metrics from turns
   const totalTokens = turns.reduce((sum: number, turn: TurnResponse) => sum + turn.tokensUsed, 0);
   const totalCost = turns.reduce((sum: number, turn: TurnResponse) => sum + turn.costUsd, 0);
@@ -41,7 +45,21 @@ export function MetricsPanel() {
         <MetricCard label="Total Turns" value={turnCount.toString()} />
 
         {/* Current Round */}
-        <MetricCard label="Current Round" value={currentRound.toString()} />
+        <MetricCard label="Current Round" value={`${String(round)} of ${String(totalRounds)}`}>
+          <div
+            role="progressbar"
+            aria-label="Round progress"
+            aria-valuemin={0}
+            aria-valuemax={totalRounds}
+            aria-valuenow={round}
+            className="mt-2 h-1.5 overflow-hidden rounded-full bg-gray-200"
+          >
+            <div
+              className="h-full rounded-full bg-blue-500 transition-all"
+              style={{ width: `${String(roundProgress)}%` }}
+            />
+          </div>
+        </MetricCard>
 
         {/* Total Tokens */}
         <MetricCard label="Total Tokens" value={totalTokens.toString()} />
@@ -70,13 +88,15 @@ export function MetricsPanel() {
 interface MetricCardProps {
   label: string;
   value: string;
+  children?: ReactNode;
 }
 
-function MetricCard({ label, value }: MetricCardProps) {
+function MetricCard({ label, value, children }: MetricCardProps) {
   return (
     <div className="rounded-md border border-gray-100 bg-gray-50 p-3">
       <div className="text-xs font-medium text-gray-500 uppercase tracking-wide">{label}</div>
       <div className="mt-1 text-2xl font-bold text-gray-900">{value}</div>
+      {children}
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import { Timeline } from './Timeline';
 import type { TurnResponse } from '@debateui/core';
@@ -6,6 +6,7 @@ import type { TurnResponse } from '@debateui/core';
 // Mock the state selectors
 vi.mock('@debateui/state', () => ({
   useTurns: vi.fn(),
+  useInProgressTurns: vi.fn(() => new Map()),
   useIsDebateRunning: vi.fn(),
 }));
 
@@ -18,9 +19,10 @@ vi.mock('../TurnCard', () => ({
   ),
 }));
 
-import { useTurns, useIsDebateRunning } from '@debateui/state';
+import { useTurns, useInProgressTurns, useIsDebateRunning } from '@debateui/state';
 
 const mockUseTurns = useTurns as ReturnType<typeof vi.fn>;
+const mockUseInProgressTurns = useInProgressTurns as ReturnType<typeof vi.fn>;
 const mockUseIsDebateRunning = useIsDebateRunning as ReturnType<typeof vi.fn>;
 
 describe('Timeline', () => {
@@ -184,6 +186,111 @@ describe('Timeline', () => {
     });
   });
 
+  describe('Streaming Turns', () => {
+    const finalTurn: TurnResponse = {
+      turnId: '123e4567-e89b-12d3-a456-426614174001',
+      branchId: '123e4567-e89b-12d3-a456-426614174000',
+      participantId: 'claude-3',
+      participantType: 'model',
+      content: 'First turn response',
+      tokensUsed: 150,
+      costUsd: 0.005,
+      latencyMs: 250,
+      createdAt: '2024-01-01T10:00:00Z',
+    };
+
+    it('shows turns in progress after the completed turns', () => {
+      mockUseTurns.mockReturnValue([finalTurn]);
+      mockUseInProgressTurns.mockReturnValueOnce(
+        new Map([['gpt-4', { participantId: 'gpt-4', content: 'I disagree' }]])
+      );
+      mockUseIsDebateRunning.mockReturnValue(true);
+
+      render(<Timeline />);
+
+      const items = screen.getAllByRole('listitem');
+      expect(items).toHaveLength(2);
+      expect(items[0]).toHaveTextContent('First turn response');
+      expect(items[1]).toHaveTextContent('I disagree');
+      expect(screen.getByRole('article', { name: 'Turn by gpt-4 (in progress)' })).toBeInTheDocument();
+    });
+
+    it('shows a thinking participant instead of the waiting state', () => {
+      mockUseTurns.mockReturnValue([]);
+      mockUseInProgressTurns.mockReturnValueOnce(
+        new Map([['gpt-4', { participantId: 'gpt-4', content: '' }]])
+      );
+      mockUseIsDebateRunning.mockReturnValue(true);
+
+      render(<Timeline />);
+
+      expect(screen.queryByText('Waiting for first turn...')).not.toBeInTheDocument();
+      expect(screen.getByRole('status', { name: 'gpt-4 is thinking' })).toBeInTheDocument();
+    });
+  });
+
+  describe('Deep-linked Turns', () => {
+    afterEach(() => {
+      // jsdom has no scrollIntoView, so drop the stub a test defined
+      Reflect.deleteProperty(window.HTMLElement.prototype, 'scrollIntoView');
+    });
+
+    const linkedTurns: TurnResponse[] = [
+      {
+        turnId: '123e4567-e89b-12d3-a456-426614174001',
+        branchId: '123e4567-e89b-12d3-a456-426614174000',
+        participantId: 'claude-3',
+        participantType: 'model',
+        content: 'First turn',
+        tokensUsed: 150,
+        costUsd: 0.005,
+        latencyMs: 250,
+        createdAt: '2024-01-01T10:00:00Z',
+      },
+      {
+        turnId: '123e4567-e89b-12d3-a456-426614174002',
+        branchId: '123e4567-e89b-12d3-a456-426614174000',
+        participantId: 'gpt-4',
+        participantType: 'model',
+        content: 'Second turn',
+        tokensUsed: 200,
+        costUsd: 0.008,
+        latencyMs: 300,
+        createdAt: '2024-01-01T10:01:00Z',
+      },
+    ];
+
+    it('gives each turn an anchor id', () => {
+      mockUseTurns.mockReturnValue(linkedTurns);
+      mockUseIsDebateRunning.mockReturnValue(false);
+
+      const { container } = render(<Timeline />);
+
+      expect(container.querySelector('#turn-123e4567-e89b-12d3-a456-426614174001')).toBeInTheDocument();
+      expect(container.querySelector('#turn-123e4567-e89b-12d3-a456-426614174002')).toBeInTheDocument();
+    });
+
+    it('marks and scrolls to the highlighted turn instead of the latest', () => {
+      mockUseTurns.mockReturnValue(linkedTurns);
+      mockUseIsDebateRunning.mockReturnValue(false);
+      const scrollIntoView = vi.fn();
+      Object.defineProperty(window.HTMLElement.prototype, 'scrollIntoView', {
+        configurable: true,
+        value: scrollIntoView,
+      });
+
+      const { container } = render(
+        <Timeline highlightedTurnId="123e4567-e89b-12d3-a456-426614174001" />
+      );
+
+      const highlighted = container.querySelector('#turn-123e4567-e89b-12d3-a456-426614174001');
+      expect(highlighted).toHaveAttribute('aria-current', 'location');
+      expect(scrollIntoView).toHaveBeenCalledTimes(1);
+      expect(scrollIntoView.mock.contexts[0]).toBe(highlighted);
+      expect(scrollIntoView).toHaveBeenCalledWith({ behavior: 'smooth', block: 'center' });
+    });
+  });
+
   describe('Accessibility', () => {
     it('has proper ARIA attributes for list navigation', () => {
       const mockTurns: TurnResponse[] = [
@@ -1,20 +1,36 @@
 import { useEffect, useRef } from 'react';
-import { useTurns, useIsDebateRunning } from '@debateui/state';
+import { useTurns, useInProgressTurns, useIsDebateRunning } from '@debateui/state';
+import * as O from 'fp-ts/Option';
 import { TurnCard } from '../TurnCard';
+import { LiveTurnCard } from '../LiveTurnCard';
+import { useScrollToTurn } from '../../hooks/useScrollToTurn';
+import { turnAnchorId } from '../../routing';
+
+export interface TimelineProps {
+  /** Turn targeted by a `#turn-:turnId` deep link */
+  highlightedTurnId?: string;
+}
 
 /**
  * Timeline component displays the debate conversation flow.
- * Shows all turns in chronological order with auto-scrolling to latest turn.
+ * Shows all turns in chronological order with auto-scrolling to latest turn,
+ * followed by any turns still being streamed.
+ * When a turn is highlighted, it is scrolled into view instead.
  */
-export function Timeline() {
+export function Timeline({ highlightedTurnId }: TimelineProps) {
   const turns = useTurns();
+  const inProgressTurns = Array.from(useInProgressTurns().values());
   const isDebateRunning = useIsDebateRunning();
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const latestTurnRef = useRef<HTMLLIElement>(null);
+  const entryCount = turns.length + inProgressTurns.length;
+
+  useScrollToTurn(O.fromNullable(highlightedTurnId), turns.length);
 
   // Auto-scroll to latest turn when new turn arrives
   useEffect(() => {
-    if (turns.length > 0 && latestTurnRef.current) {
+    if (highlightedTurnId !== undefined) return;
+    if (entryCount > 0 && latestTurnRef.current) {
       // scrollIntoView might not be available in test environments (jsdom)
       if (typeof latestTurnRef.current.scrollIntoView === 'function') {
         latestTurnRef.current.scrollIntoView({
@@ -23,10 +39,10 @@ export function Timeline() {
         });
       }
     }
-  }, [turns.length]);
+  }, [entryCount, highlightedTurnId]);
 
   // Loading state: debate is running but no turns yet
-  if (isDebateRunning && turns.length === 0) {
+  if (isDebateRunning && entryCount === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-8 text-gray-500">
         <div
@@ -42,7 +58,7 @@ export function Timeline() {
   }
 
   // Empty state: no turns and debate is not running
-  if (turns.length === 0) {
+  if (entryCount === 0) {
     return (
       <div className="flex items-center justify-center h-full p-8 text-gray-500">
         <p className="text-lg">No turns yet. Start a debate to see the conversation.</p>
@@ -63,18 +79,30 @@ export function Timeline() {
         className="space-y-4"
       >
         {turns.map((turn, index) => {
-          const isLatest = index === turns.length - 1;
+          const isLatest = index === entryCount - 1;
+          const isHighlighted = turn.turnId === highlightedTurnId;
           return (
             <li
               key={turn.turnId}
+              id={turnAnchorId(turn.turnId)}
               ref={isLatest ? latestTurnRef : null}
               role="listitem"
-              className="transition-all duration-200"
+              aria-current={isHighlighted ? 'location' : undefined}
+              className={`transition-all duration-200 ${isHighlighted ? 'ring-2 ring-blue-500 rounded-lg' : ''}`}
             >
               <TurnCard turn={turn} />
             </li>
           );
         })}
+        {inProgressTurns.map((turn, index) => (
+          <li
+            key={`live-${turn.participantId}`}
+            ref={turns.length + index === entryCount - 1 ? latestTurnRef : null}
+            role="listitem"
+          >
+            <LiveTurnCard turn={turn} />
+          </li>
+        ))}
       </ul>
     </div>
   );
@@ -67,6 +67,16 @@ describe('TurnCard', () => {
     expect(badge).toHaveClass('rounded-full');
   });
 
+  it('shows the round a turn was played in', () => {
+    render(<TurnCard turn={{ ...mockModelTurn, round: 2 }} />);
+    expect(screen.getByText('Round 2')).toBeInTheDocument();
+  });
+
+  it('omits the round when the turn has none', () => {
+    render(<TurnCard turn={mockModelTurn} />);
+    expect(screen.queryByText(/^Round/)).not.toBeInTheDocument();
+  });
+
   it('shows metrics correctly', () => {
     render(<TurnCard turn={mockModelTurn} />);
     expect(screen.getByText(/150/)).toBeInTheDocument(); // tokens
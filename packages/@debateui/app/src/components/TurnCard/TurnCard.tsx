@@ -15,6 +15,7 @@ export function TurnCard({ turn, onFork }: TurnCardProps) {
     costUsd,
     latencyMs,
     createdAt,
+    round,
   } = turn;
 
   // Styling based on participant type
@@ -61,6 +62,9 @@ export function TurnCard({ turn, onFork }: TurnCardProps) {
             {participantType}
           </span>
           <span className="text-sm font-medium text-gray-700">{participantId}</span>
+          {round !== undefined && (
+            <span className="text-xs text-gray-500">Round {round}</span>
+          )}
         </div>
         {onFork && (
           <button
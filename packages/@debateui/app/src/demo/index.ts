@@ -0,0 +1,6 @@
+export {
+  createDebateSimulator,
+  type DebateSimulator,
+  type DebateSimulatorOptions,
+  type SimulatedAgent,
+} from './simulator';
@@ -0,0 +1,138 @@
+import type { ConsensusResult, DebateConfig } from '@debateui/core';
+
+/**
+ * Deterministic random source, yielding numbers in [0, 1)
+ */
+export type Random = () => number;
+
+/**
+ * Seeded random source (mulberry32), so a seed always plays the same debate
+ *
+ * @param seed - Any integer
+ * @returns Random source
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Seed for a debate: the same question and panel play the same debate
+ *
+ * @param seed - Seed of the simulator
+ * @param config - Configuration of the debate
+ * @returns Seed for the debate's random source
+ */
+export const debateSeed = (seed: number, config: DebateConfig): number =>
+  [config.question, ...config.participants, String(config.rounds)]
+    .join('|')
+    .split('')
+    .reduce((hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619), seed ^ 2166136261) >>> 0;
+
+/**
+ * Random integer in [min, max]
+ */
+export const randomInt = (random: Random, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+const pick = <A>(random: Random, items: readonly [A, ...A[]]): A =>
+  items[Math.floor(random() * items.length)] ?? items[0];
+
+/**
+ * Random UUID (v4 layout) drawn from a seeded source, so ids repeat with
+ * the seed
+ */
+export const randomUuid = (random: Random): string => {
+  const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16));
+  hex[12] = '4';
+  hex[16] = ((parseInt(hex[16] ?? '0', 16) & 0x3) | 0x8).toString(16);
+  const digits = hex.join('');
+  return `${digits.slice(0, 8)}-${digits.slice(8, 12)}-${digits.slice(12, 16)}-${digits.slice(16, 20)}-${digits.slice(20)}`;
+};
+
+const OPENINGS = [
+  (topic: string) =>
+    `My starting position on ${topic}: the answer turns less on the headline trade-off than on who carries the cost of getting it wrong. I would weigh reversibility first.`,
+  (topic: string) =>
+    `On ${topic}, I lean yes, with conditions. The strongest evidence points one way, but it was gathered in settings that may not match ours.`,
+  (topic: string) =>
+    `I want to reframe ${topic}. Before choosing a side, we should agree on what success looks like in two years, because the options optimise for different things.`,
+  (topic: string) =>
+    `Taking the sceptical side on ${topic}: the popular answer assumes costs stay flat as the approach scales, and in comparable cases they have not.`,
+] as const;
+
+const REBUTTALS = [
+  (other: string) =>
+    `I agree with ${other} on the direction but not the magnitude. The risk they describe is real, yet it is bounded, and we can add a checkpoint to catch it early.`,
+  (other: string) =>
+    `${other} makes a fair point about second-order effects. Taking it on board, I would narrow my recommendation to a staged rollout rather than a full commitment.`,
+  (other: string) =>
+    `Where I part ways with ${other} is the baseline. Comparing against doing nothing flatters every option; against the realistic alternative, the gap is smaller.`,
+  (other: string) =>
+    `Building on ${other}: the disagreement so far is mostly about timing. If we separate the decision from its schedule, most of our positions converge.`,
+] as const;
+
+const CLOSINGS = [
+  () =>
+    `Final position: proceed, but with an explicit exit criterion agreed up front. That captures most of the upside while keeping the downside recoverable.`,
+  () =>
+    `To close, I accept the panel's middle ground. My remaining reservation is measurement: without a clear metric we will not know whether it worked.`,
+  () =>
+    `My conclusion has shifted during this debate. The staged approach answers my main objection, so I now support it, with a review after the first phase.`,
+  () =>
+    `I hold my position with lower confidence than I started with. The others have shown the risk is manageable; I still think it is underpriced.`,
+] as const;
+
+/**
+ * Short form of the question to quote in a turn
+ */
+const topicOf = (question: string): string => {
+  const trimmed = question.trim().replace(/[?.!]+$/, '');
+  return `"${trimmed.length > 80 ? `${trimmed.slice(0, 77)}...` : trimmed}"`;
+};
+
+/**
+ * Scripted content of one turn.
+ * Opens with a position, answers another panellist in the middle rounds,
+ * and closes in the last round.
+ *
+ * @param random - Source of the debate
+ * @param config - Configuration of the debate
+ * @param round - Round of the turn, from 1
+ * @param other - Name of the panellist to answer
+ * @returns Text of the turn
+ */
+export const scriptTurn = (random: Random, config: DebateConfig, round: number, other: string): string => {
+  if (round === 1) {
+    return pick(random, OPENINGS)(topicOf(config.question));
+  }
+  if (round === config.rounds) {
+    return pick(random, CLOSINGS)();
+  }
+  return pick(random, REBUTTALS)(other);
+};
+
+/**
+ * Consensus the panel reaches, at a level matching its agreement
+ *
+ * @param random - Source of the debate
+ * @param participants - Number of panellists
+ * @returns Consensus result
+ */
+export const scriptConsensus = (random: Random, participants: number): ConsensusResult => {
+  const percentage = Math.round((0.62 + random() * 0.33) * 100) / 100;
+  const supporting = Math.min(participants, Math.max(1, Math.round(participants * percentage)));
+  return {
+    level: percentage >= 0.85 ? 'strong' : percentage >= 0.7 ? 'moderate' : 'weak',
+    percentage,
+    supporting,
+    dissenting: participants - supporting,
+    confidence: Math.round((0.7 + random() * 0.25) * 100) / 100,
+  };
+};
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { isTurnCompletedEvent, type StreamClient, type StreamEvent } from '@debateui/api-client';
+import { DebateResponseSchema, TurnResponseSchema, type DebateConfig } from '@debateui/core';
+import { createDebateSimulator, type DebateSimulator } from './simulator';
+
+const config: DebateConfig = {
+  question: 'Should we rewrite the billing service in Rust?',
+  participants: ['claude', 'gpt4', 'deepseek'],
+  rounds: 2,
+  consensusThreshold: 0.8,
+  forkMode: 'save',
+};
+
+const agents = {
+  claude: { name: 'Claude 3.5 Sonnet', costPerTurn: 0.015 },
+  gpt4: { name: 'GPT-4o', costPerTurn: 0.025 },
+  deepseek: { name: 'DeepSeek R1', costPerTurn: 0.008 },
+};
+
+const launch = async (simulator: DebateSimulator): Promise<string> => {
+  const created = await simulator.apiClient.debate.createDebate(config)();
+  if (E.isLeft(created)) throw new Error(created.left._tag);
+  await simulator.apiClient.debate.startDebate(created.right.debateId)();
+  return created.right.debateId;
+};
+
+const connect = async (
+  simulator: DebateSimulator,
+  debateId: string,
+  lastEventId?: string
+): Promise<{ client: StreamClient; events: StreamEvent[] }> => {
+  const events: StreamEvent[] = [];
+  const result = await simulator.createStreamClient(
+    debateId,
+    'http://localhost:3000',
+    (event) => {
+      events.push(event);
+    },
+    lastEventId === undefined ? {} : { lastEventId }
+  )();
+  if (E.isLeft(result)) throw new Error(result.left._tag);
+  return { client: result.right, events };
+};
+
+const ccrTypes = (events: readonly StreamEvent[]): string[] =>
+  events.flatMap((event) => (event.type === 'ccr' ? [event.data.eventType] : []));
+
+// Contents of the completed turns, in order
+const playedTurns = (events: readonly StreamEvent[]) =>
+  events.flatMap((event) =>
+    event.type === 'ccr' && isTurnCompletedEvent(event.data) ? [event.data.metadata.turn] : []
+  );
+
+describe('createDebateSimulator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('plays every panellist in every round to consensus', async () => {
+    const simulator = createDebateSimulator({ agents });
+    const debateId = await launch(simulator);
+    const { events } = await connect(simulator, debateId);
+
+    await vi.runAllTimersAsync();
+
+    const turns = playedTurns(events);
+    expect(turns.map((turn) => [turn.participantId, turn.round])).toEqual([
+      ['claude', 1],
+      ['gpt4', 1],
+      ['deepseek', 1],
+      ['claude', 2],
+      ['gpt4', 2],
+      ['deepseek', 2],
+    ]);
+    turns.forEach((turn) => {
+      expect(TurnResponseSchema.safeParse(turn).success).toBe(true);
+    });
+    expect(events[0]).toEqual({ type: 'hello', data: { protocolVersion: 1 } });
+    expect(events.slice(-2).map((event) => event.type)).toEqual(['consensus', 'complete']);
+
+    const debate = await simulator.apiClient.debate.getDebate(debateId)();
+    expect(E.isRight(debate) && DebateResponseSchema.safeParse(debate.right).success).toBe(true);
+    expect(debate).toMatchObject(E.right({ status: 'completed', currentRound: 2, turns }));
+  });
+
+  it('streams turns in chunks with model, token and cost events', async () => {
+    const simulator = createDebateSimulator({ agents });
+    const debateId = await launch(simulator);
+    const { events } = await connect(simulator, debateId);
+
+    await vi.runAllTimersAsync();
+
+    const firstTurn = ccrTypes(events).slice(2, 13);
+    expect(firstTurn).toEqual([
+      'turn.started',
+      'model.api.call',
+      ...Array<string>(6).fill('turn.streaming'),
+      'model.api.response',
+      'token.usage',
+      'turn.completed',
+    ]);
+    const deltas = events.flatMap((event) =>
+      event.type === 'ccr' && event.data.eventType === 'turn.streaming' && event.data.agent === 'claude'
+        ? [String(event.data.metadata?.['delta'])]
+        : []
+    );
+    expect(deltas.slice(0, 6).join('')).toBe(playedTurns(events)[0]?.content);
+  });
+
+  it('prices turns around the cost of each agent', async () => {
+    const simulator = createDebateSimulator({ agents });
+    const debateId = await launch(simulator);
+    await vi.runAllTimersAsync();
+
+    const turns = await simulator.apiClient.debate.getTurns(debateId)();
+
+    expect(E.isRight(turns)).toBe(true);
+    (E.isRight(turns) ? turns.right : []).forEach((turn) => {
+      const { costPerTurn } = agents[turn.participantId as keyof typeof agents];
+      expect(turn.costUsd).toBeGreaterThanOrEqual(costPerTurn * 0.8 - 0.0001);
+      expect(turn.costUsd).toBeLessThanOrEqual(costPerTurn * 1.2 + 0.0001);
+    });
+  });
+
+  it('plays the same debate for the same seed', async () => {
+    const play = async (seed: number) => {
+      const simulator = createDebateSimulator({ agents, seed });
+      const debateId = await launch(simulator);
+      await vi.runAllTimersAsync();
+      const debate = await simulator.apiClient.debate.getDebate(debateId)();
+      return E.isRight(debate)
+        ? { consensus: debate.right.consensus, turns: debate.right.turns.map(({ createdAt: _, ...turn }) => turn) }
+        : undefined;
+    };
+
+    const first = await play(7);
+
+    expect(await play(7)).toEqual(first);
+    expect(await play(8)).not.toEqual(first);
+  });
+
+  it('holds the script while paused', async () => {
+    const simulator = createDebateSimulator({ agents });
+    const debateId = await launch(simulator);
+    const { events } = await connect(simulator, debateId);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await simulator.apiClient.debate.pauseDebate(debateId)();
+    const received = events.length;
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(events).toHaveLength(received);
+
+    await simulator.apiClient.debate.resumeDebate(debateId)();
+    await vi.runAllTimersAsync();
+
+    expect(events.at(-1)?.type).toBe('complete');
+  });
+
+  it('resumes a stream after the last event id', async () => {
+    const simulator = createDebateSimulator({ agents });
+    const debateId = await launch(simulator);
+    const first = await connect(simulator, debateId);
+    await vi.advanceTimersByTimeAsync(5000);
+    first.client.close();
+
+    const lastEventId = first.client.getLastEventId();
+    const resumed = await connect(simulator, debateId, O.toUndefined(lastEventId));
+    await vi.runAllTimersAsync();
+
+    const all = await connect(simulator, debateId);
+    await vi.runAllTimersAsync();
+    // Both skip the hello event of their connection
+    expect([...first.events.slice(1), ...resumed.events.slice(1)]).toEqual(all.events.slice(1));
+  });
+
+  it('speeds up playback', async () => {
+    const simulator = createDebateSimulator({ agents, speed: 100 });
+    const debateId = await launch(simulator);
+    const { events } = await connect(simulator, debateId);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(events.at(-1)?.type).toBe('complete');
+  });
+
+  it('lists the debates it played', async () => {
+    const simulator = createDebateSimulator({ agents });
+    const debateId = await launch(simulator);
+    await vi.runAllTimersAsync();
+
+    expect(await simulator.apiClient.debate.listDebates({ status: ['completed'] })()).toMatchObject(
+      E.right({ debates: [{ debateId, participants: config.participants, status: 'completed' }], nextCursor: null })
+    );
+    expect(await simulator.apiClient.debate.listDebates({ question: 'kotlin' })()).toEqual(
+      E.right({ debates: [], nextCursor: null })
+    );
+  });
+
+  it('rejects unknown debates', async () => {
+    const simulator = createDebateSimulator({ agents });
+
+    expect(await simulator.apiClient.debate.getDebate('missing')()).toMatchObject(
+      E.left({ _tag: 'NotFoundError', resource: 'debate' })
+    );
+    expect(await simulator.createStreamClient('missing', '', () => undefined, {})()).toMatchObject(
+      E.left({ _tag: 'NotFoundError' })
+    );
+    expect(simulator.hasDebate('missing')).toBe(false);
+  });
+
+  it('forks at a turn and deletes explore branches', async () => {
+    const simulator = createDebateSimulator({ agents });
+    const debateId = await launch(simulator);
+    await vi.runAllTimersAsync();
+    const turns = await simulator.apiClient.debate.getTurns(debateId)();
+    const turnId = E.isRight(turns) ? turns.right[0]?.turnId ?? '' : '';
+
+    const fork = await simulator.apiClient.branch.createFork(debateId, turnId, {
+      content: 'What if the team has no Rust experience?',
+      forkMode: 'explore',
+    })();
+
+    expect(fork).toMatchObject(E.right({ forkTurnId: turnId, depth: 1, name: 'Fork of Main' }));
+    const branchId = E.isRight(fork) ? fork.right.branchId : '';
+    expect(await simulator.apiClient.branch.getBranchTurns(debateId, branchId)()).toMatchObject(
+      E.right([{ participantType: 'human', content: 'What if the team has no Rust experience?' }])
+    );
+    expect(await simulator.apiClient.branch.mergeBranch(debateId, branchId)()).toMatchObject(
+      E.left({ _tag: 'ConflictError' })
+    );
+    expect(await simulator.apiClient.branch.deleteBranch(debateId, branchId)()).toEqual(E.right(undefined));
+    expect(await simulator.apiClient.branch.listBranches(debateId)()).toMatchObject(E.right([{ name: 'Main' }]));
+  });
+});
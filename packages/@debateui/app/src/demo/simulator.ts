@@ -0,0 +1,522 @@
+import * as TE from 'fp-ts/TaskEither';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { pipe } from 'fp-ts/function';
+import {
+  chunkText,
+  conflictError,
+  createScriptPlayer,
+  notFoundError,
+  queryDebates,
+  scriptedDebate,
+  validationError,
+  type BranchInfo,
+  type DebateConfig,
+  type DebateEventEntry,
+  type ScriptedDebate,
+  type ScriptedTurn,
+  type ScriptStep,
+  type TimedScriptStep,
+  type TurnResponse,
+} from '@debateui/core';
+import {
+  STREAM_PROTOCOL_VERSION,
+  type ApiClient,
+  type CCREventType,
+  type StreamClient,
+  type StreamEvent,
+} from '@debateui/api-client';
+import type { StreamClientFactory } from '../hooks/useDebateStream';
+import {
+  createRandom,
+  debateSeed,
+  randomInt,
+  randomUuid,
+  scriptConsensus,
+  scriptTurn,
+  type Random,
+} from './script';
+
+/**
+ * What the simulator needs to know about a panellist
+ */
+export interface SimulatedAgent {
+  readonly name: string;
+  /** Typical cost of one turn in USD; simulated turns vary around it */
+  readonly costPerTurn: number;
+}
+
+/**
+ * Options for the debate simulator
+ */
+export interface DebateSimulatorOptions {
+  /** Panellists by participant id; unknown ids play under their id */
+  agents?: Readonly<Record<string, SimulatedAgent>>;
+  /** Seed of the simulator; with the same seed a config plays the same debate */
+  seed?: number;
+  /** Playback speed: 2 plays twice as fast */
+  speed?: number;
+  /** Clock for timestamps, defaults to `Date.now` */
+  now?: () => number;
+}
+
+/**
+ * In-browser stand-in for the backend, for demos without API keys
+ */
+export interface DebateSimulator {
+  /** Debate and branch APIs answered by the simulator */
+  readonly apiClient: ApiClient;
+  /** Stream client factory for `useDebateStream`, fed by the simulator */
+  readonly createStreamClient: StreamClientFactory;
+  /** Whether a debate was created by this simulator */
+  readonly hasDebate: (debateId: string) => boolean;
+}
+
+/**
+ * A turn as scripted before the debate plays, down to its cost
+ */
+interface SimulatedTurn extends ScriptedTurn {
+  readonly turnId: string;
+  readonly chunks: readonly string[];
+  readonly latencyMs: number;
+  readonly promptTokens: number;
+  readonly tokensUsed: number;
+  readonly costUsd: number;
+  readonly confidence: number;
+  readonly requestId: string;
+}
+
+type Step = ScriptStep<SimulatedTurn>;
+
+type TimedStep = TimedScriptStep<SimulatedTurn>;
+
+interface SimulatedDebate extends ScriptedDebate<StreamEvent, SimulatedTurn> {
+  readonly random: Random;
+  totalCostUsd: number;
+  totalTokens: number;
+}
+
+const CHUNKS_PER_TURN = 6;
+const PAUSE_BETWEEN_ROUNDS_MS = 800;
+
+/**
+ * Script a whole debate up front, so its content depends on the seed only
+ */
+const scriptDebate = (
+  random: Random,
+  config: DebateConfig,
+  nameOf: (participantId: string) => string,
+  costOf: (participantId: string) => number
+): TimedStep[] => {
+  const steps: TimedStep[] = [];
+  const { participants } = config;
+
+  for (let round = 1; round <= config.rounds; round++) {
+    steps.push({ delayMs: round === 1 ? 0 : PAUSE_BETWEEN_ROUNDS_MS, step: { kind: 'roundStarted', round } });
+
+    participants.forEach((participantId, index) => {
+      const other = participants[(index + participants.length - 1) % participants.length] ?? participantId;
+      const content = scriptTurn(random, config, round, nameOf(other));
+      const tokensUsed = Math.ceil(content.split(' ').length * 1.3);
+      const turn: SimulatedTurn = {
+        turnId: randomUuid(random),
+        participantId,
+        round,
+        content,
+        chunks: chunkText(content, CHUNKS_PER_TURN),
+        latencyMs: randomInt(random, 1500, 4000),
+        promptTokens: 350 + (round - 1) * participants.length * 120 + randomInt(random, 0, 80),
+        tokensUsed,
+        costUsd: Math.round(costOf(participantId) * (0.8 + random() * 0.4) * 10000) / 10000,
+        confidence: Math.round((0.65 + random() * 0.3) * 100) / 100,
+        requestId: randomUuid(random),
+      };
+      const chunkDelayMs = Math.floor(turn.latencyMs / (turn.chunks.length + 1));
+
+      steps.push({ delayMs: 200, step: { kind: 'turnStarted', turn } });
+      turn.chunks.forEach((delta) => {
+        steps.push({ delayMs: chunkDelayMs, step: { kind: 'turnDelta', turn, delta } });
+      });
+      steps.push({ delayMs: chunkDelayMs, step: { kind: 'turnCompleted', turn } });
+    });
+
+    const agreement = Math.round((0.45 + (round / config.rounds) * 0.3 + random() * 0.15) * 100) / 100;
+    steps.push({ delayMs: 300, step: { kind: 'roundCompleted', round, agreement } });
+  }
+
+  steps.push({ delayMs: 600, step: { kind: 'consensus', consensus: scriptConsensus(random, participants.length) } });
+  return steps;
+};
+
+/**
+ * Creates a simulator playing seeded, scripted debates in the browser.
+ *
+ * Started debates play round by round: every panellist's turn streams in
+ * chunks with CCR events for the model call, token usage and running cost,
+ * and the debate ends with a consensus. Turn content, latencies and costs
+ * follow from the seed and the debate's config, so a demo plays the same
+ * way every time.
+ *
+ * Branches can be forked and explore branches deleted, but forks are not
+ * played further and merging is not supported.
+ *
+ * @param options - Panellists, seed, speed and clock
+ * @returns Simulator with an API client and a stream client factory
+ *
+ * @example
+ * ```typescript
+ * const simulator = createDebateSimulator({ agents: AGENTS });
+ * const { debateId } = await simulator.apiClient.debate.createDebate(config)();
+ * useDebateStream(API_BASE_URL, { createClient: simulator.createStreamClient });
+ * ```
+ */
+export const createDebateSimulator = (options: DebateSimulatorOptions = {}): DebateSimulator => {
+  const { agents = {}, seed = 1, speed = 1, now = Date.now } = options;
+  const idRandom = createRandom(seed);
+
+  const timestamp = (): string => new Date(now()).toISOString();
+  const nameOf = (participantId: string): string => agents[participantId]?.name ?? participantId;
+  const costOf = (participantId: string): number => agents[participantId]?.costPerTurn ?? 0.01;
+
+  const ccrEvent = (
+    debate: SimulatedDebate,
+    eventType: CCREventType,
+    message: string,
+    agent?: string,
+    metadata?: Record<string, unknown>
+  ): StreamEvent => ({
+    type: 'ccr',
+    data: {
+      eventId: `${debate.debateId}-${String(debate.events.length + 1)}`,
+      timestamp: now(),
+      eventType,
+      agent,
+      message,
+      metadata,
+    },
+  });
+
+  const play = (debate: SimulatedDebate, step: Step, emit: (event: StreamEvent) => void): void => {
+    const emitCCR = (
+      eventType: CCREventType,
+      message: string,
+      agent?: string,
+      metadata?: Record<string, unknown>
+    ): void => {
+      emit(ccrEvent(debate, eventType, message, agent, metadata));
+    };
+
+    switch (step.kind) {
+      case 'roundStarted':
+        debate.currentRound = step.round;
+        emitCCR('debate.round.started', `Round ${String(step.round)} of ${String(debate.config.rounds)} started`, undefined, {
+          round: step.round,
+        });
+        return;
+      case 'turnStarted': {
+        const { participantId, requestId } = step.turn;
+        emitCCR('turn.started', `${nameOf(participantId)} is responding`, participantId);
+        emitCCR('model.api.call', `Calling ${nameOf(participantId)}`, participantId, {
+          model: nameOf(participantId),
+          requestId,
+        });
+        return;
+      }
+      case 'turnDelta':
+        emitCCR('turn.streaming', 'Streaming', step.turn.participantId, { delta: step.delta });
+        return;
+      case 'turnCompleted': {
+        const scripted = step.turn;
+        const { participantId } = scripted;
+        const turn: TurnResponse = {
+          turnId: scripted.turnId,
+          branchId: debate.mainBranchId,
+          participantId,
+          participantType: 'model',
+          content: scripted.content,
+          confidence: scripted.confidence,
+          tokensUsed: scripted.tokensUsed,
+          costUsd: scripted.costUsd,
+          latencyMs: scripted.latencyMs,
+          createdAt: timestamp(),
+          round: scripted.round,
+        };
+        debate.turns.push(turn);
+        debate.totalCostUsd += turn.costUsd;
+        debate.totalTokens += scripted.promptTokens + turn.tokensUsed;
+
+        emitCCR('model.api.response', `${nameOf(participantId)} responded`, participantId, {
+          model: nameOf(participantId),
+          requestId: scripted.requestId,
+          latencyMs: scripted.latencyMs,
+        });
+        emitCCR('token.usage', 'Token usage', participantId, {
+          promptTokens: scripted.promptTokens,
+          completionTokens: scripted.tokensUsed,
+        });
+        emitCCR('turn.completed', `${nameOf(participantId)} finished`, participantId, { turn });
+        emitCCR('cost.update', 'Cost updated', undefined, {
+          totalCostUsd: Math.round(debate.totalCostUsd * 10000) / 10000,
+          totalTokens: debate.totalTokens,
+        });
+        return;
+      }
+      case 'roundCompleted':
+        emitCCR('debate.round.completed', `Round ${String(step.round)} completed`, undefined, {
+          round: step.round,
+        });
+        if (step.agreement !== undefined) {
+          emitCCR(
+            'consensus.check',
+            `Agreement at ${String(Math.round(step.agreement * 100))}% after round ${String(step.round)}`,
+            undefined,
+            { round: step.round, agreement: step.agreement }
+          );
+        }
+        return;
+      case 'consensus':
+        debate.consensus = step.consensus;
+        debate.status = 'completed';
+        emitCCR('consensus.reached', `Consensus reached: ${step.consensus.level}`);
+        emit({ type: 'consensus', data: step.consensus });
+        emit({ type: 'complete', data: { debateId: debate.debateId } });
+        return;
+    }
+  };
+
+  const player = createScriptPlayer<StreamEvent, SimulatedTurn, SimulatedDebate>({ play, timestamp, speed });
+  const { find, findBranch, turnsOf, emit, schedule, stop, transition } = player;
+
+  const humanTurn = (debate: SimulatedDebate, branchId: string, content: string): TurnResponse => ({
+    turnId: randomUuid(debate.random),
+    branchId,
+    participantId: 'human',
+    participantType: 'human',
+    content,
+    tokensUsed: Math.ceil(content.split(' ').length * 1.3),
+    costUsd: 0,
+    latencyMs: 0,
+    createdAt: timestamp(),
+  });
+
+  const apiClient: ApiClient = {
+    debate: {
+      createDebate: (config) =>
+        TE.fromIO(() => {
+          const random = createRandom(debateSeed(seed, config));
+          const debate: SimulatedDebate = {
+            ...scriptedDebate<StreamEvent, SimulatedTurn>({
+              debateId: randomUuid(idRandom),
+              config,
+              mainBranchId: randomUuid(random),
+              forkMode: config.forkMode,
+              steps: scriptDebate(random, config, nameOf, costOf),
+              createdAt: timestamp(),
+            }),
+            random,
+            totalCostUsd: 0,
+            totalTokens: 0,
+          };
+          player.add(debate);
+          emit(debate, ccrEvent(debate, 'debate.initialized', `Demo debate created with ${String(config.participants.length)} panellists`));
+          return { debateId: debate.debateId };
+        }),
+
+      getDebate: (debateId) =>
+        TE.fromEither(
+          pipe(
+            find(debateId),
+            E.map(player.describe)
+          )
+        ),
+
+      listDebates: (query = {}) =>
+        TE.fromEither(
+          pipe(
+            queryDebates(player.summaries(), query),
+            E.mapLeft(validationError)
+          )
+        ),
+
+      startDebate: (debateId) =>
+        TE.fromEither(
+          pipe(
+            transition(debateId, 'pending', 'running'),
+            E.map(schedule)
+          )
+        ),
+
+      pauseDebate: (debateId) =>
+        TE.fromEither(
+          pipe(
+            transition(debateId, 'running', 'paused'),
+            E.map(stop)
+          )
+        ),
+
+      resumeDebate: (debateId) =>
+        TE.fromEither(
+          pipe(
+            transition(debateId, 'paused', 'running'),
+            E.map(schedule)
+          )
+        ),
+
+      getTurns: (debateId, branchId) =>
+        TE.fromEither(
+          pipe(
+            find(debateId),
+            E.chain((debate) => turnsOf(debate, branchId ?? debate.mainBranchId))
+          )
+        ),
+
+      submitTurn: (debateId, content, branchId) =>
+        TE.fromEither(
+          pipe(
+            find(debateId),
+            E.bindTo('debate'),
+            E.bind('branch', ({ debate }) => findBranch(debate, branchId ?? debate.mainBranchId)),
+            E.map(({ debate, branch }) => {
+              const turn = humanTurn(debate, branch.branchId, content);
+              debate.turns.push(turn);
+              emit(debate, ccrEvent(debate, 'turn.completed', 'Your turn was added', 'human', { turn }));
+              return turn;
+            })
+          )
+        ),
+    },
+
+    branch: {
+      listBranches: (debateId) =>
+        TE.fromEither(
+          pipe(
+            find(debateId),
+            E.map((debate) => [...debate.branches])
+          )
+        ),
+
+      getBranch: (debateId, branchId) =>
+        TE.fromEither(
+          pipe(
+            find(debateId),
+            E.chain((debate) => findBranch(debate, branchId))
+          )
+        ),
+
+      createFork: (debateId, turnId, fork) =>
+        TE.fromEither(
+          pipe(
+            find(debateId),
+            E.bindTo('debate'),
+            E.bind('turn', ({ debate }) =>
+              pipe(
+                debate.turns.find((turn) => turn.turnId === turnId),
+                E.fromNullable(notFoundError('turn', turnId))
+              )
+            ),
+            E.bind('parent', ({ debate, turn }) => findBranch(debate, turn.branchId)),
+            E.map(({ debate, turn, parent }) => {
+              const branch: BranchInfo = {
+                branchId: randomUuid(debate.random),
+                parentBranchId: parent.branchId,
+                forkTurnId: turn.turnId,
+                name: fork.name ?? `Fork of ${parent.name}`,
+                forkMode: fork.forkMode,
+                depth: parent.depth + 1,
+                createdAt: timestamp(),
+              };
+              debate.branches.push(branch);
+              debate.turns.push(humanTurn(debate, branch.branchId, fork.content));
+              return branch;
+            })
+          )
+        ),
+
+      getBranchTurns: (debateId, branchId) =>
+        TE.fromEither(
+          pipe(
+            find(debateId),
+            E.chain((debate) => turnsOf(debate, branchId))
+          )
+        ),
+
+      deleteBranch: (debateId, branchId) =>
+        TE.fromEither(
+          pipe(
+            find(debateId),
+            E.bindTo('debate'),
+            E.bind('branch', ({ debate }) => findBranch(debate, branchId)),
+            E.filterOrElse(
+              ({ branch }) => branch.forkMode === 'explore' && branch.parentBranchId !== null,
+              () => conflictError('Only explore branches can be deleted', 'branch')
+            ),
+            E.map(({ debate }) => {
+              debate.branches = debate.branches.filter((branch) => branch.branchId !== branchId);
+              debate.turns = debate.turns.filter((turn) => turn.branchId !== branchId);
+            })
+          )
+        ),
+
+      mergeBranch: (debateId, branchId) =>
+        TE.fromEither(
+          pipe(
+            find(debateId),
+            E.chain((debate) => findBranch(debate, branchId)),
+            E.chain(() => E.left(conflictError('Merging is not available in demo mode', 'branch')))
+          )
+        ),
+    },
+  };
+
+  const createStreamClient: StreamClientFactory = (debateId, _baseUrl, onEvent, streamOptions) =>
+    TE.fromEither(
+      pipe(
+        find(debateId),
+        E.map((debate): StreamClient => {
+          let lastEventId: O.Option<string> = O.fromNullable(streamOptions.lastEventId);
+          let unsubscribe = (): void => undefined;
+          let pending: ReturnType<typeof setTimeout> | undefined;
+
+          const listener = (entry: DebateEventEntry<StreamEvent>): void => {
+            lastEventId = O.some(entry.id);
+            onEvent(entry.event);
+          };
+
+          // Connect asynchronously, like a network stream
+          const connect = (): void => {
+            pending = setTimeout(() => {
+              pending = undefined;
+              onEvent({ type: 'hello', data: { protocolVersion: STREAM_PROTOCOL_VERSION } });
+              unsubscribe = player.subscribe(debate, O.toUndefined(lastEventId), listener);
+            }, 0);
+          };
+
+          const close = (): void => {
+            if (pending !== undefined) {
+              clearTimeout(pending);
+              pending = undefined;
+            }
+            unsubscribe();
+            unsubscribe = () => undefined;
+          };
+
+          connect();
+
+          return {
+            close,
+            reconnect: () => {
+              close();
+              connect();
+            },
+            getLastEventId: () => lastEventId,
+          };
+        })
+      )
+    );
+
+  return {
+    apiClient,
+    createStreamClient,
+    hasDebate: player.has,
+  };
+};
@@ -1,4 +1,25 @@
 // Hooks for debateUI React application
 
-export { useDebateStream, type UseDebateStreamReturn, type StreamStatus } from './useDebateStream';
+export {
+  useDebateStream,
+  DEFAULT_STALL_TIMEOUT,
+  isUnknownLogEntry,
+  type EventLogEntry,
+  type UnknownEventLogEntry,
+  type UseDebateStreamOptions,
+  type UseDebateStreamReturn,
+  type StreamClientFactory,
+  type StreamSend,
+  type StreamStatus,
+  type StreamTransport,
+} from './useDebateStream';
+export { useBranchTurns, type UseBranchTurnsReturn, type BranchTurnsStatus } from './useBranchTurns';
+export { useCircuitState } from './useCircuitState';
+export { useDebouncedValue } from './useDebouncedValue';
+export { useDebateHistory, type UseDebateHistoryReturn, type DebateHistoryStatus } from './useDebateHistory';
 export { useKeyboardNavigation, type UseKeyboardNavigationOptions, type UseKeyboardNavigationReturn } from './useKeyboardNavigation';
+export { useLoadDebate, type UseLoadDebateReturn, type LoadDebateStatus } from './useLoadDebate';
+export { useRequestSignal, type UseRequestSignalReturn } from './useRequestSignal';
+export { useResyncTurns, type UseResyncTurnsReturn, type ResyncStatus } from './useResyncTurns';
+export { useRoute, type UseRouteReturn, type NavigateOptions } from './useRoute';
+export { useScrollToTurn } from './useScrollToTurn';
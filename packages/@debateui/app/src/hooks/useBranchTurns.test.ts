@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useBranchTurns } from './useBranchTurns';
+import { useDebateStore } from '@debateui/state';
+import {
+  cancelledError,
+  serverError,
+  type ApiError,
+  type BranchInfo,
+  type TurnResponse,
+} from '@debateui/core';
+import type { ApiClient } from '@debateui/api-client';
+import type * as E from 'fp-ts/Either';
+import * as TE from 'fp-ts/TaskEither';
+
+const DEBATE_ID = 'c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+
+const MAIN_BRANCH_ID = 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+
+const createBranch = (branchId: string, name: string, parentBranchId: string | null): BranchInfo => ({
+  branchId,
+  parentBranchId,
+  forkTurnId: null,
+  name,
+  forkMode: 'save',
+  depth: parentBranchId === null ? 0 : 1,
+  createdAt: '2024-01-01T00:00:00Z',
+});
+
+const rootBranch = createBranch(MAIN_BRANCH_ID, 'Main', null);
+const forkBranch = createBranch('b1eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', 'What if', MAIN_BRANCH_ID);
+const altBranch = createBranch('b2eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', 'Alternative', MAIN_BRANCH_ID);
+
+const createTurn = (branchId: string): TurnResponse => ({
+  turnId: `a0eebc99-9c0b-4ef8-bb6d-${branchId.slice(-12)}`,
+  branchId,
+  participantId: 'claude',
+  participantType: 'model',
+  content: `Turn on ${branchId}`,
+  tokensUsed: 100,
+  costUsd: 0.001,
+  latencyMs: 500,
+  createdAt: '2024-01-01T00:01:00Z',
+});
+
+type BranchTurnsResult = E.Either<ApiError, readonly TurnResponse[]>;
+
+/**
+ * Client whose branch turns requests stay pending until resolved by the test,
+ * failing with a CancelledError once aborted like the HTTP client does
+ */
+const createPendingClient = () => {
+  const pending = new Map<string, (result: BranchTurnsResult) => void>();
+  const signals = new Map<string, AbortSignal>();
+  const getBranchTurns = vi.fn(
+    (_debateId: string, branchId: string, options?: { signal?: AbortSignal }) =>
+      () =>
+        new Promise<BranchTurnsResult>((resolve) => {
+          pending.set(branchId, resolve);
+          if (options?.signal) {
+            signals.set(branchId, options.signal);
+            options.signal.addEventListener('abort', () => {
+              resolve({ _tag: 'Left', left: cancelledError() });
+            });
+          }
+        })
+  );
+  const client = { debate: {}, branch: { getBranchTurns } } as unknown as ApiClient;
+  return { client, getBranchTurns, pending, signals };
+};
+
+describe('useBranchTurns', () => {
+  beforeEach(() => {
+    useDebateStore.getState().reset();
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted(DEBATE_ID);
+    store.addBranch(rootBranch);
+    store.addBranch(forkBranch);
+    store.addBranch(altBranch);
+  });
+
+  it('stays idle without an active branch', () => {
+    useDebateStore.getState().reset();
+    const { client, getBranchTurns } = createPendingClient();
+
+    const { result } = renderHook(() => useBranchTurns(client));
+
+    expect(result.current.status).toBe('idle');
+    expect(getBranchTurns).not.toHaveBeenCalled();
+  });
+
+  it('does not fetch the turns of the root branch', () => {
+    useDebateStore.getState().selectBranch(rootBranch.branchId);
+    const { client, getBranchTurns } = createPendingClient();
+
+    const { result } = renderHook(() => useBranchTurns(client));
+
+    expect(result.current.status).toBe('idle');
+    expect(getBranchTurns).not.toHaveBeenCalled();
+  });
+
+  it('fetches the turns of the active fork', async () => {
+    useDebateStore.getState().selectBranch(forkBranch.branchId);
+    const turns = [createTurn(forkBranch.branchId)];
+    const client = {
+      debate: {},
+      branch: { getBranchTurns: vi.fn(() => TE.right(turns)) },
+    } as unknown as ApiClient;
+
+    const { result } = renderHook(() => useBranchTurns(client));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('loaded');
+    });
+    expect(result.current.turns).toEqual(turns);
+  });
+
+  it('aborts the previous fetch when branches are switched quickly', async () => {
+    useDebateStore.getState().selectBranch(forkBranch.branchId);
+    const { client, pending, signals } = createPendingClient();
+    const { result } = renderHook(() => useBranchTurns(client));
+
+    act(() => {
+      useDebateStore.getState().selectBranch(altBranch.branchId);
+    });
+    expect(signals.get(forkBranch.branchId)?.aborted).toBe(true);
+
+    const altTurns = [createTurn(altBranch.branchId)];
+    await act(async () => {
+      pending.get(altBranch.branchId)?.({ _tag: 'Right', right: altTurns });
+      // A late answer for the old branch must not replace the new turns
+      pending.get(forkBranch.branchId)?.({ _tag: 'Right', right: [createTurn(forkBranch.branchId)] });
+      await Promise.resolve();
+    });
+
+    expect(result.current.status).toBe('loaded');
+    expect(result.current.turns).toEqual(altTurns);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('drops the turns of the previous branch while the next one loads', async () => {
+    useDebateStore.getState().selectBranch(forkBranch.branchId);
+    const { client, pending } = createPendingClient();
+    const { result } = renderHook(() => useBranchTurns(client));
+    await act(async () => {
+      pending.get(forkBranch.branchId)?.({ _tag: 'Right', right: [createTurn(forkBranch.branchId)] });
+      await Promise.resolve();
+    });
+    expect(result.current.turns).toHaveLength(1);
+
+    act(() => {
+      useDebateStore.getState().selectBranch(altBranch.branchId);
+    });
+
+    expect(result.current.status).toBe('loading');
+    expect(result.current.turns).toEqual([]);
+  });
+
+  it('aborts the fetch in flight on unmount', () => {
+    useDebateStore.getState().selectBranch(forkBranch.branchId);
+    const { client, signals } = createPendingClient();
+    const { unmount } = renderHook(() => useBranchTurns(client));
+
+    unmount();
+
+    expect(signals.get(forkBranch.branchId)?.aborted).toBe(true);
+  });
+
+  it('reports failures without touching the debate', async () => {
+    useDebateStore.getState().selectBranch(forkBranch.branchId);
+    const client = {
+      debate: {},
+      branch: { getBranchTurns: vi.fn(() => TE.left(serverError(500, 'Internal error'))) },
+    } as unknown as ApiClient;
+
+    const { result } = renderHook(() => useBranchTurns(client));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('error');
+    });
+    expect(result.current.error).toContain('Internal error');
+    expect(useDebateStore.getState().debate._tag).toBe('Running');
+  });
+});
@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { useDebateStore, useDebateId } from '@debateui/state';
+import type { ApiClient } from '@debateui/api-client';
+import { formatApiError, type TurnResponse } from '@debateui/core';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { pipe } from 'fp-ts/function';
+import { useRequestSignal } from './useRequestSignal';
+
+/**
+ * Progress of fetching the turns of the active fork
+ */
+export type BranchTurnsStatus = 'idle' | 'loading' | 'loaded' | 'error';
+
+/**
+ * Return type for useBranchTurns hook
+ */
+export interface UseBranchTurnsReturn {
+  status: BranchTurnsStatus;
+  turns: readonly TurnResponse[];
+  error: string | null;
+}
+
+/**
+ * React hook for the turns of the fork selected in the BranchNavigator.
+ *
+ * This hook:
+ * - Fetches the turns via `getBranchTurns` whenever the active branch changes
+ *   to a fork; the root branch holds the debate's own turns, so it is not fetched
+ * - Drops the turns of the previous branch as soon as the branch changes
+ * - Aborts the fetch for the previous branch, so switching branches quickly
+ *   cannot show the turns of a branch that is no longer selected
+ * - Aborts the fetch in flight on unmount
+ * - Keeps failures local, like a failed re-sync
+ *
+ * @param client - API client used for the branch turns request
+ * @returns Fetch status, the turns of the active fork and the last error
+ *
+ * @example
+ * ```tsx
+ * const { status, turns } = useBranchTurns(apiClient);
+ * {status === 'loaded' && <TurnList turns={turns} />}
+ * ```
+ */
+export const useBranchTurns = (client: ApiClient): UseBranchTurnsReturn => {
+  const [status, setStatus] = useState<BranchTurnsStatus>('idle');
+  const [turns, setTurns] = useState<readonly TurnResponse[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const debateId = O.toNullable(useDebateId());
+  const branchId = useDebateStore((state) =>
+    pipe(
+      state.branching.activeBranchId,
+      O.chain((id) => O.fromNullable(state.branching.branches.get(id))),
+      O.filter((branch) => branch.parentBranchId !== null),
+      O.map((branch) => branch.branchId),
+      O.toNullable
+    )
+  );
+  const { next, abort } = useRequestSignal();
+
+  useEffect(() => {
+    if (debateId === null || branchId === null) {
+      abort();
+      setStatus('idle');
+      setTurns([]);
+      return;
+    }
+
+    const signal = next();
+    setStatus('loading');
+    setTurns([]);
+    setError(null);
+
+    const fetchTurns = async () => {
+      const result = await client.branch.getBranchTurns(debateId, branchId, { signal })();
+
+      if (signal.aborted) return;
+
+      if (E.isRight(result)) {
+        setTurns(result.right);
+        setStatus('loaded');
+      } else {
+        setError(formatApiError(result.left));
+        setStatus('error');
+      }
+    };
+    void fetchTurns();
+  }, [client, debateId, branchId, next, abort]);
+
+  return { status, turns, error };
+};
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import * as TE from 'fp-ts/TaskEither';
+import { serverError } from '@debateui/core';
+import { createCircuitBreaker, type HttpRequest } from '@debateui/api-client';
+import { useCircuitState } from './useCircuitState';
+
+const request: HttpRequest = {
+  method: 'get',
+  path: '/api/debates',
+  headers: {},
+  body: undefined,
+  options: {},
+};
+
+describe('useCircuitState', () => {
+  it('starts closed', () => {
+    const breaker = createCircuitBreaker();
+
+    const { result } = renderHook(() => useCircuitState(breaker));
+
+    expect(result.current).toBe('closed');
+  });
+
+  it('follows the breaker as it opens and is reset', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1 });
+    const send = breaker.middleware(() => TE.left(serverError(503, 'down')));
+    const { result } = renderHook(() => useCircuitState(breaker));
+
+    await act(async () => {
+      await send(request)();
+    });
+    expect(result.current).toBe('open');
+
+    act(() => {
+      breaker.reset();
+    });
+    expect(result.current).toBe('closed');
+  });
+});
@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react';
+import type { CircuitBreaker, CircuitState } from '@debateui/api-client';
+
+/**
+ * React hook for the state of a circuit breaker.
+ *
+ * Re-renders when the circuit opens, probes or closes, so the UI can tell
+ * the user that the backend is degraded instead of showing each failed
+ * request.
+ *
+ * @param breaker - Circuit breaker shared by the API clients
+ * @returns Current circuit state
+ *
+ * @example
+ * ```tsx
+ * const circuitState = useCircuitState(circuitBreaker);
+ * {circuitState !== 'closed' && <DegradedBanner />}
+ * ```
+ */
+export const useCircuitState = (breaker: CircuitBreaker): CircuitState =>
+  useSyncExternalStore(breaker.onStateChange, breaker.getState);
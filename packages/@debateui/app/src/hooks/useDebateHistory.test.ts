@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useDebateHistory } from './useDebateHistory';
+import { cancelledError, serverError, type DebateListQuery, type DebateSummary } from '@debateui/core';
+import type { ApiClient } from '@debateui/api-client';
+import * as TE from 'fp-ts/TaskEither';
+
+const summary = (n: number): DebateSummary => ({
+  debateId: `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`,
+  status: 'completed',
+  question: `Question number ${String(n)}`,
+  participants: ['claude', 'gpt4'],
+  currentRound: 3,
+  totalRounds: 3,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:05:00Z',
+});
+
+const createClient = (listDebates: ApiClient['debate']['listDebates']): ApiClient =>
+  ({ debate: { listDebates } }) as unknown as ApiClient;
+
+const NO_FILTERS: DebateListQuery = {};
+
+describe('useDebateHistory', () => {
+  it('fetches the first page', async () => {
+    const listDebates = vi.fn<ApiClient['debate']['listDebates']>(() =>
+      TE.right({ debates: [summary(1)], nextCursor: null })
+    );
+    const client = createClient(listDebates);
+    const { result } = renderHook(() => useDebateHistory(client, NO_FILTERS));
+
+    expect(result.current.status).toBe('loading');
+    await waitFor(() => {
+      expect(result.current.status).toBe('loaded');
+    });
+    expect(result.current.debates).toEqual([summary(1)]);
+    expect(result.current.hasMore).toBe(false);
+    expect(listDebates.mock.calls[0]?.[0]).toEqual({});
+    expect(listDebates.mock.calls[0]?.[1]?.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('appends the next page with the cursor of the last one', async () => {
+    const listDebates = vi
+      .fn<ApiClient['debate']['listDebates']>()
+      .mockReturnValueOnce(TE.right({ debates: [summary(1)], nextCursor: 'page-2' }))
+      .mockReturnValueOnce(TE.right({ debates: [summary(2)], nextCursor: null }));
+    const query: DebateListQuery = { status: ['completed'] };
+    const client = createClient(listDebates);
+    const { result } = renderHook(() => useDebateHistory(client, query));
+    await waitFor(() => {
+      expect(result.current.hasMore).toBe(true);
+    });
+
+    await act(async () => {
+      await result.current.loadMore();
+    });
+
+    expect(listDebates.mock.calls[1]?.[0]).toEqual({ status: ['completed'], cursor: 'page-2' });
+    expect(result.current.debates).toEqual([summary(1), summary(2)]);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it('starts over when the query changes', async () => {
+    const listDebates = vi
+      .fn<ApiClient['debate']['listDebates']>()
+      .mockReturnValueOnce(TE.right({ debates: [summary(1)], nextCursor: 'page-2' }))
+      .mockReturnValueOnce(TE.right({ debates: [summary(3)], nextCursor: null }));
+    const client = createClient(listDebates);
+    const { result, rerender } = renderHook(({ query }) => useDebateHistory(client, query), {
+      initialProps: { query: NO_FILTERS },
+    });
+    await waitFor(() => {
+      expect(result.current.debates).toEqual([summary(1)]);
+    });
+
+    rerender({ query: { question: 'number 3' } });
+
+    await waitFor(() => {
+      expect(result.current.debates).toEqual([summary(3)]);
+    });
+    expect(listDebates.mock.calls[1]?.[0]).toEqual({ question: 'number 3' });
+  });
+
+  it('ignores a page of an outdated query', async () => {
+    let resolveStale: (() => void) | undefined;
+    const listDebates = vi
+      .fn<ApiClient['debate']['listDebates']>()
+      .mockImplementationOnce((_query, options) => () =>
+        new Promise((resolve) => {
+          resolveStale = () => {
+            resolve(
+              options?.signal?.aborted
+                ? { _tag: 'Left', left: cancelledError() }
+                : { _tag: 'Right', right: { debates: [summary(1)], nextCursor: null } }
+            );
+          };
+        })
+      )
+      .mockReturnValueOnce(TE.right({ debates: [summary(2)], nextCursor: null }));
+    const client = createClient(listDebates);
+    const { result, rerender } = renderHook(({ query }) => useDebateHistory(client, query), {
+      initialProps: { query: NO_FILTERS },
+    });
+
+    rerender({ query: { question: 'number 2' } });
+    await waitFor(() => {
+      expect(result.current.status).toBe('loaded');
+    });
+    await act(async () => {
+      resolveStale?.();
+      await Promise.resolve();
+    });
+
+    expect(result.current.debates).toEqual([summary(2)]);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('keeps the error and fetches again on reload', async () => {
+    const failure = serverError(503, 'Service unavailable');
+    const listDebates = vi
+      .fn<ApiClient['debate']['listDebates']>()
+      .mockReturnValueOnce(TE.left(failure))
+      .mockReturnValueOnce(TE.right({ debates: [summary(1)], nextCursor: null }));
+    const client = createClient(listDebates);
+    const { result } = renderHook(() => useDebateHistory(client, NO_FILTERS));
+    await waitFor(() => {
+      expect(result.current.status).toBe('error');
+    });
+    expect(result.current.error).toEqual(failure);
+
+    await act(async () => {
+      await result.current.reload();
+    });
+
+    expect(result.current.status).toBe('loaded');
+    expect(result.current.debates).toEqual([summary(1)]);
+  });
+});
@@ -0,0 +1,97 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { ApiClient } from '@debateui/api-client';
+import type { ApiError, DebateListQuery, DebateSummary } from '@debateui/core';
+import * as E from 'fp-ts/Either';
+import { useRequestSignal } from './useRequestSignal';
+
+/**
+ * Progress of fetching the debate history
+ */
+export type DebateHistoryStatus = 'loading' | 'loaded' | 'error';
+
+/**
+ * Return type for useDebateHistory hook
+ */
+export interface UseDebateHistoryReturn {
+  /** Debates of every page fetched so far */
+  debates: DebateSummary[];
+  status: DebateHistoryStatus;
+  error: ApiError | null;
+  /** Whether there are more pages to fetch */
+  hasMore: boolean;
+  /** Fetch the next page and append it */
+  loadMore: () => Promise<void>;
+  /** Fetch the first page again */
+  reload: () => Promise<void>;
+}
+
+/**
+ * React hook for browsing past debates, a page at a time.
+ *
+ * This hook:
+ * - Fetches the first page whenever the query changes
+ * - Appends the next page on `loadMore`, using the cursor of the last one
+ * - Aborts a request still in flight when another starts or on unmount, so
+ *   results of an outdated query never show up
+ *
+ * The query is compared by identity, so memoize it.
+ *
+ * @param client - API client used for the list requests
+ * @param query - Filters and sort order, without a cursor
+ * @returns The debates fetched so far, status and functions to page
+ *
+ * @example
+ * ```tsx
+ * const query = useMemo(() => ({ question: search }), [search]);
+ * const { debates, hasMore, loadMore } = useDebateHistory(apiClient, query);
+ * ```
+ */
+export const useDebateHistory = (client: ApiClient, query: DebateListQuery): UseDebateHistoryReturn => {
+  const [debates, setDebates] = useState<DebateSummary[]>([]);
+  const [status, setStatus] = useState<DebateHistoryStatus>('loading');
+  const [error, setError] = useState<ApiError | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const { next } = useRequestSignal();
+
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const signal = next();
+      setStatus('loading');
+      setError(null);
+
+      const result = await client.debate.listDebates(
+        cursor === null ? query : { ...query, cursor },
+        { signal }
+      )();
+
+      if (signal.aborted) return;
+
+      if (E.isRight(result)) {
+        const page = result.right.debates;
+        setDebates((previous) => (cursor === null ? page : [...previous, ...page]));
+        setNextCursor(result.right.nextCursor);
+        setStatus('loaded');
+      } else {
+        setError(result.left);
+        setStatus('error');
+      }
+    },
+    [client, query, next]
+  );
+
+  useEffect(() => {
+    setDebates([]);
+    setNextCursor(null);
+    void fetchPage(null);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (nextCursor !== null) {
+      await fetchPage(nextCursor);
+    }
+  }, [fetchPage, nextCursor]);
+
+  const reload = useCallback(() => fetchPage(null), [fetchPage]);
+
+  return { debates, status, error, hasMore: nextCursor !== null, loadMore, reload };
+};
@@ -1,15 +1,23 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
-import { useDebateStream } from './useDebateStream';
+import { useDebateStream, isUnknownLogEntry, type StreamClientFactory } from './useDebateStream';
 import { useDebateStore } from '@debateui/state';
 import type { TurnResponse, ConsensusResult } from '@debateui/core';
 import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
 
 // Store the event handler for testing
 let mockEventHandler: ((event: any) => void) | null = null;
 
+// Last event id reported by the mocked client
+let mockLastEventId: O.Option<string> = O.none;
+
+// Reconnect function of the mocked client
+const mockReconnect = vi.fn();
+
 // Mock the api-client
-vi.mock('@debateui/api-client', () => {
+vi.mock('@debateui/api-client', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@debateui/api-client')>();
   let mockEventSource: any = null;
 
   return {
@@ -27,20 +35,43 @@ vi.mock('@debateui/api-client', () => {
             mockEventSource.readyState = 2; // CLOSED
             mockEventSource.close();
           }) as any,
-          reconnect: vi.fn() as any,
+          reconnect: mockReconnect,
+          getLastEventId: () => mockLastEventId,
         } as any) as any;
       };
     }),
+    createWebSocketClient: vi.fn((_debateId: string, _baseUrl: string, onEvent: (event: { type: string }) => void) => {
+      mockEventHandler = onEvent;
+
+      const client = {
+        close: vi.fn(),
+        reconnect: vi.fn(),
+        send: vi.fn(),
+        getLastEventId: () => mockLastEventId,
+      };
+
+      return () => Promise.resolve(E.right(client));
+    }),
     // Type guards (same logic as in actual module)
     isTurnEvent: (event: any) => event.type === 'turn',
     isConsensusEvent: (event: any) => event.type === 'consensus',
     isErrorEvent: (event: any) => event.type === 'error',
     isCompleteEvent: (event: any) => event.type === 'complete',
+    isCCREvent: (event: { type: string }) => event.type === 'ccr',
+    isStalledEvent: (event: { type: string }) => event.type === 'stalled',
+    isHelloEvent: (event: { type: string }) => event.type === 'hello',
+    isUnknownEvent: (event: { type: string }) => event.type === 'unknown',
+    checkProtocolVersion: actual.checkProtocolVersion,
+    // CCR metadata guards validate with the real schemas
+    isRoundStartedEvent: actual.isRoundStartedEvent,
+    isRoundCompletedEvent: actual.isRoundCompletedEvent,
+    isTurnStreamingEvent: actual.isTurnStreamingEvent,
+    isTurnCompletedEvent: actual.isTurnCompletedEvent,
   };
 });
 
 // Import after mock
-import { createSSEClient } from '@debateui/api-client';
+import { createSSEClient, createWebSocketClient } from '@debateui/api-client';
 
 // Helper to trigger events in tests
 const triggerEvent = (event: any) => {
@@ -54,6 +85,7 @@ describe('useDebateStream', () => {
     // Reset store before each test
     useDebateStore.getState().reset();
     vi.clearAllMocks();
+    mockLastEventId = O.none;
   });
 
   afterEach(() => {
@@ -144,7 +176,7 @@ describe('useDebateStream', () => {
       const state = useDebateStore.getState();
       if (state.debate._tag === 'Running') {
         expect(state.debate.turns).toHaveLength(1);
-        expect(state.debate.turns[0]).toEqual(turnData);
+        expect(state.debate.turns[0]).toEqual({ ...turnData, round: 1 });
       }
     });
   });
@@ -346,4 +378,417 @@ describe('useDebateStream', () => {
       expect(result.current.status).toBe('reconnecting');
     });
   });
+
+  it('tracks rounds from CCR round events', async () => {
+    const baseUrl = 'http://localhost:3000';
+
+    // Start a debate
+    const store = useDebateStore.getState();
+    store.setConfig({ rounds: 3 });
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    // Render hook
+    const { result } = renderHook(() => useDebateStream(baseUrl));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+
+    const roundEvent = (eventType: string, round: number) => ({
+      type: 'ccr',
+      data: {
+        eventId: `${eventType}-${String(round)}`,
+        timestamp: Date.now(),
+        eventType,
+        message: `Round ${String(round)}`,
+        metadata: { round },
+      },
+    });
+
+    act(() => {
+      triggerEvent(roundEvent('debate.round.completed', 1));
+    });
+
+    await waitFor(() => {
+      const state = useDebateStore.getState();
+      expect(state.debate._tag === 'Running' && state.debate.currentRound).toBe(2);
+    });
+
+    act(() => {
+      triggerEvent(roundEvent('debate.round.started', 3));
+    });
+
+    await waitFor(() => {
+      const state = useDebateStore.getState();
+      expect(state.debate._tag === 'Running' && state.debate.currentRound).toBe(3);
+    });
+
+    // Round events are still shown in the event log
+    expect(result.current.ccrEvents).toHaveLength(2);
+  });
+
+  it('ignores round events without a round number', async () => {
+    const baseUrl = 'http://localhost:3000';
+
+    // Start a debate
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    // Render hook
+    const { result } = renderHook(() => useDebateStream(baseUrl));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+
+    act(() => {
+      triggerEvent({
+        type: 'ccr',
+        data: {
+          eventId: 'event-1',
+          timestamp: Date.now(),
+          eventType: 'debate.round.started',
+          message: 'Round started',
+          metadata: undefined,
+        },
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.ccrEvents).toHaveLength(1);
+    });
+    const state = useDebateStore.getState();
+    expect(state.debate._tag === 'Running' && state.debate.currentRound).toBe(1);
+  });
+
+  it('builds a live turn from streaming events and swaps in the final turn', async () => {
+    const baseUrl = 'http://localhost:3000';
+
+    // Start a debate
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    // Render hook
+    const { result } = renderHook(() => useDebateStream(baseUrl));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+
+    const ccrEvent = (eventType: string, metadata?: Record<string, unknown>) => ({
+      type: 'ccr',
+      data: {
+        eventId: `${eventType}-${String(Math.random())}`,
+        timestamp: Date.now(),
+        eventType,
+        agent: 'claude',
+        message: eventType,
+        metadata,
+      },
+    });
+
+    act(() => {
+      triggerEvent(ccrEvent('turn.started'));
+      triggerEvent(ccrEvent('turn.streaming', { delta: 'My ' }));
+      triggerEvent(ccrEvent('turn.streaming', { delta: 'response' }));
+    });
+
+    await waitFor(() => {
+      expect(useDebateStore.getState().streaming.turns.get('claude')?.content).toBe('My response');
+    });
+
+    // Streaming chunks are not added to the event log
+    expect(result.current.ccrEvents).toHaveLength(1);
+
+    const finalTurn: TurnResponse = {
+      turnId: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+      branchId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+      participantId: 'claude',
+      participantType: 'model',
+      content: 'My response',
+      tokensUsed: 100,
+      costUsd: 0.001,
+      latencyMs: 500,
+      createdAt: new Date().toISOString(),
+    };
+
+    act(() => {
+      triggerEvent(ccrEvent('turn.completed', { turn: finalTurn }));
+    });
+
+    await waitFor(() => {
+      expect(useDebateStore.getState().streaming.turns.size).toBe(0);
+    });
+    const state = useDebateStore.getState();
+    expect(state.debate._tag === 'Running' && state.debate.turns).toEqual([{ ...finalTurn, round: 1 }]);
+  });
+
+  it('resumes from the last event id after a pause', async () => {
+    const baseUrl = 'http://localhost:3000';
+
+    // Start a debate
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    // Render hook
+    const { result } = renderHook(() => useDebateStream(baseUrl));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+    expect(vi.mocked(createSSEClient).mock.calls[0]?.[3]).not.toHaveProperty('lastEventId');
+
+    // Pausing closes the stream, resuming opens a new one
+    mockLastEventId = O.some('evt-42');
+    act(() => {
+      useDebateStore.getState().pauseDebate('User pause');
+    });
+    act(() => {
+      useDebateStore.getState().resumeDebate();
+    });
+
+    await waitFor(() => {
+      expect(createSSEClient).toHaveBeenCalledTimes(2);
+    });
+    expect(vi.mocked(createSSEClient).mock.calls[1]?.[3]).toMatchObject({ lastEventId: 'evt-42' });
+  });
+
+  it('streams over a WebSocket when configured', async () => {
+    const baseUrl = 'http://localhost:3000';
+
+    // Start a debate
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    // Render hook
+    const { result } = renderHook(() => useDebateStream(baseUrl, { transport: 'websocket' }));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+    expect(createSSEClient).not.toHaveBeenCalled();
+    expect(createWebSocketClient).toHaveBeenCalledWith(
+      'debate-123',
+      baseUrl,
+      expect.any(Function),
+      expect.objectContaining({ maxRetries: 5 })
+    );
+
+    // Events are handled the same way as over SSE
+    act(() => {
+      triggerEvent({ type: 'ccr', data: {
+        eventId: 'evt-1',
+        timestamp: 1,
+        eventType: 'debate.round.started',
+        agent: undefined,
+        message: 'Round 2 started',
+        metadata: { round: 2 },
+      } });
+    });
+    const state = useDebateStore.getState();
+    expect(state.debate._tag === 'Running' && state.debate.currentRound).toBe(2);
+
+    // Messages can go back over the socket
+    expect(O.isSome(result.current.send)).toBe(true);
+  });
+
+  it('offers no send over SSE', async () => {
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    const { result } = renderHook(() => useDebateStream('http://localhost:3000'));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+    expect(result.current.send).toEqual(O.none);
+  });
+
+  it('streams from a custom client when given one', async () => {
+    const baseUrl = 'http://localhost:3000';
+    const createClient = vi.fn<StreamClientFactory>((_debateId, _baseUrl, onEvent) => {
+      mockEventHandler = onEvent;
+      return () =>
+        Promise.resolve(E.right({ close: vi.fn(), reconnect: vi.fn(), getLastEventId: () => mockLastEventId }));
+    });
+
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    const { result } = renderHook(() => useDebateStream(baseUrl, { transport: 'websocket', createClient }));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+    expect(createSSEClient).not.toHaveBeenCalled();
+    expect(createWebSocketClient).not.toHaveBeenCalled();
+    expect(createClient.mock.calls[0]?.[0]).toBe('debate-123');
+    expect(createClient.mock.calls[0]?.[3]).toMatchObject({ maxRetries: 5 });
+
+    act(() => {
+      triggerEvent({ type: 'ccr', data: {
+        eventId: 'evt-1',
+        timestamp: 1,
+        eventType: 'debate.round.started',
+        agent: undefined,
+        message: 'Round 2 started',
+        metadata: { round: 2 },
+      } });
+    });
+    const state = useDebateStore.getState();
+    expect(state.debate._tag === 'Running' && state.debate.currentRound).toBe(2);
+  });
+
+  it('passes the token provider to the stream client', async () => {
+    const tokenProvider = {
+      getToken: () => Promise.resolve(O.some('abc')),
+      currentToken: () => O.some('abc'),
+      refresh: () => () => Promise.resolve(E.right('abc')),
+      signOut: vi.fn(),
+      onSignedOut: () => () => undefined,
+    };
+
+    // Start a debate
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    // Render hook
+    const { result } = renderHook(() => useDebateStream('http://localhost:3000', { tokenProvider }));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+    expect(vi.mocked(createSSEClient).mock.calls[0]?.[3]).toMatchObject({ tokenProvider });
+  });
+
+  it('reports a stalled stream until the next event arrives', async () => {
+    // Start a debate
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    // Render hook
+    const { result } = renderHook(() => useDebateStream('http://localhost:3000', { stallTimeout: 5000 }));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+    expect(vi.mocked(createSSEClient).mock.calls[0]?.[3]).toMatchObject({ stallTimeout: 5000 });
+
+    act(() => {
+      triggerEvent({ type: 'stalled', data: { idleMs: 5000 } });
+    });
+    expect(result.current.status).toBe('stalled');
+
+    act(() => {
+      triggerEvent({ type: 'heartbeat', data: { timestamp: 1700000000000 } });
+    });
+    expect(result.current.status).toBe('connected');
+  });
+
+  it('clears a stall on request', async () => {
+    // Start a debate
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    // Render hook
+    const { result } = renderHook(() => useDebateStream('http://localhost:3000', { stallTimeout: 5000 }));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+
+    act(() => {
+      triggerEvent({ type: 'stalled', data: { idleMs: 5000 } });
+    });
+    expect(result.current.status).toBe('stalled');
+
+    act(() => {
+      result.current.clearStall();
+    });
+    expect(result.current.status).toBe('connected');
+  });
+
+  it('reconnects the client on request', async () => {
+    // Start a debate
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    // Render hook
+    const { result } = renderHook(() => useDebateStream('http://localhost:3000'));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+
+    act(() => {
+      result.current.reconnect();
+    });
+
+    expect(mockReconnect).toHaveBeenCalled();
+    expect(result.current.status).toBe('reconnecting');
+  });
+
+  it('warns when the server speaks a newer stream protocol', async () => {
+    // Start a debate
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    // Render hook
+    const { result } = renderHook(() => useDebateStream('http://localhost:3000'));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+    expect(result.current.compatibilityWarning).toBeNull();
+
+    act(() => {
+      triggerEvent({ type: 'hello', data: { protocolVersion: 1 } });
+    });
+    expect(result.current.compatibilityWarning).toBeNull();
+
+    act(() => {
+      triggerEvent({ type: 'hello', data: { protocolVersion: 2 } });
+    });
+    expect(result.current.compatibilityWarning).toContain('v2');
+    // The handshake is not an event log entry
+    expect(result.current.ccrEvents).toHaveLength(0);
+  });
+
+  it('logs events of unknown types', async () => {
+    // Start a debate
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted('debate-123');
+
+    // Render hook
+    const { result } = renderHook(() => useDebateStream('http://localhost:3000'));
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('connected');
+    });
+
+    const raw = { type: 'ccr', data: { eventType: 'debate.vote.cast' } };
+    act(() => {
+      triggerEvent({ type: 'unknown', data: { type: 'vote', eventType: undefined, raw: { type: 'vote' } } });
+      triggerEvent({ type: 'unknown', data: { type: 'ccr', eventType: 'debate.vote.cast', raw } });
+    });
+
+    const [first, second] = result.current.ccrEvents;
+    expect(first && isUnknownLogEntry(first) && first.eventType).toBe('vote');
+    expect(second && isUnknownLogEntry(second) && second.eventType).toBe('debate.vote.cast');
+    expect(second && isUnknownLogEntry(second) && second.raw).toEqual(raw);
+    expect(first?.eventId).not.toBe(second?.eventId);
+  });
 });
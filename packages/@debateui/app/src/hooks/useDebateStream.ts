@@ -2,17 +2,32 @@ import { useEffect, useState, useRef, useCallback } from 'react';
 import { useDebateStore } from '@debateui/state';
 import {
   createSSEClient,
+  createWebSocketClient,
   isTurnEvent,
   isConsensusEvent,
   isErrorEvent,
   isCompleteEvent,
   isCCREvent,
-  type SSEClient,
+  isStalledEvent,
+  isHelloEvent,
+  isUnknownEvent,
+  checkProtocolVersion,
+  isRoundStartedEvent,
+  isRoundCompletedEvent,
+  isTurnStreamingEvent,
+  isTurnCompletedEvent,
+  type StreamClient,
+  type WebSocketClient,
   type CCREventData,
+  type SSEClientOptions,
   type StreamEvent,
+  type StreamEventHandler,
+  type TokenProvider,
 } from '@debateui/api-client';
 import { networkError, formatApiError, type ApiError } from '@debateui/core';
+import type * as TE from 'fp-ts/TaskEither';
 import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
 
 /**
  * Get error message from ApiError union type
@@ -22,9 +37,82 @@ const getErrorMessage = (error: ApiError): string => {
 };
 
 /**
- * Connection status for the debate stream
+ * Sends a message to the server over the stream connection
  */
-export type StreamStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+export type StreamSend = WebSocketClient['send'];
+
+/**
+ * Only WebSocket connections can carry messages back to the server
+ */
+const canSend = (client: StreamClient): client is WebSocketClient =>
+  'send' in client && typeof client.send === 'function';
+
+/**
+ * Transport used to receive the debate stream.
+ * `websocket` suits deployments behind proxies that buffer SSE.
+ */
+export type StreamTransport = 'sse' | 'websocket';
+
+/**
+ * Creates a stream client in place of the built-in transports, e.g. the
+ * demo simulator or a replay of a recorded session
+ */
+export type StreamClientFactory = (
+  debateId: string,
+  baseUrl: string,
+  onEvent: StreamEventHandler,
+  options: SSEClientOptions
+) => TE.TaskEither<ApiError, StreamClient>;
+
+/**
+ * Connection status for the debate stream.
+ * `stalled` means the connection is open but nothing has arrived within the
+ * stall timeout, so the backend may have stopped sending.
+ */
+export type StreamStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'stalled' | 'error';
+
+/**
+ * Default milliseconds of silence before the stream counts as stalled
+ */
+export const DEFAULT_STALL_TIMEOUT = 45000;
+
+/**
+ * Options for useDebateStream
+ */
+export interface UseDebateStreamOptions {
+  /** Transport to stream with, SSE by default */
+  transport?: StreamTransport;
+  /** Milliseconds of silence before reporting `stalled` */
+  stallTimeout?: number;
+  /** Bearer token source, usually the one the HTTP client uses */
+  tokenProvider?: TokenProvider;
+  /** Stream client factory replacing the transport */
+  createClient?: StreamClientFactory;
+}
+
+/**
+ * Event log entry for a stream event this client does not understand,
+ * typically one added by a newer server
+ */
+export interface UnknownEventLogEntry {
+  kind: 'unknown';
+  eventId: string;
+  timestamp: number;
+  /** Stream event type, plus the CCR event type for unknown CCR events */
+  eventType: string;
+  raw: unknown;
+}
+
+/**
+ * One line of the event log
+ */
+export type EventLogEntry = CCREventData | UnknownEventLogEntry;
+
+/**
+ * Type guard for unknown event log entries
+ */
+export const isUnknownLogEntry = (entry: EventLogEntry): entry is UnknownEventLogEntry =>
+  'kind' in entry;
 
 /**
  * Return type for useDebateStream hook
@@ -32,22 +120,43 @@ export type StreamStatus = 'disconnected' | 'connecting' | 'connected' | 'reconn
 export interface UseDebateStreamReturn {
   status: StreamStatus;
   error: string | null;
-  ccrEvents: readonly CCREventData[];
+  /** CCR events and events of unknown types, oldest first */
+  ccrEvents: readonly EventLogEntry[];
   clearEvents: () => void;
+  /** Set when the server speaks a newer stream protocol than this client */
+  compatibilityWarning: string | null;
+  /** Replace the current connection, resuming after the last event */
+  reconnect: () => void;
+  /** Stop reporting `stalled`, e.g. once a re-sync showed the backend is fine */
+  clearStall: () => void;
+  /**
+   * Send a message such as a pause command or a human turn over the
+   * connection; none unless connected over a WebSocket
+   */
+  send: O.Option<StreamSend>;
 }
 
 /**
- * React hook for consuming real-time debate updates via Server-Sent Events (SSE).
+ * React hook for consuming real-time debate updates via Server-Sent Events (SSE)
+ * or a WebSocket.
  *
  * This hook:
  * - Automatically connects when a debate is running
  * - Dispatches turn updates to the store via `receiveTurn`
+ * - Tracks round progress from CCR round events via `startRound` / `completeRound`
+ * - Builds live turns from `turn.started` / `turn.streaming` CCR events and
+ *   swaps in the final turn on `turn.completed`
  * - Handles consensus completion via `completeDebate`
  * - Handles errors via `setError`
- * - Auto-reconnects on recoverable errors
+ * - Auto-reconnects on recoverable errors, resuming after the last event id
+ * - Reports `stalled` when the stream goes silent, until the next event
+ * - Warns when the server's `hello` announces a newer protocol version, and
+ *   logs events of unknown types instead of dropping them
+ * - Exposes `send` while connected over a WebSocket
  * - Cleans up connection on unmount
  *
  * @param baseUrl - Base URL of the API server (e.g., 'http://localhost:3000')
+ * @param options - Transport or custom client, stall timeout and token provider
  * @returns Object containing connection status and error state
  *
  * @example
@@ -66,25 +175,58 @@ export interface UseDebateStreamReturn {
  */
 const MAX_CCR_EVENTS = 200;
 
-export const useDebateStream = (baseUrl: string): UseDebateStreamReturn => {
+export const useDebateStream = (
+  baseUrl: string,
+  {
+    transport = 'sse',
+    stallTimeout = DEFAULT_STALL_TIMEOUT,
+    tokenProvider,
+    createClient: customClient,
+  }: UseDebateStreamOptions = {}
+): UseDebateStreamReturn => {
   const [status, setStatus] = useState<StreamStatus>('disconnected');
   const [error, setError] = useState<string | null>(null);
-  const [ccrEvents, setCcrEvents] = useState<readonly CCREventData[]>([]);
+  const [ccrEvents, setCcrEvents] = useState<readonly EventLogEntry[]>([]);
+  const [compatibilityWarning, setCompatibilityWarning] = useState<string | null>(null);
+  const [send, setSend] = useState<O.Option<StreamSend>>(O.none);
 
   // Store actions
   const receiveTurn = useDebateStore((state) => state.receiveTurn);
+  const startTurn = useDebateStore((state) => state.startTurn);
+  const appendTurnDelta = useDebateStore((state) => state.appendTurnDelta);
+  const startRound = useDebateStore((state) => state.startRound);
+  const completeRound = useDebateStore((state) => state.completeRound);
   const completeDebate = useDebateStore((state) => state.completeDebate);
   const setStoreError = useDebateStore((state) => state.setError);
 
   // Get debate state
   const debate = useDebateStore((state) => state.debate);
 
-  // Track SSE client instance
-  const clientRef = useRef<SSEClient | null>(null);
+  // Track stream client instance
+  const clientRef = useRef<StreamClient | null>(null);
+
+  // Where the last client for a debate stopped, so the next one resumes there
+  const resumePointRef = useRef<{ debateId: string; lastEventId: string } | null>(null);
+
+  // Numbers unknown events, which carry no event id of their own
+  const unknownEventCountRef = useRef(0);
 
   // Clear events
   const clearEvents = useCallback(() => setCcrEvents([]), []);
 
+  // Manually replace a connection that looks dead
+  const reconnect = useCallback(() => {
+    if (clientRef.current) {
+      clientRef.current.reconnect();
+      setStatus('reconnecting');
+    }
+  }, []);
+
+  // The stall monitor reports again after the next event and silence
+  const clearStall = useCallback(() => {
+    setStatus((current) => (current === 'stalled' ? 'connected' : current));
+  }, []);
+
   // Check if debate is running
   const isDebateRunning = debate._tag === 'Running';
   const debateId = debate._tag === 'Running' ? debate.debateId : null;
@@ -97,6 +239,7 @@ export const useDebateStream = (baseUrl: string): UseDebateStreamReturn => {
         clientRef.current.close();
         clientRef.current = null;
         setStatus('disconnected');
+        setSend(O.none);
       }
       return;
     }
@@ -105,57 +248,113 @@ export const useDebateStream = (baseUrl: string): UseDebateStreamReturn => {
     setStatus('connecting');
     setError(null);
 
-    // Create SSE client
+    // Resume where the previous client for this debate stopped (e.g. after pause)
+    const resumeFrom =
+      resumePointRef.current?.debateId === debateId ? resumePointRef.current.lastEventId : undefined;
+
+    // Create stream client for the configured transport
     const connectToStream = async () => {
       try {
-        const result = await createSSEClient(
-          debateId,
-          baseUrl,
-          (event: StreamEvent) => {
-            // Handle different event types
-            if (isTurnEvent(event)) {
-              // Dispatch turn to store
-              receiveTurn(event.data);
-            } else if (isConsensusEvent(event)) {
-              // Complete debate with consensus
-              completeDebate(event.data);
-            } else if (isErrorEvent(event)) {
-              // Handle error events
-              const apiError = networkError(event.data.message);
-              setStoreError(apiError, event.data.recoverable);
-
-              if (event.data.recoverable) {
-                setStatus('reconnecting');
-              } else {
-                setStatus('error');
-                setError(event.data.message);
-              }
-            } else if (isCompleteEvent(event)) {
-              // Debate completed, close connection
-              if (clientRef.current) {
-                clientRef.current.close();
-                clientRef.current = null;
-                setStatus('disconnected');
+        const handleEvent = (event: StreamEvent) => {
+          if (isStalledEvent(event)) {
+            setStatus('stalled');
+            return;
+          }
+
+          // Anything else shows the stream is alive again
+          setStatus((current) => (current === 'stalled' || current === 'reconnecting' ? 'connected' : current));
+
+          // Collect events for display, keeping only the most recent ones
+          const logEvent = (entry: EventLogEntry) => {
+            setCcrEvents((prev) => [...prev, entry].slice(-MAX_CCR_EVENTS));
+          };
+
+          // Handle different event types
+          if (isHelloEvent(event)) {
+            setCompatibilityWarning(O.toNullable(checkProtocolVersion(event.data.protocolVersion)));
+          } else if (isUnknownEvent(event)) {
+            unknownEventCountRef.current += 1;
+            logEvent({
+              kind: 'unknown',
+              eventId: `unknown-${String(unknownEventCountRef.current)}`,
+              timestamp: Date.now(),
+              eventType: event.data.eventType ?? event.data.type,
+              raw: event.data.raw,
+            });
+          } else if (isTurnEvent(event)) {
+            // Dispatch turn to store
+            receiveTurn(event.data);
+          } else if (isConsensusEvent(event)) {
+            // Complete debate with consensus
+            completeDebate(event.data);
+          } else if (isErrorEvent(event)) {
+            // Handle error events
+            const apiError = networkError(event.data.message);
+            setStoreError(apiError, event.data.recoverable);
+
+            if (event.data.recoverable) {
+              setStatus('reconnecting');
+            } else {
+              setStatus('error');
+              setError(event.data.message);
+            }
+          } else if (isCompleteEvent(event)) {
+            // Debate completed, close connection
+            if (clientRef.current) {
+              clientRef.current.close();
+              clientRef.current = null;
+              setStatus('disconnected');
+              setSend(O.none);
+            }
+          } else if (isCCREvent(event)) {
+            const { data } = event;
+
+            // One event per chunk would flood the event log
+            if (data.eventType === 'turn.streaming') {
+              if (isTurnStreamingEvent(data) && data.agent !== undefined) {
+                appendTurnDelta(data.agent, data.metadata.delta);
               }
-            } else if (isCCREvent(event)) {
-              // Collect CCR events for display
-              setCcrEvents(prev => {
-                const updated = [...prev, event.data];
-                // Keep only the most recent events
-                return updated.slice(-MAX_CCR_EVENTS);
-              });
+              return;
+            }
+
+            // Round and turn lifecycle events drive the store
+            if (isRoundStartedEvent(data)) {
+              startRound(data.metadata.round);
+            } else if (isRoundCompletedEvent(data)) {
+              completeRound(data.metadata.round);
+            } else if (data.eventType === 'turn.started' && data.agent !== undefined) {
+              startTurn(data.agent);
+            } else if (isTurnCompletedEvent(data)) {
+              receiveTurn(data.metadata.turn);
             }
-          },
-          {
-            maxRetries: 5,
-            initialRetryDelay: 1000,
-            maxRetryDelay: 30000,
+
+            logEvent(data);
           }
-        )();
+        };
+
+        const clientOptions = {
+          maxRetries: 5,
+          initialRetryDelay: 1000,
+          maxRetryDelay: 30000,
+          stallTimeout,
+          ...(tokenProvider !== undefined ? { tokenProvider } : {}),
+          ...(resumeFrom !== undefined ? { lastEventId: resumeFrom } : {}),
+        };
+
+        const createClient: TE.TaskEither<ApiError, StreamClient> =
+          customClient !== undefined
+            ? customClient(debateId, baseUrl, handleEvent, clientOptions)
+            : transport === 'websocket'
+              ? createWebSocketClient(debateId, baseUrl, handleEvent, clientOptions)
+              : createSSEClient(debateId, baseUrl, handleEvent, clientOptions);
+
+        const result = await createClient();
 
         if (E.isRight(result)) {
-          clientRef.current = result.right;
+          const client = result.right;
+          clientRef.current = client;
           setStatus('connected');
+          setSend(canSend(client) ? O.some(client.send) : O.none);
         } else {
           // Connection failed
           const errorMsg = getErrorMessage(result.left);
@@ -176,15 +375,28 @@ export const useDebateStream = (baseUrl: string): UseDebateStreamReturn => {
     // Cleanup on unmount or when debate changes
     return () => {
       if (clientRef.current) {
+        const lastEventId = clientRef.current.getLastEventId();
+        if (O.isSome(lastEventId)) {
+          resumePointRef.current = { debateId, lastEventId: lastEventId.value };
+        }
         clientRef.current.close();
         clientRef.current = null;
+        setSend(O.none);
       }
     };
   }, [
     isDebateRunning,
     debateId,
     baseUrl,
+    transport,
+    stallTimeout,
+    tokenProvider,
+    customClient,
     receiveTurn,
+    startTurn,
+    appendTurnDelta,
+    startRound,
+    completeRound,
     completeDebate,
     setStoreError,
   ]);
@@ -194,5 +406,9 @@ export const useDebateStream = (baseUrl: string): UseDebateStreamReturn => {
     error,
     ccrEvents,
     clearEvents,
+    compatibilityWarning,
+    reconnect,
+    clearStall,
+    send,
   };
 };
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useDebouncedValue } from './useDebouncedValue';
+
+describe('useDebouncedValue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts with the initial value', () => {
+    const { result } = renderHook(() => useDebouncedValue('a', 300));
+
+    expect(result.current).toBe('a');
+  });
+
+  it('follows a value once it stopped changing', () => {
+    const { result, rerender } = renderHook(({ value }) => useDebouncedValue(value, 300), {
+      initialProps: { value: 'a' },
+    });
+
+    rerender({ value: 'ab' });
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    rerender({ value: 'abc' });
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    expect(result.current).toBe('a');
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(result.current).toBe('abc');
+  });
+});
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * React hook that follows a value once it has stopped changing.
+ *
+ * Returns the value it was first called with, then each new value after it
+ * has stayed the same for `delayMs`. Useful to send a request for what the
+ * user typed rather than for every keystroke.
+ *
+ * @param value - Value to follow
+ * @param delayMs - How long the value must stay the same
+ * @returns The last value that stayed the same for `delayMs`
+ */
+export const useDebouncedValue = <T>(value: T, delayMs: number): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebounced(value);
+    }, delayMs);
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [value, delayMs]);
+
+  return debounced;
+};
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useLoadDebate } from './useLoadDebate';
+import { useDebateStore } from '@debateui/state';
+import {
+  cancelledError,
+  notFoundError,
+  serverError,
+  type ApiError,
+  type BranchInfo,
+  type DebateResponse,
+} from '@debateui/core';
+import type { ApiClient } from '@debateui/api-client';
+import * as TE from 'fp-ts/TaskEither';
+import * as O from 'fp-ts/Option';
+import type * as E from 'fp-ts/Either';
+
+const DEBATE_ID = 'c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+
+const debateResponse: DebateResponse = {
+  debateId: DEBATE_ID,
+  status: 'running',
+  question: 'Should we adopt a monorepo?',
+  participants: ['claude', 'gpt4'],
+  currentRound: 2,
+  totalRounds: 4,
+  turns: [
+    {
+      turnId: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+      branchId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+      participantId: 'claude',
+      participantType: 'model',
+      content: 'Yes, for shared tooling.',
+      tokensUsed: 120,
+      costUsd: 0.002,
+      latencyMs: 900,
+      createdAt: '2024-01-01T00:01:00Z',
+    },
+  ],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:05:00Z',
+};
+
+const mainBranch: BranchInfo = {
+  branchId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  parentBranchId: null,
+  forkTurnId: null,
+  name: 'Main',
+  forkMode: 'save',
+  depth: 0,
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+const createClient = (overrides: {
+  getDebate?: ApiClient['debate']['getDebate'];
+  listBranches?: ApiClient['branch']['listBranches'];
+} = {}): ApiClient =>
+  ({
+    debate: {
+      getDebate: overrides.getDebate ?? vi.fn(() => TE.right(debateResponse)),
+    },
+    branch: {
+      listBranches: overrides.listBranches ?? vi.fn(() => TE.right([mainBranch])),
+    },
+  }) as unknown as ApiClient;
+
+describe('useLoadDebate', () => {
+  beforeEach(() => {
+    useDebateStore.getState().reset();
+  });
+
+  it('starts idle', () => {
+    const { result } = renderHook(() => useLoadDebate(createClient()));
+
+    expect(result.current.status).toBe('idle');
+  });
+
+  it('hydrates the store from the debate and its branches', async () => {
+    const getDebate = vi.fn<ApiClient['debate']['getDebate']>(() => TE.right(debateResponse));
+    const listBranches = vi.fn<ApiClient['branch']['listBranches']>(() => TE.right([mainBranch]));
+    const client = createClient({ getDebate, listBranches });
+    const { result } = renderHook(() => useLoadDebate(client));
+
+    await act(async () => {
+      await result.current.load(DEBATE_ID);
+    });
+
+    const [debateId, options] = getDebate.mock.calls[0] ?? [];
+    expect(debateId).toBe(DEBATE_ID);
+    expect(options?.signal).toBeInstanceOf(AbortSignal);
+    expect(listBranches).toHaveBeenCalledWith(DEBATE_ID, options);
+    expect(result.current.status).toBe('loaded');
+
+    const state = useDebateStore.getState();
+    expect(state.debate._tag).toBe('Running');
+    if (state.debate._tag === 'Running') {
+      expect(state.debate.currentRound).toBe(2);
+      expect(state.debate.turns).toEqual(debateResponse.turns);
+    }
+    expect(state.branching.activeBranchId).toEqual(O.some(mainBranch.branchId));
+    expect(state.config.question).toBe(debateResponse.question);
+  });
+
+  it('routes a missing debate into a non-recoverable store error', async () => {
+    const missing = notFoundError('debate', DEBATE_ID);
+    const { result } = renderHook(() =>
+      useLoadDebate(createClient({ getDebate: vi.fn(() => TE.left(missing)) }))
+    );
+
+    await act(async () => {
+      await result.current.load(DEBATE_ID);
+    });
+
+    expect(result.current.status).toBe('error');
+    expect(useDebateStore.getState().debate).toEqual({
+      _tag: 'Error',
+      error: missing,
+      recoverable: false,
+    });
+  });
+
+  it('fails the load when branches cannot be fetched', async () => {
+    const failure = serverError(502, 'Bad gateway');
+    const { result } = renderHook(() =>
+      useLoadDebate(createClient({ listBranches: vi.fn(() => TE.left(failure)) }))
+    );
+
+    await act(async () => {
+      await result.current.load(DEBATE_ID);
+    });
+
+    expect(result.current.status).toBe('error');
+    expect(useDebateStore.getState().debate).toEqual({
+      _tag: 'Error',
+      error: failure,
+      recoverable: true,
+    });
+  });
+
+  it('ignores a load superseded by a newer one', async () => {
+    const OTHER_ID = 'd0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+    let resolveStale: (value: E.Either<ApiError, DebateResponse>) => void = () => undefined;
+    const signals: AbortSignal[] = [];
+    const getDebate = vi.fn((debateId: string, options?: { signal?: AbortSignal }) => {
+      if (options?.signal) signals.push(options.signal);
+      return debateId === DEBATE_ID
+        ? () =>
+            new Promise<E.Either<ApiError, DebateResponse>>((resolve) => {
+              resolveStale = resolve;
+            })
+        : TE.right({ ...debateResponse, debateId: OTHER_ID, question: 'Tabs or spaces?' });
+    });
+    const { result } = renderHook(() => useLoadDebate(createClient({ getDebate })));
+
+    let stale: Promise<void> = Promise.resolve();
+    await act(async () => {
+      stale = result.current.load(DEBATE_ID);
+      await result.current.load(OTHER_ID);
+    });
+    await act(async () => {
+      resolveStale({ _tag: 'Right', right: debateResponse });
+      await stale;
+    });
+
+    expect(signals[0]?.aborted).toBe(true);
+    expect(result.current.status).toBe('loaded');
+    expect(useDebateStore.getState().config.question).toBe('Tabs or spaces?');
+  });
+
+  it('aborts the load on unmount and leaves the store untouched', async () => {
+    let signal: AbortSignal | undefined;
+    // Like the HTTP client, fail with a CancelledError once aborted
+    const getDebate = vi.fn((_debateId: string, options?: { signal?: AbortSignal }) => {
+      signal = options?.signal;
+      return () =>
+        new Promise<E.Either<ApiError, DebateResponse>>((resolve) => {
+          const cancel = () => {
+            resolve({ _tag: 'Left', left: cancelledError() });
+          };
+          if (signal?.aborted) cancel();
+          signal?.addEventListener('abort', cancel);
+        });
+    });
+    const { result, unmount } = renderHook(() => useLoadDebate(createClient({ getDebate })));
+
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = result.current.load(DEBATE_ID);
+    });
+    unmount();
+    await pending;
+
+    expect(signal?.aborted).toBe(true);
+    expect(useDebateStore.getState().debate._tag).toBe('Idle');
+  });
+});
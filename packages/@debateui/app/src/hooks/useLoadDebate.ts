@@ -0,0 +1,78 @@
+import { useState, useCallback } from 'react';
+import { useDebateStore } from '@debateui/state';
+import type { ApiClient } from '@debateui/api-client';
+import { isRecoverableError } from '@debateui/core';
+import * as E from 'fp-ts/Either';
+import * as TE from 'fp-ts/TaskEither';
+import { pipe } from 'fp-ts/function';
+import { useRequestSignal } from './useRequestSignal';
+
+/**
+ * Progress of loading an existing debate
+ */
+export type LoadDebateStatus = 'idle' | 'loading' | 'loaded' | 'error';
+
+/**
+ * Return type for useLoadDebate hook
+ */
+export interface UseLoadDebateReturn {
+  status: LoadDebateStatus;
+  load: (debateId: string) => Promise<void>;
+}
+
+/**
+ * React hook for reopening an existing debate by id.
+ *
+ * This hook:
+ * - Fetches the debate and its branches in parallel
+ * - Hydrates the store via `debateLoaded`, which maps the debate status
+ *   onto the matching DebateState variant
+ * - Routes API failures into the store via `setError`
+ * - Aborts the previous load when another debate is loaded, and the current
+ *   one on unmount; an aborted load leaves the store untouched
+ *
+ * A debate that is still running ends up in the Running state, so a mounted
+ * `useDebateStream` attaches to it without further wiring.
+ *
+ * @param client - API client used for the debate and branch requests
+ * @returns Load status and a function to load a debate
+ *
+ * @example
+ * ```tsx
+ * const { status, load } = useLoadDebate(apiClient);
+ * useEffect(() => { void load(debateId); }, [debateId, load]);
+ * ```
+ */
+export const useLoadDebate = (client: ApiClient): UseLoadDebateReturn => {
+  const [status, setStatus] = useState<LoadDebateStatus>('idle');
+
+  const debateLoaded = useDebateStore((state) => state.debateLoaded);
+  const setStoreError = useDebateStore((state) => state.setError);
+  const { next } = useRequestSignal();
+
+  const load = useCallback(
+    async (debateId: string) => {
+      const signal = next();
+      setStatus('loading');
+
+      const result = await pipe(
+        TE.Do,
+        TE.apS('debate', client.debate.getDebate(debateId, { signal })),
+        TE.apS('branches', client.branch.listBranches(debateId, { signal }))
+      )();
+
+      if (signal.aborted) return;
+
+      if (E.isRight(result)) {
+        debateLoaded(result.right.debate, result.right.branches);
+        setStatus('loaded');
+      } else {
+        setStoreError(result.left, isRecoverableError(result.left));
+        setStatus('error');
+      }
+    },
+    [client, debateLoaded, setStoreError, next]
+  );
+
+  return { status, load };
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useRequestSignal } from './useRequestSignal';
+
+describe('useRequestSignal', () => {
+  it('hands out a live signal', () => {
+    const { result } = renderHook(() => useRequestSignal());
+
+    expect(result.current.next().aborted).toBe(false);
+  });
+
+  it('aborts the previous signal when the next one is taken', () => {
+    const { result } = renderHook(() => useRequestSignal());
+
+    const first = result.current.next();
+    const second = result.current.next();
+
+    expect(first.aborted).toBe(true);
+    expect(second.aborted).toBe(false);
+  });
+
+  it('aborts the current signal on demand', () => {
+    const { result } = renderHook(() => useRequestSignal());
+
+    const signal = result.current.next();
+    result.current.abort();
+
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('aborts the current signal on unmount', () => {
+    const { result, unmount } = renderHook(() => useRequestSignal());
+
+    const signal = result.current.next();
+    unmount();
+
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('keeps its functions stable across renders', () => {
+    const { result, rerender } = renderHook(() => useRequestSignal());
+    const { next, abort } = result.current;
+
+    rerender();
+
+    expect(result.current.next).toBe(next);
+    expect(result.current.abort).toBe(abort);
+  });
+});
@@ -0,0 +1,50 @@
+import { useRef, useCallback, useEffect } from 'react';
+
+/**
+ * Return type for useRequestSignal hook
+ */
+export interface UseRequestSignalReturn {
+  /** Abort the previous request and get the signal for the next one */
+  next: () => AbortSignal;
+  /** Abort the current request, if any */
+  abort: () => void;
+}
+
+/**
+ * React hook handing out abort signals for one request at a time.
+ *
+ * This hook:
+ * - Aborts the previous request whenever a new signal is taken, so a
+ *   superseded request cannot overwrite newer results
+ * - Aborts the current request when the component unmounts
+ *
+ * Requests aborted this way fail with a CancelledError, which callers
+ * ignore rather than report.
+ *
+ * @returns Functions to take the next signal and to abort the current one
+ *
+ * @example
+ * ```tsx
+ * const { next } = useRequestSignal();
+ * const result = await client.debate.getDebate(debateId, { signal: next() })();
+ * ```
+ */
+export const useRequestSignal = (): UseRequestSignalReturn => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const abort = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const next = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  useEffect(() => abort, [abort]);
+
+  return { next, abort };
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useResyncTurns } from './useResyncTurns';
+import { useDebateStore } from '@debateui/state';
+import { serverError, type TurnResponse } from '@debateui/core';
+import type { ApiClient } from '@debateui/api-client';
+import * as TE from 'fp-ts/TaskEither';
+
+const DEBATE_ID = 'c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+
+const createTurn = (turnId: string, createdAt: string): TurnResponse => ({
+  turnId,
+  branchId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  participantId: 'claude',
+  participantType: 'model',
+  content: `Turn ${turnId}`,
+  tokensUsed: 100,
+  costUsd: 0.001,
+  latencyMs: 500,
+  createdAt,
+});
+
+const firstTurn = createTurn('a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', '2024-01-01T00:01:00Z');
+const missedTurn = createTurn('a1eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', '2024-01-01T00:02:00Z');
+
+const createClient = (getTurns: ApiClient['debate']['getTurns']): ApiClient =>
+  ({
+    debate: { getTurns },
+    branch: {},
+  }) as unknown as ApiClient;
+
+describe('useResyncTurns', () => {
+  beforeEach(() => {
+    useDebateStore.getState().reset();
+    const store = useDebateStore.getState();
+    store.startDebate();
+    store.debateStarted(DEBATE_ID);
+  });
+
+  it('starts idle', () => {
+    const { result } = renderHook(() => useResyncTurns(createClient(vi.fn())));
+
+    expect(result.current.status).toBe('idle');
+    expect(result.current.error).toBeNull();
+  });
+
+  it('adds turns the stream missed without duplicating known ones', async () => {
+    useDebateStore.getState().receiveTurn(firstTurn);
+    const getTurns = vi.fn<ApiClient['debate']['getTurns']>(() => TE.right([firstTurn, missedTurn]));
+    const { result } = renderHook(() => useResyncTurns(createClient(getTurns)));
+
+    await act(async () => {
+      await result.current.resync();
+    });
+
+    const [debateId, branchId, options] = getTurns.mock.calls[0] ?? [];
+    expect(debateId).toBe(DEBATE_ID);
+    expect(branchId).toBeUndefined();
+    expect(options?.signal).toBeInstanceOf(AbortSignal);
+    expect(result.current.status).toBe('synced');
+    const state = useDebateStore.getState();
+    expect(state.debate._tag === 'Running' && state.debate.turns.map((t) => t.turnId)).toEqual([
+      firstTurn.turnId,
+      missedTurn.turnId,
+    ]);
+  });
+
+  it('reports failures without ending the debate', async () => {
+    const getTurns = vi.fn(() => TE.left(serverError(503, 'Service unavailable')));
+    const { result } = renderHook(() => useResyncTurns(createClient(getTurns)));
+
+    await act(async () => {
+      await result.current.resync();
+    });
+
+    expect(result.current.status).toBe('error');
+    expect(result.current.error).not.toBeNull();
+    expect(useDebateStore.getState().debate._tag).toBe('Running');
+  });
+
+  it('does nothing when no debate is running', async () => {
+    useDebateStore.getState().reset();
+    const getTurns = vi.fn(() => TE.right([missedTurn]));
+    const { result } = renderHook(() => useResyncTurns(createClient(getTurns)));
+
+    await act(async () => {
+      await result.current.resync();
+    });
+
+    expect(getTurns).not.toHaveBeenCalled();
+    expect(result.current.status).toBe('idle');
+  });
+});
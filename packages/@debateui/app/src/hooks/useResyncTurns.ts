@@ -0,0 +1,74 @@
+import { useState, useCallback } from 'react';
+import { useDebateStore } from '@debateui/state';
+import type { ApiClient } from '@debateui/api-client';
+import { formatApiError } from '@debateui/core';
+import * as E from 'fp-ts/Either';
+import { useRequestSignal } from './useRequestSignal';
+
+/**
+ * Progress of re-fetching the turns of the running debate
+ */
+export type ResyncStatus = 'idle' | 'syncing' | 'synced' | 'error';
+
+/**
+ * Return type for useResyncTurns hook
+ */
+export interface UseResyncTurnsReturn {
+  status: ResyncStatus;
+  error: string | null;
+  resync: () => Promise<void>;
+}
+
+/**
+ * React hook for catching up on turns the stream may have missed.
+ *
+ * This hook:
+ * - Fetches all turns of the running debate via `getTurns`
+ * - Feeds them through `receiveTurn`, which skips turns already shown and
+ *   keeps the timeline in order
+ * - Keeps failures local, so a failed re-sync does not end the debate
+ * - Aborts a re-sync still in flight when another starts or on unmount
+ *
+ * @param client - API client used for the turns request
+ * @returns Re-sync status, the last error and a function to re-sync
+ *
+ * @example
+ * ```tsx
+ * const { status, resync } = useResyncTurns(apiClient);
+ * <button onClick={() => void resync()} disabled={status === 'syncing'}>Re-sync</button>
+ * ```
+ */
+export const useResyncTurns = (client: ApiClient): UseResyncTurnsReturn => {
+  const [status, setStatus] = useState<ResyncStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const debate = useDebateStore((state) => state.debate);
+  const receiveTurn = useDebateStore((state) => state.receiveTurn);
+  const { next } = useRequestSignal();
+
+  const debateId = debate._tag === 'Running' ? debate.debateId : null;
+
+  const resync = useCallback(async () => {
+    if (debateId === null) return;
+
+    const signal = next();
+    setStatus('syncing');
+    setError(null);
+
+    const result = await client.debate.getTurns(debateId, undefined, { signal })();
+
+    if (signal.aborted) return;
+
+    if (E.isRight(result)) {
+      result.right.forEach((turn) => {
+        receiveTurn(turn);
+      });
+      setStatus('synced');
+    } else {
+      setError(formatApiError(result.left));
+      setStatus('error');
+    }
+  }, [client, debateId, receiveTurn, next]);
+
+  return { status, error, resync };
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import * as O from 'fp-ts/Option';
+import { useRoute } from './useRoute';
+import { debateRoute, setupRoute } from '../routing';
+
+const DEBATE_ID = 'c7e9a3b2-1234-5678-90ab-cdef12345678';
+const BRANCH_ID = 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+
+describe('useRoute', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('parses the current location on mount', () => {
+    window.history.replaceState(null, '', `/debates/${DEBATE_ID}/branches/${BRANCH_ID}`);
+
+    const { result } = renderHook(() => useRoute());
+
+    expect(result.current.route).toEqual(debateRoute(DEBATE_ID, O.some(BRANCH_ID)));
+  });
+
+  it('pushes a history entry when navigating', () => {
+    const { result } = renderHook(() => useRoute());
+    const historyLength = window.history.length;
+
+    act(() => {
+      result.current.navigate(debateRoute(DEBATE_ID));
+    });
+
+    expect(window.location.pathname).toBe(`/debates/${DEBATE_ID}`);
+    expect(window.history.length).toBe(historyLength + 1);
+    expect(result.current.route).toEqual(debateRoute(DEBATE_ID));
+  });
+
+  it('replaces the history entry when asked to', () => {
+    const { result } = renderHook(() => useRoute());
+    const historyLength = window.history.length;
+
+    act(() => {
+      result.current.navigate(debateRoute(DEBATE_ID), { replace: true });
+    });
+
+    expect(window.location.pathname).toBe(`/debates/${DEBATE_ID}`);
+    expect(window.history.length).toBe(historyLength);
+  });
+
+  it('follows back/forward navigation', () => {
+    const { result } = renderHook(() => useRoute());
+
+    act(() => {
+      result.current.navigate(debateRoute(DEBATE_ID));
+    });
+    act(() => {
+      window.history.replaceState(null, '', '/');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+
+    expect(result.current.route).toEqual(setupRoute());
+  });
+
+  it('follows turn anchor changes', () => {
+    window.history.replaceState(null, '', `/debates/${DEBATE_ID}`);
+    const { result } = renderHook(() => useRoute());
+
+    act(() => {
+      window.history.replaceState(null, '', `/debates/${DEBATE_ID}#turn-abc`);
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+    });
+
+    expect(result.current.route).toEqual(debateRoute(DEBATE_ID, O.none, O.some('abc')));
+  });
+});
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { parseRoute, formatRoute, type Route } from '../routing';
+
+/**
+ * Options for navigating to a route
+ */
+export interface NavigateOptions {
+  /** Replace the current history entry instead of pushing a new one */
+  replace?: boolean;
+}
+
+/**
+ * Return type for useRoute hook
+ */
+export interface UseRouteReturn {
+  route: Route;
+  navigate: (route: Route, options?: NavigateOptions) => void;
+}
+
+const currentRoute = (): Route => parseRoute(window.location.pathname, window.location.hash);
+
+/**
+ * React hook for client-side routing on top of the History API.
+ *
+ * This hook:
+ * - Parses the current location into a Route on mount
+ * - Follows back/forward navigation (`popstate`) and anchor edits (`hashchange`)
+ * - Pushes (or replaces) history entries when navigating programmatically
+ *
+ * @returns The current route and a function to navigate to another route
+ *
+ * @example
+ * ```tsx
+ * const { route, navigate } = useRoute();
+ * navigate(debateRoute(debateId));
+ * ```
+ */
+export const useRoute = (): UseRouteReturn => {
+  const [route, setRoute] = useState<Route>(currentRoute);
+
+  useEffect(() => {
+    const handleLocationChange = () => {
+      setRoute(currentRoute());
+    };
+
+    window.addEventListener('popstate', handleLocationChange);
+    window.addEventListener('hashchange', handleLocationChange);
+    return () => {
+      window.removeEventListener('popstate', handleLocationChange);
+      window.removeEventListener('hashchange', handleLocationChange);
+    };
+  }, []);
+
+  const navigate = useCallback((next: Route, options: NavigateOptions = {}) => {
+    const url = formatRoute(next);
+    if (options.replace) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+    setRoute(next);
+  }, []);
+
+  return { route, navigate };
+};
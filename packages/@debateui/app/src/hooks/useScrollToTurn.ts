@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+import * as O from 'fp-ts/Option';
+import { turnAnchorId } from '../routing';
+
+/**
+ * React hook that scrolls a deep-linked turn into view.
+ *
+ * Looks up the element with the turn's anchor id (`turn-:turnId`) and scrolls
+ * it to the centre of its scroll container. Re-runs when `turnCount` changes so
+ * a turn that arrives after the link was opened (e.g. once the debate has
+ * loaded) is still brought into view.
+ *
+ * @param turnId - Turn to scroll to, if any
+ * @param turnCount - Number of rendered turns
+ */
+export const useScrollToTurn = (turnId: O.Option<string>, turnCount: number): void => {
+  const targetId = O.toNullable(turnId);
+
+  useEffect(() => {
+    if (targetId === null) return;
+
+    const element = document.getElementById(turnAnchorId(targetId));
+    // scrollIntoView might not be available in test environments (jsdom)
+    if (element && typeof element.scrollIntoView === 'function') {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [targetId, turnCount]);
+};
@@ -0,0 +1,9 @@
+export {
+  type Route,
+  setupRoute,
+  historyRoute,
+  debateRoute,
+  turnAnchorId,
+  parseRoute,
+  formatRoute,
+} from './routes';
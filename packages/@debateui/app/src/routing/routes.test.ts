@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import * as O from 'fp-ts/Option';
+import { parseRoute, formatRoute, debateRoute, historyRoute, setupRoute, turnAnchorId } from './routes';
+
+const DEBATE_ID = 'c7e9a3b2-1234-5678-90ab-cdef12345678';
+const BRANCH_ID = 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+const TURN_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+
+describe('routes', () => {
+  describe('parseRoute', () => {
+    it('parses the root path as the setup wizard', () => {
+      expect(parseRoute('/')).toEqual(setupRoute());
+    });
+
+    it('falls back to the setup wizard for unknown paths', () => {
+      expect(parseRoute('/settings')).toEqual(setupRoute());
+      expect(parseRoute('/debates/history/extra')).toEqual(setupRoute());
+      expect(parseRoute(`/debates/${DEBATE_ID}/turns`)).toEqual(setupRoute());
+    });
+
+    it('parses the debate history path', () => {
+      expect(parseRoute('/debates')).toEqual(historyRoute());
+      expect(parseRoute('/debates/')).toEqual(historyRoute());
+    });
+
+    it('parses a debate path', () => {
+      expect(parseRoute(`/debates/${DEBATE_ID}`)).toEqual(debateRoute(DEBATE_ID));
+    });
+
+    it('tolerates a trailing slash', () => {
+      expect(parseRoute(`/debates/${DEBATE_ID}/`)).toEqual(debateRoute(DEBATE_ID));
+    });
+
+    it('parses a branch path', () => {
+      expect(parseRoute(`/debates/${DEBATE_ID}/branches/${BRANCH_ID}`)).toEqual(
+        debateRoute(DEBATE_ID, O.some(BRANCH_ID))
+      );
+    });
+
+    it('parses a turn anchor on a debate path', () => {
+      expect(parseRoute(`/debates/${DEBATE_ID}`, `#turn-${TURN_ID}`)).toEqual(
+        debateRoute(DEBATE_ID, O.none, O.some(TURN_ID))
+      );
+    });
+
+    it('parses a turn anchor on a branch path', () => {
+      expect(parseRoute(`/debates/${DEBATE_ID}/branches/${BRANCH_ID}`, `#turn-${TURN_ID}`)).toEqual(
+        debateRoute(DEBATE_ID, O.some(BRANCH_ID), O.some(TURN_ID))
+      );
+    });
+
+    it('ignores anchors that are not turn anchors', () => {
+      expect(parseRoute(`/debates/${DEBATE_ID}`, '#main-content')).toEqual(debateRoute(DEBATE_ID));
+      expect(parseRoute(`/debates/${DEBATE_ID}`, '#turn-')).toEqual(debateRoute(DEBATE_ID));
+    });
+
+    it('decodes encoded segments', () => {
+      expect(parseRoute('/debates/my%20debate')).toEqual(debateRoute('my debate'));
+    });
+
+    it('falls back to the setup wizard for malformed escapes', () => {
+      expect(parseRoute('/debates/%E0')).toEqual(setupRoute());
+      expect(parseRoute(`/debates/${DEBATE_ID}/branches/%E0`)).toEqual(setupRoute());
+    });
+
+    it('ignores a turn anchor with a malformed escape', () => {
+      expect(parseRoute(`/debates/${DEBATE_ID}`, '#turn-%E0')).toEqual(debateRoute(DEBATE_ID));
+    });
+  });
+
+  describe('formatRoute', () => {
+    it('formats the setup wizard as the root path', () => {
+      expect(formatRoute(setupRoute())).toBe('/');
+    });
+
+    it('formats the debate history', () => {
+      expect(formatRoute(historyRoute())).toBe('/debates');
+    });
+
+    it('formats debate, branch and turn routes', () => {
+      expect(formatRoute(debateRoute(DEBATE_ID))).toBe(`/debates/${DEBATE_ID}`);
+      expect(formatRoute(debateRoute(DEBATE_ID, O.some(BRANCH_ID)))).toBe(
+        `/debates/${DEBATE_ID}/branches/${BRANCH_ID}`
+      );
+      expect(formatRoute(debateRoute(DEBATE_ID, O.some(BRANCH_ID), O.some(TURN_ID)))).toBe(
+        `/debates/${DEBATE_ID}/branches/${BRANCH_ID}#turn-${TURN_ID}`
+      );
+    });
+
+    it('round-trips through parseRoute', () => {
+      const route = debateRoute('my debate', O.some(BRANCH_ID), O.some(TURN_ID));
+      const [pathname = '', hash = ''] = formatRoute(route).split('#');
+
+      expect(parseRoute(pathname, hash)).toEqual(route);
+    });
+  });
+
+  describe('turnAnchorId', () => {
+    it('prefixes the turn id', () => {
+      expect(turnAnchorId(TURN_ID)).toBe(`turn-${TURN_ID}`);
+    });
+  });
+});
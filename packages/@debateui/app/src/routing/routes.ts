@@ -0,0 +1,100 @@
+import * as O from 'fp-ts/Option';
+import { pipe } from 'fp-ts/function';
+
+/**
+ * Client-side routes.
+ *
+ * - `/` – the setup wizard
+ * - `/debates` – the history of past debates
+ * - `/debates/:debateId` – a debate on its root branch
+ * - `/debates/:debateId/branches/:branchId` – a debate on a specific branch
+ *
+ * Either debate route may carry a `#turn-:turnId` anchor pointing at a turn.
+ */
+export type Route =
+  | { readonly _tag: 'Setup' }
+  | { readonly _tag: 'History' }
+  | {
+      readonly _tag: 'Debate';
+      readonly debateId: string;
+      readonly branchId: O.Option<string>;
+      readonly turnId: O.Option<string>;
+    };
+
+export const setupRoute = (): Route => ({ _tag: 'Setup' });
+
+export const historyRoute = (): Route => ({ _tag: 'History' });
+
+export const debateRoute = (
+  debateId: string,
+  branchId: O.Option<string> = O.none,
+  turnId: O.Option<string> = O.none
+): Route => ({ _tag: 'Debate', debateId, branchId, turnId });
+
+const TURN_ANCHOR_PREFIX = 'turn-';
+
+/**
+ * DOM id of the element rendering a turn, targeted by `#turn-:turnId` anchors
+ */
+export const turnAnchorId = (turnId: string): string => `${TURN_ANCHOR_PREFIX}${turnId}`;
+
+const HISTORY_PATH = /^\/debates\/?$/;
+
+const DEBATE_PATH = /^\/debates\/([^/]+)(?:\/branches\/([^/]+))?\/?$/;
+
+/**
+ * Decode a URL component, or none for a malformed escape such as `%E0`
+ */
+const decodeSegment = (segment: string): O.Option<string> =>
+  O.tryCatch(() => decodeURIComponent(segment));
+
+const parseTurnAnchor = (hash: string): O.Option<string> => {
+  const anchor = hash.startsWith('#') ? hash.slice(1) : hash;
+  return anchor.startsWith(TURN_ANCHOR_PREFIX) && anchor.length > TURN_ANCHOR_PREFIX.length
+    ? decodeSegment(anchor.slice(TURN_ANCHOR_PREFIX.length))
+    : O.none;
+};
+
+/**
+ * Parse a location into a Route. Unknown paths, and paths with malformed
+ * escapes, fall back to the setup wizard; a malformed turn anchor is ignored.
+ *
+ * @param pathname - `location.pathname`
+ * @param hash - `location.hash`, with or without the leading '#'
+ */
+export const parseRoute = (pathname: string, hash = ''): Route => {
+  if (HISTORY_PATH.test(pathname)) {
+    return historyRoute();
+  }
+
+  const match = DEBATE_PATH.exec(pathname);
+  const debateId = pipe(O.fromNullable(match?.[1]), O.chain(decodeSegment));
+  const branchSegment = match?.[2];
+  const branchId = pipe(O.fromNullable(branchSegment), O.chain(decodeSegment));
+  if (O.isNone(debateId) || (branchSegment !== undefined && O.isNone(branchId))) {
+    return setupRoute();
+  }
+
+  return debateRoute(debateId.value, branchId, parseTurnAnchor(hash));
+};
+
+/**
+ * Format a Route as a URL path (plus turn anchor) suitable for `history.pushState`
+ */
+export const formatRoute = (route: Route): string => {
+  switch (route._tag) {
+    case 'Setup':
+      return '/';
+    case 'History':
+      return '/debates';
+    case 'Debate': {
+      const debatePath = `/debates/${encodeURIComponent(route.debateId)}`;
+      const path = O.isSome(route.branchId)
+        ? `${debatePath}/branches/${encodeURIComponent(route.branchId.value)}`
+        : debatePath;
+      return O.isSome(route.turnId)
+        ? `${path}#${turnAnchorId(encodeURIComponent(route.turnId.value))}`
+        : path;
+    }
+  }
+};
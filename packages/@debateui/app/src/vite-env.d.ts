@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_STREAM_TRANSPORT?: string;
+  readonly VITE_DEMO_MODE?: string;
+  readonly VITE_AUTH_REFRESH_URL?: string;
+  readonly VITE_AUTH_LOGIN_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -50,15 +50,50 @@ export {
   DebateStatusSchema,
   DebateResponseSchema,
   BranchInfoSchema,
+  DebateSummarySchema,
+  DebateListResponseSchema,
   parseTurnResponse,
   parseDebateResponse,
   parseBranchInfo,
+  parseDebateListResponse,
   type TurnResponse,
   type DebateStatus,
   type DebateResponse,
   type BranchInfo,
+  type DebateSummary,
+  type DebateListResponse,
 } from './types/api-responses';
 
+// Debate history queries
+export {
+  DEFAULT_DEBATE_PAGE_SIZE,
+  MAX_DEBATE_PAGE_SIZE,
+  DebateSortFieldSchema,
+  DebateListQuerySchema,
+  parseDebateListQuery,
+  queryDebates,
+  type DebateSortField,
+  type DebateListQuery,
+} from './types/debate-list';
+
+// Scripted debates, played by the mock backend and the demo
+export {
+  chunkText,
+  type ScriptedTurn,
+  type ScriptStep,
+  type TimedScriptStep,
+} from './types/debate-script';
+export {
+  createScriptPlayer,
+  scriptedDebate,
+  type DebateEventEntry,
+  type DebateEventListener,
+  type ScriptedDebate,
+  type ScriptedDebateInit,
+  type ScriptPlayer,
+  type ScriptPlayerOptions,
+} from './types/debate-player';
+
 // API Error types
 export {
   type ApiError,
@@ -69,6 +104,9 @@ export {
   isNotFoundError,
   isConflictError,
   isServerError,
+  isServiceUnavailableError,
+  isCancelledError,
+  isDebateFailedError,
   networkError,
   validationError,
   authError,
@@ -76,6 +114,10 @@ export {
   notFoundError,
   conflictError,
   serverError,
+  serviceUnavailableError,
+  cancelledError,
+  debateFailedError,
+  isRecoverableError,
   formatApiError,
 } from './types/errors';
 
@@ -84,6 +126,8 @@ export {
   type DebateState,
   type BranchingState,
   type ForkDraft,
+  type InProgressTurn,
+  type StreamingState,
   type StoreState,
   isIdle,
   isConfiguring,
@@ -100,6 +144,10 @@ export {
   completed,
   error,
   initialBranchingState,
+  debateStateFromResponse,
+  initialStreamingState,
+  initialDebateConfig,
+  initialStoreState,
 } from './types/state';
 
 // Action types
@@ -110,13 +158,18 @@ export {
   startDebate as startDebateAction,
   debateStarted as debateStartedAction,
   receiveTurn as receiveTurnAction,
+  turnStarted,
+  turnDelta,
+  roundStarted,
   roundComplete,
   pauseDebate as pauseDebateAction,
   resumeDebate as resumeDebateAction,
   debateComplete as debateCompleteAction,
   error as errorAction,
+  debateLoaded as debateLoadedAction,
   reset as resetAction,
   selectBranch as selectBranchAction,
+  addBranch as addBranchAction,
   startFork as startForkAction,
   updateForkDraft as updateForkDraftAction,
   submitFork,
@@ -124,3 +177,13 @@ export {
   cancelFork as cancelForkAction,
   canTransition,
 } from './types/actions';
+
+// Store reducer
+export {
+  type StoreAction,
+  type RejectedTransition,
+  type ActionLogEntry,
+  rejectedTransition,
+  reduce,
+  replay,
+} from './types/reducer';
@@ -6,6 +6,9 @@ import {
   startDebate,
   debateStarted,
   receiveTurn,
+  turnStarted,
+  turnDelta,
+  roundStarted,
   roundComplete,
   pauseDebate,
   resumeDebate,
@@ -18,6 +21,8 @@ import {
   submitFork,
   forkCreated,
   cancelFork,
+  debateLoaded,
+  addBranch,
   canTransition,
 } from './actions';
 import {
@@ -31,7 +36,7 @@ import {
   error as errorState,
 } from './state';
 import type { DebateConfig } from './debate';
-import type { TurnResponse } from './api-responses';
+import type { TurnResponse, BranchInfo, DebateResponse } from './api-responses';
 import type { ConsensusResult } from './consensus';
 import { networkError, serverError, type ApiError } from './errors';
 
@@ -59,6 +64,32 @@ const createConsensusResult = (overrides: Partial<ConsensusResult> = {}): Consen
   ...overrides,
 });
 
+// Helper to create valid BranchInfo
+const createBranchInfo = (overrides: Partial<BranchInfo> = {}): BranchInfo => ({
+  branchId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  parentBranchId: null,
+  forkTurnId: null,
+  name: 'Main',
+  forkMode: 'save',
+  depth: 0,
+  createdAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+// Helper to create valid DebateResponse
+const createDebateResponse = (overrides: Partial<DebateResponse> = {}): DebateResponse => ({
+  debateId: 'c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  status: 'running',
+  question: 'What is the meaning of truth?',
+  participants: ['claude', 'gpt-4'],
+  currentRound: 1,
+  totalRounds: 3,
+  turns: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
 // Helper to create valid DebateConfig
 const createDebateConfig = (overrides: Partial<DebateConfig> = {}): DebateConfig => ({
   question: 'What is the meaning of truth?',
@@ -135,6 +166,36 @@ describe('Debate Action Creators', () => {
     });
   });
 
+  describe('turnStarted', () => {
+    it('should create TURN_STARTED action', () => {
+      const action = turnStarted('claude');
+      expect(action.type).toBe('TURN_STARTED');
+      if (action.type === 'TURN_STARTED') {
+        expect(action.payload).toEqual({ participantId: 'claude' });
+      }
+    });
+  });
+
+  describe('turnDelta', () => {
+    it('should create TURN_DELTA action', () => {
+      const action = turnDelta('claude', 'Hello');
+      expect(action.type).toBe('TURN_DELTA');
+      if (action.type === 'TURN_DELTA') {
+        expect(action.payload).toEqual({ participantId: 'claude', delta: 'Hello' });
+      }
+    });
+  });
+
+  describe('roundStarted', () => {
+    it('should create ROUND_STARTED action', () => {
+      const action = roundStarted(2);
+      expect(action.type).toBe('ROUND_STARTED');
+      if (action.type === 'ROUND_STARTED') {
+        expect(action.payload).toEqual({ round: 2 });
+      }
+    });
+  });
+
   describe('roundComplete', () => {
     it('should create ROUND_COMPLETE action', () => {
       const action = roundComplete(3);
@@ -193,6 +254,18 @@ describe('Debate Action Creators', () => {
     });
   });
 
+  describe('debateLoaded', () => {
+    it('should create DEBATE_LOADED action', () => {
+      const debate = createDebateResponse();
+      const branches = [createBranchInfo()];
+      const action = debateLoaded(debate, branches);
+      expect(action.type).toBe('DEBATE_LOADED');
+      if (action.type === 'DEBATE_LOADED') {
+        expect(action.payload).toEqual({ debate, branches });
+      }
+    });
+  });
+
   describe('reset', () => {
     it('should create RESET action', () => {
       const action = reset();
@@ -212,6 +285,17 @@ describe('Branching Action Creators', () => {
     });
   });
 
+  describe('addBranch', () => {
+    it('should create ADD_BRANCH action', () => {
+      const branch = createBranchInfo();
+      const action = addBranch(branch);
+      expect(action.type).toBe('ADD_BRANCH');
+      if (action.type === 'ADD_BRANCH') {
+        expect(action.payload).toBe(branch);
+      }
+    });
+  });
+
   describe('startFork', () => {
     it('should create START_FORK action', () => {
       const action = startFork('turn-5', 'main');
@@ -348,6 +432,16 @@ describe('State Transition Validation', () => {
       expect(canTransition(state, action)).toBe(true);
     });
 
+    it('should allow TURN_STARTED and TURN_DELTA', () => {
+      expect(canTransition(state, turnStarted('claude'))).toBe(true);
+      expect(canTransition(state, turnDelta('claude', 'Hi'))).toBe(true);
+    });
+
+    it('should allow ROUND_STARTED', () => {
+      const action = roundStarted(2);
+      expect(canTransition(state, action)).toBe(true);
+    });
+
     it('should allow ROUND_COMPLETE', () => {
       const action = roundComplete(1);
       expect(canTransition(state, action)).toBe(true);
@@ -383,25 +477,25 @@ describe('State Transition Validation', () => {
 
   describe('canTransition from Paused', () => {
     it('should allow RESUME_DEBATE when resumable', () => {
-      const state = paused('debate-1', 'User pause', true);
+      const state = paused('debate-1', 1, [], 'User pause', true);
       const action = resumeDebate();
       expect(canTransition(state, action)).toBe(true);
     });
 
     it('should not allow RESUME_DEBATE when not resumable', () => {
-      const state = paused('debate-1', 'Critical error', false);
+      const state = paused('debate-1', 1, [], 'Critical error', false);
       const action = resumeDebate();
       expect(canTransition(state, action)).toBe(false);
     });
 
     it('should allow RESET', () => {
-      const state = paused('debate-1', 'Pause', true);
+      const state = paused('debate-1', 1, [], 'Pause', true);
       const action = reset();
       expect(canTransition(state, action)).toBe(true);
     });
 
     it('should not allow RECEIVE_TURN', () => {
-      const state = paused('debate-1', 'Pause', true);
+      const state = paused('debate-1', 1, [], 'Pause', true);
       const turn = createTurnResponse();
       const action = receiveTurn(turn);
       expect(canTransition(state, action)).toBe(false);
@@ -444,6 +538,13 @@ describe('State Transition Validation', () => {
       expect(canTransition(state, action)).toBe(true);
     });
 
+    it('should allow UPDATE_CONFIG to correct a rejected config', () => {
+      const apiError: ApiError = serverError(500, 'Error');
+      const state = errorState(apiError, false);
+      const action = updateConfig({ rounds: 5 });
+      expect(canTransition(state, action)).toBe(true);
+    });
+
     it('should not allow START_DEBATE', () => {
       const apiError: ApiError = networkError('Error');
       const state = errorState(apiError, true);
@@ -459,6 +560,38 @@ describe('State Transition Validation', () => {
       expect(canTransition(state, action)).toBe(false);
     });
   });
+
+  describe('canTransition from any state', () => {
+    const allStates: DebateState[] = [
+      idle(),
+      configuring({}),
+      starting(createDebateConfig()),
+      running('debate-1', 1, []),
+      paused('debate-1', 1, [], 'Pause', false),
+      completed('debate-1', createConsensusResult(), []),
+      errorState(networkError('Error'), false),
+    ];
+
+    it('should allow RESET from every state', () => {
+      allStates.forEach((state) => {
+        expect(canTransition(state, reset())).toBe(true);
+      });
+    });
+
+    it('should allow DEBATE_LOADED from every state', () => {
+      const action = debateLoaded(createDebateResponse(), []);
+      allStates.forEach((state) => {
+        expect(canTransition(state, action)).toBe(true);
+      });
+    });
+
+    it('should allow ERROR from every state except Completed', () => {
+      const action = error(networkError('Error'), true);
+      allStates.forEach((state) => {
+        expect(canTransition(state, action)).toBe(state._tag !== 'Completed');
+      });
+    });
+  });
 });
 
 describe('Action Type Safety', () => {
@@ -483,12 +616,16 @@ describe('Action Type Safety', () => {
       case 'UPDATE_CONFIG':
       case 'START_DEBATE':
       case 'DEBATE_STARTED':
+      case 'TURN_STARTED':
+      case 'TURN_DELTA':
       case 'RECEIVE_TURN':
+      case 'ROUND_STARTED':
       case 'ROUND_COMPLETE':
       case 'PAUSE_DEBATE':
       case 'RESUME_DEBATE':
       case 'DEBATE_COMPLETE':
       case 'ERROR':
+      case 'DEBATE_LOADED':
       case 'RESET':
         expect(true).toBe(true);
         break;
@@ -502,6 +639,7 @@ describe('Action Type Safety', () => {
     const action: BranchingAction = selectBranch('main');
     switch (action.type) {
       case 'SELECT_BRANCH':
+      case 'ADD_BRANCH':
       case 'START_FORK':
       case 'UPDATE_FORK_DRAFT':
       case 'SUBMIT_FORK':
@@ -547,7 +685,7 @@ describe('Complex State Transitions', () => {
     expect(canTransition(state, pauseDebate('User pause'))).toBe(true);
 
     // Paused -> Running (via RESUME)
-    state = paused('debate-1', 'User pause', true);
+    state = paused('debate-1', 1, [], 'User pause', true);
     expect(canTransition(state, resumeDebate())).toBe(true);
   });
 
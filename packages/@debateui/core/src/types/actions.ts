@@ -1,5 +1,5 @@
 import type { DebateConfig } from './debate';
-import type { TurnResponse } from './api-responses';
+import type { TurnResponse, BranchInfo, DebateResponse } from './api-responses';
 import type { ConsensusResult } from './consensus';
 import type { ApiError } from './errors';
 import type { DebateState } from './state';
@@ -12,12 +12,16 @@ export type DebateAction =
   | { readonly type: 'UPDATE_CONFIG'; readonly payload: Partial<DebateConfig> }
   | { readonly type: 'START_DEBATE' }
   | { readonly type: 'DEBATE_STARTED'; readonly payload: { debateId: string } }
+  | { readonly type: 'TURN_STARTED'; readonly payload: { participantId: string } }
+  | { readonly type: 'TURN_DELTA'; readonly payload: { participantId: string; delta: string } }
   | { readonly type: 'RECEIVE_TURN'; readonly payload: TurnResponse }
+  | { readonly type: 'ROUND_STARTED'; readonly payload: { round: number } }
   | { readonly type: 'ROUND_COMPLETE'; readonly payload: { round: number } }
   | { readonly type: 'PAUSE_DEBATE'; readonly payload: { reason: string } }
   | { readonly type: 'RESUME_DEBATE' }
   | { readonly type: 'DEBATE_COMPLETE'; readonly payload: { consensus: ConsensusResult } }
   | { readonly type: 'ERROR'; readonly payload: { error: ApiError; recoverable: boolean } }
+  | { readonly type: 'DEBATE_LOADED'; readonly payload: { debate: DebateResponse; branches: readonly BranchInfo[] } }
   | { readonly type: 'RESET' };
 
 /**
@@ -25,6 +29,7 @@ export type DebateAction =
  */
 export type BranchingAction =
   | { readonly type: 'SELECT_BRANCH'; readonly payload: { branchId: string } }
+  | { readonly type: 'ADD_BRANCH'; readonly payload: BranchInfo }
   | { readonly type: 'START_FORK'; readonly payload: { turnId: string; branchId: string } }
   | { readonly type: 'UPDATE_FORK_DRAFT'; readonly payload: { content: string } }
   | { readonly type: 'SUBMIT_FORK' }
@@ -49,11 +54,26 @@ export const debateStarted = (debateId: string): DebateAction => ({
   payload: { debateId },
 });
 
+export const turnStarted = (participantId: string): DebateAction => ({
+  type: 'TURN_STARTED',
+  payload: { participantId },
+});
+
+export const turnDelta = (participantId: string, delta: string): DebateAction => ({
+  type: 'TURN_DELTA',
+  payload: { participantId, delta },
+});
+
 export const receiveTurn = (payload: TurnResponse): DebateAction => ({
   type: 'RECEIVE_TURN',
   payload,
 });
 
+export const roundStarted = (round: number): DebateAction => ({
+  type: 'ROUND_STARTED',
+  payload: { round },
+});
+
 export const roundComplete = (round: number): DebateAction => ({
   type: 'ROUND_COMPLETE',
   payload: { round },
@@ -78,6 +98,14 @@ export const error = (error: ApiError, recoverable: boolean): DebateAction => ({
   payload: { error, recoverable },
 });
 
+export const debateLoaded = (
+  debate: DebateResponse,
+  branches: readonly BranchInfo[]
+): DebateAction => ({
+  type: 'DEBATE_LOADED',
+  payload: { debate, branches },
+});
+
 export const reset = (): DebateAction => ({
   type: 'RESET',
 });
@@ -90,6 +118,11 @@ export const selectBranch = (branchId: string): BranchingAction => ({
   payload: { branchId },
 });
 
+export const addBranch = (payload: BranchInfo): BranchingAction => ({
+  type: 'ADD_BRANCH',
+  payload,
+});
+
 export const startFork = (turnId: string, branchId: string): BranchingAction => ({
   type: 'START_FORK',
   payload: { turnId, branchId },
@@ -122,49 +155,50 @@ export const cancelFork = (): BranchingAction => ({
  * @returns true if transition is valid, false otherwise
  */
 export const canTransition = (from: DebateState, action: DebateAction): boolean => {
+  // Loading a debate replaces whatever is shown, and reset is always available
+  if (action.type === 'DEBATE_LOADED' || action.type === 'RESET') {
+    return true;
+  }
+
+  // Errors can interrupt any state except a finished debate
+  if (action.type === 'ERROR') {
+    return from._tag !== 'Completed';
+  }
+
   // Define valid state transitions
   switch (from._tag) {
     case 'Idle':
-      return (
-        action.type === 'UPDATE_CONFIG' ||
-        action.type === 'START_DEBATE' ||
-        action.type === 'RESET'
-      );
-
     case 'Configuring':
       return (
         action.type === 'UPDATE_CONFIG' ||
-        action.type === 'START_DEBATE' ||
-        action.type === 'RESET'
+        action.type === 'START_DEBATE'
       );
 
     case 'Starting':
-      return (
-        action.type === 'DEBATE_STARTED' ||
-        action.type === 'ERROR'
-      );
+      return action.type === 'DEBATE_STARTED';
 
     case 'Running':
       return (
+        action.type === 'TURN_STARTED' ||
+        action.type === 'TURN_DELTA' ||
         action.type === 'RECEIVE_TURN' ||
+        action.type === 'ROUND_STARTED' ||
         action.type === 'ROUND_COMPLETE' ||
         action.type === 'PAUSE_DEBATE' ||
-        action.type === 'DEBATE_COMPLETE' ||
-        action.type === 'ERROR'
+        action.type === 'DEBATE_COMPLETE'
       );
 
     case 'Paused':
       // Can only resume if the state indicates it's resumable
-      if (action.type === 'RESUME_DEBATE') {
-        return from.canResume;
-      }
-      return action.type === 'RESET';
+      return action.type === 'RESUME_DEBATE' && from.canResume;
 
     case 'Completed':
-      return action.type === 'RESET';
+      return false;
 
     case 'Error':
-      return action.type === 'RESET';
+      // The config can be corrected, e.g. after the server rejected it,
+      // before starting over
+      return action.type === 'UPDATE_CONFIG';
 
     default:
       // Exhaustive check - should never reach here
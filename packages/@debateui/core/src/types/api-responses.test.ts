@@ -5,9 +5,11 @@ import {
   DebateStatusSchema,
   DebateResponseSchema,
   BranchInfoSchema,
+  DebateListResponseSchema,
   parseTurnResponse,
   parseDebateResponse,
   parseBranchInfo,
+  parseDebateListResponse,
   type TurnResponse,
   type DebateStatus,
 } from './api-responses.js';
@@ -133,6 +135,25 @@ describe('api-responses.ts - TurnResponseSchema', () => {
     const result = TurnResponseSchema.safeParse(invalidDatetime);
     expect(result.success).toBe(false);
   });
+
+  it('validates TurnResponse tagged with its round', () => {
+    const withRound = {
+      turnId: '123e4567-e89b-12d3-a456-426614174000',
+      branchId: '223e4567-e89b-12d3-a456-426614174000',
+      participantId: 'model-1',
+      participantType: 'model',
+      content: 'test',
+      tokensUsed: 10,
+      costUsd: 0.001,
+      latencyMs: 100,
+      createdAt: '2025-12-01T10:30:00Z',
+      round: 3,
+    };
+
+    const result = TurnResponseSchema.safeParse(withRound);
+    expect(result.success).toBe(true);
+    expect(TurnResponseSchema.safeParse({ ...withRound, round: 0 }).success).toBe(false);
+  });
 });
 
 describe('api-responses.ts - DebateStatusSchema', () => {
@@ -156,6 +177,7 @@ describe('api-responses.ts - DebateResponseSchema', () => {
       debateId: '123e4567-e89b-12d3-a456-426614174000',
       status: 'running' as const,
       question: 'Is AI beneficial for humanity?',
+      participants: ['claude', 'gpt-4'],
       currentRound: 2,
       totalRounds: 5,
       turns: [
@@ -185,6 +207,7 @@ describe('api-responses.ts - DebateResponseSchema', () => {
       debateId: '123e4567-e89b-12d3-a456-426614174000',
       status: 'pending' as const,
       question: 'Should we proceed?',
+      participants: ['claude'],
       currentRound: 0,
       totalRounds: 3,
       turns: [],
@@ -291,6 +314,40 @@ describe('api-responses.ts - BranchInfoSchema', () => {
   });
 });
 
+describe('api-responses.ts - DebateListResponseSchema', () => {
+  const summary = {
+    debateId: '123e4567-e89b-12d3-a456-426614174000',
+    status: 'completed' as const,
+    question: 'Should we adopt a monorepo?',
+    participants: ['claude', 'gpt4'],
+    currentRound: 3,
+    totalRounds: 3,
+    createdAt: '2025-12-01T10:00:00Z',
+    updatedAt: '2025-12-01T10:30:00Z',
+  };
+
+  it('validates a page of debate summaries', () => {
+    const result = DebateListResponseSchema.safeParse({ debates: [summary], nextCursor: 'abc' });
+    expect(result.success).toBe(true);
+  });
+
+  it('validates the last page with a null cursor', () => {
+    const result = DebateListResponseSchema.safeParse({ debates: [], nextCursor: null });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects a page without a cursor', () => {
+    const result = DebateListResponseSchema.safeParse({ debates: [summary] });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a summary without participants', () => {
+    const { participants: _, ...withoutParticipants } = summary;
+    const result = parseDebateListResponse({ debates: [withoutParticipants], nextCursor: null });
+    expect(E.isLeft(result)).toBe(true);
+  });
+});
+
 describe('api-responses.ts - fp-ts Parsers', () => {
   describe('parseTurnResponse', () => {
     it('returns Right for valid input', () => {
@@ -350,6 +407,7 @@ describe('api-responses.ts - fp-ts Parsers', () => {
         debateId: '123e4567-e89b-12d3-a456-426614174000',
         status: 'running',
         question: 'Test question?',
+        participants: ['claude'],
         currentRound: 1,
         totalRounds: 3,
         turns: [],
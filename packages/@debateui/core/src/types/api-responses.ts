@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import * as E from 'fp-ts/Either';
+import { ConsensusResultSchema } from './consensus';
 
 /**
  * Schema for a single turn response from the API.
@@ -15,6 +16,7 @@ export const TurnResponseSchema = z.object({
   costUsd: z.number().nonnegative(),
   latencyMs: z.number().int().nonnegative(),
   createdAt: z.string().datetime(),
+  round: z.number().int().positive().optional(),
 });
 
 /**
@@ -39,9 +41,11 @@ export const DebateResponseSchema = z.object({
   debateId: z.string().uuid(),
   status: DebateStatusSchema,
   question: z.string(),
+  participants: z.array(z.string()),
   currentRound: z.number().int().nonnegative(),
   totalRounds: z.number().int().positive(),
   turns: z.array(TurnResponseSchema),
+  consensus: ConsensusResultSchema.optional(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
@@ -69,6 +73,41 @@ export const BranchInfoSchema = z.object({
  */
 export type BranchInfo = z.infer<typeof BranchInfoSchema>;
 
+/**
+ * Schema for a debate as listed in the debate history.
+ * Carries what a list shows, without the turns.
+ */
+export const DebateSummarySchema = z.object({
+  debateId: z.string().uuid(),
+  status: DebateStatusSchema,
+  question: z.string(),
+  participants: z.array(z.string()),
+  currentRound: z.number().int().nonnegative(),
+  totalRounds: z.number().int().positive(),
+  consensus: ConsensusResultSchema.optional(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+/**
+ * TypeScript type inferred from DebateSummarySchema.
+ */
+export type DebateSummary = z.infer<typeof DebateSummarySchema>;
+
+/**
+ * Schema for one page of the debate history.
+ * `nextCursor` is null on the last page.
+ */
+export const DebateListResponseSchema = z.object({
+  debates: z.array(DebateSummarySchema),
+  nextCursor: z.string().nullable(),
+});
+
+/**
+ * TypeScript type inferred from DebateListResponseSchema.
+ */
+export type DebateListResponse = z.infer<typeof DebateListResponseSchema>;
+
 /**
  * Parse an unknown value into a TurnResponse using fp-ts Either.
  * Returns Right(TurnResponse) on success, Left(ZodError) on failure.
@@ -104,3 +143,15 @@ export const parseBranchInfo = (input: unknown): E.Either<z.ZodError, BranchInfo
   }
   return E.left(result.error);
 };
+
+/**
+ * Parse an unknown value into a DebateListResponse using fp-ts Either.
+ * Returns Right(DebateListResponse) on success, Left(ZodError) on failure.
+ */
+export const parseDebateListResponse = (input: unknown): E.Either<z.ZodError, DebateListResponse> => {
+  const result = DebateListResponseSchema.safeParse(input);
+  if (result.success) {
+    return E.right(result.data);
+  }
+  return E.left(result.error);
+};
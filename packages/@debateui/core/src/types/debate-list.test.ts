@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import * as E from 'fp-ts/Either';
+import type { DebateSummary } from './api-responses.js';
+import { parseDebateListQuery, queryDebates, type DebateListQuery } from './debate-list.js';
+
+const summary = (n: number, overrides: Partial<DebateSummary> = {}): DebateSummary => ({
+  debateId: `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`,
+  status: 'completed',
+  question: `Question number ${String(n)}`,
+  participants: ['claude', 'gpt4'],
+  currentRound: 3,
+  totalRounds: 3,
+  createdAt: `2025-12-${String(n).padStart(2, '0')}T10:00:00Z`,
+  updatedAt: `2025-12-${String(n).padStart(2, '0')}T11:00:00Z`,
+  ...overrides,
+});
+
+const ids = (result: ReturnType<typeof queryDebates>): string[] =>
+  E.isRight(result) ? result.right.debates.map((debate) => debate.debateId.slice(-2)) : [];
+
+const debates = [
+  summary(1, { status: 'running', question: 'Should we adopt Rust?', participants: ['claude', 'deepseek'] }),
+  summary(2, { question: 'Monolith or microservices?' }),
+  summary(3, { status: 'error', question: 'Is RUST worth the learning curve?' }),
+  summary(4, { status: 'paused', participants: ['gpt4', 'deepseek', 'claude'] }),
+];
+
+describe('debate-list.ts - parseDebateListQuery', () => {
+  it('accepts an empty query', () => {
+    expect(parseDebateListQuery({})).toEqual(E.right({}));
+  });
+
+  it('accepts every filter', () => {
+    const query: DebateListQuery = {
+      status: ['running', 'paused'],
+      participants: ['claude'],
+      question: 'rust',
+      createdAfter: '2025-12-01T00:00:00Z',
+      createdBefore: '2025-12-31T00:00:00Z',
+      sortBy: 'updatedAt',
+      sortOrder: 'asc',
+      cursor: 'abc',
+      limit: 50,
+    };
+    expect(parseDebateListQuery(query)).toEqual(E.right(query));
+  });
+
+  it('rejects unknown statuses, bad dates and oversized pages', () => {
+    expect(E.isLeft(parseDebateListQuery({ status: ['archived'] }))).toBe(true);
+    expect(E.isLeft(parseDebateListQuery({ createdAfter: 'yesterday' }))).toBe(true);
+    expect(E.isLeft(parseDebateListQuery({ limit: 500 }))).toBe(true);
+    expect(E.isLeft(parseDebateListQuery({ limit: 0 }))).toBe(true);
+  });
+});
+
+describe('debate-list.ts - queryDebates', () => {
+  it('lists the newest debates first by default', () => {
+    expect(ids(queryDebates(debates, {}))).toEqual(['04', '03', '02', '01']);
+  });
+
+  it('filters by status', () => {
+    expect(ids(queryDebates(debates, { status: ['running', 'paused'] }))).toEqual(['04', '01']);
+  });
+
+  it('keeps debates including every listed participant', () => {
+    expect(ids(queryDebates(debates, { participants: ['claude', 'deepseek'] }))).toEqual(['04', '01']);
+  });
+
+  it('searches the question ignoring case', () => {
+    expect(ids(queryDebates(debates, { question: ' rust ' }))).toEqual(['03', '01']);
+  });
+
+  it('filters by creation time, from inclusive to exclusive', () => {
+    const query = { createdAfter: '2025-12-02T10:00:00Z', createdBefore: '2025-12-04T10:00:00Z' };
+    expect(ids(queryDebates(debates, query))).toEqual(['03', '02']);
+  });
+
+  it('sorts by question in either order', () => {
+    expect(ids(queryDebates(debates, { sortBy: 'question', sortOrder: 'asc' }))).toEqual(['03', '02', '04', '01']);
+    expect(ids(queryDebates(debates, { sortBy: 'question' }))).toEqual(['01', '04', '02', '03']);
+  });
+
+  it('pages with the cursor of the previous page', () => {
+    const first = queryDebates(debates, { limit: 3 });
+    const nextCursor = E.isRight(first) ? first.right.nextCursor : null;
+
+    expect(ids(first)).toEqual(['04', '03', '02']);
+    expect(nextCursor).not.toBeNull();
+
+    const second = queryDebates(debates, { limit: 3, cursor: nextCursor ?? '' });
+    expect(ids(second)).toEqual(['01']);
+    expect(E.isRight(second) && second.right.nextCursor).toBeNull();
+  });
+
+  it('neither skips nor repeats debates created between pages', () => {
+    const first = queryDebates(debates, { limit: 2, sortOrder: 'asc' });
+    const cursor = E.isRight(first) ? first.right.nextCursor ?? '' : '';
+
+    const second = queryDebates([summary(0), ...debates, summary(9)], { limit: 2, sortOrder: 'asc', cursor });
+
+    expect(ids(first)).toEqual(['01', '02']);
+    expect(ids(second)).toEqual(['03', '04']);
+  });
+
+  it('breaks ties by debate id', () => {
+    const tied = [summary(2, { createdAt: '2025-12-01T10:00:00Z' }), summary(1)];
+    const first = queryDebates(tied, { limit: 1 });
+    const cursor = E.isRight(first) ? first.right.nextCursor ?? '' : '';
+
+    expect(ids(first)).toEqual(['02']);
+    expect(ids(queryDebates(tied, { limit: 1, cursor }))).toEqual(['01']);
+  });
+
+  it('rejects a malformed cursor', () => {
+    const result = queryDebates(debates, { cursor: 'not-a-cursor' });
+    expect(E.isLeft(result) && result.left.issues[0]?.path).toEqual(['cursor']);
+  });
+});
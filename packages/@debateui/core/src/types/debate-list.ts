@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import {
+  DebateStatusSchema,
+  type DebateListResponse,
+  type DebateSummary,
+} from './api-responses';
+
+/**
+ * Page size of the debate history when the query sets none
+ */
+export const DEFAULT_DEBATE_PAGE_SIZE = 20;
+
+/**
+ * Largest page of the debate history a query may ask for
+ */
+export const MAX_DEBATE_PAGE_SIZE = 100;
+
+/**
+ * Fields the debate history can be sorted by
+ */
+export const DebateSortFieldSchema = z.enum(['createdAt', 'updatedAt', 'question']);
+
+/**
+ * TypeScript type for a sort field of the debate history.
+ */
+export type DebateSortField = z.infer<typeof DebateSortFieldSchema>;
+
+/**
+ * Schema for a query of the debate history.
+ * Every filter is optional; the filters that are set must all match:
+ * - `status`: the debate is in one of the statuses
+ * - `participants`: the debate includes every one of the participants
+ * - `question`: the question contains the text, ignoring case
+ * - `createdAfter` / `createdBefore`: creation time, from inclusive to exclusive
+ *
+ * Results are sorted by `sortBy` (default `createdAt`) in `sortOrder`
+ * (default `desc`), and paged with the opaque `cursor` of the previous page.
+ */
+export const DebateListQuerySchema = z.object({
+  status: z.array(DebateStatusSchema).optional(),
+  participants: z.array(z.string().min(1)).optional(),
+  question: z.string().optional(),
+  createdAfter: z.string().datetime().optional(),
+  createdBefore: z.string().datetime().optional(),
+  sortBy: DebateSortFieldSchema.optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(MAX_DEBATE_PAGE_SIZE).optional(),
+});
+
+/**
+ * TypeScript type inferred from DebateListQuerySchema.
+ */
+export type DebateListQuery = z.infer<typeof DebateListQuerySchema>;
+
+/**
+ * Parse an unknown value into a DebateListQuery using fp-ts Either.
+ * Returns Right(DebateListQuery) on success, Left(ZodError) on failure.
+ */
+export const parseDebateListQuery = (input: unknown): E.Either<z.ZodError, DebateListQuery> => {
+  const result = DebateListQuerySchema.safeParse(input);
+  if (result.success) {
+    return E.right(result.data);
+  }
+  return E.left(result.error);
+};
+
+/**
+ * Position after a listed debate: its sort key and id, the tie-breaker
+ */
+const CursorSchema = z.tuple([z.union([z.string(), z.number()]), z.string()]);
+
+type SortKey = string | number;
+
+const sortKey = (debate: DebateSummary, field: DebateSortField): SortKey => {
+  switch (field) {
+    case 'createdAt':
+      return Date.parse(debate.createdAt);
+    case 'updatedAt':
+      return Date.parse(debate.updatedAt);
+    case 'question':
+      return debate.question.toLowerCase();
+  }
+};
+
+const compareKeys = (a: readonly [SortKey, string], b: readonly [SortKey, string]): number =>
+  a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+
+const decodeCursor = (cursor: string): E.Either<z.ZodError, readonly [SortKey, string]> =>
+  pipe(
+    E.tryCatch(
+      (): unknown => JSON.parse(cursor),
+      () => undefined
+    ),
+    E.chainW((json) => {
+      const result = CursorSchema.safeParse(json);
+      return result.success ? E.right(result.data) : E.left(undefined);
+    }),
+    E.mapLeft(
+      () => new z.ZodError([{ code: 'custom', path: ['cursor'], message: 'Invalid cursor' }])
+    )
+  );
+
+const matches =
+  (query: DebateListQuery) =>
+  (debate: DebateSummary): boolean => {
+    const text = query.question?.trim().toLowerCase() ?? '';
+    const createdAt = Date.parse(debate.createdAt);
+    return (
+      (query.status === undefined || query.status.length === 0 || query.status.includes(debate.status)) &&
+      (query.participants ?? []).every((participant) => debate.participants.includes(participant)) &&
+      (text === '' || debate.question.toLowerCase().includes(text)) &&
+      (query.createdAfter === undefined || createdAt >= Date.parse(query.createdAfter)) &&
+      (query.createdBefore === undefined || createdAt < Date.parse(query.createdBefore))
+    );
+  };
+
+/**
+ * Answer a query of the debate history from the full list of debates.
+ * This is how the backend filters, sorts and pages the history; offline
+ * backends use it to answer the same way.
+ *
+ * Cursors point past the last debate of a page by its sort key, so pages
+ * neither skip nor repeat debates when others are created in between.
+ *
+ * @param debates - Every debate, in any order
+ * @param query - Filters, sort and page of the query
+ * @returns Right(DebateListResponse), or Left(ZodError) for a malformed cursor
+ */
+export const queryDebates = (
+  debates: readonly DebateSummary[],
+  query: DebateListQuery
+): E.Either<z.ZodError, DebateListResponse> => {
+  const field = query.sortBy ?? 'createdAt';
+  const direction = query.sortOrder === 'asc' ? 1 : -1;
+  const limit = query.limit ?? DEFAULT_DEBATE_PAGE_SIZE;
+  const keyOf = (debate: DebateSummary): readonly [SortKey, string] => [sortKey(debate, field), debate.debateId];
+
+  return pipe(
+    query.cursor === undefined
+      ? E.right<z.ZodError, readonly [SortKey, string] | undefined>(undefined)
+      : decodeCursor(query.cursor),
+    E.map((after) => {
+      const sorted = debates
+        .filter(matches(query))
+        .sort((a, b) => direction * compareKeys(keyOf(a), keyOf(b)))
+        .filter((debate) => after === undefined || direction * compareKeys(keyOf(debate), after) > 0);
+      const page = sorted.slice(0, limit);
+      const last = page[page.length - 1];
+      return {
+        debates: page,
+        nextCursor: sorted.length > limit && last !== undefined ? JSON.stringify(keyOf(last)) : null,
+      };
+    })
+  );
+};
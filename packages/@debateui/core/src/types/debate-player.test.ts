@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as E from 'fp-ts/Either';
+import type { DebateConfig } from './debate.js';
+import type { ScriptStep, ScriptedTurn, TimedScriptStep } from './debate-script.js';
+import {
+  createScriptPlayer,
+  scriptedDebate,
+  type DebateEventEntry,
+  type ScriptedDebate,
+} from './debate-player.js';
+
+const CONFIG: DebateConfig = {
+  question: 'Should we adopt a monorepo?',
+  participants: ['claude', 'gpt4'],
+  rounds: 1,
+  forkMode: 'save',
+  consensusThreshold: 0.7,
+};
+
+const TURN = { participantId: 'claude', round: 1, content: 'Yes.' };
+
+const STEPS: TimedScriptStep[] = [
+  { delayMs: 0, step: { kind: 'roundStarted', round: 1 } },
+  { delayMs: 100, step: { kind: 'turnCompleted', turn: TURN } },
+  {
+    delayMs: 100,
+    step: {
+      kind: 'consensus',
+      consensus: { level: 'strong', percentage: 0.9, supporting: 2, dissenting: 0, confidence: 0.8 },
+    },
+  },
+];
+
+type TestDebate = ScriptedDebate<string>;
+
+// Player emitting the kind of every step it plays
+const createPlayer = (speed?: number) =>
+  createScriptPlayer<string, ScriptedTurn, TestDebate>({
+    timestamp: () => new Date().toISOString(),
+    play: (debate: TestDebate, step: ScriptStep, emit) => {
+      if (step.kind === 'consensus') {
+        debate.status = 'completed';
+      }
+      emit(step.kind);
+    },
+    ...(speed !== undefined && { speed }),
+  });
+
+const newDebate = (debateId = 'debate-1'): TestDebate =>
+  scriptedDebate<string>({
+    debateId,
+    config: CONFIG,
+    mainBranchId: 'main',
+    forkMode: 'save',
+    steps: STEPS,
+    createdAt: '2025-12-01T10:00:00Z',
+  });
+
+const kinds = (entries: readonly DebateEventEntry<string>[]): string[] => entries.map((entry) => entry.event);
+
+describe('debate-player.ts - scriptedDebate', () => {
+  it('starts pending on its main branch', () => {
+    const debate = newDebate();
+
+    expect(debate.status).toBe('pending');
+    expect(debate.branches).toEqual([
+      {
+        branchId: 'main',
+        parentBranchId: null,
+        forkTurnId: null,
+        name: 'Main',
+        forkMode: 'save',
+        depth: 0,
+        createdAt: '2025-12-01T10:00:00Z',
+      },
+    ]);
+  });
+});
+
+describe('debate-player.ts - createScriptPlayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('finds the debates it holds', () => {
+    const player = createPlayer();
+    const debate = newDebate();
+    player.add(debate);
+
+    expect(player.find('debate-1')).toEqual(E.right(debate));
+    expect(player.find('other')).toEqual(
+      E.left({ _tag: 'NotFoundError', resource: 'debate', id: 'other' })
+    );
+    expect(player.has('debate-1')).toBe(true);
+    expect(E.isLeft(player.findBranch(debate, 'fork'))).toBe(true);
+  });
+
+  it('plays the steps of a running debate on their delays', () => {
+    const player = createPlayer();
+    const debate = newDebate();
+    player.add(debate);
+
+    expect(E.isRight(player.transition('debate-1', 'pending', 'running'))).toBe(true);
+    player.schedule(debate);
+    vi.advanceTimersByTime(100);
+    expect(kinds(debate.events)).toEqual(['roundStarted', 'turnCompleted']);
+
+    vi.advanceTimersByTime(100);
+    expect(kinds(debate.events)).toEqual(['roundStarted', 'turnCompleted', 'consensus']);
+    expect(debate.status).toBe('completed');
+  });
+
+  it('plays faster at a higher speed', () => {
+    const player = createPlayer(2);
+    const debate = newDebate();
+    player.add(debate);
+    player.transition('debate-1', 'pending', 'running');
+
+    player.schedule(debate);
+    vi.advanceTimersByTime(100);
+
+    expect(kinds(debate.events)).toEqual(['roundStarted', 'turnCompleted', 'consensus']);
+  });
+
+  it('stops playing a stopped debate', () => {
+    const player = createPlayer();
+    const debate = newDebate();
+    player.add(debate);
+    player.transition('debate-1', 'pending', 'running');
+
+    player.schedule(debate);
+    vi.advanceTimersByTime(0);
+    player.stop(debate);
+    vi.advanceTimersByTime(1000);
+
+    expect(kinds(debate.events)).toEqual(['roundStarted']);
+  });
+
+  it('refuses a transition from another status', () => {
+    const player = createPlayer();
+    player.add(newDebate());
+
+    expect(player.transition('debate-1', 'running', 'paused')).toEqual(
+      E.left({ _tag: 'ConflictError', message: 'Debate is pending, not running', conflictingResource: 'debate' })
+    );
+  });
+
+  it('replays the events after the last event id, then follows new ones', () => {
+    const player = createPlayer();
+    const debate = newDebate();
+    player.add(debate);
+    player.emit(debate, 'first');
+    player.emit(debate, 'second');
+
+    const received: DebateEventEntry<string>[] = [];
+    const unsubscribe = player.subscribe(debate, '1', (entry) => {
+      received.push(entry);
+    });
+    player.emit(debate, 'third');
+    unsubscribe();
+    player.emit(debate, 'fourth');
+
+    expect(received).toEqual([
+      { id: '2', event: 'second' },
+      { id: '3', event: 'third' },
+    ]);
+  });
+
+  it('describes and summarises debates with the turns of their main branch', () => {
+    const player = createPlayer();
+    const debate = newDebate();
+    player.add(debate);
+    debate.turns.push({
+      turnId: 't1',
+      branchId: 'main',
+      participantId: 'claude',
+      participantType: 'model',
+      content: 'Yes.',
+      tokensUsed: 1,
+      costUsd: 0,
+      latencyMs: 0,
+      createdAt: '2025-12-01T10:01:00Z',
+    });
+
+    expect(player.describe(debate)).toMatchObject({
+      debateId: 'debate-1',
+      status: 'pending',
+      participants: ['claude', 'gpt4'],
+      totalRounds: 1,
+      turns: debate.turns,
+    });
+    expect(player.summaries().map((summary) => summary.debateId)).toEqual(['debate-1']);
+    expect(player.turnsOf(debate, 'main')).toEqual(E.right(debate.turns));
+  });
+});
@@ -0,0 +1,292 @@
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import type {
+  BranchInfo,
+  DebateResponse,
+  DebateStatus,
+  DebateSummary,
+  TurnResponse,
+} from './api-responses';
+import type { ConsensusResult } from './consensus';
+import type { DebateConfig, ForkMode } from './debate';
+import type { ScriptStep, ScriptedTurn, TimedScriptStep } from './debate-script';
+import { conflictError, notFoundError, type ApiError } from './errors';
+
+/**
+ * A debate event with the id clients resume from
+ */
+export interface DebateEventEntry<Event> {
+  readonly id: string;
+  readonly event: Event;
+}
+
+/**
+ * Receives the events of one debate
+ */
+export type DebateEventListener<Event> = (entry: DebateEventEntry<Event>) => void;
+
+/**
+ * State of a debate played from a script.
+ * Players add what else they track, e.g. running costs.
+ */
+export interface ScriptedDebate<Event, Turn extends ScriptedTurn = ScriptedTurn> {
+  readonly debateId: string;
+  readonly config: DebateConfig;
+  readonly mainBranchId: string;
+  readonly createdAt: string;
+  readonly steps: readonly TimedScriptStep<Turn>[];
+  readonly events: DebateEventEntry<Event>[];
+  readonly listeners: Set<DebateEventListener<Event>>;
+  status: DebateStatus;
+  currentRound: number;
+  updatedAt: string;
+  consensus: ConsensusResult | undefined;
+  turns: TurnResponse[];
+  branches: BranchInfo[];
+  cursor: number;
+  timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+/**
+ * What a new scripted debate is created from
+ */
+export interface ScriptedDebateInit<Turn extends ScriptedTurn = ScriptedTurn> {
+  readonly debateId: string;
+  readonly config: DebateConfig;
+  readonly mainBranchId: string;
+  /** Fork mode of the main branch */
+  readonly forkMode: ForkMode;
+  readonly steps: readonly TimedScriptStep<Turn>[];
+  readonly createdAt: string;
+}
+
+/**
+ * A pending debate on its main branch, with nothing played yet
+ *
+ * @param init - Ids, config, script and creation time of the debate
+ * @returns State of the debate
+ */
+export const scriptedDebate = <Event, Turn extends ScriptedTurn = ScriptedTurn>(
+  init: ScriptedDebateInit<Turn>
+): ScriptedDebate<Event, Turn> => ({
+  debateId: init.debateId,
+  config: init.config,
+  mainBranchId: init.mainBranchId,
+  createdAt: init.createdAt,
+  steps: init.steps,
+  events: [],
+  listeners: new Set(),
+  status: 'pending',
+  currentRound: 0,
+  updatedAt: init.createdAt,
+  consensus: undefined,
+  turns: [],
+  branches: [
+    {
+      branchId: init.mainBranchId,
+      parentBranchId: null,
+      forkTurnId: null,
+      name: 'Main',
+      forkMode: init.forkMode,
+      depth: 0,
+      createdAt: init.createdAt,
+    },
+  ],
+  cursor: 0,
+  timer: undefined,
+});
+
+/**
+ * Options for a script player
+ */
+export interface ScriptPlayerOptions<Event, Turn extends ScriptedTurn, D extends ScriptedDebate<Event, Turn>> {
+  /** Play one step of a debate, emitting its events */
+  readonly play: (debate: D, step: ScriptStep<Turn>, emit: (event: Event) => void) => void;
+  /** Current time as an ISO timestamp */
+  readonly timestamp: () => string;
+  /** Playback speed: 2 plays twice as fast */
+  readonly speed?: number;
+}
+
+/**
+ * Debates played from scripts on timers.
+ * Lookups fail with the ApiError a backend would answer with.
+ */
+export interface ScriptPlayer<Event, D> {
+  readonly add: (debate: D) => void;
+  readonly has: (debateId: string) => boolean;
+  readonly find: (debateId: string) => E.Either<ApiError, D>;
+  readonly findBranch: (debate: D, branchId: string) => E.Either<ApiError, BranchInfo>;
+  /** Turns of a branch of the debate */
+  readonly turnsOf: (debate: D, branchId: string) => E.Either<ApiError, TurnResponse[]>;
+  /** Record an event and send it to the debate's listeners */
+  readonly emit: (debate: D, event: Event) => void;
+  /** Play the next step of a running debate once its delay has passed */
+  readonly schedule: (debate: D) => void;
+  /** Stop playing a debate */
+  readonly stop: (debate: D) => void;
+  /** Change the status of a debate if it is in the expected one */
+  readonly transition: (debateId: string, from: DebateStatus, to: DebateStatus) => E.Either<ApiError, D>;
+  /**
+   * Receive the events of a debate, starting with those after
+   * `lastEventId`, or all of them without one
+   * @returns Function to stop receiving events
+   */
+  readonly subscribe: (
+    debate: D,
+    lastEventId: string | undefined,
+    listener: DebateEventListener<Event>
+  ) => () => void;
+  /** The debate as `GET /debates/:debateId` answers it */
+  readonly describe: (debate: D) => DebateResponse;
+  /** Summaries of all debates, for the debate history */
+  readonly summaries: () => DebateSummary[];
+  /** Stop all debates and drop their listeners */
+  readonly close: () => void;
+}
+
+/**
+ * Create a player for scripted debates, shared by the mock backend and the
+ * in-browser demo. Running debates play their steps on timers; what a step
+ * emits is up to `play`.
+ *
+ * @param options - How to play a step, the clock and the playback speed
+ * @returns Player holding no debates yet
+ *
+ * @example
+ * ```typescript
+ * const player = createScriptPlayer<StreamEvent, ScriptedTurn, ScriptedDebate<StreamEvent>>({
+ *   timestamp: () => new Date().toISOString(),
+ *   play: (debate, step, emit) => { ... },
+ * });
+ * player.add(scriptedDebate({ debateId, config, mainBranchId, forkMode: 'save', steps, createdAt }));
+ * ```
+ */
+export const createScriptPlayer = <Event, Turn extends ScriptedTurn, D extends ScriptedDebate<Event, Turn>>(
+  options: ScriptPlayerOptions<Event, Turn, D>
+): ScriptPlayer<Event, D> => {
+  const { play, timestamp, speed = 1 } = options;
+  const debates = new Map<string, D>();
+
+  const find = (debateId: string): E.Either<ApiError, D> =>
+    pipe(debates.get(debateId), E.fromNullable(notFoundError('debate', debateId)));
+
+  const findBranch = (debate: D, branchId: string): E.Either<ApiError, BranchInfo> =>
+    pipe(
+      debate.branches.find((branch) => branch.branchId === branchId),
+      E.fromNullable(notFoundError('branch', branchId))
+    );
+
+  const emit = (debate: D, event: Event): void => {
+    const entry = { id: String(debate.events.length + 1), event };
+    debate.events.push(entry);
+    debate.updatedAt = timestamp();
+    debate.listeners.forEach((listener) => {
+      listener(entry);
+    });
+  };
+
+  const schedule = (debate: D): void => {
+    const next = debate.steps[debate.cursor];
+    if (next === undefined || debate.status !== 'running') {
+      return;
+    }
+    debate.timer = setTimeout(() => {
+      debate.timer = undefined;
+      debate.cursor += 1;
+      play(debate, next.step, (event) => {
+        emit(debate, event);
+      });
+      schedule(debate);
+    }, next.delayMs / speed);
+  };
+
+  const stop = (debate: D): void => {
+    if (debate.timer !== undefined) {
+      clearTimeout(debate.timer);
+      debate.timer = undefined;
+    }
+  };
+
+  return {
+    add: (debate) => {
+      debates.set(debate.debateId, debate);
+    },
+
+    has: (debateId) => debates.has(debateId),
+
+    find,
+
+    findBranch,
+
+    turnsOf: (debate, branchId) =>
+      pipe(
+        findBranch(debate, branchId),
+        E.map(() => debate.turns.filter((turn) => turn.branchId === branchId))
+      ),
+
+    emit,
+
+    schedule,
+
+    stop,
+
+    transition: (debateId, from, to) =>
+      pipe(
+        find(debateId),
+        E.filterOrElse(
+          (debate) => debate.status === from,
+          (debate) => conflictError(`Debate is ${debate.status}, not ${from}`, 'debate')
+        ),
+        E.map((debate) => {
+          debate.status = to;
+          debate.updatedAt = timestamp();
+          return debate;
+        })
+      ),
+
+    subscribe: (debate, lastEventId, listener) => {
+      const after = Number(lastEventId ?? 0);
+      debate.events
+        .filter((entry) => Number.isNaN(after) || Number(entry.id) > after)
+        .forEach(listener);
+      debate.listeners.add(listener);
+      return () => {
+        debate.listeners.delete(listener);
+      };
+    },
+
+    describe: (debate) => ({
+      debateId: debate.debateId,
+      status: debate.status,
+      question: debate.config.question,
+      participants: debate.config.participants,
+      currentRound: debate.currentRound,
+      totalRounds: debate.config.rounds,
+      turns: debate.turns.filter((turn) => turn.branchId === debate.mainBranchId),
+      ...(debate.consensus !== undefined && { consensus: debate.consensus }),
+      createdAt: debate.createdAt,
+      updatedAt: debate.updatedAt,
+    }),
+
+    summaries: () =>
+      [...debates.values()].map((debate) => ({
+        debateId: debate.debateId,
+        status: debate.status,
+        question: debate.config.question,
+        participants: debate.config.participants,
+        currentRound: debate.currentRound,
+        totalRounds: debate.config.rounds,
+        ...(debate.consensus !== undefined && { consensus: debate.consensus }),
+        createdAt: debate.createdAt,
+        updatedAt: debate.updatedAt,
+      })),
+
+    close: () => {
+      debates.forEach((debate) => {
+        stop(debate);
+        debate.listeners.clear();
+      });
+    },
+  };
+};
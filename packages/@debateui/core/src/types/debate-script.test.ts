@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { chunkText } from './debate-script.js';
+
+describe('debate-script.ts - chunkText', () => {
+  it('splits text on word boundaries into chunks that join back', () => {
+    const text = 'one two three four five six seven';
+
+    const chunks = chunkText(text, 3);
+
+    expect(chunks).toEqual(['one two three ', 'four five six ', 'seven']);
+    expect(chunks.join('')).toBe(text);
+  });
+
+  it('returns fewer chunks than asked for a short text', () => {
+    expect(chunkText('one two', 4)).toEqual(['one ', 'two']);
+  });
+
+  it('returns the whole text for fewer than one chunk', () => {
+    expect(chunkText('one two', 0)).toEqual(['one two']);
+  });
+});
@@ -0,0 +1,52 @@
+import type { ConsensusResult } from './consensus';
+
+/**
+ * What every script knows of a turn before the debate plays it
+ */
+export interface ScriptedTurn {
+  readonly participantId: string;
+  readonly round: number;
+  readonly content: string;
+}
+
+/**
+ * One step of a scripted debate.
+ * Scripts may know more of a turn than `ScriptedTurn`, e.g. its cost.
+ */
+export type ScriptStep<Turn extends ScriptedTurn = ScriptedTurn> =
+  | { readonly kind: 'roundStarted'; readonly round: number }
+  | { readonly kind: 'turnStarted'; readonly turn: Turn }
+  | { readonly kind: 'turnDelta'; readonly turn: Turn; readonly delta: string }
+  | { readonly kind: 'turnCompleted'; readonly turn: Turn }
+  | {
+      readonly kind: 'roundCompleted';
+      readonly round: number;
+      /** Agreement of the panel after the round, for scripts tracking it */
+      readonly agreement?: number;
+    }
+  | { readonly kind: 'consensus'; readonly consensus: ConsensusResult };
+
+/**
+ * A step and the time to wait before playing it
+ */
+export interface TimedScriptStep<Turn extends ScriptedTurn = ScriptedTurn> {
+  readonly delayMs: number;
+  readonly step: ScriptStep<Turn>;
+}
+
+/**
+ * Split text into chunks on word boundaries, as a model would stream it
+ *
+ * @param text - Text to split
+ * @param count - Number of chunks
+ * @returns Chunks that join back into the text
+ */
+export const chunkText = (text: string, count: number): string[] => {
+  const words = text.split(/(?<= )/);
+  const size = Math.ceil(words.length / Math.max(count, 1));
+  const chunks: string[] = [];
+  for (let start = 0; start < words.length; start += size) {
+    chunks.push(words.slice(start, start + size).join(''));
+  }
+  return chunks;
+};
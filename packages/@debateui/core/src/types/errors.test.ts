@@ -9,6 +9,9 @@ import {
   isNotFoundError,
   isConflictError,
   isServerError,
+  isServiceUnavailableError,
+  isCancelledError,
+  isDebateFailedError,
   networkError,
   validationError,
   authError,
@@ -16,6 +19,10 @@ import {
   notFoundError,
   conflictError,
   serverError,
+  serviceUnavailableError,
+  cancelledError,
+  debateFailedError,
+  isRecoverableError,
   formatApiError,
 } from './errors.js';
 
@@ -63,6 +70,25 @@ describe('errors.ts - Type Guards', () => {
     expect(isServerError(error)).toBe(true);
     expect(isNetworkError(error)).toBe(false);
   });
+
+  it('isServiceUnavailableError identifies ServiceUnavailableError', () => {
+    const error: ApiError = serviceUnavailableError('Backend degraded', 30000);
+    expect(isServiceUnavailableError(error)).toBe(true);
+    expect(isServerError(error)).toBe(false);
+  });
+
+  it('isDebateFailedError identifies DebateFailedError', () => {
+    const error: ApiError = debateFailedError('d1');
+    expect(isDebateFailedError(error)).toBe(true);
+    expect(isDebateFailedError(cancelledError())).toBe(false);
+    expect(isRecoverableError(error)).toBe(false);
+  });
+
+  it('isCancelledError identifies CancelledError', () => {
+    const error: ApiError = cancelledError();
+    expect(isCancelledError(error)).toBe(true);
+    expect(isNetworkError(error)).toBe(false);
+  });
 });
 
 describe('errors.ts - Error Constructors', () => {
@@ -155,6 +181,57 @@ describe('errors.ts - Error Constructors', () => {
       expect(error.message).toBe('Service unavailable');
     }
   });
+
+  it('serviceUnavailableError creates ServiceUnavailableError', () => {
+    const error = serviceUnavailableError('Backend degraded', 30000);
+    expect(error._tag).toBe('ServiceUnavailableError');
+    if (isServiceUnavailableError(error)) {
+      expect(error.message).toBe('Backend degraded');
+      expect(error.retryAfterMs).toBe(30000);
+    }
+  });
+
+  it('cancelledError creates CancelledError with a default message', () => {
+    expect(cancelledError()).toEqual({ _tag: 'CancelledError', message: 'The request was cancelled' });
+    expect(cancelledError('Branch switched')).toEqual({ _tag: 'CancelledError', message: 'Branch switched' });
+  });
+});
+
+describe('errors.ts - Server error codes', () => {
+  it('constructors carry the server error code when given', () => {
+    expect(validationError(new z.ZodError([]), 'invalid_config')).toMatchObject({ code: 'invalid_config' });
+    expect(authError('expired', 401, 'token_expired')).toMatchObject({ code: 'token_expired' });
+    expect(notFoundError('debate', '123', 'debate_not_found')).toMatchObject({ code: 'debate_not_found' });
+    expect(conflictError('taken', 'branch-1', 'name_taken')).toEqual({
+      _tag: 'ConflictError',
+      message: 'taken',
+      conflictingResource: 'branch-1',
+      code: 'name_taken',
+    });
+    expect(serverError(500, 'boom', 'db_down')).toMatchObject({ code: 'db_down' });
+  });
+
+  it('constructors omit the code when not given', () => {
+    expect('code' in serverError(500, 'boom')).toBe(false);
+    expect('code' in conflictError('taken')).toBe(false);
+  });
+});
+
+describe('errors.ts - isRecoverableError', () => {
+  it('treats transient failures as recoverable', () => {
+    expect(isRecoverableError(networkError('offline'))).toBe(true);
+    expect(isRecoverableError(serverError(503, 'unavailable'))).toBe(true);
+    expect(isRecoverableError(conflictError('busy'))).toBe(true);
+    expect(isRecoverableError(rateLimitError(1000))).toBe(true);
+    expect(isRecoverableError(serviceUnavailableError('degraded', 1000))).toBe(true);
+  });
+
+  it('treats errors that need user action as non-recoverable', () => {
+    expect(isRecoverableError(validationError(new z.ZodError([])))).toBe(false);
+    expect(isRecoverableError(authError('expired', 401))).toBe(false);
+    expect(isRecoverableError(notFoundError('debate', '123'))).toBe(false);
+    expect(isRecoverableError(cancelledError())).toBe(false);
+  });
 });
 
 describe('errors.ts - formatApiError', () => {
@@ -225,6 +302,20 @@ describe('errors.ts - formatApiError', () => {
     const formatted = formatApiError(error);
     expect(formatted).toBe('Server Error (500): Database connection failed');
   });
+
+  it('formats ServiceUnavailableError', () => {
+    const error = serviceUnavailableError('Backend degraded', 30000);
+    const formatted = formatApiError(error);
+    expect(formatted).toBe('Service Unavailable: Backend degraded (Retry after 30000ms)');
+  });
+
+  it('formats CancelledError', () => {
+    expect(formatApiError(cancelledError())).toBe('Cancelled: The request was cancelled');
+  });
+
+  it('formats DebateFailedError', () => {
+    expect(formatApiError(debateFailedError('d1'))).toBe('Debate Failed: Debate d1 ended with an error');
+  });
 });
 
 describe('errors.ts - Type Safety', () => {
@@ -251,6 +342,8 @@ describe('errors.ts - Type Safety', () => {
       notFoundError('res', 'id'),
       conflictError('conflict'),
       serverError(500, 'server'),
+      serviceUnavailableError('unavailable', 1000),
+      cancelledError(),
     ];
 
     errors.forEach(error => {
@@ -277,6 +370,15 @@ describe('errors.ts - Type Safety', () => {
         case 'ServerError':
           handled = true;
           break;
+        case 'ServiceUnavailableError':
+          handled = true;
+          break;
+        case 'CancelledError':
+          handled = true;
+          break;
+        case 'DebateFailedError':
+          handled = true;
+          break;
         default:
           // TypeScript should error here if case is missing
           const _exhaustive: never = error;
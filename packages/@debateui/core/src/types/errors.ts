@@ -3,15 +3,20 @@ import { z } from 'zod';
 /**
  * Discriminated union for type-safe API error handling.
  * Each error variant has a unique _tag for exhaustive pattern matching.
+ * Variants built from an error response carry the server's machine-readable
+ * error `code`, when it sent one.
  */
 export type ApiError =
   | { readonly _tag: 'NetworkError'; readonly message: string; readonly cause?: Error }
-  | { readonly _tag: 'ValidationError'; readonly errors: z.ZodError }
-  | { readonly _tag: 'AuthError'; readonly message: string; readonly statusCode: 401 | 403 }
+  | { readonly _tag: 'ValidationError'; readonly errors: z.ZodError; readonly code?: string }
+  | { readonly _tag: 'AuthError'; readonly message: string; readonly statusCode: 401 | 403; readonly code?: string }
   | { readonly _tag: 'RateLimitError'; readonly retryAfterMs: number }
-  | { readonly _tag: 'NotFoundError'; readonly resource: string; readonly id: string }
-  | { readonly _tag: 'ConflictError'; readonly message: string; readonly conflictingResource?: string }
-  | { readonly _tag: 'ServerError'; readonly statusCode: number; readonly message: string };
+  | { readonly _tag: 'NotFoundError'; readonly resource: string; readonly id: string; readonly code?: string }
+  | { readonly _tag: 'ConflictError'; readonly message: string; readonly conflictingResource?: string; readonly code?: string }
+  | { readonly _tag: 'ServerError'; readonly statusCode: number; readonly message: string; readonly code?: string }
+  | { readonly _tag: 'ServiceUnavailableError'; readonly message: string; readonly retryAfterMs: number }
+  | { readonly _tag: 'CancelledError'; readonly message: string }
+  | { readonly _tag: 'DebateFailedError'; readonly debateId: string; readonly message: string };
 
 /**
  * Type guard for NetworkError.
@@ -62,6 +67,29 @@ export const isServerError = (e: ApiError): e is Extract<ApiError, { _tag: 'Serv
   return e._tag === 'ServerError';
 };
 
+/**
+ * Type guard for ServiceUnavailableError.
+ */
+export const isServiceUnavailableError = (
+  e: ApiError
+): e is Extract<ApiError, { _tag: 'ServiceUnavailableError' }> => {
+  return e._tag === 'ServiceUnavailableError';
+};
+
+/**
+ * Type guard for CancelledError.
+ */
+export const isCancelledError = (e: ApiError): e is Extract<ApiError, { _tag: 'CancelledError' }> => {
+  return e._tag === 'CancelledError';
+};
+
+/**
+ * Type guard for DebateFailedError.
+ */
+export const isDebateFailedError = (e: ApiError): e is Extract<ApiError, { _tag: 'DebateFailedError' }> => {
+  return e._tag === 'DebateFailedError';
+};
+
 /**
  * Constructor for NetworkError.
  */
@@ -75,15 +103,21 @@ export const networkError = (message: string, cause?: Error): ApiError => {
 /**
  * Constructor for ValidationError.
  */
-export const validationError = (errors: z.ZodError): ApiError => {
-  return { _tag: 'ValidationError', errors };
+export const validationError = (errors: z.ZodError, code?: string): ApiError => {
+  if (code === undefined) {
+    return { _tag: 'ValidationError', errors };
+  }
+  return { _tag: 'ValidationError', errors, code };
 };
 
 /**
  * Constructor for AuthError.
  */
-export const authError = (message: string, statusCode: 401 | 403): ApiError => {
-  return { _tag: 'AuthError', message, statusCode };
+export const authError = (message: string, statusCode: 401 | 403, code?: string): ApiError => {
+  if (code === undefined) {
+    return { _tag: 'AuthError', message, statusCode };
+  }
+  return { _tag: 'AuthError', message, statusCode, code };
 };
 
 /**
@@ -96,25 +130,78 @@ export const rateLimitError = (retryAfterMs: number): ApiError => {
 /**
  * Constructor for NotFoundError.
  */
-export const notFoundError = (resource: string, id: string): ApiError => {
-  return { _tag: 'NotFoundError', resource, id };
+export const notFoundError = (resource: string, id: string, code?: string): ApiError => {
+  if (code === undefined) {
+    return { _tag: 'NotFoundError', resource, id };
+  }
+  return { _tag: 'NotFoundError', resource, id, code };
 };
 
 /**
  * Constructor for ConflictError.
  */
-export const conflictError = (message: string, conflictingResource?: string): ApiError => {
-  if (conflictingResource === undefined) {
-    return { _tag: 'ConflictError', message };
-  }
-  return { _tag: 'ConflictError', message, conflictingResource };
+export const conflictError = (
+  message: string,
+  conflictingResource?: string,
+  code?: string
+): ApiError => {
+  return {
+    _tag: 'ConflictError',
+    message,
+    ...(conflictingResource !== undefined && { conflictingResource }),
+    ...(code !== undefined && { code }),
+  };
 };
 
 /**
  * Constructor for ServerError.
  */
-export const serverError = (statusCode: number, message: string): ApiError => {
-  return { _tag: 'ServerError', statusCode, message };
+export const serverError = (statusCode: number, message: string, code?: string): ApiError => {
+  if (code === undefined) {
+    return { _tag: 'ServerError', statusCode, message };
+  }
+  return { _tag: 'ServerError', statusCode, message, code };
+};
+
+/**
+ * Constructor for ServiceUnavailableError.
+ * Returned without a request while the backend is known to be degraded.
+ */
+export const serviceUnavailableError = (message: string, retryAfterMs: number): ApiError => {
+  return { _tag: 'ServiceUnavailableError', message, retryAfterMs };
+};
+
+/**
+ * Constructor for CancelledError.
+ * The caller aborted the request, so there is nothing to report or retry.
+ */
+export const cancelledError = (message = 'The request was cancelled'): ApiError => {
+  return { _tag: 'CancelledError', message };
+};
+
+/**
+ * Constructor for DebateFailedError.
+ * The backend reports the debate itself ended with an error; no request failed.
+ */
+export const debateFailedError = (
+  debateId: string,
+  message = `Debate ${debateId} ended with an error`
+): ApiError => {
+  return { _tag: 'DebateFailedError', debateId, message };
+};
+
+/**
+ * Whether an operation that failed with this error is worth retrying.
+ * Validation, auth and not-found errors need user action first.
+ */
+export const isRecoverableError = (e: ApiError): boolean => {
+  return (
+    e._tag === 'NetworkError' ||
+    e._tag === 'ServerError' ||
+    e._tag === 'ConflictError' ||
+    e._tag === 'RateLimitError' ||
+    e._tag === 'ServiceUnavailableError'
+  );
 };
 
 /**
@@ -154,6 +241,15 @@ export const formatApiError = (error: ApiError): string => {
     case 'ServerError':
       return `Server Error (${error.statusCode}): ${error.message}`;
 
+    case 'ServiceUnavailableError':
+      return `Service Unavailable: ${error.message} (Retry after ${error.retryAfterMs}ms)`;
+
+    case 'CancelledError':
+      return `Cancelled: ${error.message}`;
+
+    case 'DebateFailedError':
+      return `Debate Failed: ${error.message}`;
+
     default:
       // Exhaustiveness check: TypeScript will error if a case is missing
       const _exhaustive: never = error;
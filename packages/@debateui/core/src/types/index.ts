@@ -47,15 +47,50 @@ export {
   DebateStatusSchema,
   DebateResponseSchema,
   BranchInfoSchema,
+  DebateSummarySchema,
+  DebateListResponseSchema,
   parseTurnResponse,
   parseDebateResponse,
   parseBranchInfo,
+  parseDebateListResponse,
   type TurnResponse,
   type DebateStatus,
   type DebateResponse,
   type BranchInfo,
+  type DebateSummary,
+  type DebateListResponse,
 } from './api-responses';
 
+// Debate history queries
+export {
+  DEFAULT_DEBATE_PAGE_SIZE,
+  MAX_DEBATE_PAGE_SIZE,
+  DebateSortFieldSchema,
+  DebateListQuerySchema,
+  parseDebateListQuery,
+  queryDebates,
+  type DebateSortField,
+  type DebateListQuery,
+} from './debate-list';
+
+// Scripted debates, played by the mock backend and the demo
+export {
+  chunkText,
+  type ScriptedTurn,
+  type ScriptStep,
+  type TimedScriptStep,
+} from './debate-script';
+export {
+  createScriptPlayer,
+  scriptedDebate,
+  type DebateEventEntry,
+  type DebateEventListener,
+  type ScriptedDebate,
+  type ScriptedDebateInit,
+  type ScriptPlayer,
+  type ScriptPlayerOptions,
+} from './debate-player';
+
 // API Error types
 export {
   type ApiError,
@@ -66,6 +101,9 @@ export {
   isNotFoundError,
   isConflictError,
   isServerError,
+  isServiceUnavailableError,
+  isCancelledError,
+  isDebateFailedError,
   networkError,
   validationError,
   authError,
@@ -73,6 +111,10 @@ export {
   notFoundError,
   conflictError,
   serverError,
+  serviceUnavailableError,
+  cancelledError,
+  debateFailedError,
+  isRecoverableError,
   formatApiError,
 } from './errors';
 
@@ -81,6 +123,8 @@ export {
   type DebateState,
   type BranchingState,
   type ForkDraft,
+  type InProgressTurn,
+  type StreamingState,
   type StoreState,
   isIdle,
   isConfiguring,
@@ -96,6 +140,10 @@ export {
   paused,
   completed,
   error,
+  debateStateFromResponse,
+  initialStreamingState,
+  initialDebateConfig,
+  initialStoreState,
 } from './state';
 
 // Action types
@@ -106,13 +154,18 @@ export {
   startDebate,
   debateStarted,
   receiveTurn,
+  turnStarted,
+  turnDelta,
+  roundStarted,
   roundComplete,
   pauseDebate,
   resumeDebate,
   debateComplete,
   error as errorAction,
+  debateLoaded,
   reset,
   selectBranch,
+  addBranch,
   startFork,
   updateForkDraft,
   submitFork,
@@ -120,3 +173,13 @@ export {
   cancelFork,
   canTransition,
 } from './actions';
+
+// Store reducer
+export {
+  type StoreAction,
+  type RejectedTransition,
+  type ActionLogEntry,
+  rejectedTransition,
+  reduce,
+  replay,
+} from './reducer';
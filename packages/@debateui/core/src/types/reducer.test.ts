@@ -0,0 +1,379 @@
+import { describe, it, expect } from 'vitest';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { reduce, replay, rejectedTransition, type StoreAction } from './reducer';
+import {
+  updateConfig,
+  startDebate,
+  debateStarted,
+  receiveTurn,
+  turnStarted,
+  turnDelta,
+  roundStarted,
+  roundComplete,
+  pauseDebate,
+  resumeDebate,
+  debateComplete,
+  error,
+  debateLoaded,
+  reset,
+  selectBranch,
+  addBranch,
+  startFork,
+  updateForkDraft,
+  submitFork,
+  forkCreated,
+  cancelFork,
+} from './actions';
+import {
+  idle,
+  starting,
+  running,
+  paused,
+  completed,
+  error as errorState,
+  initialStoreState,
+  type StoreState,
+} from './state';
+import type { TurnResponse, BranchInfo, DebateResponse } from './api-responses';
+import { createConsensusResult } from './consensus';
+import { networkError } from './errors';
+
+// Helper to create valid TurnResponse
+const createTurnResponse = (overrides: Partial<TurnResponse> = {}): TurnResponse => ({
+  turnId: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  branchId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  participantId: 'claude-3',
+  participantType: 'model',
+  content: 'My response',
+  tokensUsed: 150,
+  costUsd: 0.003,
+  latencyMs: 1200,
+  createdAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+// Helper to create valid BranchInfo
+const createBranchInfo = (overrides: Partial<BranchInfo> = {}): BranchInfo => ({
+  branchId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  parentBranchId: null,
+  forkTurnId: null,
+  name: 'Main',
+  forkMode: 'save',
+  depth: 0,
+  createdAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const withDebate = (debate: StoreState['debate']): StoreState => ({
+  ...initialStoreState(),
+  debate,
+});
+
+// Unwraps an accepted action, failing the test on a rejection
+const accept = (state: StoreState, action: StoreAction): StoreState => {
+  const result = reduce(state, action);
+  if (E.isLeft(result)) {
+    throw new Error(`Unexpected rejection: ${result.left.reason}`);
+  }
+  return result.right;
+};
+
+describe('reduce - debate actions', () => {
+  it('merges config updates', () => {
+    const state = accept(initialStoreState(), updateConfig({ question: 'Is AI safe?', rounds: 2 }));
+
+    expect(state.config.question).toBe('Is AI safe?');
+    expect(state.config.rounds).toBe(2);
+    expect(state.config.consensusThreshold).toBe(0.8);
+    expect(state.debate).toEqual(idle());
+  });
+
+  it('starts a debate with the current config', () => {
+    const configured = accept(initialStoreState(), updateConfig({ question: 'Is AI safe?' }));
+    const state = accept(configured, startDebate());
+
+    expect(state.debate).toEqual(starting(configured.config));
+  });
+
+  it('moves from Starting to Running on DEBATE_STARTED', () => {
+    const state = accept(withDebate(starting(initialStoreState().config)), debateStarted('debate-1'));
+
+    expect(state.debate).toEqual(running('debate-1', 1, []));
+  });
+
+  it('appends received turns tagged with the current round', () => {
+    const first = createTurnResponse({ turnId: 'turn-1' });
+    const second = createTurnResponse({ turnId: 'turn-2' });
+    const state = [receiveTurn(first), receiveTurn(second)].reduce(
+      accept,
+      withDebate(running('debate-1', 2, []))
+    );
+
+    expect(state.debate).toEqual(
+      running('debate-1', 2, [
+        { ...first, round: 2 },
+        { ...second, round: 2 },
+      ])
+    );
+  });
+
+  it('keeps the round a turn was tagged with by the server', () => {
+    const turn = createTurnResponse({ round: 1 });
+    const state = accept(withDebate(running('debate-1', 2, [])), receiveTurn(turn));
+
+    expect(state.debate).toEqual(running('debate-1', 2, [turn]));
+  });
+
+  it('moves to the announced round on ROUND_STARTED', () => {
+    const state = accept(withDebate(running('debate-1', 1, [])), roundStarted(3));
+
+    expect(state.debate).toEqual(running('debate-1', 3, []));
+  });
+
+  it('advances the round on ROUND_COMPLETE', () => {
+    const state = accept(withDebate(running('debate-1', 1, [])), roundComplete(1));
+
+    expect(state.debate).toEqual(running('debate-1', 2, []));
+  });
+
+  it('stays on the last round once all rounds are complete', () => {
+    const configured = accept(initialStoreState(), updateConfig({ rounds: 3 }));
+    const state = accept({ ...configured, debate: running('debate-1', 3, []) }, roundComplete(3));
+
+    expect(state.debate).toEqual(running('debate-1', 3, []));
+  });
+
+  it('keeps round and turns across pause and resume', () => {
+    const turns = [createTurnResponse()];
+    const pausedState = accept(withDebate(running('debate-1', 2, turns)), pauseDebate('User pause'));
+    const resumedState = accept(pausedState, resumeDebate());
+
+    expect(pausedState.debate).toEqual(paused('debate-1', 2, turns, 'User pause', true));
+    expect(resumedState.debate).toEqual(running('debate-1', 2, turns));
+  });
+
+  it('completes a running debate with its turns', () => {
+    const turns = [createTurnResponse()];
+    const consensus = createConsensusResult(4, 1, 0.9);
+    const state = accept(withDebate(running('debate-1', 3, turns)), debateComplete(consensus));
+
+    expect(state.debate).toEqual(completed('debate-1', consensus, turns));
+  });
+
+  it('records errors from a non-terminal state', () => {
+    const apiError = networkError('Connection lost');
+    const state = accept(initialStoreState(), error(apiError, true));
+
+    expect(state.debate).toEqual(errorState(apiError, true));
+  });
+
+  it('hydrates debate, config and branches on DEBATE_LOADED', () => {
+    const turn = createTurnResponse({ participantId: 'gpt-4' });
+    const root = createBranchInfo();
+    const fork = createBranchInfo({ branchId: 'fork-1', parentBranchId: root.branchId, depth: 1 });
+    const debate: DebateResponse = {
+      debateId: 'debate-1',
+      status: 'running',
+      question: 'Is AI safe?',
+      participants: ['gpt-4', 'claude-3'],
+      currentRound: 2,
+      totalRounds: 5,
+      turns: [turn],
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:05:00Z',
+    };
+
+    const state = accept(
+      withDebate(errorState(networkError('Earlier failure'), true)),
+      debateLoaded(debate, [fork, root])
+    );
+
+    expect(state.debate).toEqual(running('debate-1', 2, [turn]));
+    // Participants who have not spoken yet are kept
+    expect(state.config).toMatchObject({ question: 'Is AI safe?', participants: ['gpt-4', 'claude-3'], rounds: 5 });
+    expect(state.branching.activeBranchId).toEqual(O.some(root.branchId));
+    expect(state.branching.branches.size).toBe(2);
+  });
+
+  it('returns to the initial state on RESET', () => {
+    const state = accept(withDebate(running('debate-1', 2, [createTurnResponse()])), reset());
+
+    expect(state).toEqual(initialStoreState());
+  });
+});
+
+describe('reduce - streaming turns', () => {
+  const runningState = withDebate(running('debate-1', 1, []));
+
+  it('starts an empty in-progress turn', () => {
+    const state = accept(runningState, turnStarted('claude-3'));
+
+    expect(state.streaming.turns.get('claude-3')).toEqual({ participantId: 'claude-3', content: '' });
+  });
+
+  it('appends streamed deltas per participant', () => {
+    const state = [
+      turnStarted('claude-3'),
+      turnDelta('claude-3', 'I think'),
+      turnDelta('gpt-4', 'Well'),
+      turnDelta('claude-3', ' so.'),
+    ].reduce(accept, runningState);
+
+    expect(state.streaming.turns.get('claude-3')?.content).toBe('I think so.');
+    expect(state.streaming.turns.get('gpt-4')?.content).toBe('Well');
+  });
+
+  it('swaps the in-progress turn for the final turn', () => {
+    const turn = createTurnResponse({ participantId: 'claude-3' });
+    const state = [turnDelta('claude-3', 'I think'), turnDelta('gpt-4', 'Well'), receiveTurn(turn)].reduce(
+      accept,
+      runningState
+    );
+
+    expect(state.streaming.turns.has('claude-3')).toBe(false);
+    expect(state.streaming.turns.has('gpt-4')).toBe(true);
+    expect(state.debate).toEqual(running('debate-1', 1, [{ ...turn, round: 1 }]));
+  });
+
+  it('orders turns by createdAt when a late turn arrives', () => {
+    const first = createTurnResponse({ turnId: 'turn-1', createdAt: '2024-01-01T00:00:00Z' });
+    const second = createTurnResponse({ turnId: 'turn-2', createdAt: '2024-01-01T00:01:00Z' });
+    const third = createTurnResponse({ turnId: 'turn-3', createdAt: '2024-01-01T00:02:00Z' });
+    const state = [receiveTurn(first), receiveTurn(third), receiveTurn(second)].reduce(accept, runningState);
+
+    expect(state.debate._tag === 'Running' && state.debate.turns.map((turn) => turn.turnId)).toEqual([
+      'turn-1',
+      'turn-2',
+      'turn-3',
+    ]);
+  });
+
+  it('keeps arrival order for turns with the same createdAt', () => {
+    const first = createTurnResponse({ turnId: 'turn-1' });
+    const second = createTurnResponse({ turnId: 'turn-2' });
+    const state = [receiveTurn(first), receiveTurn(second)].reduce(accept, runningState);
+
+    expect(state.debate._tag === 'Running' && state.debate.turns.map((turn) => turn.turnId)).toEqual([
+      'turn-1',
+      'turn-2',
+    ]);
+  });
+
+  it('keeps the first copy of a turn received twice', () => {
+    const turn = createTurnResponse({ content: 'Final' });
+    const state = [receiveTurn(turn), receiveTurn({ ...turn, content: 'Again' })].reduce(accept, runningState);
+
+    expect(state.debate).toEqual(running('debate-1', 1, [{ ...turn, round: 1 }]));
+  });
+
+  it('discards in-progress turns once the debate stops running', () => {
+    const streaming = accept(runningState, turnDelta('claude-3', 'Half a thought'));
+
+    expect(accept(streaming, pauseDebate('User pause')).streaming.turns.size).toBe(0);
+    expect(accept(streaming, error(networkError('Lost'), true)).streaming.turns.size).toBe(0);
+  });
+
+  it('rejects streamed deltas when no debate is running', () => {
+    expect(E.isLeft(reduce(initialStoreState(), turnDelta('claude-3', 'Hi')))).toBe(true);
+  });
+});
+
+describe('reduce - rejected transitions', () => {
+  it('rejects actions that canTransition does not allow', () => {
+    const state = withDebate(idle());
+
+    expect(reduce(state, receiveTurn(createTurnResponse()))).toEqual(
+      E.left(
+        rejectedTransition('Idle', 'RECEIVE_TURN', 'RECEIVE_TURN is not allowed while the debate is Idle')
+      )
+    );
+  });
+
+  it('rejects resuming a non-resumable pause', () => {
+    const result = reduce(withDebate(paused('debate-1', 1, [], 'Fatal', false)), resumeDebate());
+
+    expect(E.isLeft(result)).toBe(true);
+    if (E.isLeft(result)) {
+      expect(result.left.from).toBe('Paused');
+      expect(result.left.action).toBe('RESUME_DEBATE');
+    }
+  });
+
+  it('rejects errors after the debate completed', () => {
+    const state = withDebate(completed('debate-1', createConsensusResult(4, 1, 0.9), []));
+
+    expect(E.isLeft(reduce(state, error(networkError('Late error'), true)))).toBe(true);
+  });
+
+  it('rejects fork draft edits without a draft', () => {
+    const result = reduce(initialStoreState(), updateForkDraft('Draft'));
+
+    expect(result).toEqual(
+      E.left(rejectedTransition('Idle', 'UPDATE_FORK_DRAFT', 'No fork draft to update'))
+    );
+    expect(E.isLeft(reduce(initialStoreState(), submitFork()))).toBe(true);
+  });
+});
+
+describe('reduce - branching actions', () => {
+  it('adds and selects branches', () => {
+    const branch = createBranchInfo({ branchId: 'branch-2' });
+    const state = [addBranch(branch), selectBranch('branch-2')].reduce(accept, initialStoreState());
+
+    expect(state.branching.branches.get('branch-2')).toBe(branch);
+    expect(state.branching.activeBranchId).toEqual(O.some('branch-2'));
+  });
+
+  it('does not mutate the previous branch map', () => {
+    const before = initialStoreState();
+    accept(before, addBranch(createBranchInfo()));
+
+    expect(before.branching.branches.size).toBe(0);
+  });
+
+  it('drafts a fork with the configured fork mode', () => {
+    const configured = accept(initialStoreState(), updateConfig({ forkMode: 'explore' }));
+    const state = [startFork('turn-1', 'main'), updateForkDraft('What if?')].reduce(accept, configured);
+
+    expect(state.branching.forkDraft).toEqual(
+      O.some({ parentTurnId: 'turn-1', parentBranchId: 'main', content: 'What if?', forkMode: 'explore' })
+    );
+  });
+
+  it('keeps the draft on submit and clears it once the fork is created', () => {
+    const drafting = accept(initialStoreState(), startFork('turn-1', 'main'));
+
+    expect(accept(drafting, submitFork())).toBe(drafting);
+    expect(O.isNone(accept(drafting, forkCreated('branch-2')).branching.forkDraft)).toBe(true);
+    expect(O.isNone(accept(drafting, cancelFork()).branching.forkDraft)).toBe(true);
+  });
+});
+
+describe('replay', () => {
+  it('reproduces a state from an action trace', () => {
+    const turn = createTurnResponse();
+    const state = replay([
+      updateConfig({ question: 'Is AI safe?', participants: ['claude-3'] }),
+      startDebate(),
+      debateStarted('debate-1'),
+      receiveTurn(turn),
+      pauseDebate('User pause'),
+    ]);
+
+    expect(state.debate).toEqual(paused('debate-1', 1, [{ ...turn, round: 1 }], 'User pause', true));
+    expect(state.config.question).toBe('Is AI safe?');
+  });
+
+  it('skips rejected actions', () => {
+    const state = replay([receiveTurn(createTurnResponse()), startDebate(), startDebate()]);
+
+    expect(state.debate._tag).toBe('Starting');
+  });
+
+  it('starts from the given state', () => {
+    const state = replay([resumeDebate()], withDebate(paused('debate-1', 2, [], 'Pause', true)));
+
+    expect(state.debate).toEqual(running('debate-1', 2, []));
+  });
+});
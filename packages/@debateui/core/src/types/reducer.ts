@@ -0,0 +1,361 @@
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { pipe } from 'fp-ts/function';
+import { canTransition, type DebateAction, type BranchingAction } from './actions';
+import {
+  starting,
+  running,
+  paused,
+  completed,
+  error as errorState,
+  debateStateFromResponse,
+  initialStreamingState,
+  initialStoreState,
+  type DebateState,
+  type StreamingState,
+  type StoreState,
+} from './state';
+import type { TurnResponse } from './api-responses';
+
+/**
+ * Any action the store reducer understands.
+ */
+export type StoreAction = DebateAction | BranchingAction;
+
+/**
+ * Diagnostic for an action that was not applied because it is not valid
+ * from the current state.
+ */
+export type RejectedTransition = {
+  readonly _tag: 'RejectedTransition';
+  readonly from: DebateState['_tag'];
+  readonly action: StoreAction['type'];
+  readonly reason: string;
+};
+
+export const rejectedTransition = (
+  from: DebateState['_tag'],
+  action: StoreAction['type'],
+  reason: string
+): RejectedTransition => ({
+  _tag: 'RejectedTransition',
+  from,
+  action,
+  reason,
+});
+
+/**
+ * A dispatched action as recorded in the action log.
+ * Rejected actions are kept so a trace shows what the UI attempted.
+ */
+export type ActionLogEntry = {
+  readonly at: number;
+  readonly action: StoreAction;
+  readonly rejection: O.Option<RejectedTransition>;
+};
+
+const DEBATE_ACTION_TYPES: Record<DebateAction['type'], true> = {
+  UPDATE_CONFIG: true,
+  START_DEBATE: true,
+  DEBATE_STARTED: true,
+  TURN_STARTED: true,
+  TURN_DELTA: true,
+  RECEIVE_TURN: true,
+  ROUND_STARTED: true,
+  ROUND_COMPLETE: true,
+  PAUSE_DEBATE: true,
+  RESUME_DEBATE: true,
+  DEBATE_COMPLETE: true,
+  ERROR: true,
+  DEBATE_LOADED: true,
+  RESET: true,
+};
+
+const isDebateAction = (action: StoreAction): action is DebateAction =>
+  action.type in DEBATE_ACTION_TYPES;
+
+/**
+ * Round that follows a completed one. Stays on the last round once the
+ * configured number of rounds has been played.
+ */
+const nextRound = (completedRound: number, totalRounds: number): number =>
+  Math.max(completedRound, Math.min(completedRound + 1, totalRounds));
+
+/**
+ * Inserts a turn in `createdAt` order. Turns replayed after a reconnect can
+ * arrive late; equal timestamps keep arrival order.
+ */
+const insertTurn = (turns: readonly TurnResponse[], turn: TurnResponse): readonly TurnResponse[] => {
+  const createdAt = Date.parse(turn.createdAt);
+  const index = turns.findIndex((existing) => Date.parse(existing.createdAt) > createdAt);
+  return index === -1 ? [...turns, turn] : [...turns.slice(0, index), turn, ...turns.slice(index)];
+};
+
+/**
+ * Streaming state with a participant's turn set to the given content.
+ */
+const withInProgressTurn = (
+  streaming: StreamingState,
+  participantId: string,
+  content: string
+): StreamingState => ({
+  turns: new Map(streaming.turns).set(participantId, { participantId, content }),
+});
+
+/**
+ * Streaming state without the participant's in-progress turn.
+ */
+const withoutInProgressTurn = (streaming: StreamingState, participantId: string): StreamingState => {
+  if (!streaming.turns.has(participantId)) {
+    return streaming;
+  }
+  const turns = new Map(streaming.turns);
+  turns.delete(participantId);
+  return { turns };
+};
+
+/**
+ * Applies a debate action that canTransition has already accepted.
+ * The variant checks only narrow the state for the compiler.
+ */
+const applyDebateAction = (state: StoreState, action: DebateAction): StoreState => {
+  const { debate } = state;
+
+  switch (action.type) {
+    case 'UPDATE_CONFIG':
+      return { ...state, config: { ...state.config, ...action.payload } };
+
+    case 'START_DEBATE':
+      return { ...state, debate: starting(state.config) };
+
+    case 'DEBATE_STARTED':
+      return { ...state, debate: running(action.payload.debateId, 1, []) };
+
+    case 'TURN_STARTED':
+      return {
+        ...state,
+        streaming: withInProgressTurn(state.streaming, action.payload.participantId, ''),
+      };
+
+    case 'TURN_DELTA': {
+      const { participantId, delta } = action.payload;
+      const content = state.streaming.turns.get(participantId)?.content ?? '';
+      return { ...state, streaming: withInProgressTurn(state.streaming, participantId, content + delta) };
+    }
+
+    case 'RECEIVE_TURN': {
+      // The final turn replaces the participant's in-progress turn. It can
+      // arrive more than once (turn.completed, replay after a reconnect), so
+      // turns are idempotent by turnId and the first copy is kept.
+      const streaming = withoutInProgressTurn(state.streaming, action.payload.participantId);
+      if (debate._tag !== 'Running') {
+        return state;
+      }
+      if (debate.turns.some((turn) => turn.turnId === action.payload.turnId)) {
+        return { ...state, streaming };
+      }
+      // Turns without a round from the server belong to the round in progress
+      return {
+        ...state,
+        streaming,
+        debate: running(
+          debate.debateId,
+          debate.currentRound,
+          insertTurn(debate.turns, { ...action.payload, round: action.payload.round ?? debate.currentRound })
+        ),
+      };
+    }
+
+    case 'ROUND_STARTED':
+      return debate._tag === 'Running'
+        ? { ...state, debate: running(debate.debateId, action.payload.round, debate.turns) }
+        : state;
+
+    case 'ROUND_COMPLETE':
+      return debate._tag === 'Running'
+        ? {
+            ...state,
+            debate: running(
+              debate.debateId,
+              nextRound(action.payload.round, state.config.rounds),
+              debate.turns
+            ),
+          }
+        : state;
+
+    case 'PAUSE_DEBATE':
+      return debate._tag === 'Running'
+        ? {
+            ...state,
+            debate: paused(debate.debateId, debate.currentRound, debate.turns, action.payload.reason, true),
+          }
+        : state;
+
+    case 'RESUME_DEBATE':
+      return debate._tag === 'Paused'
+        ? { ...state, debate: running(debate.debateId, debate.currentRound, debate.turns) }
+        : state;
+
+    case 'DEBATE_COMPLETE':
+      return debate._tag === 'Running'
+        ? { ...state, debate: completed(debate.debateId, action.payload.consensus, debate.turns) }
+        : state;
+
+    case 'ERROR':
+      return { ...state, debate: errorState(action.payload.error, action.payload.recoverable) };
+
+    case 'DEBATE_LOADED': {
+      const { debate: response, branches } = action.payload;
+      const rootBranch = branches.find((branch) => branch.parentBranchId === null) ?? branches[0];
+      return {
+        debate: debateStateFromResponse(response),
+        config: {
+          ...state.config,
+          question: response.question,
+          participants: response.participants,
+          rounds: response.totalRounds,
+        },
+        branching: {
+          activeBranchId: rootBranch ? O.some(rootBranch.branchId) : O.none,
+          branches: new Map(branches.map((branch) => [branch.branchId, branch])),
+          forkDraft: O.none,
+        },
+        streaming: initialStreamingState(),
+      };
+    }
+
+    case 'RESET':
+      return initialStoreState();
+  }
+};
+
+/**
+ * In-progress turns only exist while a debate is running; anything still
+ * streaming when it pauses, completes or fails is discarded.
+ */
+const dropStaleStreaming = (state: StoreState): StoreState =>
+  state.debate._tag === 'Running' || state.streaming.turns.size === 0
+    ? state
+    : { ...state, streaming: initialStreamingState() };
+
+/**
+ * Applies a branching action. These do not depend on the debate state,
+ * but fork draft edits need a draft to edit.
+ */
+const applyBranchingAction = (
+  state: StoreState,
+  action: BranchingAction
+): E.Either<RejectedTransition, StoreState> => {
+  const { branching } = state;
+  const withoutDraft = (): StoreState => ({
+    ...state,
+    branching: { ...branching, forkDraft: O.none },
+  });
+  const requireDraft = (reason: string) =>
+    E.fromOption(() => rejectedTransition(state.debate._tag, action.type, reason))(branching.forkDraft);
+
+  switch (action.type) {
+    case 'SELECT_BRANCH':
+      return E.right({
+        ...state,
+        branching: { ...branching, activeBranchId: O.some(action.payload.branchId) },
+      });
+
+    case 'ADD_BRANCH':
+      return E.right({
+        ...state,
+        branching: {
+          ...branching,
+          branches: new Map(branching.branches).set(action.payload.branchId, action.payload),
+        },
+      });
+
+    case 'START_FORK':
+      return E.right({
+        ...state,
+        branching: {
+          ...branching,
+          forkDraft: O.some({
+            parentTurnId: action.payload.turnId,
+            parentBranchId: action.payload.branchId,
+            content: '',
+            forkMode: state.config.forkMode,
+          }),
+        },
+      });
+
+    case 'UPDATE_FORK_DRAFT':
+      return pipe(
+        requireDraft('No fork draft to update'),
+        E.map((draft) => ({
+          ...state,
+          branching: {
+            ...branching,
+            forkDraft: O.some({ ...draft, content: action.payload.content }),
+          },
+        }))
+      );
+
+    case 'SUBMIT_FORK':
+      // Submission itself is handled by the API layer
+      return pipe(
+        requireDraft('No fork draft to submit'),
+        E.map(() => state)
+      );
+
+    case 'FORK_CREATED':
+    case 'CANCEL_FORK':
+      return E.right(withoutDraft());
+  }
+};
+
+/**
+ * Store reducer (pure function).
+ * Debate actions are checked with canTransition before they are applied;
+ * an invalid action leaves the state untouched and yields a RejectedTransition.
+ *
+ * @param state - Current store state
+ * @param action - Action to apply
+ * @returns Either a RejectedTransition or the next state
+ */
+export const reduce = (
+  state: StoreState,
+  action: StoreAction
+): E.Either<RejectedTransition, StoreState> => {
+  if (!isDebateAction(action)) {
+    return applyBranchingAction(state, action);
+  }
+
+  if (!canTransition(state.debate, action)) {
+    return E.left(
+      rejectedTransition(
+        state.debate._tag,
+        action.type,
+        `${action.type} is not allowed while the debate is ${state.debate._tag}`
+      )
+    );
+  }
+
+  return E.right(dropStaleStreaming(applyDebateAction(state, action)));
+};
+
+/**
+ * Replays a sequence of actions, skipping the ones that are rejected.
+ * Used to reproduce a bug report from an exported action log.
+ *
+ * @param actions - Actions in dispatch order
+ * @param initial - State to start from
+ * @returns The state after all accepted actions
+ */
+export const replay = (
+  actions: readonly StoreAction[],
+  initial: StoreState = initialStoreState()
+): StoreState =>
+  actions.reduce(
+    (state, action) =>
+      pipe(
+        reduce(state, action),
+        E.getOrElse(() => state)
+      ),
+    initial
+  );
@@ -20,11 +20,13 @@ import {
   completed,
   error as errorState,
   initialBranchingState,
+  initialStreamingState,
+  debateStateFromResponse,
 } from './state';
 import type { DebateConfig } from './debate';
-import type { TurnResponse, BranchInfo } from './api-responses';
+import type { TurnResponse, BranchInfo, DebateResponse } from './api-responses';
 import type { ConsensusResult } from './consensus';
-import { networkError, serverError, type ApiError } from './errors';
+import { debateFailedError, networkError, serverError, type ApiError } from './errors';
 
 // Helper to create valid TurnResponse
 const createTurnResponse = (overrides: Partial<TurnResponse> = {}): TurnResponse => ({
@@ -144,6 +146,8 @@ describe('State Type Guards', () => {
       const state: DebateState = {
         _tag: 'Paused',
         debateId: 'debate-1',
+        currentRound: 2,
+        turns: [],
         reason: 'User requested',
         canResume: true,
       };
@@ -154,6 +158,8 @@ describe('State Type Guards', () => {
       const state: DebateState = {
         _tag: 'Paused',
         debateId: 'debate-1',
+        currentRound: 2,
+        turns: [],
         reason: 'Critical error',
         canResume: false,
       };
@@ -308,7 +314,7 @@ describe('State Constructors', () => {
 
   describe('paused', () => {
     it('should create Paused state with resumable flag', () => {
-      const state = paused('debate-1', 'User paused', true);
+      const state = paused('debate-1', 1, [], 'User paused', true);
       expect(state._tag).toBe('Paused');
       if (isPaused(state)) {
         expect(state.debateId).toBe('debate-1');
@@ -318,11 +324,20 @@ describe('State Constructors', () => {
     });
 
     it('should create non-resumable Paused state', () => {
-      const state = paused('debate-1', 'System error', false);
+      const state = paused('debate-1', 1, [], 'System error', false);
       if (isPaused(state)) {
         expect(state.canResume).toBe(false);
       }
     });
+
+    it('should keep the round and turns of the paused debate', () => {
+      const turns = [createTurnResponse({ turnId: 'turn-1' }), createTurnResponse({ turnId: 'turn-2' })];
+      const state = paused('debate-1', 3, turns, 'User paused', true);
+      if (isPaused(state)) {
+        expect(state.currentRound).toBe(3);
+        expect(state.turns).toBe(turns);
+      }
+    });
   });
 
   describe('completed', () => {
@@ -371,6 +386,76 @@ describe('State Constructors', () => {
   });
 });
 
+describe('debateStateFromResponse', () => {
+  const createDebateResponse = (overrides: Partial<DebateResponse> = {}): DebateResponse => ({
+    debateId: 'c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+    status: 'running',
+    question: 'What is the meaning of truth?',
+    participants: ['claude', 'gpt4'],
+    currentRound: 2,
+    totalRounds: 4,
+    turns: [createTurnResponse()],
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:05:00Z',
+    ...overrides,
+  });
+
+  it('maps running debates to Running with round and turns', () => {
+    const response = createDebateResponse();
+
+    expect(debateStateFromResponse(response)).toEqual(
+      running(response.debateId, 2, response.turns)
+    );
+  });
+
+  it('maps pending debates to Running so the stream can attach', () => {
+    const state = debateStateFromResponse(createDebateResponse({ status: 'pending', currentRound: 0, turns: [] }));
+
+    expect(isRunning(state)).toBe(true);
+  });
+
+  it('maps paused debates to a resumable Paused state', () => {
+    const state = debateStateFromResponse(createDebateResponse({ status: 'paused' }));
+
+    expect(isPaused(state)).toBe(true);
+    if (isPaused(state)) {
+      expect(state.canResume).toBe(true);
+      expect(state.currentRound).toBe(2);
+      expect(state.turns).toHaveLength(1);
+    }
+  });
+
+  it('maps completed debates to Completed with the reported consensus', () => {
+    const consensus = createConsensusResult();
+    const response = createDebateResponse({ status: 'completed', consensus });
+
+    expect(debateStateFromResponse(response)).toEqual(
+      completed(response.debateId, consensus, response.turns)
+    );
+  });
+
+  it('falls back to a none-level consensus when a completed debate has none', () => {
+    const state = debateStateFromResponse(createDebateResponse({ status: 'completed' }));
+
+    expect(isCompleted(state)).toBe(true);
+    if (isCompleted(state)) {
+      expect(state.consensus.level).toBe('none');
+      expect(state.turns).toHaveLength(1);
+    }
+  });
+
+  it('maps failed debates to a non-recoverable Error', () => {
+    const response = createDebateResponse({ status: 'error' });
+    const state = debateStateFromResponse(response);
+
+    expect(isError(state)).toBe(true);
+    if (isError(state)) {
+      expect(state.error).toEqual(debateFailedError(response.debateId));
+      expect(state.recoverable).toBe(false);
+    }
+  });
+});
+
 describe('BranchingState', () => {
   describe('initialBranchingState', () => {
     it('should create initial branching state', () => {
@@ -445,12 +530,21 @@ describe('BranchingState', () => {
   });
 });
 
+describe('StreamingState', () => {
+  describe('initialStreamingState', () => {
+    it('should create streaming state with no turns in progress', () => {
+      expect(initialStreamingState().turns.size).toBe(0);
+    });
+  });
+});
+
 describe('StoreState', () => {
   it('should combine debate, branching, and config state', () => {
     const config = createDebateConfig({ question: 'Test Topic' });
     const store: StoreState = {
       debate: idle(),
       branching: initialBranchingState(),
+      streaming: initialStreamingState(),
       config,
     };
     expect(isIdle(store.debate)).toBe(true);
@@ -474,6 +568,7 @@ describe('StoreState', () => {
         branches,
         forkDraft: O.none,
       },
+      streaming: initialStreamingState(),
       config,
     };
     expect(isRunning(store.debate)).toBe(true);
@@ -1,8 +1,8 @@
 import * as O from 'fp-ts/Option';
 import type { DebateConfig } from './debate';
-import type { TurnResponse, BranchInfo } from './api-responses';
-import type { ConsensusResult } from './consensus';
-import type { ApiError } from './errors';
+import type { TurnResponse, BranchInfo, DebateResponse } from './api-responses';
+import { createConsensusResult, type ConsensusResult } from './consensus';
+import { debateFailedError, type ApiError } from './errors';
 
 /**
  * Debate state machine using discriminated unions for type-safe state transitions.
@@ -13,7 +13,7 @@ export type DebateState =
   | { readonly _tag: 'Configuring'; readonly draft: Partial<DebateConfig> }
   | { readonly _tag: 'Starting'; readonly config: DebateConfig }
   | { readonly _tag: 'Running'; readonly debateId: string; readonly currentRound: number; readonly turns: readonly TurnResponse[] }
-  | { readonly _tag: 'Paused'; readonly debateId: string; readonly reason: string; readonly canResume: boolean }
+  | { readonly _tag: 'Paused'; readonly debateId: string; readonly currentRound: number; readonly turns: readonly TurnResponse[]; readonly reason: string; readonly canResume: boolean }
   | { readonly _tag: 'Completed'; readonly debateId: string; readonly consensus: ConsensusResult; readonly turns: readonly TurnResponse[] }
   | { readonly _tag: 'Error'; readonly error: ApiError; readonly recoverable: boolean };
 
@@ -58,11 +58,15 @@ export const running = (
 
 export const paused = (
   debateId: string,
+  currentRound: number,
+  turns: readonly TurnResponse[],
   reason: string,
   canResume: boolean
 ): DebateState => ({
   _tag: 'Paused',
   debateId,
+  currentRound,
+  turns,
   reason,
   canResume,
 });
@@ -84,6 +88,33 @@ export const error = (apiError: ApiError, recoverable: boolean): DebateState =>
   recoverable,
 });
 
+/**
+ * Maps a debate fetched from the API onto the matching DebateState variant.
+ * Pending debates are treated as running so the stream can attach as soon
+ * as the backend starts emitting turns. Completed debates without a reported
+ * consensus get an empty 'none' result.
+ */
+export const debateStateFromResponse = (response: DebateResponse): DebateState => {
+  switch (response.status) {
+    case 'pending':
+    case 'running':
+      return running(response.debateId, response.currentRound, response.turns);
+
+    case 'paused':
+      return paused(response.debateId, response.currentRound, response.turns, 'Paused on server', true);
+
+    case 'completed':
+      return completed(
+        response.debateId,
+        response.consensus ?? createConsensusResult(0, 0, 0),
+        response.turns
+      );
+
+    case 'error':
+      return error(debateFailedError(response.debateId), false);
+  }
+};
+
 /**
  * Fork draft for creating alternative debate branches.
  */
@@ -113,11 +144,57 @@ export const initialBranchingState = (): BranchingState => ({
   forkDraft: O.none,
 });
 
+/**
+ * A turn that is still being generated, built up from streamed deltas.
+ */
+export type InProgressTurn = {
+  readonly participantId: string;
+  readonly content: string;
+};
+
+/**
+ * Streaming state tracks turns that have started but not completed.
+ * Keyed by participant, since a participant generates one turn at a time.
+ */
+export type StreamingState = {
+  readonly turns: ReadonlyMap<string, InProgressTurn>;
+};
+
+/**
+ * Creates initial streaming state with no turns in progress.
+ */
+export const initialStreamingState = (): StreamingState => ({
+  turns: new Map(),
+});
+
 /**
  * Combined store state containing all application state.
  */
 export type StoreState = {
   readonly debate: DebateState;
   readonly branching: BranchingState;
+  readonly streaming: StreamingState;
   readonly config: DebateConfig;
 };
+
+/**
+ * Debate configuration before anything has been entered.
+ */
+export const initialDebateConfig = (): DebateConfig => ({
+  question: '',
+  participants: [],
+  rounds: 4,
+  consensusThreshold: 0.8,
+  forkMode: 'save',
+});
+
+/**
+ * Creates initial store state: Idle, no branches, nothing streaming,
+ * default configuration.
+ */
+export const initialStoreState = (): StoreState => ({
+  debate: idle(),
+  branching: initialBranchingState(),
+  streaming: initialStreamingState(),
+  config: initialDebateConfig(),
+});
@@ -0,0 +1,49 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import * as E from 'fp-ts/Either';
+import { parseScenario, DEFAULT_SCENARIO, type Scenario } from './scenario';
+import { createMockServer } from './server';
+
+/**
+ * Start the mock backend.
+ *
+ *   pnpm --filter @debateui/mock-server start -- --scenario scenarios/slow-turns.json
+ *
+ * Options: `--scenario <file>`, `--port <port>` (3000), `--host <host>` (localhost).
+ * Point the app at it with `VITE_API_BASE_URL=http://localhost:3000`.
+ */
+const loadScenario = async (file: string | undefined): Promise<Scenario> => {
+  if (file === undefined) {
+    return DEFAULT_SCENARIO;
+  }
+  const scenario = parseScenario(JSON.parse(await readFile(file, 'utf8')) as unknown);
+  if (E.isLeft(scenario)) {
+    const issues = scenario.left.issues.map((issue) => `  ${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid scenario ${file}:\n${issues.join('\n')}`);
+  }
+  return scenario.right;
+};
+
+const main = async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      scenario: { type: 'string' },
+      port: { type: 'string', default: '3000' },
+      host: { type: 'string', default: 'localhost' },
+    },
+  });
+
+  const scenario = await loadScenario(values.scenario);
+  const server = createMockServer({ scenario, port: Number(values.port), host: values.host });
+  const url = await server.listen();
+  console.log(`Mock backend playing "${scenario.name}" on ${url}`);
+
+  process.once('SIGINT', () => {
+    void server.close().then(() => process.exit(0));
+  });
+};
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as E from 'fp-ts/Either';
+import { ScenarioSchema, type ScenarioInput } from './scenario';
+import { createDebateRegistry, type DebateRegistry, type EventEntry } from './debates';
+
+const CONFIG = {
+  question: 'Should cities ban cars from their centres?',
+  participants: ['claude', 'gpt-4'],
+  rounds: 2,
+};
+
+const setup = (
+  input: Partial<ScenarioInput> = {}
+): { registry: DebateRegistry; debateId: string; events: EventEntry[] } => {
+  const registry = createDebateRegistry(
+    ScenarioSchema.parse({ name: 'test', turnDelayMs: 100, streamingChunks: 1, ...input })
+  );
+  const created = registry.createDebate(CONFIG);
+  if (E.isLeft(created)) throw new Error('Debate not created');
+  const { debateId } = created.right;
+  const events: EventEntry[] = [];
+  registry.subscribe(debateId, undefined, (entry) => {
+    events.push(entry);
+  });
+  return { registry, debateId, events };
+};
+
+const types = (events: readonly EventEntry[]): string[] => events.map((entry) => entry.event.type);
+
+describe('createDebateRegistry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects an invalid debate configuration', () => {
+    const registry = createDebateRegistry(ScenarioSchema.parse({ name: 'test' }));
+
+    expect(registry.createDebate({ question: 'Too short' })).toMatchObject(
+      E.left({ _tag: 'ValidationError' })
+    );
+  });
+
+  it('lists debates matching a query', () => {
+    const { registry, debateId } = setup();
+    registry.createDebate({ ...CONFIG, question: 'Should schools drop homework entirely?' });
+    registry.startDebate(debateId);
+
+    expect(registry.listDebates({ status: ['running'] })).toMatchObject(
+      E.right({ debates: [{ debateId, participants: ['claude', 'gpt-4'], totalRounds: 2 }], nextCursor: null })
+    );
+    expect(registry.listDebates({ question: 'HOMEWORK' })).toMatchObject(
+      E.right({ debates: [{ question: 'Should schools drop homework entirely?' }] })
+    );
+  });
+
+  it('rejects a malformed list query', () => {
+    const { registry } = setup();
+
+    expect(registry.listDebates({ sortBy: 'cost' })).toMatchObject(E.left({ _tag: 'ValidationError' }));
+    expect(registry.listDebates({ cursor: 'garbage' })).toMatchObject(E.left({ _tag: 'ValidationError' }));
+  });
+
+  it('plays the script to consensus once started', () => {
+    const { registry, debateId, events } = setup();
+
+    registry.startDebate(debateId);
+    vi.runAllTimers();
+
+    expect(types(events).filter((type) => type === 'turn')).toHaveLength(4);
+    expect(types(events).slice(-2)).toEqual(['consensus', 'complete']);
+    expect(registry.getDebate(debateId)).toMatchObject(
+      E.right({ status: 'completed', currentRound: 2, consensus: { level: 'strong' } })
+    );
+  });
+
+  it('streams a turn in chunks before it completes', () => {
+    const { registry, debateId, events } = setup({ streamingChunks: 3 });
+
+    registry.startDebate(debateId);
+    vi.advanceTimersByTime(99);
+
+    const eventTypes = events.map((entry) =>
+      entry.event.type === 'ccr' ? entry.event.data.eventType : entry.event.type
+    );
+    expect(eventTypes).toEqual([
+      'debate.initialized',
+      'debate.round.started',
+      'turn.started',
+      'turn.streaming',
+      'turn.streaming',
+      'turn.streaming',
+    ]);
+  });
+
+  it('holds the script while paused', () => {
+    const { registry, debateId, events } = setup();
+
+    registry.startDebate(debateId);
+    vi.advanceTimersByTime(100);
+    expect(registry.pauseDebate(debateId)).toEqual(E.right(undefined));
+    const played = events.length;
+    vi.advanceTimersByTime(1000);
+
+    expect(events).toHaveLength(played);
+
+    registry.resumeDebate(debateId);
+    vi.advanceTimersByTime(1000);
+
+    expect(types(events)).toContain('complete');
+  });
+
+  it('refuses transitions from the wrong status', () => {
+    const { registry, debateId } = setup();
+
+    expect(registry.pauseDebate(debateId)).toMatchObject(E.left({ _tag: 'ConflictError' }));
+    expect(registry.resumeDebate('missing')).toMatchObject(E.left({ _tag: 'NotFoundError' }));
+  });
+
+  it('ends the debate with an error after the scripted number of turns', () => {
+    const { registry, debateId, events } = setup({
+      stream: { errorAfterTurns: 1, errorMessage: 'Provider down' },
+    });
+
+    registry.startDebate(debateId);
+    vi.advanceTimersByTime(1000);
+
+    expect(events.at(-1)?.event).toEqual({
+      type: 'error',
+      data: { message: 'Provider down', recoverable: false },
+    });
+    expect(types(events).filter((type) => type === 'turn')).toHaveLength(1);
+    expect(registry.getDebate(debateId)).toMatchObject(E.right({ status: 'error' }));
+  });
+
+  it('goes on after a recoverable error', () => {
+    const { registry, debateId, events } = setup({
+      stream: { errorAfterTurns: 1, recoverable: true },
+    });
+
+    registry.startDebate(debateId);
+    vi.advanceTimersByTime(1000);
+
+    expect(types(events)).toContain('error');
+    expect(types(events)).toContain('complete');
+  });
+
+  it('replays the events after the last event id', () => {
+    const { registry, debateId, events } = setup();
+    registry.startDebate(debateId);
+    vi.advanceTimersByTime(100);
+
+    const replayed: EventEntry[] = [];
+    registry.subscribe(debateId, '2', (entry) => {
+      replayed.push(entry);
+    });
+
+    expect(replayed).toEqual(events.slice(2));
+  });
+
+  describe('branches', () => {
+    const playFirstTurn = (): { registry: DebateRegistry; debateId: string; turnId: string } => {
+      const { registry, debateId } = setup();
+      registry.startDebate(debateId);
+      vi.advanceTimersByTime(150);
+      const turns = registry.getTurns(debateId, undefined);
+      const turnId = E.isRight(turns) ? turns.right[0]?.turnId : undefined;
+      if (turnId === undefined) throw new Error('No turn played');
+      return { registry, debateId, turnId };
+    };
+
+    it('starts with the main branch', () => {
+      const { registry, debateId } = setup();
+
+      expect(registry.listBranches(debateId)).toMatchObject(
+        E.right([{ name: 'Main', parentBranchId: null, depth: 0 }])
+      );
+    });
+
+    it('forks at a turn with the human turn on the new branch', () => {
+      const { registry, debateId, turnId } = playFirstTurn();
+
+      const fork = registry.createFork(debateId, turnId, {
+        content: 'What about deliveries?',
+        forkMode: 'explore',
+      });
+
+      expect(fork).toMatchObject(E.right({ forkTurnId: turnId, forkMode: 'explore', depth: 1 }));
+      if (E.isLeft(fork)) return;
+      expect(registry.getBranchTurns(debateId, fork.right.branchId)).toMatchObject(
+        E.right([{ participantType: 'human', content: 'What about deliveries?' }])
+      );
+    });
+
+    it('deletes explore branches only', () => {
+      const { registry, debateId, turnId } = playFirstTurn();
+      const saved = registry.createFork(debateId, turnId, { content: 'Keep this', forkMode: 'save' });
+      const explored = registry.createFork(debateId, turnId, { content: 'Try this', forkMode: 'explore' });
+      if (E.isLeft(saved) || E.isLeft(explored)) throw new Error('Forks not created');
+
+      expect(registry.deleteBranch(debateId, saved.right.branchId)).toMatchObject(
+        E.left({ _tag: 'ConflictError' })
+      );
+      expect(registry.deleteBranch(debateId, explored.right.branchId)).toEqual(E.right(undefined));
+      expect(registry.getBranch(debateId, explored.right.branchId)).toMatchObject(
+        E.left({ _tag: 'NotFoundError' })
+      );
+    });
+
+    it('merges a saved branch into its parent', () => {
+      const { registry, debateId, turnId } = playFirstTurn();
+      const saved = registry.createFork(debateId, turnId, { content: 'Keep this', forkMode: 'save' });
+      if (E.isLeft(saved)) throw new Error('Fork not created');
+
+      expect(registry.mergeBranch(debateId, saved.right.branchId)).toEqual(E.right(undefined));
+
+      const mainTurns = registry.getTurns(debateId, undefined);
+      expect(E.isRight(mainTurns) && mainTurns.right.map((turn) => turn.content)).toContain('Keep this');
+      expect(registry.listBranches(debateId)).toMatchObject(E.right([{ name: 'Main' }]));
+    });
+  });
+});
@@ -0,0 +1,384 @@
+import { randomUUID } from 'node:crypto';
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import { z } from 'zod';
+import {
+  DebateConfigSchema,
+  conflictError,
+  createScriptPlayer,
+  parseDebateListQuery,
+  queryDebates,
+  notFoundError,
+  scriptedDebate,
+  validationError,
+  type ApiError,
+  type BranchInfo,
+  type DebateEventEntry,
+  type DebateEventListener,
+  type DebateListResponse,
+  type DebateResponse,
+  type ScriptedDebate,
+  type ScriptedTurn,
+  type TurnResponse,
+} from '@debateui/core';
+import type { CCREventType, StreamEvent } from '@debateui/api-client';
+import type { Scenario } from './scenario';
+import { scriptDebate, type Step } from './script';
+
+/**
+ * A debate event with the id clients resume from
+ */
+export type EventEntry = DebateEventEntry<StreamEvent>;
+
+/**
+ * Receives the events of one debate
+ */
+export type EventListener = DebateEventListener<StreamEvent>;
+
+/**
+ * In-memory debates of the mock backend.
+ * Every operation answers like the backend would, with the ApiError the
+ * client maps the backend's error response to.
+ */
+export interface DebateRegistry {
+  readonly createDebate: (input: unknown) => E.Either<ApiError, { debateId: string }>;
+  readonly getDebate: (debateId: string) => E.Either<ApiError, DebateResponse>;
+  readonly listDebates: (query: unknown) => E.Either<ApiError, DebateListResponse>;
+  readonly startDebate: (debateId: string) => E.Either<ApiError, void>;
+  readonly pauseDebate: (debateId: string) => E.Either<ApiError, void>;
+  readonly resumeDebate: (debateId: string) => E.Either<ApiError, void>;
+  readonly getTurns: (
+    debateId: string,
+    branchId?: string
+  ) => E.Either<ApiError, readonly TurnResponse[]>;
+  readonly submitTurn: (debateId: string, input: unknown) => E.Either<ApiError, TurnResponse>;
+  readonly listBranches: (debateId: string) => E.Either<ApiError, readonly BranchInfo[]>;
+  readonly getBranch: (debateId: string, branchId: string) => E.Either<ApiError, BranchInfo>;
+  readonly getBranchTurns: (
+    debateId: string,
+    branchId: string
+  ) => E.Either<ApiError, readonly TurnResponse[]>;
+  readonly createFork: (
+    debateId: string,
+    turnId: string,
+    input: unknown
+  ) => E.Either<ApiError, BranchInfo>;
+  readonly deleteBranch: (debateId: string, branchId: string) => E.Either<ApiError, void>;
+  readonly mergeBranch: (debateId: string, branchId: string) => E.Either<ApiError, void>;
+  /**
+   * Receive the events of a debate, starting with those after
+   * `lastEventId`, or all of them without one
+   * @returns Function to stop receiving events
+   */
+  readonly subscribe: (
+    debateId: string,
+    lastEventId: string | undefined,
+    listener: EventListener
+  ) => E.Either<ApiError, () => void>;
+  /** Stop all running debates */
+  readonly close: () => void;
+}
+
+const SubmitTurnSchema = z.object({
+  content: z.string().min(1),
+  branchId: z.string().uuid().optional(),
+});
+
+const CreateForkSchema = z.object({
+  content: z.string().min(1),
+  forkMode: z.enum(['save', 'explore']),
+  name: z.string().min(1).optional(),
+});
+
+/**
+ * State of one debate
+ */
+interface MockDebate extends ScriptedDebate<StreamEvent> {
+  turnsPlayed: number;
+}
+
+const parseInput = <A>(schema: z.ZodType<A, z.ZodTypeDef, unknown>, input: unknown): E.Either<ApiError, A> => {
+  const result = schema.safeParse(input);
+  return result.success ? E.right(result.data) : E.left(validationError(result.error));
+};
+
+const now = (): string => new Date().toISOString();
+
+const createTurn = (
+  branchId: string,
+  participantId: string,
+  participantType: TurnResponse['participantType'],
+  content: string,
+  latencyMs: number,
+  round?: number
+): TurnResponse => {
+  const tokensUsed = Math.ceil(content.length / 4);
+  return {
+    turnId: randomUUID(),
+    branchId,
+    participantId,
+    participantType,
+    content,
+    ...(participantType === 'model' && { confidence: 0.8 }),
+    tokensUsed,
+    costUsd: tokensUsed * 0.00002,
+    latencyMs,
+    createdAt: now(),
+    ...(round !== undefined && { round }),
+  };
+};
+
+const ccrEvent = (
+  eventType: CCREventType,
+  message: string,
+  agent?: string,
+  metadata?: Record<string, unknown>
+): StreamEvent => ({
+  type: 'ccr',
+  data: { eventId: randomUUID(), timestamp: Date.now(), eventType, agent, message, metadata },
+});
+
+/**
+ * Create the in-memory debates of the mock backend.
+ * Started debates play their script on timers, paced by the scenario.
+ *
+ * @param scenario - Scenario setting the pace and the failures
+ * @returns Registry of debates
+ */
+export const createDebateRegistry = (scenario: Scenario): DebateRegistry => {
+  const failIfScripted = (debate: MockDebate, emit: (event: StreamEvent) => void): void => {
+    const { errorAfterTurns, errorMessage, recoverable } = scenario.stream;
+    if (errorAfterTurns !== debate.turnsPlayed) {
+      return;
+    }
+    emit(ccrEvent('error.occurred', errorMessage, undefined, { code: 'simulated_failure' }));
+    emit({ type: 'error', data: { message: errorMessage, recoverable } });
+    if (!recoverable) {
+      debate.status = 'error';
+    }
+  };
+
+  const play = (debate: MockDebate, step: Step, emit: (event: StreamEvent) => void): void => {
+    switch (step.kind) {
+      case 'roundStarted':
+        debate.currentRound = step.round;
+        emit(ccrEvent('debate.round.started', `Round ${String(step.round)} started`, undefined, { round: step.round }));
+        return;
+      case 'turnStarted':
+        emit(ccrEvent('turn.started', `${step.turn.participantId} is responding`, step.turn.participantId));
+        return;
+      case 'turnDelta':
+        emit(ccrEvent('turn.streaming', 'Streaming', step.turn.participantId, { delta: step.delta }));
+        return;
+      case 'turnCompleted': {
+        const turn = createTurn(
+          debate.mainBranchId,
+          step.turn.participantId,
+          'model',
+          step.turn.content,
+          scenario.turnDelayMs,
+          step.turn.round
+        );
+        debate.turns.push(turn);
+        debate.turnsPlayed += 1;
+        emit({ type: 'turn', data: turn });
+        failIfScripted(debate, emit);
+        return;
+      }
+      case 'roundCompleted':
+        emit(ccrEvent('debate.round.completed', `Round ${String(step.round)} completed`, undefined, { round: step.round }));
+        return;
+      case 'consensus':
+        debate.consensus = step.consensus;
+        debate.status = 'completed';
+        emit(ccrEvent('consensus.reached', `Consensus reached: ${step.consensus.level}`));
+        emit({ type: 'consensus', data: step.consensus });
+        emit({ type: 'complete', data: { debateId: debate.debateId } });
+        return;
+    }
+  };
+
+  const player = createScriptPlayer<StreamEvent, ScriptedTurn, MockDebate>({ play, timestamp: now });
+  const { find, findBranch, emit, schedule, stop, transition } = player;
+
+  return {
+    createDebate: (input) =>
+      pipe(
+        parseInput(DebateConfigSchema, input),
+        E.map((config) => {
+          const debate: MockDebate = {
+            ...scriptedDebate<StreamEvent>({
+              debateId: randomUUID(),
+              config,
+              mainBranchId: randomUUID(),
+              forkMode: 'save',
+              steps: scriptDebate(config, scenario),
+              createdAt: now(),
+            }),
+            turnsPlayed: 0,
+          };
+          player.add(debate);
+          emit(debate, ccrEvent('debate.initialized', `Debate created: ${config.question}`));
+          return { debateId: debate.debateId };
+        })
+      ),
+
+    getDebate: (debateId) =>
+      pipe(
+        find(debateId),
+        E.map(player.describe)
+      ),
+
+    listDebates: (input) =>
+      pipe(
+        parseDebateListQuery(input),
+        E.chain((query) => queryDebates(player.summaries(), query)),
+        E.mapLeft(validationError)
+      ),
+
+    startDebate: (debateId) =>
+      pipe(
+        find(debateId),
+        E.chain((debate) =>
+          debate.status === 'running' ? E.right(debate) : transition(debateId, 'pending', 'running')
+        ),
+        E.map((debate) => {
+          if (debate.timer === undefined) {
+            schedule(debate);
+          }
+        })
+      ),
+
+    pauseDebate: (debateId) =>
+      pipe(
+        transition(debateId, 'running', 'paused'),
+        E.map(stop)
+      ),
+
+    resumeDebate: (debateId) =>
+      pipe(
+        transition(debateId, 'paused', 'running'),
+        E.map(schedule)
+      ),
+
+    getTurns: (debateId, branchId) =>
+      pipe(
+        find(debateId),
+        E.chain((debate) => player.turnsOf(debate, branchId ?? debate.mainBranchId))
+      ),
+
+    submitTurn: (debateId, input) =>
+      pipe(
+        E.Do,
+        E.apS('debate', find(debateId)),
+        E.apS('body', parseInput(SubmitTurnSchema, input)),
+        E.bind('branch', ({ debate, body }) =>
+          findBranch(debate, body.branchId ?? debate.mainBranchId)
+        ),
+        E.map(({ debate, body, branch }) => {
+          const turn = createTurn(branch.branchId, 'human', 'human', body.content, 0);
+          debate.turns.push(turn);
+          emit(debate, { type: 'turn', data: turn });
+          return turn;
+        })
+      ),
+
+    listBranches: (debateId) =>
+      pipe(
+        find(debateId),
+        E.map((debate) => debate.branches)
+      ),
+
+    getBranch: (debateId, branchId) =>
+      pipe(
+        find(debateId),
+        E.chain((debate) => findBranch(debate, branchId))
+      ),
+
+    getBranchTurns: (debateId, branchId) =>
+      pipe(
+        find(debateId),
+        E.chain((debate) => player.turnsOf(debate, branchId))
+      ),
+
+    createFork: (debateId, turnId, input) =>
+      pipe(
+        E.Do,
+        E.apS('debate', find(debateId)),
+        E.apS('body', parseInput(CreateForkSchema, input)),
+        E.bind('turn', ({ debate }) =>
+          pipe(
+            debate.turns.find((turn) => turn.turnId === turnId),
+            E.fromNullable(notFoundError('turn', turnId))
+          )
+        ),
+        E.bind('parent', ({ debate, turn }) => findBranch(debate, turn.branchId)),
+        E.map(({ debate, body, turn, parent }) => {
+          const branch: BranchInfo = {
+            branchId: randomUUID(),
+            parentBranchId: parent.branchId,
+            forkTurnId: turn.turnId,
+            name: body.name ?? `Fork of ${parent.name}`,
+            forkMode: body.forkMode,
+            depth: parent.depth + 1,
+            createdAt: now(),
+          };
+          debate.branches.push(branch);
+          debate.turns.push(createTurn(branch.branchId, 'human', 'human', body.content, 0));
+          debate.updatedAt = now();
+          return branch;
+        })
+      ),
+
+    deleteBranch: (debateId, branchId) =>
+      pipe(
+        find(debateId),
+        E.bindTo('debate'),
+        E.bind('branch', ({ debate }) => findBranch(debate, branchId)),
+        E.filterOrElse(
+          ({ branch }) => branch.forkMode === 'explore',
+          () => conflictError('Only explore branches can be deleted', 'branch')
+        ),
+        E.map(({ debate }) => {
+          debate.branches = debate.branches.filter((branch) => branch.branchId !== branchId);
+          debate.turns = debate.turns.filter((turn) => turn.branchId !== branchId);
+        })
+      ),
+
+    mergeBranch: (debateId, branchId) =>
+      pipe(
+        find(debateId),
+        E.bindTo('debate'),
+        E.bind('branch', ({ debate }) => findBranch(debate, branchId)),
+        E.filterOrElse(
+          ({ branch }) => branch.forkMode === 'save',
+          () => conflictError('Explore branches cannot be merged', 'branch')
+        ),
+        E.chain(({ debate, branch }) =>
+          branch.parentBranchId === null
+            ? E.left(conflictError('The main branch cannot be merged', 'branch'))
+            : E.right({ debate, parentBranchId: branch.parentBranchId })
+        ),
+        E.map(({ debate, parentBranchId }) => {
+          // The fork's turns continue the parent branch, its forks hang off the parent
+          debate.turns = debate.turns.map((turn) =>
+            turn.branchId === branchId ? { ...turn, branchId: parentBranchId } : turn
+          );
+          debate.branches = debate.branches
+            .filter((branch) => branch.branchId !== branchId)
+            .map((branch) =>
+              branch.parentBranchId === branchId ? { ...branch, parentBranchId } : branch
+            );
+          debate.updatedAt = now();
+        })
+      ),
+
+    subscribe: (debateId, lastEventId, listener) =>
+      pipe(
+        find(debateId),
+        E.map((debate) => player.subscribe(debate, lastEventId, listener))
+      ),
+
+    close: player.close,
+  };
+};
@@ -0,0 +1,25 @@
+// @debateui/mock-server - Mock CCR backend for running debateUI offline
+
+// Export server
+export { createMockServer, type MockServer, type MockServerOptions } from './server';
+
+// Export scenarios
+export {
+  ScenarioSchema,
+  parseScenario,
+  DEFAULT_SCENARIO,
+  type Scenario,
+  type ScenarioInput,
+  type Fault,
+} from './scenario';
+
+// Export debate registry
+export {
+  createDebateRegistry,
+  type DebateRegistry,
+  type EventEntry,
+  type EventListener,
+} from './debates';
+
+// Export debate script
+export { scriptDebate, type Step, type TimedStep } from './script';
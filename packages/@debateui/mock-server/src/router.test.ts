@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import * as O from 'fp-ts/Option';
+import { conflictError, notFoundError, rateLimitError, validationError } from '@debateui/core';
+import { z } from 'zod';
+import { createFaultInjector, findRoute, fromApiError, matchPath, type Route } from './router';
+
+describe('router', () => {
+  describe('matchPath', () => {
+    it('extracts named segments', () => {
+      expect(matchPath('/api/debates/:debateId/branches/:branchId', '/api/debates/d1/branches/b%201')).toEqual(
+        O.some({ debateId: 'd1', branchId: 'b 1' })
+      );
+    });
+
+    it('ignores a trailing slash', () => {
+      expect(matchPath('/api/debates', '/api/debates/')).toEqual(O.some({}));
+    });
+
+    it('rejects paths of another shape', () => {
+      expect(matchPath('/api/debates/:debateId', '/api/debates')).toEqual(O.none);
+      expect(matchPath('/api/debates/:debateId', '/api/branches/d1')).toEqual(O.none);
+      expect(matchPath('/api/debates/:debateId/turns', '/api/debates//turns')).toEqual(O.none);
+    });
+  });
+
+  describe('findRoute', () => {
+    const routes: Route[] = [
+      { method: 'GET', pattern: '/api/debates/:debateId', handle: () => ({ status: 200 }) },
+      { method: 'POST', pattern: '/api/debates/:debateId/start', handle: () => ({ status: 204 }) },
+    ];
+
+    it('matches method and path', () => {
+      const match = findRoute(routes, 'POST', '/api/debates/d1/start');
+
+      expect(O.isSome(match) && match.value.route).toBe(routes[1]);
+      expect(O.isSome(match) && match.value.params).toEqual({ debateId: 'd1' });
+    });
+
+    it('finds nothing for another method', () => {
+      expect(findRoute(routes, 'DELETE', '/api/debates/d1')).toEqual(O.none);
+    });
+  });
+
+  describe('fromApiError', () => {
+    it('answers a validation error with field-level problem details', () => {
+      const error = z.object({ question: z.string() }).safeParse({ question: 1 }).error;
+      const reply = fromApiError(validationError(error ?? new z.ZodError([])));
+
+      expect(reply.status).toBe(400);
+      expect(reply.headers).toEqual({ 'Content-Type': 'application/problem+json' });
+      expect(reply.body).toMatchObject({
+        status: 400,
+        errors: [{ pointer: '/question', code: 'invalid_type' }],
+      });
+    });
+
+    it('answers a missing resource with 404', () => {
+      expect(fromApiError(notFoundError('debate', 'd1'))).toMatchObject({
+        status: 404,
+        body: { detail: 'No debate with id d1' },
+      });
+    });
+
+    it('answers a conflict with 409', () => {
+      expect(fromApiError(conflictError('Debate is running', 'debate')).status).toBe(409);
+    });
+
+    it('answers a rate limit with Retry-After in seconds', () => {
+      expect(fromApiError(rateLimitError(1500)).headers).toMatchObject({ 'Retry-After': '2' });
+    });
+  });
+
+  describe('createFaultInjector', () => {
+    it('fails matching requests only as many times as configured', () => {
+      const inject = createFaultInjector([
+        { method: 'POST', path: '/api/debates', status: 503, times: 2, message: 'Down' },
+      ]);
+
+      expect(O.isSome(inject('POST', '/api/debates'))).toBe(true);
+      expect(O.isSome(inject('GET', '/api/debates'))).toBe(false);
+      expect(O.isSome(inject('POST', '/api/debates'))).toBe(true);
+      expect(O.isSome(inject('POST', '/api/debates'))).toBe(false);
+    });
+
+    it('fails every matching request without a limit', () => {
+      const inject = createFaultInjector([{ path: '/api/debates/:debateId', status: 500 }]);
+
+      expect(O.isSome(inject('GET', '/api/debates/d1'))).toBe(true);
+      expect(O.isSome(inject('DELETE', '/api/debates/d2'))).toBe(true);
+    });
+
+    it('sends Retry-After and the code of the fault', () => {
+      const inject = createFaultInjector([
+        { path: '/api/debates', status: 429, retryAfterSeconds: 3, code: 'quota' },
+      ]);
+
+      expect(inject('POST', '/api/debates')).toEqual(
+        O.some({
+          status: 429,
+          headers: { 'Content-Type': 'application/problem+json', 'Retry-After': '3' },
+          body: {
+            type: 'about:blank',
+            title: 'Too Many Requests',
+            status: 429,
+            detail: 'Injected failure',
+            code: 'quota',
+          },
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import * as O from 'fp-ts/Option';
+import type { ApiError } from '@debateui/core';
+import type { Fault } from './scenario';
+
+/**
+ * HTTP methods the mock backend answers
+ */
+export type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * Request as seen by a route
+ */
+export interface MockRequest {
+  readonly params: Readonly<Record<string, string>>;
+  readonly query: URLSearchParams;
+  readonly body: unknown;
+}
+
+/**
+ * Response of a route; bodies are sent as JSON
+ */
+export interface Reply {
+  readonly status: number;
+  readonly body?: unknown;
+  readonly headers?: Readonly<Record<string, string>>;
+}
+
+/**
+ * A route of the mock backend
+ */
+export interface Route {
+  readonly method: Method;
+  /** Path with `:name` segments, e.g. `/api/debates/:debateId` */
+  readonly pattern: string;
+  readonly handle: (request: MockRequest) => Reply;
+}
+
+/**
+ * Match a path against a route pattern
+ *
+ * @param pattern - Pattern with `:name` segments
+ * @param path - Request path without query
+ * @returns The values of the named segments, or none if the path does not match
+ */
+export const matchPath = (pattern: string, path: string): O.Option<Record<string, string>> => {
+  const expected = pattern.split('/');
+  const actual = path.replace(/\/$/, '').split('/');
+  if (expected.length !== actual.length) {
+    return O.none;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [index, segment] of expected.entries()) {
+    const value = actual[index] ?? '';
+    if (segment.startsWith(':')) {
+      if (value === '') return O.none;
+      params[segment.slice(1)] = decodeURIComponent(value);
+    } else if (segment !== value) {
+      return O.none;
+    }
+  }
+  return O.some(params);
+};
+
+/**
+ * Find the route answering a request
+ *
+ * @param routes - Routes of the backend
+ * @param method - Request method
+ * @param path - Request path without query
+ * @returns The route and the values of its named segments
+ */
+export const findRoute = (
+  routes: readonly Route[],
+  method: string,
+  path: string
+): O.Option<{ route: Route; params: Record<string, string> }> => {
+  for (const route of routes) {
+    if (route.method !== method) continue;
+    const params = matchPath(route.pattern, path);
+    if (O.isSome(params)) {
+      return O.some({ route, params: params.value });
+    }
+  }
+  return O.none;
+};
+
+/**
+ * Lets the app, served from another origin, call the mock backend
+ */
+export const CORS_HEADERS: Readonly<Record<string, string>> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'Authorization, Content-Type, Idempotency-Key, X-Request-ID, Last-Event-ID',
+  'Access-Control-Expose-Headers': 'Retry-After, X-Request-ID',
+};
+
+const TITLES: Readonly<Record<number, string>> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  422: 'Unprocessable Content',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+};
+
+/**
+ * RFC 7807 problem details reply
+ *
+ * @param status - Status of the reply
+ * @param detail - Human-readable description of the problem
+ * @param extras - Further members, e.g. `code` or `errors`
+ * @returns Reply with an `application/problem+json` body
+ */
+export const problem = (
+  status: number,
+  detail: string,
+  extras: Readonly<Record<string, unknown>> = {}
+): Reply => ({
+  status,
+  headers: { 'Content-Type': 'application/problem+json' },
+  body: { type: 'about:blank', title: TITLES[status] ?? 'Error', status, detail, ...extras },
+});
+
+/**
+ * The error response the backend sends for an error, so the client maps it
+ * back to the same ApiError
+ *
+ * @param error - Error of a registry operation
+ * @returns Problem details reply
+ */
+export const fromApiError = (error: ApiError): Reply => {
+  switch (error._tag) {
+    case 'ValidationError':
+      return problem(400, 'The request is invalid', {
+        errors: error.errors.issues.map((issue) => ({
+          pointer: `/${issue.path.join('/')}`,
+          detail: issue.message,
+          code: issue.code,
+        })),
+      });
+    case 'NotFoundError':
+      return problem(404, `No ${error.resource} with id ${error.id}`);
+    case 'ConflictError':
+      return problem(409, error.message);
+    case 'AuthError':
+      return problem(error.statusCode, error.message);
+    case 'RateLimitError':
+      return {
+        ...problem(429, 'Too many requests'),
+        headers: {
+          'Content-Type': 'application/problem+json',
+          'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)),
+        },
+      };
+    case 'ServerError':
+      return problem(error.statusCode, error.message);
+    case 'NetworkError':
+    case 'ServiceUnavailableError':
+    case 'CancelledError':
+    case 'DebateFailedError':
+      return problem(500, error.message);
+  }
+};
+
+/**
+ * Fail requests as a scenario's faults prescribe.
+ * A fault with `times` fails only that many matching requests.
+ *
+ * @param faults - Faults of the scenario
+ * @returns Function giving the reply of a failed request, or none to let
+ *   the request through
+ */
+export const createFaultInjector = (
+  faults: readonly Fault[]
+): ((method: string, path: string) => O.Option<Reply>) => {
+  const remaining = faults.map((fault) => fault.times ?? Infinity);
+
+  return (method, path) => {
+    const index = faults.findIndex(
+      (fault, i) =>
+        (remaining[i] ?? 0) > 0 &&
+        (fault.method === undefined || fault.method === method) &&
+        O.isSome(matchPath(fault.path, path))
+    );
+    const fault = faults[index];
+    if (fault === undefined) {
+      return O.none;
+    }
+
+    remaining[index] = (remaining[index] ?? 0) - 1;
+    const reply = problem(fault.status, fault.message ?? 'Injected failure', {
+      ...(fault.code !== undefined && { code: fault.code }),
+    });
+    return O.some(
+      fault.retryAfterSeconds === undefined
+        ? reply
+        : { ...reply, headers: { ...reply.headers, 'Retry-After': String(fault.retryAfterSeconds) } }
+    );
+  };
+};
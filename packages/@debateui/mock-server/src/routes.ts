@@ -0,0 +1,126 @@
+import * as E from 'fp-ts/Either';
+import { pipe } from 'fp-ts/function';
+import type { ApiError } from '@debateui/core';
+import type { DebateRegistry } from './debates';
+import { fromApiError, type Reply, type Route } from './router';
+
+const json =
+  (status: number) =>
+  (result: E.Either<ApiError, unknown>): Reply =>
+    pipe(
+      result,
+      E.match(fromApiError, (body) => ({ status, body }))
+    );
+
+const noContent = (result: E.Either<ApiError, void>): Reply =>
+  pipe(
+    result,
+    E.match(fromApiError, () => ({ status: 204 }))
+  );
+
+const param = (params: Readonly<Record<string, string>>, name: string): string => params[name] ?? '';
+
+/**
+ * Debate list query from its query string, as `createDebateApi` sends it
+ */
+const listQuery = (query: URLSearchParams): Record<string, unknown> => {
+  const limit = query.get('limit');
+  const single = ['question', 'createdAfter', 'createdBefore', 'sortBy', 'sortOrder', 'cursor'].flatMap(
+    (name) => {
+      const value = query.get(name);
+      return value === null ? [] : [[name, value] as const];
+    }
+  );
+  return {
+    ...Object.fromEntries(single),
+    ...(query.has('status') && { status: query.getAll('status') }),
+    ...(query.has('participants') && { participants: query.getAll('participants') }),
+    ...(limit !== null && { limit: Number(limit) }),
+  };
+};
+
+/**
+ * Routes of the debate and branch APIs, as used by `createDebateApi` and
+ * `createBranchApi`
+ *
+ * @param registry - Debates the routes operate on
+ * @returns Route table
+ */
+export const createRoutes = (registry: DebateRegistry): readonly Route[] => [
+  {
+    method: 'POST',
+    pattern: '/api/debates',
+    handle: ({ body }) => json(201)(registry.createDebate(body)),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/debates',
+    handle: ({ query }) => json(200)(registry.listDebates(listQuery(query))),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/debates/:debateId',
+    handle: ({ params }) => json(200)(registry.getDebate(param(params, 'debateId'))),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/debates/:debateId/start',
+    handle: ({ params }) => noContent(registry.startDebate(param(params, 'debateId'))),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/debates/:debateId/pause',
+    handle: ({ params }) => noContent(registry.pauseDebate(param(params, 'debateId'))),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/debates/:debateId/resume',
+    handle: ({ params }) => noContent(registry.resumeDebate(param(params, 'debateId'))),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/debates/:debateId/turns',
+    handle: ({ params, query }) =>
+      json(200)(registry.getTurns(param(params, 'debateId'), query.get('branchId') ?? undefined)),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/debates/:debateId/turns',
+    handle: ({ params, body }) => json(201)(registry.submitTurn(param(params, 'debateId'), body)),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/debates/:debateId/turns/:turnId/fork',
+    handle: ({ params, body }) =>
+      json(201)(registry.createFork(param(params, 'debateId'), param(params, 'turnId'), body)),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/debates/:debateId/branches',
+    handle: ({ params }) => json(200)(registry.listBranches(param(params, 'debateId'))),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/debates/:debateId/branches/:branchId',
+    handle: ({ params }) =>
+      json(200)(registry.getBranch(param(params, 'debateId'), param(params, 'branchId'))),
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/debates/:debateId/branches/:branchId',
+    handle: ({ params }) =>
+      noContent(registry.deleteBranch(param(params, 'debateId'), param(params, 'branchId'))),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/debates/:debateId/branches/:branchId/turns',
+    handle: ({ params }) =>
+      json(200)(registry.getBranchTurns(param(params, 'debateId'), param(params, 'branchId'))),
+  },
+  {
+    method: 'POST',
+    pattern: '/api/debates/:debateId/branches/:branchId/merge',
+    handle: ({ params }) =>
+      noContent(registry.mergeBranch(param(params, 'debateId'), param(params, 'branchId'))),
+  },
+];
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import * as E from 'fp-ts/Either';
+import { DEFAULT_SCENARIO, parseScenario } from './scenario';
+
+const SCENARIOS_DIR = join(__dirname, '..', 'scenarios');
+
+describe('parseScenario', () => {
+  it('applies the defaults', () => {
+    expect(parseScenario({ name: 'minimal' })).toEqual(
+      E.right({
+        name: 'minimal',
+        turnDelayMs: 1000,
+        streamingChunks: 4,
+        heartbeatMs: 15000,
+        faults: [],
+        stream: { disconnects: 1, errorMessage: 'Simulated backend failure', recoverable: false },
+      })
+    );
+  });
+
+  it('rejects a fault with a non-error status', () => {
+    const result = parseScenario({ name: 'bad', faults: [{ path: '/api/debates', status: 200 }] });
+
+    expect(E.isLeft(result) && result.left.issues[0]?.path).toEqual(['faults', 0, 'status']);
+  });
+
+  it('rejects a scenario without a name', () => {
+    expect(E.isLeft(parseScenario({ turnDelayMs: 10 }))).toBe(true);
+  });
+
+  it('defaults to a debate that runs to consensus', () => {
+    expect(DEFAULT_SCENARIO.name).toBe('happy-path');
+    expect(DEFAULT_SCENARIO.stream.errorAfterTurns).toBeUndefined();
+  });
+
+  it.each(readdirSync(SCENARIOS_DIR))('accepts the bundled scenario %s', (file) => {
+    const input: unknown = JSON.parse(readFileSync(join(SCENARIOS_DIR, file), 'utf8'));
+
+    expect(E.isRight(parseScenario(input))).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import * as E from 'fp-ts/Either';
+import { z } from 'zod';
+import { ConsensusResultSchema } from '@debateui/core';
+
+/**
+ * A scripted failure of matching requests.
+ *
+ * ```json
+ * { "method": "GET", "path": "/api/debates/:debateId", "status": 429, "times": 2, "retryAfterSeconds": 1 }
+ * ```
+ */
+const FaultSchema = z.object({
+  /** Method to match; any method when omitted */
+  method: z.enum(['GET', 'POST', 'PUT', 'DELETE']).optional(),
+  /** Route pattern to match, with `:name` segments */
+  path: z.string().startsWith('/'),
+  /** Status to answer with */
+  status: z.number().int().min(400).max(599),
+  /** Number of matching requests to fail; all of them when omitted */
+  times: z.number().int().positive().optional(),
+  /** Sent as `Retry-After`, e.g. with a 429 or 503 */
+  retryAfterSeconds: z.number().int().nonnegative().optional(),
+  /** `detail` of the problem details body */
+  message: z.string().optional(),
+  /** Machine-readable `code` of the problem details body */
+  code: z.string().optional(),
+});
+
+/**
+ * Misbehaviour of the debate stream
+ */
+const StreamScenarioSchema = z.object({
+  /** Drop the connection after this many debate events */
+  disconnectAfterEvents: z.number().int().positive().optional(),
+  /** Number of connections to drop per debate */
+  disconnects: z.number().int().positive().default(1),
+  /** Send an `error` event once this many turns have been played */
+  errorAfterTurns: z.number().int().positive().optional(),
+  errorMessage: z.string().default('Simulated backend failure'),
+  /** A recoverable error lets the debate go on; otherwise it ends in `error` */
+  recoverable: z.boolean().default(false),
+});
+
+/**
+ * Scenario the mock backend plays.
+ * Scenario files are JSON in this shape; every field but `name` is
+ * optional.
+ *
+ * ```json
+ * {
+ *   "name": "flaky-stream",
+ *   "turnDelayMs": 800,
+ *   "faults": [{ "method": "POST", "path": "/api/debates", "status": 503, "times": 1 }],
+ *   "stream": { "disconnectAfterEvents": 6, "disconnects": 2 }
+ * }
+ * ```
+ */
+export const ScenarioSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  /** Time a participant takes for one turn */
+  turnDelayMs: z.number().int().nonnegative().default(1000),
+  /** Number of `turn.streaming` chunks a turn is sent in before it completes */
+  streamingChunks: z.number().int().nonnegative().default(4),
+  /** Interval of heartbeat events on idle streams */
+  heartbeatMs: z.number().int().positive().default(15000),
+  /** Consensus reached at the end; a strong one by default */
+  consensus: ConsensusResultSchema.optional(),
+  faults: z.array(FaultSchema).default([]),
+  stream: StreamScenarioSchema.default({}),
+});
+
+/**
+ * Scripted request failure
+ */
+export type Fault = z.infer<typeof FaultSchema>;
+
+/**
+ * Scenario with all defaults applied
+ */
+export type Scenario = z.infer<typeof ScenarioSchema>;
+
+/**
+ * Scenario as written in a scenario file
+ */
+export type ScenarioInput = z.input<typeof ScenarioSchema>;
+
+/**
+ * Parse a scenario, applying defaults.
+ *
+ * @param input - Parsed JSON of a scenario file
+ * @returns Right(Scenario) on success, Left(ZodError) on failure
+ */
+export const parseScenario = (input: unknown): E.Either<z.ZodError, Scenario> => {
+  const result = ScenarioSchema.safeParse(input);
+  return result.success ? E.right(result.data) : E.left(result.error);
+};
+
+/**
+ * Scenario played when none is given: a debate that runs to consensus
+ */
+export const DEFAULT_SCENARIO: Scenario = ScenarioSchema.parse({ name: 'happy-path' });
@@ -0,0 +1,101 @@
+import {
+  chunkText,
+  type ConsensusResult,
+  type DebateConfig,
+  type ScriptStep,
+  type TimedScriptStep,
+} from '@debateui/core';
+import type { Scenario } from './scenario';
+
+/**
+ * One step of a scripted debate
+ */
+export type Step = ScriptStep;
+
+/**
+ * A step and the time to wait before playing it
+ */
+export type TimedStep = TimedScriptStep;
+
+const OPENINGS = [
+  'The strongest argument here is about long-term maintainability.',
+  'We should weigh the operational cost before anything else.',
+  'Evidence from comparable teams points in one clear direction.',
+  'The risk is underestimated by most of the arguments so far.',
+];
+
+const FOLLOW_UPS = [
+  'I agree with the direction, but the migration path needs more care.',
+  'Building on the previous points, the trade-off favours a gradual rollout.',
+  'I am revising my position: the concerns raised are addressable.',
+  'The remaining disagreement is about timing rather than substance.',
+];
+
+/**
+ * Deterministic content of a turn
+ *
+ * @param question - Question under debate
+ * @param participantId - Participant taking the turn
+ * @param round - Round of the turn, starting at 1
+ * @param index - Position of the participant within the round
+ * @returns Text of the turn
+ */
+export const scriptContent = (
+  question: string,
+  participantId: string,
+  round: number,
+  index: number
+): string => {
+  const lines = round === 1 ? OPENINGS : FOLLOW_UPS;
+  const line = lines[(round + index) % lines.length] ?? '';
+  return `[${participantId}, round ${String(round)}] On "${question}": ${line}`;
+};
+
+/**
+ * Consensus reached when the scenario sets none: the whole panel agrees
+ */
+const strongConsensus = (participants: number): ConsensusResult => ({
+  level: 'strong',
+  percentage: 0.86,
+  supporting: participants,
+  dissenting: 0,
+  confidence: 0.9,
+});
+
+/**
+ * Script a debate: every participant takes a turn in every round, streamed
+ * in chunks, and the debate ends with the scenario's consensus.
+ *
+ * @param config - Configuration of the debate
+ * @param scenario - Scenario setting the pace
+ * @returns Steps to play in order
+ */
+export const scriptDebate = (config: DebateConfig, scenario: Scenario): readonly TimedStep[] => {
+  const { turnDelayMs, streamingChunks } = scenario;
+  const chunkDelayMs = Math.floor(turnDelayMs / (streamingChunks + 1));
+  const steps: TimedStep[] = [];
+
+  for (let round = 1; round <= config.rounds; round++) {
+    steps.push({ delayMs: 0, step: { kind: 'roundStarted', round } });
+
+    config.participants.forEach((participantId, index) => {
+      const turn = { participantId, round, content: scriptContent(config.question, participantId, round, index) };
+      const chunks = streamingChunks > 0 ? chunkText(turn.content, streamingChunks) : [];
+
+      steps.push({ delayMs: 0, step: { kind: 'turnStarted', turn } });
+      chunks.forEach((delta) => {
+        steps.push({ delayMs: chunkDelayMs, step: { kind: 'turnDelta', turn, delta } });
+      });
+      steps.push({
+        delayMs: turnDelayMs - chunkDelayMs * chunks.length,
+        step: { kind: 'turnCompleted', turn },
+      });
+    });
+
+    steps.push({ delayMs: 0, step: { kind: 'roundCompleted', round } });
+  }
+
+  const consensus = scenario.consensus ?? strongConsensus(config.participants.length);
+  steps.push({ delayMs: 0, step: { kind: 'consensus', consensus } });
+  return steps;
+};
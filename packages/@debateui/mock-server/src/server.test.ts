@@ -0,0 +1,190 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as E from 'fp-ts/Either';
+import { createApiClient, createHttpClient, type ApiClient } from '@debateui/api-client';
+import { ScenarioSchema, type ScenarioInput } from './scenario';
+import { createMockServer, type MockServer } from './server';
+
+const CONFIG = {
+  question: 'Should cities ban cars from their centres?',
+  participants: ['claude', 'gpt-4'],
+  rounds: 1,
+  consensusThreshold: 0.8,
+  forkMode: 'save' as const,
+};
+
+interface Received {
+  readonly id: string | undefined;
+  readonly type: string;
+}
+
+let server: MockServer | undefined;
+
+const start = async (
+  input: Partial<ScenarioInput> = {}
+): Promise<{ baseUrl: string; api: ApiClient }> => {
+  server = createMockServer({
+    scenario: ScenarioSchema.parse({ name: 'test', turnDelayMs: 10, streamingChunks: 1, ...input }),
+    port: 0,
+  });
+  const baseUrl = await server.listen();
+  return { baseUrl, api: createApiClient(createHttpClient(baseUrl, { retry: 0 })) };
+};
+
+/**
+ * Read a stream until it ends or sends a `complete` event
+ */
+const readStream = async (url: string, headers: Record<string, string> = {}): Promise<Received[]> => {
+  const response = await fetch(url, { headers });
+  const reader = response.body?.getReader();
+  if (reader === undefined) return [];
+
+  const received: Received[] = [];
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return received;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+    for (const block of blocks) {
+      const id = /^id: (.*)$/m.exec(block)?.[1];
+      const data = /^data: (.*)$/m.exec(block)?.[1] ?? '{}';
+      const { type } = JSON.parse(data) as { type: string };
+      received.push({ id, type });
+      if (type === 'complete') {
+        await reader.cancel();
+        return received;
+      }
+    }
+  }
+};
+
+const createDebate = async (api: ApiClient): Promise<string> => {
+  const created = await api.debate.createDebate(CONFIG)();
+  if (E.isLeft(created)) throw new Error(created.left._tag);
+  return created.right.debateId;
+};
+
+describe('createMockServer', () => {
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('serves a debate through the API client', async () => {
+    const { api } = await start();
+    const debateId = await createDebate(api);
+
+    expect(await api.debate.startDebate(debateId)()).toEqual(E.right(undefined));
+    expect(await api.debate.getDebate(debateId)()).toMatchObject(
+      E.right({ debateId, status: 'running', totalRounds: 1 })
+    );
+    expect(await api.branch.listBranches(debateId)()).toMatchObject(E.right([{ name: 'Main' }]));
+  });
+
+  it('pages and filters the debate history through the API client', async () => {
+    const { api } = await start();
+    const ids = [await createDebate(api), await createDebate(api), await createDebate(api)];
+    await api.debate.startDebate(ids[1] ?? '')();
+
+    const first = await api.debate.listDebates({ limit: 2, sortOrder: 'asc' })();
+    const nextCursor = E.isRight(first) ? first.right.nextCursor ?? undefined : undefined;
+    const second = await api.debate.listDebates({
+      limit: 2,
+      sortOrder: 'asc',
+      ...(nextCursor !== undefined && { cursor: nextCursor }),
+    })();
+    const listed = [first, second].flatMap((page) =>
+      E.isRight(page) ? page.right.debates.map((debate) => debate.debateId) : []
+    );
+
+    expect([...listed].sort()).toEqual([...ids].sort());
+    expect(second).toMatchObject(E.right({ nextCursor: null }));
+    expect(await api.debate.listDebates({ status: ['running'], participants: ['claude'] })()).toMatchObject(
+      E.right({ debates: [{ debateId: ids[1], status: 'running' }] })
+    );
+  });
+
+  it('answers errors with problem details the client maps back', async () => {
+    const { api } = await start();
+
+    expect(await api.debate.getDebate('missing')()).toMatchObject(
+      E.left({ _tag: 'NotFoundError' })
+    );
+    expect(await api.debate.createDebate({ ...CONFIG, question: 'Short' })()).toMatchObject(
+      E.left({ _tag: 'ValidationError' })
+    );
+  });
+
+  it('streams the scripted debate to completion', async () => {
+    const { baseUrl, api } = await start();
+    const debateId = await createDebate(api);
+    await api.debate.startDebate(debateId)();
+
+    const received = await readStream(`${baseUrl}/debates/${debateId}/stream`);
+
+    expect(received[0]).toEqual({ id: undefined, type: 'hello' });
+    expect(received.filter((event) => event.type === 'turn')).toHaveLength(2);
+    expect(received.slice(-2).map((event) => event.type)).toEqual(['consensus', 'complete']);
+  });
+
+  it('drops the stream as scripted and resumes after Last-Event-ID', async () => {
+    const { baseUrl, api } = await start({ stream: { disconnectAfterEvents: 3 } });
+    const debateId = await createDebate(api);
+    await api.debate.startDebate(debateId)();
+    const url = `${baseUrl}/debates/${debateId}/stream`;
+
+    const first = await readStream(url);
+    const lastEventId = first.at(-1)?.id ?? '';
+    const resumed = await readStream(url, { 'Last-Event-ID': lastEventId });
+
+    expect(first.filter((event) => event.id !== undefined)).toHaveLength(3);
+    expect(resumed.find((event) => event.id !== undefined)?.id).toBe(String(Number(lastEventId) + 1));
+    expect(resumed.at(-1)?.type).toBe('complete');
+  });
+
+  it('injects the scenario faults', async () => {
+    const { api } = await start({
+      faults: [{ method: 'POST', path: '/api/debates', status: 429, times: 1, retryAfterSeconds: 2 }],
+    });
+
+    expect(await api.debate.createDebate(CONFIG)()).toEqual(
+      E.left({ _tag: 'RateLimitError', retryAfterMs: 2000 })
+    );
+    expect(E.isRight(await api.debate.createDebate(CONFIG)())).toBe(true);
+  });
+
+  it('replays the reply of a request with the same idempotency key', async () => {
+    const { api } = await start();
+
+    const first = await api.debate.createDebate(CONFIG, { idempotencyKey: 'key-1' })();
+    const second = await api.debate.createDebate(CONFIG, { idempotencyKey: 'key-1' })();
+
+    expect(E.isRight(first)).toBe(true);
+    expect(second).toEqual(first);
+  });
+
+  it('refuses an idempotency key reused with a different body', async () => {
+    const { api, baseUrl } = await start();
+    await api.debate.createDebate(CONFIG, { idempotencyKey: 'key-1' })();
+
+    const response = await fetch(`${baseUrl}/api/debates`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': 'key-1' },
+      body: JSON.stringify({ ...CONFIG, question: 'A different question?' }),
+    });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: 'idempotency_key_reused' });
+  });
+
+  it('answers unknown routes with 404', async () => {
+    const { baseUrl } = await start();
+
+    const response = await fetch(`${baseUrl}/api/unknown`);
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get('content-type')).toBe('application/problem+json');
+  });
+});
@@ -0,0 +1,231 @@
+import { createHash } from 'node:crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { LAST_EVENT_ID_PARAM } from '@debateui/api-client';
+import { DEFAULT_SCENARIO, type Scenario } from './scenario';
+import { createDebateRegistry, type DebateRegistry } from './debates';
+import { createRoutes } from './routes';
+import {
+  CORS_HEADERS,
+  createFaultInjector,
+  findRoute,
+  fromApiError,
+  matchPath,
+  problem,
+  type Reply,
+} from './router';
+import { openEventStream } from './stream';
+
+/**
+ * Options for the mock backend
+ */
+export interface MockServerOptions {
+  /** Scenario to play; a debate that runs to consensus by default */
+  readonly scenario?: Scenario;
+  /** Port to listen on; 0 picks a free one */
+  readonly port?: number;
+  readonly host?: string;
+}
+
+/**
+ * Local stand-in for the CCR backend
+ */
+export interface MockServer {
+  /** Debates the server holds, for inspecting them in tests */
+  readonly registry: DebateRegistry;
+  /**
+   * Start listening
+   * @returns Base URL of the server, e.g. `http://localhost:3000`
+   */
+  readonly listen: () => Promise<string>;
+  /** Stop the debates and close all connections, streams included */
+  readonly close: () => Promise<void>;
+}
+
+const STREAM_PATTERN = '/debates/:debateId/stream';
+
+const send = (response: ServerResponse, reply: Reply): void => {
+  const hasBody = reply.body !== undefined;
+  response.writeHead(reply.status, {
+    ...CORS_HEADERS,
+    ...(hasBody && { 'Content-Type': 'application/json' }),
+    ...reply.headers,
+  });
+  response.end(hasBody ? JSON.stringify(reply.body) : undefined);
+};
+
+const readBody = async (request: IncomingMessage): Promise<E.Either<Reply, unknown>> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (text === '') {
+    return E.right(undefined);
+  }
+  try {
+    return E.right(JSON.parse(text) as unknown);
+  } catch {
+    return E.left(problem(400, 'The request body is not valid JSON'));
+  }
+};
+
+/**
+ * A reply kept for replaying, with the hash of the body it answered
+ */
+interface IdempotentReply {
+  readonly bodyHash: string;
+  readonly reply: Reply;
+}
+
+const hashBody = (body: unknown): string =>
+  createHash('sha256').update(JSON.stringify(body) ?? '').digest('hex');
+
+const headerValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * Create a mock backend implementing the debate, branch and stream routes
+ * of the CCR backend, playing scripted debates.
+ *
+ * Beyond the routes, it:
+ * - Fails requests as the scenario's faults prescribe, before handling them
+ * - Answers a repeated POST with the same `Idempotency-Key` with the
+ *   original reply, or with 422 when its body differs
+ * - Resumes streams from `Last-Event-ID` or the `lastEventId` parameter
+ *
+ * @param options - Scenario, port and host
+ * @returns Server that starts listening on `listen()`
+ *
+ * @example
+ * ```typescript
+ * const server = createMockServer({ scenario, port: 0 });
+ * const baseUrl = await server.listen();
+ * const apiClient = createApiClient(createHttpClient(baseUrl));
+ * // ...
+ * await server.close();
+ * ```
+ */
+export const createMockServer = (options: MockServerOptions = {}): MockServer => {
+  const scenario = options.scenario ?? DEFAULT_SCENARIO;
+  const host = options.host ?? 'localhost';
+  const registry = createDebateRegistry(scenario);
+  const routes = createRoutes(registry);
+  const injectFault = createFaultInjector(scenario.faults);
+  const idempotentReplies = new Map<string, IdempotentReply>();
+  const drops = new Map<string, number>();
+
+  const stream = (request: IncomingMessage, response: ServerResponse, url: URL, debateId: string): void => {
+    const debate = registry.getDebate(debateId);
+    if (E.isLeft(debate)) {
+      send(response, fromApiError(debate.left));
+      return;
+    }
+
+    const lastEventId =
+      headerValue(request.headers['last-event-id']) ?? url.searchParams.get(LAST_EVENT_ID_PARAM) ?? undefined;
+    const { disconnectAfterEvents, disconnects } = scenario.stream;
+    const dropped = drops.get(debateId) ?? 0;
+
+    openEventStream(response, (listener) => registry.subscribe(debateId, lastEventId, listener), {
+      heartbeatMs: scenario.heartbeatMs,
+      dropAfter: dropped < disconnects ? O.fromNullable(disconnectAfterEvents) : O.none,
+      onDrop: () => {
+        drops.set(debateId, dropped + 1);
+      },
+    });
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    const method = request.method ?? 'GET';
+    const url = new URL(request.url ?? '/', `http://${host}`);
+    const path = url.pathname;
+
+    if (method === 'OPTIONS') {
+      send(response, { status: 204 });
+      return;
+    }
+
+    const fault = injectFault(method, path);
+    if (O.isSome(fault)) {
+      send(response, fault.value);
+      return;
+    }
+
+    const streamParams = matchPath(STREAM_PATTERN, path);
+    if (method === 'GET' && O.isSome(streamParams)) {
+      stream(request, response, url, streamParams.value['debateId'] ?? '');
+      return;
+    }
+
+    const match = findRoute(routes, method, path);
+    if (O.isNone(match)) {
+      send(response, problem(404, `No route for ${method} ${path}`));
+      return;
+    }
+
+    const body = await readBody(request);
+    if (E.isLeft(body)) {
+      send(response, body.left);
+      return;
+    }
+
+    const idempotencyKey = headerValue(request.headers['idempotency-key']);
+    const replayKey = idempotencyKey === undefined ? undefined : `${method} ${path} ${idempotencyKey}`;
+    const bodyHash = hashBody(body.right);
+    const stored = replayKey === undefined ? undefined : idempotentReplies.get(replayKey);
+    if (stored !== undefined) {
+      send(
+        response,
+        stored.bodyHash === bodyHash
+          ? stored.reply
+          : problem(422, 'The idempotency key was already used for a different request', {
+              code: 'idempotency_key_reused',
+            })
+      );
+      return;
+    }
+
+    const reply = match.value.route.handle({
+      params: match.value.params,
+      query: url.searchParams,
+      body: body.right,
+    });
+    // Failed requests may be retried with the same key and succeed then
+    if (replayKey !== undefined && reply.status < 500) {
+      idempotentReplies.set(replayKey, { bodyHash, reply });
+    }
+    send(response, reply);
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch((error: unknown) => {
+      send(response, problem(500, error instanceof Error ? error.message : 'Unexpected error'));
+    });
+  });
+
+  return {
+    registry,
+
+    listen: () =>
+      new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port ?? 3000, host, () => {
+          const { port } = server.address() as AddressInfo;
+          resolve(`http://${host}:${String(port)}`);
+        });
+      }),
+
+    close: () =>
+      new Promise((resolve, reject) => {
+        registry.close();
+        server.close((error) => {
+          if (error) reject(error);
+          else resolve();
+        });
+        server.closeAllConnections();
+      }),
+  };
+};
@@ -0,0 +1,99 @@
+import type { ServerResponse } from 'node:http';
+import * as E from 'fp-ts/Either';
+import * as O from 'fp-ts/Option';
+import { pipe } from 'fp-ts/function';
+import type { ApiError } from '@debateui/core';
+import { STREAM_PROTOCOL_VERSION, type StreamEvent } from '@debateui/api-client';
+import type { EventListener } from './debates';
+import { CORS_HEADERS } from './router';
+
+/**
+ * Options of one stream connection
+ */
+export interface EventStreamOptions {
+  /** Interval of heartbeat events */
+  readonly heartbeatMs: number;
+  /** Drop the connection after this many debate events */
+  readonly dropAfter: O.Option<number>;
+  /** Called when the connection is dropped on purpose */
+  readonly onDrop: () => void;
+}
+
+/**
+ * Format one server-sent event.
+ * Debate events carry an id to resume from; hello and heartbeat events
+ * don't, so they are not replayed.
+ *
+ * @param event - Event to send
+ * @param id - Id of a debate event
+ * @returns The event as written to the stream
+ */
+export const formatEvent = (event: StreamEvent, id?: string): string =>
+  `${id === undefined ? '' : `id: ${id}\n`}data: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * Stream the events of a debate as server-sent events.
+ * Opens with a `hello` event, replays what the client missed, then
+ * forwards new events until the client disconnects.
+ *
+ * @param response - Response to stream to
+ * @param subscribe - Subscribes to the debate's events after the client's
+ *   resume point
+ * @param options - Heartbeat interval and scripted disconnects
+ */
+export const openEventStream = (
+  response: ServerResponse,
+  subscribe: (listener: EventListener) => E.Either<ApiError, () => void>,
+  options: EventStreamOptions
+): void => {
+  let sent = 0;
+  let closed = false;
+  let unsubscribe = (): void => undefined;
+
+  response.writeHead(200, {
+    ...CORS_HEADERS,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  response.write(formatEvent({ type: 'hello', data: { protocolVersion: STREAM_PROTOCOL_VERSION } }));
+
+  const heartbeat = setInterval(() => {
+    response.write(formatEvent({ type: 'heartbeat', data: { timestamp: Date.now() } }));
+  }, options.heartbeatMs);
+
+  const close = (): void => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  const listener: EventListener = (entry) => {
+    if (closed) return;
+    response.write(formatEvent(entry.event, entry.id));
+    sent += 1;
+    if (O.isSome(options.dropAfter) && sent >= options.dropAfter.value) {
+      options.onDrop();
+      close();
+      response.end();
+    }
+  };
+
+  response.on('close', close);
+
+  pipe(
+    subscribe(listener),
+    E.match(
+      () => {
+        close();
+        response.end();
+      },
+      (stop) => {
+        unsubscribe = stop;
+        // Dropped while replaying
+        if (closed) stop();
+      }
+    )
+  );
+};
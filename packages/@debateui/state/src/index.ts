@@ -13,7 +13,9 @@ export {
   useBranchingState,
   useIsDebateRunning,
   useCurrentRound,
+  useTotalRounds,
   useTurns,
+  useInProgressTurns,
   useActiveBranch,
   useCanFork,
   useForkDraft,
@@ -37,6 +39,8 @@ export type {
   DebateState,
   BranchingState,
   ForkDraft,
+  InProgressTurn,
+  StreamingState,
   StoreState,
   DebateConfig,
   TurnResponse,
@@ -1,13 +1,19 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { z } from 'zod';
-import { useDebateStore } from './debate-store';
+import { useDebateStore, MAX_ACTION_LOG_ENTRIES } from './debate-store';
 import {
   networkError,
   validationError,
+  running,
+  replay,
+  initialStoreState,
+  type ActionLogEntry,
   type TurnResponse,
   type ConsensusResult,
   type BranchInfo,
+  type DebateResponse,
 } from '@debateui/core';
+import * as E from 'fp-ts/Either';
 import * as O from 'fp-ts/Option';
 
 // Helper to create valid TurnResponse
@@ -183,6 +189,134 @@ describe('DebateStore - Turn Handling', () => {
       expect(state.debate.turns[1]?.content).toBe('Second');
     }
   });
+
+  it('should ignore a turn that is received again', () => {
+    const { receiveTurn } = useDebateStore.getState();
+    const turn = createTurnResponse({ content: 'Only once' });
+
+    receiveTurn(turn);
+    receiveTurn(turn);
+
+    const state = useDebateStore.getState();
+    expect(state.debate._tag === 'Running' && state.debate.turns.length).toBe(1);
+  });
+
+  it('should keep turns ordered by createdAt', () => {
+    const { receiveTurn } = useDebateStore.getState();
+
+    receiveTurn(createTurnResponse({
+      turnId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a12',
+      content: 'Second',
+      createdAt: '2024-01-01T00:01:00Z',
+    }));
+    receiveTurn(createTurnResponse({
+      turnId: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+      content: 'First',
+      createdAt: '2024-01-01T00:00:00Z',
+    }));
+
+    const state = useDebateStore.getState();
+    expect(state.debate._tag === 'Running' && state.debate.turns.map((turn) => turn.content)).toEqual([
+      'First',
+      'Second',
+    ]);
+  });
+
+  it('should tag turns with the round they were received in', () => {
+    const { receiveTurn, completeRound } = useDebateStore.getState();
+
+    receiveTurn(createTurnResponse({ turnId: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', content: 'Opening' }));
+    completeRound(1);
+    receiveTurn(createTurnResponse({ turnId: 'b0eebc99-9c0b-4ef8-bb6d-6bb9bd380a12', content: 'Rebuttal' }));
+
+    const state = useDebateStore.getState();
+    expect(state.debate._tag).toBe('Running');
+    if (state.debate._tag === 'Running') {
+      expect(state.debate.turns.map((turn) => turn.round)).toEqual([1, 2]);
+    }
+  });
+});
+
+describe('DebateStore - Streaming', () => {
+  beforeEach(() => {
+    useDebateStore.getState().reset();
+    const { setConfig, startDebate, debateStarted } = useDebateStore.getState();
+    setConfig({ question: 'Test', participants: ['claude', 'gpt4'] });
+    startDebate();
+    debateStarted('debate-123');
+  });
+
+  it('should build an in-progress turn from streamed deltas', () => {
+    const { startTurn, appendTurnDelta } = useDebateStore.getState();
+
+    startTurn('claude');
+    appendTurnDelta('claude', 'Consider ');
+    appendTurnDelta('claude', 'this.');
+
+    expect(useDebateStore.getState().streaming.turns.get('claude')?.content).toBe('Consider this.');
+  });
+
+  it('should replace the in-progress turn with the received turn', () => {
+    const { appendTurnDelta, receiveTurn } = useDebateStore.getState();
+
+    appendTurnDelta('claude', 'Consider');
+    receiveTurn(createTurnResponse({ participantId: 'claude', content: 'Consider this.' }));
+
+    const state = useDebateStore.getState();
+    expect(state.streaming.turns.size).toBe(0);
+    expect(state.debate._tag === 'Running' && state.debate.turns[0]?.content).toBe('Consider this.');
+  });
+
+  it('should clear in-progress turns on reset', () => {
+    const { appendTurnDelta, reset } = useDebateStore.getState();
+
+    appendTurnDelta('claude', 'Consider');
+    reset();
+
+    expect(useDebateStore.getState().streaming.turns.size).toBe(0);
+  });
+});
+
+describe('DebateStore - Rounds', () => {
+  beforeEach(() => {
+    useDebateStore.getState().reset();
+    const { setConfig, startDebate, debateStarted } = useDebateStore.getState();
+    setConfig({ question: 'Test', participants: ['claude', 'gpt4'], rounds: 3 });
+    startDebate();
+    debateStarted('debate-123');
+  });
+
+  it('should set the current round when a round starts', () => {
+    useDebateStore.getState().startRound(2);
+
+    const state = useDebateStore.getState();
+    expect(state.debate._tag === 'Running' && state.debate.currentRound).toBe(2);
+  });
+
+  it('should advance to the next round when a round completes', () => {
+    useDebateStore.getState().completeRound(1);
+
+    const state = useDebateStore.getState();
+    expect(state.debate._tag === 'Running' && state.debate.currentRound).toBe(2);
+  });
+
+  it('should not advance past the last configured round', () => {
+    const { startRound, completeRound } = useDebateStore.getState();
+    startRound(3);
+    completeRound(3);
+
+    const state = useDebateStore.getState();
+    expect(state.debate._tag === 'Running' && state.debate.currentRound).toBe(3);
+  });
+
+  it('should ignore round events when not running', () => {
+    const { pauseDebate, startRound } = useDebateStore.getState();
+    pauseDebate('User pause');
+    startRound(2);
+
+    const state = useDebateStore.getState();
+    expect(state.debate._tag === 'Paused' && state.debate.currentRound).toBe(1);
+  });
 });
 
 describe('DebateStore - Pause/Resume', () => {
@@ -216,6 +350,34 @@ describe('DebateStore - Pause/Resume', () => {
     const state = useDebateStore.getState();
     expect(state.debate._tag).toBe('Running');
   });
+
+  it('should keep turns and round across pause and resume', () => {
+    useDebateStore.setState({
+      debate: running('debate-123', 2, [
+        createTurnResponse({ content: 'Turn 1' }),
+        createTurnResponse({ content: 'Turn 2' }),
+      ]),
+    });
+    const { pauseDebate, resumeDebate } = useDebateStore.getState();
+
+    pauseDebate('Pause');
+
+    const pausedState = useDebateStore.getState();
+    expect(pausedState.debate._tag).toBe('Paused');
+    if (pausedState.debate._tag === 'Paused') {
+      expect(pausedState.debate.currentRound).toBe(2);
+      expect(pausedState.debate.turns.map((t) => t.content)).toEqual(['Turn 1', 'Turn 2']);
+    }
+
+    resumeDebate();
+
+    const resumedState = useDebateStore.getState();
+    expect(resumedState.debate._tag).toBe('Running');
+    if (resumedState.debate._tag === 'Running') {
+      expect(resumedState.debate.currentRound).toBe(2);
+      expect(resumedState.debate.turns.map((t) => t.content)).toEqual(['Turn 1', 'Turn 2']);
+    }
+  });
 });
 
 describe('DebateStore - Completion', () => {
@@ -372,6 +534,84 @@ describe('DebateStore - Fork Draft', () => {
   });
 });
 
+describe('DebateStore - Loading', () => {
+  const createDebateResponse = (overrides: Partial<DebateResponse> = {}): DebateResponse => ({
+    debateId: 'c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+    status: 'running',
+    question: 'Should we adopt a monorepo?',
+    participants: ['claude', 'gpt4'],
+    currentRound: 2,
+    totalRounds: 5,
+    turns: [
+      createTurnResponse({ turnId: 'a1eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', participantId: 'claude' }),
+      createTurnResponse({ turnId: 'a2eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', participantId: 'gpt4' }),
+      createTurnResponse({ turnId: 'a3eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', participantId: 'claude' }),
+    ],
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:05:00Z',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    useDebateStore.getState().reset();
+  });
+
+  it('should hydrate a running debate with its turns and round', () => {
+    const response = createDebateResponse();
+
+    useDebateStore.getState().debateLoaded(response, []);
+
+    const state = useDebateStore.getState();
+    expect(state.debate._tag).toBe('Running');
+    if (state.debate._tag === 'Running') {
+      expect(state.debate.debateId).toBe(response.debateId);
+      expect(state.debate.currentRound).toBe(2);
+      expect(state.debate.turns).toEqual(response.turns);
+    }
+  });
+
+  it('should derive config from the loaded debate', () => {
+    useDebateStore.getState().debateLoaded(createDebateResponse(), []);
+
+    const { config } = useDebateStore.getState();
+    expect(config.question).toBe('Should we adopt a monorepo?');
+    expect(config.participants).toEqual(['claude', 'gpt4']);
+    expect(config.rounds).toBe(5);
+  });
+
+  it('should replace branches and activate the root branch', () => {
+    const store = useDebateStore.getState();
+    store.addBranch(createBranchInfo({ branchId: 'd0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', name: 'Stale' }));
+
+    const root = createBranchInfo({ branchId: 'e0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11' });
+    const child = createBranchInfo({
+      branchId: 'f0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+      parentBranchId: root.branchId,
+      depth: 1,
+      name: 'Fork',
+    });
+    store.debateLoaded(createDebateResponse(), [child, root]);
+
+    const { branching } = useDebateStore.getState();
+    expect(Array.from(branching.branches.keys())).toEqual([child.branchId, root.branchId]);
+    expect(branching.activeBranchId).toEqual(O.some(root.branchId));
+  });
+
+  it('should load a completed debate from any state', () => {
+    const consensus = createConsensusResult();
+    const store = useDebateStore.getState();
+    store.startDebate();
+
+    store.debateLoaded(createDebateResponse({ status: 'completed', consensus }), []);
+
+    const state = useDebateStore.getState();
+    expect(state.debate._tag).toBe('Completed');
+    if (state.debate._tag === 'Completed') {
+      expect(state.debate.consensus).toEqual(consensus);
+    }
+  });
+});
+
 describe('DebateStore - Reset', () => {
   it('should reset to initial state', () => {
     const store = useDebateStore.getState();
@@ -394,3 +634,126 @@ describe('DebateStore - Reset', () => {
     expect(state.branching.branches.size).toBe(0);
   });
 });
+
+describe('DebateStore - Dispatch', () => {
+  beforeEach(() => {
+    useDebateStore.getState().reset();
+    useDebateStore.getState().clearActionLog();
+  });
+
+  it('applies accepted actions and returns the next state', () => {
+    const { dispatch } = useDebateStore.getState();
+
+    const result = dispatch({ type: 'UPDATE_CONFIG', payload: { question: 'Is AI safe?' } });
+
+    expect(E.isRight(result)).toBe(true);
+    expect(useDebateStore.getState().config.question).toBe('Is AI safe?');
+  });
+
+  it('rejects invalid transitions without changing state', () => {
+    const { dispatch } = useDebateStore.getState();
+    const before = useDebateStore.getState().debate;
+
+    const result = dispatch({ type: 'RECEIVE_TURN', payload: createTurnResponse() });
+
+    expect(E.isLeft(result)).toBe(true);
+    if (E.isLeft(result)) {
+      expect(result.left.from).toBe('Idle');
+      expect(result.left.action).toBe('RECEIVE_TURN');
+    }
+    expect(useDebateStore.getState().debate).toBe(before);
+  });
+
+  it('routes the named actions through the reducer', () => {
+    const { startDebate, debateStarted } = useDebateStore.getState();
+
+    // Not Starting yet, so this is rejected
+    debateStarted('debate-123');
+    startDebate();
+
+    expect(useDebateStore.getState().debate._tag).toBe('Starting');
+  });
+});
+
+describe('DebateStore - Action Log', () => {
+  beforeEach(() => {
+    useDebateStore.getState().reset();
+    useDebateStore.getState().clearActionLog();
+  });
+
+  it('records accepted and rejected actions in order', () => {
+    const { setConfig, pauseDebate } = useDebateStore.getState();
+
+    setConfig({ question: 'Is AI safe?' });
+    pauseDebate('Too early');
+
+    const log = useDebateStore.getState().actionLog;
+    expect(log.map((entry) => entry.action.type)).toEqual(['UPDATE_CONFIG', 'PAUSE_DEBATE']);
+    expect(O.isNone(log[0]!.rejection)).toBe(true);
+    expect(O.isSome(log[1]!.rejection)).toBe(true);
+  });
+
+  it('exports a trace that replays to the same state', () => {
+    const store = useDebateStore.getState();
+    store.setConfig({ question: 'Test', participants: ['a', 'b'] });
+    store.startDebate();
+    store.debateStarted('debate-123');
+    store.receiveTurn(createTurnResponse({ content: 'Turn 1' }));
+    store.pauseDebate('User requested pause');
+
+    const exported = JSON.parse(store.exportActionLog()) as ActionLogEntry[];
+    const replayed = replay(exported.map((entry) => entry.action), initialStoreState());
+
+    expect(replayed.debate).toEqual(useDebateStore.getState().debate);
+    expect(replayed.config).toEqual(useDebateStore.getState().config);
+  });
+
+  it('coalesces the deltas of a streamed turn into one entry', () => {
+    const store = useDebateStore.getState();
+    store.setConfig({ question: 'Test', participants: ['a', 'b'] });
+    store.startDebate();
+    store.debateStarted('debate-123');
+    store.startTurn('a');
+    store.appendTurnDelta('a', 'Hello');
+    store.appendTurnDelta('a', ', ');
+    store.appendTurnDelta('a', 'world');
+    store.startTurn('b');
+    store.appendTurnDelta('b', 'Hi');
+
+    const log = useDebateStore.getState().actionLog;
+    expect(log.filter((entry) => entry.action.type === 'TURN_DELTA').map((entry) => entry.action)).toEqual([
+      { type: 'TURN_DELTA', payload: { participantId: 'a', delta: 'Hello, world' } },
+      { type: 'TURN_DELTA', payload: { participantId: 'b', delta: 'Hi' } },
+    ]);
+
+    const replayed = replay(log.map((entry) => entry.action), initialStoreState());
+    expect(replayed.streaming).toEqual(useDebateStore.getState().streaming);
+  });
+
+  it('keeps only the most recent entries', () => {
+    const { setConfig } = useDebateStore.getState();
+
+    for (let i = 0; i < MAX_ACTION_LOG_ENTRIES + 5; i++) {
+      setConfig({ rounds: i });
+    }
+
+    const log = useDebateStore.getState().actionLog;
+    expect(log).toHaveLength(MAX_ACTION_LOG_ENTRIES);
+    expect(log[log.length - 1]!.action).toEqual({
+      type: 'UPDATE_CONFIG',
+      payload: { rounds: MAX_ACTION_LOG_ENTRIES + 4 },
+    });
+  });
+
+  it('keeps the log across reset', () => {
+    const { setConfig, reset } = useDebateStore.getState();
+
+    setConfig({ question: 'Test' });
+    reset();
+
+    expect(useDebateStore.getState().actionLog.map((entry) => entry.action.type)).toEqual([
+      'UPDATE_CONFIG',
+      'RESET',
+    ]);
+  });
+});
@@ -7,34 +7,30 @@ import type {
   ConsensusResult,
   ApiError,
   BranchInfo,
+  DebateResponse,
 } from '@debateui/core';
 import {
-  idle,
-  starting,
-  running,
-  paused,
-  completed,
-  error as errorState,
-  initialBranchingState,
+  reduce,
+  initialStoreState,
   type DebateState,
   type BranchingState,
-  type ForkDraft,
+  type StreamingState,
+  type StoreState,
+  type StoreAction,
+  type RejectedTransition,
+  type ActionLogEntry,
 } from '@debateui/core';
+import * as E from 'fp-ts/Either';
 import * as O from 'fp-ts/Option';
 
 // Enable Map/Set support in immer
 enableMapSet();
 
 /**
- * Initial debate configuration with sensible defaults.
+ * Maximum number of entries kept in the action log.
+ * Older entries are dropped first.
  */
-const initialConfig: DebateConfig = {
-  question: '',
-  participants: [],
-  rounds: 4,
-  consensusThreshold: 0.8,
-  forkMode: 'save',
-};
+export const MAX_ACTION_LOG_ENTRIES = 500;
 
 /**
  * Store state interface combining debate, branching, and configuration.
@@ -43,17 +39,29 @@ interface DebateStore {
   // State
   debate: DebateState;
   branching: BranchingState;
+  streaming: StreamingState;
   config: DebateConfig;
+  actionLog: readonly ActionLogEntry[];
+
+  // Dispatch
+  dispatch: (action: StoreAction) => E.Either<RejectedTransition, StoreState>;
+  exportActionLog: () => string;
+  clearActionLog: () => void;
 
   // Debate Actions
   setConfig: (config: Partial<DebateConfig>) => void;
   startDebate: () => void;
   debateStarted: (debateId: string) => void;
+  startTurn: (participantId: string) => void;
+  appendTurnDelta: (participantId: string, delta: string) => void;
   receiveTurn: (turn: TurnResponse) => void;
+  startRound: (round: number) => void;
+  completeRound: (round: number) => void;
   pauseDebate: (reason: string) => void;
   resumeDebate: () => void;
   completeDebate: (consensus: ConsensusResult) => void;
   setError: (error: ApiError, recoverable: boolean) => void;
+  debateLoaded: (debate: DebateResponse, branches: readonly BranchInfo[]) => void;
   reset: () => void;
 
   // Branching Actions
@@ -66,217 +74,251 @@ interface DebateStore {
 }
 
 /**
- * Zustand store with immer middleware for immutable state updates.
+ * Merges a streamed delta into the previous log entry when both are accepted
+ * deltas of the same turn, so a streamed turn takes one entry, not one per
+ * chunk. The merged delta replays to the same content.
+ */
+const coalesceDelta = (
+  previous: ActionLogEntry | undefined,
+  entry: ActionLogEntry
+): O.Option<ActionLogEntry> =>
+  previous !== undefined &&
+  previous.action.type === 'TURN_DELTA' &&
+  entry.action.type === 'TURN_DELTA' &&
+  previous.action.payload.participantId === entry.action.payload.participantId &&
+  O.isNone(previous.rejection) &&
+  O.isNone(entry.rejection)
+    ? O.some({
+        ...previous,
+        action: {
+          type: 'TURN_DELTA',
+          payload: {
+            participantId: previous.action.payload.participantId,
+            delta: previous.action.payload.delta + entry.action.payload.delta,
+          },
+        },
+      })
+    : O.none;
+
+/**
+ * Appends an entry to the action log, dropping the oldest past the limit.
+ * Consecutive deltas of a turn are coalesced into one entry.
+ */
+const appendToLog = (
+  log: readonly ActionLogEntry[],
+  entry: ActionLogEntry
+): readonly ActionLogEntry[] =>
+  O.match(
+    () => [...log, entry].slice(-MAX_ACTION_LOG_ENTRIES),
+    (merged: ActionLogEntry) => [...log.slice(0, -1), merged]
+  )(coalesceDelta(log[log.length - 1], entry));
+
+/**
+ * Zustand store driven by the core reducer.
+ * Every change goes through `dispatch`, which applies `reduce` (and so
+ * `canTransition`) and records the action in the action log, including
+ * rejected ones. The named actions below are thin wrappers around dispatch.
  * Uses fp-ts Option for nullable values to enforce null safety.
  */
 export const useDebateStore = create<DebateStore>()(
-  immer((set) => ({
-    // Initial state
-    debate: idle(),
-    branching: initialBranchingState(),
-    config: initialConfig,
-
-    // Debate Actions
-
-    /**
-     * Updates debate configuration partially.
-     * Can be called in Idle or Configuring state.
-     */
-    setConfig: (newConfig: Partial<DebateConfig>) => {
-      set((state) => {
-        state.config = { ...state.config, ...newConfig };
-      });
-    },
-
-    /**
-     * Initiates debate start sequence.
-     * Transitions from Idle/Configuring to Starting.
-     */
-    startDebate: () => {
-      set((state) => {
-        const currentConfig = state.config;
-        // Cast to any to work around immer WritableDraft readonly incompatibility
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (state.debate as any) = starting(currentConfig);
-      });
-    },
-
-    /**
-     * Confirms debate has started on backend.
-     * Transitions from Starting to Running.
-     */
-    debateStarted: (debateId: string) => {
-      set((state) => {
-        if (state.debate._tag === 'Starting') {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          (state.debate as any) = running(debateId, 1, []);
-        }
-      });
-    },
-
-    /**
-     * Receives a new turn from a participant.
-     * Appends turn to history. Round management is done externally via setRound.
-     */
-    receiveTurn: (turn: TurnResponse) => {
-      set((state) => {
-        if (state.debate._tag === 'Running') {
-          // Create new turns array with the new turn
-          const newTurns = [...state.debate.turns, turn];
-
-          // Cast to any to work around immer WritableDraft readonly incompatibility
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          (state.debate as any) = running(
-            state.debate.debateId,
-            state.debate.currentRound,
-            newTurns
-          );
-        }
-      });
-    },
-
-    /**
-     * Pauses an ongoing debate.
-     * Transitions from Running to Paused.
-     */
-    pauseDebate: (reason: string) => {
-      set((state) => {
-        if (state.debate._tag === 'Running') {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          (state.debate as any) = paused(state.debate.debateId, reason, true);
-        }
-      });
-    },
-
-    /**
-     * Resumes a paused debate.
-     * Transitions from Paused back to Running.
-     */
-    resumeDebate: () => {
-      set((state) => {
-        if (state.debate._tag === 'Paused' && state.debate.canResume) {
-          // Need to restore Running state - use stored data
-          // For now, we'll restore with minimal state
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          (state.debate as any) = running(state.debate.debateId, 1, []);
-        }
-      });
-    },
-
-    /**
-     * Completes the debate with final consensus.
-     * Transitions from Running to Completed.
-     */
-    completeDebate: (consensus: ConsensusResult) => {
-      set((state) => {
-        if (state.debate._tag === 'Running') {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          (state.debate as any) = completed(
-            state.debate.debateId,
-            consensus,
-            state.debate.turns
-          );
-        }
-      });
-    },
-
-    /**
-     * Sets error state with recovery information.
-     * Can transition from any state except Completed.
-     */
-    setError: (error: ApiError, recoverable: boolean) => {
-      set((state) => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (state.debate as any) = errorState(error, recoverable);
-      });
-    },
-
-    /**
-     * Resets store to initial state.
-     * Can be called from any state.
-     */
-    reset: () => {
-      set((state) => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (state.debate as any) = idle();
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (state.branching as any) = initialBranchingState();
-        state.config = initialConfig;
+  immer((set, get) => {
+    const dispatch = (action: StoreAction): E.Either<RejectedTransition, StoreState> => {
+      const { debate, branching, streaming, config, actionLog } = get();
+      const result = reduce({ debate, branching, streaming, config }, action);
+      const entry: ActionLogEntry = {
+        at: Date.now(),
+        action,
+        rejection: E.isLeft(result) ? O.some(result.left) : O.none,
+      };
+
+      set({
+        ...(E.isRight(result) ? result.right : {}),
+        actionLog: appendToLog(actionLog, entry),
       });
-    },
+      return result;
+    };
 
-    // Branching Actions
+    return {
+      // Initial state
+      ...initialStoreState(),
+      actionLog: [],
 
-    /**
-     * Selects a specific branch as the active branch.
-     */
-    selectBranch: (branchId: string) => {
-      set((state) => {
-        state.branching.activeBranchId = O.some(branchId);
-      });
-    },
-
-    /**
-     * Adds a new branch to the branching state.
-     */
-    addBranch: (branch: BranchInfo) => {
-      set((state) => {
-        // Create a new Map with the added branch
-        const newBranches = new Map(state.branching.branches);
-        newBranches.set(branch.branchId, branch);
-        state.branching.branches = newBranches;
-      });
-    },
-
-    /**
-     * Starts creating a fork from a specific turn.
-     * Creates a fork draft in "explore" mode by default.
-     */
-    startFork: (turnId: string, branchId: string) => {
-      set((state) => {
-        const draft: ForkDraft = {
-          parentTurnId: turnId,
-          parentBranchId: branchId,
-          content: '',
-          forkMode: state.config.forkMode,
-        };
-        state.branching.forkDraft = O.some(draft);
-      });
-    },
-
-    /**
-     * Updates the content of the current fork draft.
-     */
-    updateForkDraft: (content: string) => {
-      set((state) => {
-        if (O.isSome(state.branching.forkDraft)) {
-          const currentDraft = state.branching.forkDraft.value;
-          state.branching.forkDraft = O.some({
-            ...currentDraft,
-            content,
-          });
-        }
-      });
-    },
-
-    /**
-     * Cancels the current fork draft.
-     */
-    cancelFork: () => {
-      set((state) => {
-        state.branching.forkDraft = O.none;
-      });
-    },
-
-    /**
-     * Completes the fork and clears the draft.
-     * The actual branch creation is handled by the API layer.
-     */
-    completeFork: (_newBranchId: string) => {
-      set((state) => {
-        state.branching.forkDraft = O.none;
-        // The branch will be added via addBranch when the API responds
-      });
-    },
-  }))
+      dispatch,
+
+      /**
+       * Serializes the action log as JSON, e.g. to attach to a bug report.
+       * The actions can be fed back through `replay` from @debateui/core.
+       */
+      exportActionLog: () => JSON.stringify(get().actionLog, null, 2),
+
+      /**
+       * Clears the action log without touching debate state.
+       */
+      clearActionLog: () => {
+        set({ actionLog: [] });
+      },
+
+      // Debate Actions
+
+      /**
+       * Updates debate configuration partially.
+       * Can be called in Idle or Configuring state.
+       */
+      setConfig: (newConfig: Partial<DebateConfig>) => {
+        dispatch({ type: 'UPDATE_CONFIG', payload: newConfig });
+      },
+
+      /**
+       * Initiates debate start sequence.
+       * Transitions from Idle/Configuring to Starting.
+       */
+      startDebate: () => {
+        dispatch({ type: 'START_DEBATE' });
+      },
+
+      /**
+       * Confirms debate has started on backend.
+       * Transitions from Starting to Running.
+       */
+      debateStarted: (debateId: string) => {
+        dispatch({ type: 'DEBATE_STARTED', payload: { debateId } });
+      },
+
+      /**
+       * Marks a participant as generating a turn.
+       * Adds an empty in-progress turn while Running.
+       */
+      startTurn: (participantId: string) => {
+        dispatch({ type: 'TURN_STARTED', payload: { participantId } });
+      },
+
+      /**
+       * Appends a streamed chunk to a participant's in-progress turn.
+       */
+      appendTurnDelta: (participantId: string, delta: string) => {
+        dispatch({ type: 'TURN_DELTA', payload: { participantId, delta } });
+      },
+
+      /**
+       * Receives a new turn from a participant.
+       * Appends turn to history while Running, tagged with the current round
+       * unless the backend already set one, and replaces the participant's
+       * in-progress turn. Turns already in history are ignored.
+       */
+      receiveTurn: (turn: TurnResponse) => {
+        dispatch({ type: 'RECEIVE_TURN', payload: turn });
+      },
+
+      /**
+       * Marks the start of a round announced by the backend.
+       * Sets the current round while Running.
+       */
+      startRound: (round: number) => {
+        dispatch({ type: 'ROUND_STARTED', payload: { round } });
+      },
+
+      /**
+       * Marks a round as complete.
+       * Advances to the next round, staying on the last configured round.
+       */
+      completeRound: (round: number) => {
+        dispatch({ type: 'ROUND_COMPLETE', payload: { round } });
+      },
+
+      /**
+       * Pauses an ongoing debate.
+       * Transitions from Running to Paused, keeping the round and turns.
+       */
+      pauseDebate: (reason: string) => {
+        dispatch({ type: 'PAUSE_DEBATE', payload: { reason } });
+      },
+
+      /**
+       * Resumes a paused debate.
+       * Transitions from Paused back to Running at the round it was paused in.
+       */
+      resumeDebate: () => {
+        dispatch({ type: 'RESUME_DEBATE' });
+      },
+
+      /**
+       * Completes the debate with final consensus.
+       * Transitions from Running to Completed.
+       */
+      completeDebate: (consensus: ConsensusResult) => {
+        dispatch({ type: 'DEBATE_COMPLETE', payload: { consensus } });
+      },
+
+      /**
+       * Sets error state with recovery information.
+       * Can transition from any state except Completed.
+       */
+      setError: (error: ApiError, recoverable: boolean) => {
+        dispatch({ type: 'ERROR', payload: { error, recoverable } });
+      },
+
+      /**
+       * Hydrates the store from a debate fetched from the API.
+       * Replaces the current debate, derives config from the response and
+       * activates the root branch. Can be called from any state.
+       */
+      debateLoaded: (debate: DebateResponse, branches: readonly BranchInfo[]) => {
+        dispatch({ type: 'DEBATE_LOADED', payload: { debate, branches } });
+      },
+
+      /**
+       * Resets store to initial state.
+       * Can be called from any state. The action log is kept.
+       */
+      reset: () => {
+        dispatch({ type: 'RESET' });
+      },
+
+      // Branching Actions
+
+      /**
+       * Selects a specific branch as the active branch.
+       */
+      selectBranch: (branchId: string) => {
+        dispatch({ type: 'SELECT_BRANCH', payload: { branchId } });
+      },
+
+      /**
+       * Adds a new branch to the branching state.
+       */
+      addBranch: (branch: BranchInfo) => {
+        dispatch({ type: 'ADD_BRANCH', payload: branch });
+      },
+
+      /**
+       * Starts creating a fork from a specific turn.
+       * The draft uses the configured fork mode.
+       */
+      startFork: (turnId: string, branchId: string) => {
+        dispatch({ type: 'START_FORK', payload: { turnId, branchId } });
+      },
+
+      /**
+       * Updates the content of the current fork draft.
+       */
+      updateForkDraft: (content: string) => {
+        dispatch({ type: 'UPDATE_FORK_DRAFT', payload: { content } });
+      },
+
+      /**
+       * Cancels the current fork draft.
+       */
+      cancelFork: () => {
+        dispatch({ type: 'CANCEL_FORK' });
+      },
+
+      /**
+       * Completes the fork and clears the draft.
+       * The branch will be added via addBranch when the API responds.
+       */
+      completeFork: (newBranchId: string) => {
+        dispatch({ type: 'FORK_CREATED', payload: { branchId: newBranchId } });
+      },
+    };
+  })
 );
@@ -3,7 +3,9 @@ import { useDebateStore } from './debate-store';
 import {
   useIsDebateRunning,
   useCurrentRound,
+  useTotalRounds,
   useTurns,
+  useInProgressTurns,
   useActiveBranch,
   useCanFork,
   useForkDraft,
@@ -131,6 +133,27 @@ describe('Selectors - Debate Running State', () => {
     expect(result.current).toBe(1);
   });
 
+  it('useCurrentRound - should return the last played round when Completed', () => {
+    const { startDebate, debateStarted, receiveTurn, completeRound, completeDebate } = useDebateStore.getState();
+
+    startDebate();
+    debateStarted('debate-123');
+    receiveTurn(createTurnResponse({ round: 1 }));
+    completeRound(1);
+    receiveTurn(createTurnResponse({ turnId: 'a1eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', round: 2 }));
+    completeDebate(createConsensusResult({ percentage: 0.9, level: 'strong' }));
+
+    const { result } = renderHook(() => useCurrentRound());
+    expect(result.current).toBe(2);
+  });
+
+  it('useTotalRounds - should return the configured number of rounds', () => {
+    useDebateStore.getState().setConfig({ rounds: 10 });
+
+    const { result } = renderHook(() => useTotalRounds());
+    expect(result.current).toBe(10);
+  });
+
   it('useTurns - should return empty array when Idle', () => {
     const { result } = renderHook(() => useTurns());
     expect(result.current).toEqual([]);
@@ -155,6 +178,17 @@ describe('Selectors - Debate Running State', () => {
     expect(result.current[0]?.turnId).toBe('turn-1');
   });
 
+  it('useInProgressTurns - should return turns being streamed', () => {
+    const { startDebate, debateStarted, appendTurnDelta } = useDebateStore.getState();
+
+    startDebate();
+    debateStarted('debate-123');
+    appendTurnDelta('alice', 'Partial');
+
+    const { result } = renderHook(() => useInProgressTurns());
+    expect(result.current.get('alice')).toEqual({ participantId: 'alice', content: 'Partial' });
+  });
+
   it('useTurns - should return turns when Completed', () => {
     const { setConfig, startDebate, debateStarted, receiveTurn, completeDebate } = useDebateStore.getState();
 
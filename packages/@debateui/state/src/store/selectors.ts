@@ -1,10 +1,12 @@
 import { useDebateStore } from './debate-store';
 import * as O from 'fp-ts/Option';
-import type { DebateState, BranchingState, DebateConfig, TurnResponse, BranchInfo, ConsensusResult, ApiError, ForkDraft } from '@debateui/core';
+import type { DebateState, BranchingState, DebateConfig, TurnResponse, BranchInfo, ConsensusResult, ApiError, ForkDraft, InProgressTurn } from '@debateui/core';
 
 /**
  * Selectors for deriving state from the debate store.
  * These are memoized by Zustand and only re-render when the selected value changes.
+ * Option-returning selectors select the raw value and wrap it outside the
+ * store selector, since a fresh O.some on every call never compares equal.
  */
 
 /**
@@ -32,12 +34,27 @@ export const useIsDebateRunning = (): boolean =>
   useDebateStore((state) => state.debate._tag === 'Running');
 
 /**
- * Returns the current round number, or 0 if not running.
+ * Returns the current round number. A completed debate has no current
+ * round, so it gets the last round a turn was played in; 0 otherwise.
  */
 export const useCurrentRound = (): number =>
-  useDebateStore((state) =>
-    state.debate._tag === 'Running' ? state.debate.currentRound : 0
-  );
+  useDebateStore((state) => {
+    switch (state.debate._tag) {
+      case 'Running':
+      case 'Paused':
+        return state.debate.currentRound;
+      case 'Completed':
+        return state.debate.turns.reduce((last, turn) => Math.max(last, turn.round ?? 0), 0);
+      default:
+        return 0;
+    }
+  });
+
+/**
+ * Returns the total number of rounds configured for the debate.
+ */
+export const useTotalRounds = (): number =>
+  useDebateStore((state) => state.config.rounds);
 
 /**
  * Empty turns array - stable reference for when no turns exist.
@@ -46,27 +63,35 @@ const EMPTY_TURNS: readonly TurnResponse[] = [];
 
 /**
  * Returns the list of turns for the current debate.
- * Returns empty array if debate is not running or completed.
+ * Returns empty array if debate is not running, paused or completed.
  */
 export const useTurns = (): readonly TurnResponse[] =>
   useDebateStore((state) =>
-    state.debate._tag === 'Running' || state.debate._tag === 'Completed'
+    state.debate._tag === 'Running' ||
+    state.debate._tag === 'Paused' ||
+    state.debate._tag === 'Completed'
       ? state.debate.turns
       : EMPTY_TURNS
   );
 
+/**
+ * Returns the turns currently being streamed, keyed by participant.
+ */
+export const useInProgressTurns = (): ReadonlyMap<string, InProgressTurn> =>
+  useDebateStore((state) => state.streaming.turns);
+
 /**
  * Returns the currently active branch, if any.
  * Uses fp-ts Option to safely handle nullable branch lookup.
  */
 export const useActiveBranch = (): O.Option<BranchInfo> =>
-  useDebateStore((state) => {
-    if (O.isNone(state.branching.activeBranchId)) {
-      return O.none;
-    }
-    const branch = state.branching.branches.get(state.branching.activeBranchId.value);
-    return branch ? O.some(branch) : O.none;
-  });
+  O.fromNullable(
+    useDebateStore((state) =>
+      O.isNone(state.branching.activeBranchId)
+        ? undefined
+        : state.branching.branches.get(state.branching.activeBranchId.value)
+    )
+  );
 
 /**
  * Returns true if a fork can be created (debate is running and no fork draft exists).
@@ -88,8 +113,10 @@ export const useForkDraft = (): O.Option<ForkDraft> =>
  * Returns None if debate is not in error state.
  */
 export const useDebateError = (): O.Option<ApiError> =>
-  useDebateStore((state) =>
-    state.debate._tag === 'Error' ? O.some(state.debate.error) : O.none
+  O.fromNullable(
+    useDebateStore((state) =>
+      state.debate._tag === 'Error' ? state.debate.error : undefined
+    )
   );
 
 /**
@@ -97,8 +124,10 @@ export const useDebateError = (): O.Option<ApiError> =>
  * Returns None if debate is not completed.
  */
 export const useConsensus = (): O.Option<ConsensusResult> =>
-  useDebateStore((state) =>
-    state.debate._tag === 'Completed' ? O.some(state.debate.consensus) : O.none
+  O.fromNullable(
+    useDebateStore((state) =>
+      state.debate._tag === 'Completed' ? state.debate.consensus : undefined
+    )
   );
 
 /**
@@ -106,16 +135,18 @@ export const useConsensus = (): O.Option<ConsensusResult> =>
  * Returns None if debate is idle or starting.
  */
 export const useDebateId = (): O.Option<string> =>
-  useDebateStore((state) => {
-    switch (state.debate._tag) {
-      case 'Running':
-      case 'Paused':
-      case 'Completed':
-        return O.some(state.debate.debateId);
-      default:
-        return O.none;
-    }
-  });
+  O.fromNullable(
+    useDebateStore((state) => {
+      switch (state.debate._tag) {
+        case 'Running':
+        case 'Paused':
+        case 'Completed':
+          return state.debate.debateId;
+        default:
+          return undefined;
+      }
+    })
+  );
 
 /**
  * Returns true if the debate is in a terminal state (Completed or Error).
@@ -172,8 +203,8 @@ export const useAllBranches = (): BranchInfo[] => {
  * Returns a specific branch by ID, if it exists.
  */
 export const useBranch = (branchId: string): O.Option<BranchInfo> =>
-  useDebateStore((state) =>
-    O.fromNullable(state.branching.branches.get(branchId))
+  O.fromNullable(
+    useDebateStore((state) => state.branching.branches.get(branchId))
   );
 
 /**
@@ -181,7 +212,11 @@ export const useBranch = (branchId: string): O.Option<BranchInfo> =>
  */
 export const useHasTurns = (): boolean =>
   useDebateStore((state) => {
-    if (state.debate._tag === 'Running' || state.debate._tag === 'Completed') {
+    if (
+      state.debate._tag === 'Running' ||
+      state.debate._tag === 'Paused' ||
+      state.debate._tag === 'Completed'
+    ) {
       return state.debate.turns.length > 0;
     }
     return false;
@@ -192,7 +227,11 @@ export const useHasTurns = (): boolean =>
  */
 export const useTurnCount = (): number =>
   useDebateStore((state) => {
-    if (state.debate._tag === 'Running' || state.debate._tag === 'Completed') {
+    if (
+      state.debate._tag === 'Running' ||
+      state.debate._tag === 'Paused' ||
+      state.debate._tag === 'Completed'
+    ) {
       return state.debate.turns.length;
     }
     return 0;
@@ -202,13 +241,18 @@ export const useTurnCount = (): number =>
  * Returns the last turn in the debate, if any.
  */
 export const useLastTurn = (): O.Option<TurnResponse | undefined> =>
-  useDebateStore((state) => {
-    if (state.debate._tag === 'Running' || state.debate._tag === 'Completed') {
-      const turns = state.debate.turns;
-      return turns.length > 0 ? O.some(turns[turns.length - 1]) : O.none;
-    }
-    return O.none;
-  });
+  O.fromNullable(
+    useDebateStore((state) => {
+      if (
+        state.debate._tag === 'Running' ||
+        state.debate._tag === 'Paused' ||
+        state.debate._tag === 'Completed'
+      ) {
+        return state.debate.turns[state.debate.turns.length - 1];
+      }
+      return undefined;
+    })
+  );
 
 /**
  * Returns true if the debate configuration is complete and valid.